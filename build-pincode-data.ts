@@ -0,0 +1,85 @@
+// Regenerates shared/pincode-data.ts from the India Post "All India Pincode
+// Directory" (data.gov.in). Pass the gzipped post-office list as published in
+// the india-pincode npm package (data/pincodes.json.gz):
+//   npx tsx build-pincode-data.ts path/to/pincodes.json.gz
+import { readFileSync, writeFileSync } from "fs";
+import { gunzipSync } from "zlib";
+import { GST_STATES } from "./shared/gst";
+
+// p: pincode, i: district, s: state
+type PostOffice = { p: string; i: string; s: string };
+
+const source = process.argv[2];
+if (!source) {
+  console.error("Usage: npx tsx build-pincode-data.ts <pincodes.json.gz>");
+  process.exit(1);
+}
+
+const stateCodes = new Map(GST_STATES.map((s) => [s.name.toUpperCase(), s.code]));
+function stateCode(name: string) {
+  const code = stateCodes.get(name.replace(/^THE /, ""));
+  if (!code) throw new Error(`Unknown state in directory: ${name}`);
+  return code;
+}
+
+function titleCase(s: string) {
+  return s
+    .toLowerCase()
+    .replace(/(^|[\s.(-])([a-z])/g, (_m, sep, c) => sep + c.toUpperCase())
+    .replace(/ (And|Of) /g, (w) => w.toLowerCase());
+}
+
+// Count post offices per pincode → state → district; the busiest wins
+const counts = new Map<string, Map<string, Map<string, number>>>();
+const offices: PostOffice[] = JSON.parse(gunzipSync(readFileSync(source)).toString("utf8"));
+for (const o of offices) {
+  if (!/^[1-9][0-9]{5}$/.test(o.p) || o.s === "NA") continue;
+  const code = stateCode(o.s);
+  const states = counts.get(o.p) ?? new Map<string, Map<string, number>>();
+  const districts = states.get(code) ?? new Map<string, number>();
+  districts.set(o.i, (districts.get(o.i) ?? 0) + 1);
+  states.set(code, districts);
+  counts.set(o.p, states);
+}
+
+const total = (m: Map<string, number>) => Array.from(m.values()).reduce((a, b) => a + b, 0);
+const byDistrict = new Map<string, number[]>();
+const multiState: [string, string[]][] = [];
+for (const [pin, states] of Array.from(counts).sort(([a], [b]) => a.localeCompare(b))) {
+  const ranked = Array.from(states).sort(([, a], [, b]) => total(b) - total(a));
+  const [code, districts] = ranked[0];
+  const district = Array.from(districts).sort(([, a], [, b]) => b - a)[0][0];
+  const key = `${code}|${titleCase(district)}`;
+  byDistrict.set(key, [...(byDistrict.get(key) ?? []), Number(pin)]);
+  if (ranked.length > 1) multiState.push([pin, ranked.map(([c]) => c)]);
+}
+
+// First pincode in full, then the gaps between consecutive ones, all in base 36
+const rows = Array.from(byDistrict)
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([key, pins]) => {
+    const [code, district] = key.split("|");
+    const encoded = pins.map((p, i) => (i === 0 ? p : p - pins[i - 1]).toString(36)).join(".");
+    return `  [${JSON.stringify(code)}, ${JSON.stringify(district)}, ${JSON.stringify(encoded)}],`;
+  });
+
+const out = `/* =========================================================
+   INDIA PINCODE DIRECTORY (generated — do not edit)
+   Built by build-pincode-data.ts from the India Post "All India Pincode
+   Directory" (data.gov.in): ${counts.size} pincodes in ${rows.length} districts.
+   =======================================================*/
+
+// [GST state code, district, pincodes]; pincodes are base 36, the first in
+// full and each later one as the gap from the previous, "." separated
+export const PINCODE_DISTRICTS: [string, string, string][] = [
+${rows.join("\n")}
+];
+
+// Pincodes whose post offices sit in more than one state, main state first
+export const MULTI_STATE_PINCODES: Record<string, string[]> = {
+${multiState.map(([pin, codes]) => `  "${pin}": ${JSON.stringify(codes)},`).join("\n")}
+};
+`;
+
+writeFileSync(new URL("./shared/pincode-data.ts", import.meta.url), out);
+console.log(`Wrote ${counts.size} pincodes, ${rows.length} districts, ${multiState.length} multi-state`);
@@ -19,6 +19,8 @@ import BlogPage from "./pages/blog";
 import BlogDetailPage from "./pages/blog-detail";
 import CSRSupportPage from "./pages/csr-support";
 import BulkBuyPage from "./pages/bulk-buy";
+import MyDevices from "./pages/my-devices";
+import PointsStatementPage from "./pages/points-statement";
 
 function Routes() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -52,6 +54,14 @@ function Routes() {
         {isAuthenticated ? <MyOrders /> : <Login />}
       </Route>
 
+      <Route path="/my-devices">
+        {isAuthenticated ? <MyDevices /> : <Login />}
+      </Route>
+
+      <Route path="/points">
+        {isAuthenticated ? <PointsStatementPage /> : <Login />}
+      </Route>
+
       <Route path="/login">
         {isAuthenticated ? <Dashboard /> : <Login />}
       </Route>
@@ -95,6 +105,7 @@ function App() {
       <TooltipProvider>
         <AuthProvider>
           <Toaster />
+          <SessionTimer />
           <Routes />
         </AuthProvider>
       </TooltipProvider>
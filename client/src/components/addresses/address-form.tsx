@@ -0,0 +1,176 @@
+// src/components/addresses/address-form.tsx
+import { useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ADDRESS_PHONE_PATTERN } from "@shared/addresses";
+import { gstStateName } from "@shared/gst";
+import { lookupPincode } from "@shared/pincodes";
+import type { AddressFormValues, SavedAddress } from "./types";
+
+interface AddressFormProps {
+  address?: SavedAddress; // edit when set, add otherwise
+  onSaved: (address: SavedAddress) => void;
+  onCancel: () => void;
+}
+
+function initialValues(a?: SavedAddress): AddressFormValues {
+  return {
+    label: a?.label ?? "Home",
+    line1: a?.line1 ?? "",
+    line2: a?.line2 ?? "",
+    city: a?.city ?? "",
+    state: a?.state ?? "",
+    pincode: a?.pincode ?? "",
+    phone: a?.phone ?? "",
+    isDefault: a?.isDefault ?? false,
+  };
+}
+
+export function AddressForm({ address, onSaved, onCancel }: AddressFormProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [values, setValues] = useState<AddressFormValues>(() => initialValues(address));
+  // the district last filled in as the city from a pincode; a typed city is left alone
+  const autoCity = useRef<string | null>(null);
+
+  const set = (patch: Partial<AddressFormValues>) => setValues((v) => ({ ...v, ...patch }));
+
+  const onPincode = (raw: string) => {
+    const pincode = raw.replace(/\D/g, "").slice(0, 6);
+    const info = pincode.length === 6 ? lookupPincode(pincode) : null;
+    setValues((v) => {
+      const cityIsAuto = !v.city || v.city === autoCity.current;
+      const city = info && cityIsAuto ? info.district : v.city;
+      if (info && cityIsAuto) autoCity.current = info.district;
+      // a state already picked for a pincode serving two states survives retyping it
+      const keepState = !!info && info.stateCodes.some((c) => gstStateName(c) === v.state);
+      return { ...v, pincode, state: keepState ? v.state : (info?.state ?? ""), city };
+    });
+  };
+
+  const pincodeInfo = values.pincode.length === 6 ? lookupPincode(values.pincode) : null;
+  const phoneOk = ADDRESS_PHONE_PATTERN.test(values.phone);
+  const complete = !!(values.line1.trim() && values.city.trim() && pincodeInfo && phoneOk);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = address
+        ? await apiRequest("PUT", `/api/addresses/${address.id}`, values)
+        : await apiRequest("POST", "/api/addresses", values);
+      return res.json() as Promise<SavedAddress>;
+    },
+    onSuccess: (saved) => {
+      qc.invalidateQueries({ queryKey: ["/api/addresses"] });
+      onSaved(saved);
+    },
+    onError: (e: any) => toast({ title: "Could not save address", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <div className="space-y-3 border rounded-lg p-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="addr-label">Label</Label>
+          <Input
+            id="addr-label"
+            placeholder="Home, Parents, ..."
+            value={values.label}
+            onChange={(e) => set({ label: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="addr-phone">
+            Mobile <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id="addr-phone"
+            inputMode="numeric"
+            placeholder="10-digit mobile"
+            value={values.phone}
+            onChange={(e) => set({ phone: e.target.value.replace(/\D/g, "").slice(0, 10) })}
+          />
+          {values.phone && !phoneOk && <p className="text-xs text-red-500">Enter a 10-digit mobile number</p>}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="addr-line1">
+          Flat / house, building, street <span className="text-red-500">*</span>
+        </Label>
+        <Input id="addr-line1" value={values.line1} onChange={(e) => set({ line1: e.target.value })} />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="addr-line2">Area, landmark</Label>
+        <Input id="addr-line2" value={values.line2} onChange={(e) => set({ line2: e.target.value })} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="addr-pincode">
+            PIN code <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id="addr-pincode"
+            inputMode="numeric"
+            placeholder="e.g., 400001"
+            value={values.pincode}
+            onChange={(e) => onPincode(e.target.value)}
+            maxLength={6}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="addr-city">
+            City <span className="text-red-500">*</span>
+          </Label>
+          <Input id="addr-city" value={values.city} onChange={(e) => set({ city: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="addr-state">State</Label>
+          {pincodeInfo && pincodeInfo.stateCodes.length > 1 ? (
+            <select
+              id="addr-state"
+              className="w-full border rounded-md p-2 text-sm bg-background"
+              value={values.state}
+              onChange={(e) => set({ state: e.target.value })}
+            >
+              {pincodeInfo.stateCodes.map((c) => (
+                <option key={c} value={gstStateName(c)}>
+                  {gstStateName(c)}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <Input id="addr-state" value={values.state} placeholder="From PIN code" disabled />
+          )}
+        </div>
+      </div>
+      {values.pincode.length === 6 && !pincodeInfo && (
+        <p className="text-xs text-red-500">We don't recognise this PIN code</p>
+      )}
+
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox
+          checked={values.isDefault}
+          disabled={address?.isDefault}
+          onCheckedChange={(checked) => set({ isDefault: checked === true })}
+        />
+        Use as my default address
+      </label>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" disabled={!complete || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+          {saveMutation.isPending ? "Saving..." : "Save address"}
+        </Button>
+      </div>
+    </div>
+  );
+}
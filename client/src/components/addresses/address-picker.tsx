@@ -0,0 +1,101 @@
+// src/components/addresses/address-picker.tsx
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatAddress, MAX_SAVED_ADDRESSES } from "@shared/addresses";
+import { AddressForm } from "./address-form";
+import type { SavedAddress } from "./types";
+
+interface AddressPickerProps {
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+// Saved addresses to deliver to, with add / edit / delete in place. Picks the default on load.
+export function AddressPicker({ selectedId, onSelect }: AddressPickerProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [editing, setEditing] = useState<SavedAddress | "new" | null>(null);
+
+  const { data: addresses = [], isLoading } = useQuery<SavedAddress[]>({ queryKey: ["/api/addresses"] });
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (selectedId && addresses.some((a) => a.id === selectedId)) return;
+    onSelect((addresses.find((a) => a.isDefault) ?? addresses[0])?.id ?? null);
+    if (addresses.length === 0) setEditing("new");
+  }, [addresses, isLoading, selectedId, onSelect]);
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => (await apiRequest("DELETE", `/api/addresses/${id}`)).json(),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["/api/addresses"] }),
+    onError: (e: any) => toast({ title: "Could not delete address", description: e.message, variant: "destructive" }),
+  });
+
+  if (isLoading) return <p className="text-sm text-muted-foreground">Loading addresses...</p>;
+
+  return (
+    <div className="space-y-2">
+      {addresses.map((a) =>
+        editing !== "new" && editing?.id === a.id ? (
+          <AddressForm key={a.id} address={a} onSaved={() => setEditing(null)} onCancel={() => setEditing(null)} />
+        ) : (
+          <label
+            key={a.id}
+            className={`flex items-start gap-3 border rounded-lg p-3 cursor-pointer ${
+              selectedId === a.id ? "border-primary bg-primary/5" : ""
+            }`}
+          >
+            <input
+              type="radio"
+              name="saved-address"
+              className="mt-1"
+              checked={selectedId === a.id}
+              onChange={() => onSelect(a.id)}
+            />
+            <div className="flex-1 text-sm">
+              <div className="flex items-center gap-2 font-medium">
+                {a.label}
+                {a.isDefault && <Badge variant="secondary">Default</Badge>}
+              </div>
+              <p className="text-muted-foreground">{formatAddress(a)}</p>
+            </div>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditing(a)} title="Edit">
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Delete"
+              disabled={deleteMutation.isPending}
+              onClick={() => window.confirm(`Delete the "${a.label}" address?`) && deleteMutation.mutate(a.id)}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </label>
+        )
+      )}
+
+      {editing === "new" ? (
+        <AddressForm
+          onSaved={(saved) => {
+            setEditing(null);
+            onSelect(saved.id);
+          }}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        addresses.length < MAX_SAVED_ADDRESSES && (
+          <Button variant="outline" size="sm" onClick={() => setEditing("new")}>
+            <Plus className="h-4 w-4 mr-1" /> Add new address
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
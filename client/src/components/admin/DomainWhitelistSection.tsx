@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useAdminAccess } from "@/hooks/use-admin-access";
 import { apiRequest } from "@/lib/queryClient";
 import { Save, X, Trash2, Edit, Check, X as XIcon, UserPlus, Shield, Settings } from "lucide-react";
 
@@ -23,6 +24,8 @@ interface DomainWhitelist {
 export function DomainWhitelistSection() {
   const { toast } = useToast();
   const qc = useQueryClient();
+  const { can } = useAdminAccess();
+  const canEdit = can("domains.write");
   const { data: domains = [], isLoading } = useQuery<DomainWhitelist[]>({ 
     queryKey: ["/api/admin/domain-whitelist"] 
   });
@@ -172,19 +175,21 @@ export function DomainWhitelistSection() {
         </CardHeader>
         <CardContent className="space-y-6">
           {/* Add new domain */}
-          <div className="flex items-center gap-2">
-            <Input
-              placeholder="Enter domain (e.g., company.com)"
-              value={newDomain}
-              onChange={(e) => setNewDomain(e.target.value)}
-              onKeyPress={(e) => e.key === 'Enter' && handleAddDomain()}
-              disabled={addDomainMutation.isPending}
-            />
-            <Button onClick={handleAddDomain} disabled={addDomainMutation.isPending}>
-              <UserPlus className="h-4 w-4 mr-2" />
-              Add Domain
-            </Button>
-          </div>
+          {canEdit && (
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Enter domain (e.g., company.com)"
+                value={newDomain}
+                onChange={(e) => setNewDomain(e.target.value)}
+                onKeyPress={(e) => e.key === 'Enter' && handleAddDomain()}
+                disabled={addDomainMutation.isPending}
+              />
+              <Button onClick={handleAddDomain} disabled={addDomainMutation.isPending}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Add Domain
+              </Button>
+            </div>
+          )}
 
           {/* Domains table */}
           {domains.length === 0 ? (
@@ -305,7 +310,7 @@ export function DomainWhitelistSection() {
                                 Cancel
                               </Button>
                             </div>
-                          ) : (
+                          ) : canEdit ? (
                             <div className="flex gap-2">
                               <Button 
                                 size="sm" 
@@ -325,6 +330,8 @@ export function DomainWhitelistSection() {
                                 Delete
                               </Button>
                             </div>
+                          ) : (
+                            "—"
                           )}
                         </TableCell>
                       </TableRow>
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { Lock, Mail, ShieldCheck } from "lucide-react";
+
+export type AdminLoginResult = {
+  token: string;
+  employee: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    points: number;
+    role: string;
+  };
+  expiresAt: string;
+};
+
+interface AdminLoginProps {
+  onAuthenticated: (result: AdminLoginResult) => void;
+  // shown when a signed-in employee lacks an admin-panel role
+  deniedMessage?: string | null;
+}
+
+function errorText(err: any, fallback: string) {
+  if (!(err instanceof ApiError)) return fallback;
+  const msg = err.data?.message || fallback;
+  const remaining = err.data?.remainingAttempts;
+  if (!err.data?.isLocked && typeof remaining === "number" && remaining > 0) {
+    return `${msg} (${remaining} attempt${remaining === 1 ? "" : "s"} left)`;
+  }
+  return msg;
+}
+
+export function AdminLogin({ onAuthenticated, deniedMessage }: AdminLoginProps) {
+  const { toast } = useToast();
+  const [step, setStep] = useState<"email" | "code">("email");
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+
+  const sendOtp = useMutation({
+    mutationFn: async (addr: string) => {
+      const res = await apiRequest("POST", "/api/auth/admin/send-otp", { email: addr });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setStep("code");
+      setCode("");
+      toast({ title: "OTP sent", description: data?.message || "Please check your email" });
+    },
+    onError: (e: any) =>
+      toast({ title: "Error", description: errorText(e, "Failed to send OTP"), variant: "destructive" }),
+  });
+
+  const verifyOtp = useMutation({
+    mutationFn: async (payload: { email: string; code: string }) => {
+      const res = await apiRequest("POST", "/api/auth/admin/verify-otp", payload);
+      return (await res.json()) as AdminLoginResult;
+    },
+    onSuccess: (data) => {
+      setCode("");
+      onAuthenticated(data);
+    },
+    onError: (e: any) => {
+      if (e instanceof ApiError && e.data?.isLocked) setStep("email");
+      toast({ title: "Verification Failed", description: errorText(e, "Invalid OTP"), variant: "destructive" });
+    },
+  });
+
+  const handleSendOtp = (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = email.trim().toLowerCase();
+    if (!normalized) return;
+    setEmail(normalized);
+    sendOtp.mutate(normalized);
+  };
+
+  const handleVerify = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length !== 6) return;
+    verifyOtp.mutate({ email, code });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              Admin Access
+            </CardTitle>
+            <ShieldCheck className="h-5 w-5 text-muted-foreground" />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {deniedMessage && (
+            <p className="text-sm text-red-600 mb-4" data-testid="text-admin-denied">
+              {deniedMessage}
+            </p>
+          )}
+
+          {step === "email" ? (
+            <form onSubmit={handleSendOtp} className="space-y-4">
+              <div>
+                <Label htmlFor="adminEmail">Admin Email</Label>
+                <Input
+                  id="adminEmail"
+                  type="email"
+                  autoComplete="email"
+                  placeholder="you@company.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  data-testid="input-admin-email"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={sendOtp.isPending}
+                data-testid="button-admin-send-otp"
+              >
+                <Mail className="h-4 w-4 mr-2" />
+                {sendOtp.isPending ? "Sending..." : "Send OTP"}
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleVerify} className="space-y-4">
+              <div>
+                <Label htmlFor="adminOtp">Enter OTP sent to {email}</Label>
+                <Input
+                  id="adminOtp"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  autoComplete="one-time-code"
+                  placeholder="6-digit code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                  maxLength={6}
+                  className="text-center tracking-widest font-semibold"
+                  autoFocus
+                  data-testid="input-admin-otp"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={verifyOtp.isPending || code.length !== 6}
+                data-testid="button-admin-verify-otp"
+              >
+                {verifyOtp.isPending ? "Verifying..." : "Verify & Unlock"}
+              </Button>
+              <div className="flex justify-between">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setStep("email")}>
+                  Change Email
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => sendOtp.mutate(email)}
+                  disabled={sendOtp.isPending}
+                >
+                  Resend OTP
+                </Button>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
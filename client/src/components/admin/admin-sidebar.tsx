@@ -10,7 +10,17 @@ import {
   Lock,
   Megaphone,
   FileText,
+  ShoppingBag,
+  ScrollText,
+  Undo2,
+  Building2,
+  ScanLine,
+  Mail,
+  Wallet,
+  type LucideIcon,
 } from "lucide-react";
+import type { AdminPermission } from "@shared/permissions";
+import { useAdminAccess } from "@/hooks/use-admin-access";
 
 interface AdminSidebarProps {
   activeSection: string;
@@ -18,21 +28,38 @@ interface AdminSidebarProps {
   onLogout?: () => void; // lock-and-exit action
 }
 
+type AdminMenuItem = { id: string; label: string; icon: LucideIcon; permission: AdminPermission };
+
+// Each section is shown to admins holding its read permission (see shared/permissions.ts)
+export const ADMIN_MENU_ITEMS: AdminMenuItem[] = [
+  { id: "dashboard", label: "Dashboard", icon: BarChart3, permission: "dashboard.read" },
+  { id: "employees", label: "Employees", icon: Users, permission: "employees.read" },
+  { id: "domains", label: "Whitelist Domains", icon: Users, permission: "domains.read" },
+  { id: "products", label: "Products", icon: Package, permission: "products.read" },
+  { id: "campaigns", label: "Campaigns", icon: Megaphone, permission: "campaigns.read" },
+  { id: "orders", label: "Orders", icon: Receipt, permission: "orders.read" },
+  { id: "returns", label: "Returns", icon: Undo2, permission: "orders.read" },
+  { id: "desk", label: "Distribution Desk", icon: ScanLine, permission: "orders.write" },
+  { id: "offices", label: "Office Locations", icon: Building2, permission: "offices.read" },
+  { id: "payments", label: "Payments", icon: Wallet, permission: "payments.read" },
+  { id: "bulkbuy", label: "Bulk Buy Requests", icon: ShoppingBag, permission: "bulkbuy.read" },
+  { id: "blogs", label: "Blogs", icon: FileText, permission: "blogs.read" },
+  { id: "emails", label: "Emails", icon: Mail, permission: "emails.read" },
+  { id: "branding", label: "Branding", icon: Palette, permission: "branding.write" },
+  { id: "audit", label: "Audit Log", icon: ScrollText, permission: "audit.read" },
+];
+
+export function visibleAdminSections(can: (permission: AdminPermission) => boolean) {
+  return ADMIN_MENU_ITEMS.filter((item) => can(item.permission));
+}
+
 export function AdminSidebar({
   activeSection,
   onSectionChange,
   onLogout,
 }: AdminSidebarProps) {
-  const menuItems = [
-    { id: "dashboard", label: "Dashboard", icon: BarChart3 },
-    { id: "employees", label: "Employees", icon: Users },
-    { id: "domains", label: "Whitelist Domains", icon: Users },
-    { id: "products", label: "Products", icon: Package },
-    { id: "campaigns", label: "Campaigns", icon: Megaphone },
-    { id: "orders", label: "Orders", icon: Receipt },
-    { id: "blogs", label: "Blogs", icon: FileText }, // New item
-    { id: "branding", label: "Branding", icon: Palette },
-  ];
+  const { can } = useAdminAccess();
+  const menuItems = visibleAdminSections(can);
 
   return (
     <aside className="admin-sidebar w-64 text-black p-6">
@@ -76,7 +103,7 @@ export function AdminSidebar({
           data-testid="button-admin-logout"
         >
           <LogOut className="h-5 w-5" />
-          <span>Lock Admin</span>
+          <span>Log out</span>
           <Lock className="h-4 w-4 ml-auto opacity-70" />
         </Button>
       </nav>
@@ -0,0 +1,217 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { csvEscape, downloadBlob } from "@/lib/csv-utils";
+import { Download } from "lucide-react";
+import type { AuditChanges, AuditEvent, AuditFilters } from "./types";
+
+const ENTITY_TYPES = [
+  "employee",
+  "product",
+  "category",
+  "campaign",
+  "domain",
+  "blog",
+  "branding",
+  "bulkbuy_access",
+  "bulkbuy_request",
+  "points_transaction",
+  "order",
+  "return_request",
+  "shipment",
+  "invoice",
+  "office_location",
+  "email_template",
+  "email",
+  "payment",
+];
+
+const EMPTY_FILTERS: AuditFilters = { entityType: "", action: "", actorEmail: "", entityId: "", from: "", to: "" };
+
+function buildQueryUrl(f: AuditFilters) {
+  const params = new URLSearchParams();
+  if (f.entityType) params.set("entityType", f.entityType);
+  if (f.action.trim()) params.set("action", f.action.trim());
+  if (f.actorEmail.trim()) params.set("actorEmail", f.actorEmail.trim().toLowerCase());
+  if (f.entityId.trim()) params.set("entityId", f.entityId.trim());
+  // date inputs are local days; send the whole day
+  if (f.from) params.set("from", new Date(`${f.from}T00:00:00`).toISOString());
+  if (f.to) params.set("to", new Date(`${f.to}T23:59:59.999`).toISOString());
+  const qs = params.toString();
+  return qs ? `/api/admin/audit-events?${qs}` : "/api/admin/audit-events";
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// one line per field: "field: before → after"
+function describeChanges(changes: AuditChanges) {
+  const before = changes.before ?? {};
+  const after = changes.after ?? {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys.map((key) => ({
+    key,
+    before: changes.before ? formatValue(before[key]) : null,
+    after: changes.after ? formatValue(after[key]) : null,
+  }));
+}
+
+function ChangesCell({ changes }: { changes: AuditChanges }) {
+  const rows = describeChanges(changes);
+  if (rows.length === 0) return <span className="text-muted-foreground">—</span>;
+
+  return (
+    <div className="space-y-0.5 text-xs font-mono max-w-[420px]">
+      {rows.map((r) => (
+        <p key={r.key} className="break-all">
+          <span className="font-semibold">{r.key}:</span>{" "}
+          {r.before !== null && <span className="text-red-600 line-through">{r.before}</span>}
+          {r.before !== null && r.after !== null && " → "}
+          {r.after !== null && <span className="text-green-700">{r.after}</span>}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export function AuditLogTable() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const url = useMemo(() => buildQueryUrl(filters), [filters]);
+
+  const { data: events = [], isLoading, isError, error } = useQuery<AuditEvent[]>({
+    queryKey: [url],
+    staleTime: 0,
+  });
+
+  const exportCsv = () => {
+    const header = ["Time", "Actor", "Action", "Entity Type", "Entity ID", "IP", "Before", "After"]
+      .map(csvEscape)
+      .join(",");
+    const rows = events.map((e) =>
+      [
+        new Date(e.createdAt).toISOString(),
+        e.actorEmail ?? "",
+        e.action,
+        e.entityType,
+        e.entityId ?? "",
+        e.ip ?? "",
+        e.changes.before ? JSON.stringify(e.changes.before) : "",
+        e.changes.after ? JSON.stringify(e.changes.after) : "",
+      ]
+        .map(csvEscape)
+        .join(",")
+    );
+
+    const csv = [header, ...rows].join("\r\n");
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+    downloadBlob(blob, `audit-log-${stamp}.csv`);
+    toast({ title: "Export started", description: `${events.length} event(s) exported.` });
+  };
+
+  const set = (key: keyof AuditFilters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setDraft((d) => ({ ...d, [key]: e.target.value }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Audit Log</CardTitle>
+        <Button variant="outline" onClick={exportCsv} disabled={events.length === 0}>
+          <Download className="h-4 w-4 mr-1" />
+          Export CSV
+        </Button>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <form
+          className="grid grid-cols-1 md:grid-cols-6 gap-2 items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setFilters(draft);
+          }}
+        >
+          <select className="border rounded-md p-2 text-sm bg-background" value={draft.entityType} onChange={set("entityType")}>
+            <option value="">All entities</option>
+            {ENTITY_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+          <Input value={draft.action} onChange={set("action")} placeholder="Action, e.g. employee.update" />
+          <Input value={draft.actorEmail} onChange={set("actorEmail")} placeholder="Actor email" />
+          <Input value={draft.entityId} onChange={set("entityId")} placeholder="Entity ID" />
+          <div className="flex gap-2 md:col-span-2">
+            <Input type="date" value={draft.from} onChange={set("from")} aria-label="From date" />
+            <Input type="date" value={draft.to} onChange={set("to")} aria-label="To date" />
+          </div>
+          <div className="flex gap-2 md:col-span-6 justify-end">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => {
+                setDraft(EMPTY_FILTERS);
+                setFilters(EMPTY_FILTERS);
+              }}
+            >
+              Clear
+            </Button>
+            <Button type="submit">Apply filters</Button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="py-8 text-sm text-muted-foreground">Loading audit events…</div>
+        ) : isError ? (
+          <div className="py-8 text-sm text-red-600">{(error as any)?.message || "Failed to load audit log"}</div>
+        ) : events.length === 0 ? (
+          <div className="py-8 text-sm text-muted-foreground">No audit events match these filters.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>IP</TableHead>
+                </TableRow>
+              </TableHeader>
+
+              <TableBody>
+                {events.map((e) => (
+                  <TableRow key={e.id}>
+                    <TableCell className="text-sm whitespace-nowrap">{new Date(e.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-sm">{e.actorEmail || "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{e.action}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p>{e.entityType}</p>
+                      {e.entityId && <p className="font-mono text-xs text-muted-foreground">{e.entityId}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <ChangesCell changes={e.changes} />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{e.ip || "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,25 @@
+export type AuditChanges = {
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+};
+
+export type AuditEvent = {
+  id: string;
+  actorEmployeeId: string | null;
+  actorEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  changes: AuditChanges;
+  ip: string | null;
+  createdAt: string;
+};
+
+export type AuditFilters = {
+  entityType: string;
+  action: string;
+  actorEmail: string;
+  entityId: string;
+  from: string; // yyyy-mm-dd
+  to: string; // yyyy-mm-dd
+};
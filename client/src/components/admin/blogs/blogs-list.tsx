@@ -5,6 +5,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useAdminAccess } from "@/hooks/use-admin-access";
 import { apiRequest } from "@/lib/queryClient";
 import { Edit, Trash, Eye, Calendar, User } from "lucide-react";
 import { BlogEditModal } from "./blog-edit-modal";
@@ -13,6 +14,8 @@ import type { Blog } from "./types";
 export function BlogsList() {
   const { toast } = useToast();
   const qc = useQueryClient();
+  const { can } = useAdminAccess();
+  const canEdit = can("blogs.write");
   const { data: blogs = [] } = useQuery<Blog[]>({ 
     queryKey: ["/api/admin/blogs"] 
   });
@@ -112,8 +115,8 @@ export function BlogsList() {
                     <TableCell>
                       <Badge 
                         variant={blog.isPublished ? "default" : "secondary"}
-                        className="cursor-pointer"
-                        onClick={() => togglePublishStatus(blog)}
+                        className={canEdit ? "cursor-pointer" : undefined}
+                        onClick={canEdit ? () => togglePublishStatus(blog) : undefined}
                       >
                         {blog.isPublished ? "Published" : "Draft"}
                       </Badge>
@@ -134,25 +137,29 @@ export function BlogsList() {
                       {new Date(blog.createdAt).toLocaleDateString()}
                     </TableCell>
                     <TableCell>
-                      <div className="flex flex-wrap gap-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => setEditingBlog(blog)}
-                        >
-                          <Edit className="h-4 w-4 mr-1" />
-                          Edit
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          onClick={() => deleteBlogMutation.mutate(blog.id)}
-                          disabled={deleteBlogMutation.isPending}
-                        >
-                          <Trash className="h-4 w-4 mr-1" />
-                          Delete
-                        </Button>
-                      </div>
+                      {canEdit ? (
+                        <div className="flex flex-wrap gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setEditingBlog(blog)}
+                          >
+                            <Edit className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => deleteBlogMutation.mutate(blog.id)}
+                            disabled={deleteBlogMutation.isPending}
+                          >
+                            <Trash className="h-4 w-4 mr-1" />
+                            Delete
+                          </Button>
+                        </div>
+                      ) : (
+                        "—"
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
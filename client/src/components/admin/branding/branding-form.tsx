@@ -9,6 +9,8 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { UploadIcon } from "lucide-react";
 import { uploadFiles } from "@/lib/admin-utils";
+import { GST_STATES } from "@shared/gst";
+import { PAYMENT_PROVIDERS, PAYMENT_PROVIDER_LABEL, type PaymentProviderId } from "@shared/payments";
 import type { Branding } from "./types";
 
 export function BrandingForm() {
@@ -25,12 +27,14 @@ export function BrandingForm() {
   const [inrPerPoint, setInrPerPoint] = useState("1.00");
   const [maxSelections, setMaxSelections] = useState("1");
   const [customMax, setCustomMax] = useState("");
+  const [cancelWindow, setCancelWindow] = useState("24");
 
   useEffect(() => {
     if (branding) {
       setPrimaryColor(branding.primaryColor || "#1e40af");
       setAccentColor(branding.accentColor || "#f97316");
       setInrPerPoint(branding.inrPerPoint || "1.00");
+      setCancelWindow(String(branding.selfCancelWindowHours ?? 24));
       const val = branding.maxSelectionsPerUser;
       if (val === -1) {
         setMaxSelections("infinite");
@@ -182,6 +186,109 @@ export function BrandingForm() {
               />
             )}
           </div>
+
+          <div className="space-y-2">
+            <Label>Payment gateway</Label>
+            <select
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={branding?.paymentProvider || "phonepe"}
+              onChange={(e) => updateBrandingMutation.mutate({ paymentProvider: e.target.value as PaymentProviderId })}
+            >
+              {PAYMENT_PROVIDERS.map((p) => (
+                <option key={p} value={p}>
+                  {PAYMENT_PROVIDER_LABEL[p]}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">
+              Takes copay payments. Its keys are set in the server environment.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Self-cancel window (hours)</Label>
+            <Input
+              type="number"
+              min="0"
+              value={cancelWindow}
+              onChange={(e) => setCancelWindow(e.target.value)}
+              onBlur={(e) => {
+                const val = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                setCancelWindow(String(val));
+                updateBrandingMutation.mutate({ selfCancelWindowHours: val });
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              How long employees can cancel their own order before it is packed. 0 turns self-cancel off.
+            </p>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>GSTIN</Label>
+            <Input
+              defaultValue={branding?.gstin || ""}
+              onBlur={(e) => updateBrandingMutation.mutate({ gstin: e.target.value.trim().toUpperCase() || null })}
+              placeholder="29ABCDE1234F1Z5"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>GST state</Label>
+            <select
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={branding?.gstStateCode || ""}
+              onChange={(e) => updateBrandingMutation.mutate({ gstStateCode: e.target.value || null })}
+            >
+              <option value="">Not set</option>
+              {GST_STATES.map((s) => (
+                <option key={s.code} value={s.code}>
+                  {s.code} · {s.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">
+              Deliveries within this state are taxed CGST + SGST, elsewhere IGST.
+            </p>
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label>Registered address (printed on invoices)</Label>
+            <Textarea
+              defaultValue={branding?.invoiceAddress || ""}
+              onBlur={(e) => updateBrandingMutation.mutate({ invoiceAddress: e.target.value.trim() || null })}
+            />
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Support email</Label>
+            <Input
+              type="email"
+              defaultValue={branding?.supportEmail || ""}
+              onBlur={(e) => updateBrandingMutation.mutate({ supportEmail: e.target.value.trim() || null })}
+              placeholder="support@example.com"
+            />
+            <p className="text-xs text-muted-foreground">
+              Shown in email footers; receives bulk buy notifications when no procurement contact is set.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Email CC (comma-separated)</Label>
+            <Input
+              defaultValue={branding?.emailCc?.join(", ") || ""}
+              onBlur={(e) =>
+                updateBrandingMutation.mutate({
+                  emailCc: e.target.value.split(",").map((a) => a.trim()).filter(Boolean),
+                })
+              }
+              placeholder="ops@example.com, hr@example.com"
+            />
+            <p className="text-xs text-muted-foreground">Copied on staff notifications such as bulk buy requests.</p>
+          </div>
         </div>
 
         <div className="space-y-2">
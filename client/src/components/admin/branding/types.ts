@@ -1,3 +1,5 @@
+import type { PaymentProviderId } from "@shared/payments";
+
 export type Branding = {
     id: string;
     logoUrl: string | null;
@@ -8,5 +10,12 @@ export type Branding = {
     bannerText: string | null;
     inrPerPoint: string;
     maxSelectionsPerUser: number;
+    selfCancelWindowHours: number;
+    gstin: string | null;
+    invoiceAddress: string | null;
+    gstStateCode: string | null;
+    supportEmail: string | null;
+    emailCc: string[];
+    paymentProvider: PaymentProviderId;
     updatedAt: string;
   };
\ No newline at end of file
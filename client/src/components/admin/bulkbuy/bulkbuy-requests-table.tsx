@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAdminAccess } from "@/hooks/use-admin-access";
+import { InvoiceLinks } from "@/components/orders/invoice-links";
+import { apiRequest } from "@/lib/queryClient";
+import { Check, X } from "lucide-react";
+import type { BulkBuyRequest } from "./types";
+
+const STATUS_LABEL: Record<BulkBuyRequest["status"], string> = {
+  pending_approval: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+function statusBadgeVariant(status: BulkBuyRequest["status"]) {
+  switch (status) {
+    case "approved":
+      return "default";
+    case "rejected":
+      return "destructive";
+    default:
+      return "secondary";
+  }
+}
+
+export function BulkBuyRequestsTable() {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const { can } = useAdminAccess();
+  const canDecide = can("bulkbuy.approve");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: requests = [], isLoading } = useQuery<BulkBuyRequest[]>({
+    queryKey: ["/api/admin/bulkbuy/requests"],
+  });
+
+  const updateStatus = useMutation({
+    mutationFn: async (payload: { id: string; status: "approved" | "rejected"; procurementNote: string | null }) => {
+      const { id, ...body } = payload;
+      const res = await apiRequest("PUT", `/api/admin/bulkbuy/requests/${id}`, body);
+      return res.json();
+    },
+    onSuccess: (_data, vars) => {
+      qc.invalidateQueries({ queryKey: ["/api/admin/bulkbuy/requests"] });
+      setNotes((n) => ({ ...n, [vars.id]: "" }));
+      toast({ title: `Request ${vars.status}` });
+    },
+    onError: (e: any) =>
+      toast({ title: "Failed to update request", description: e.message, variant: "destructive" }),
+  });
+
+  const issueInvoice = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/bulkbuy/requests/${id}/invoice`);
+      return res.json();
+    },
+    onSuccess: (invoice: any) => {
+      qc.invalidateQueries({ queryKey: ["/api/admin/bulkbuy/requests"] });
+      toast({ title: `Invoice ${invoice.number} issued` });
+    },
+    onError: (e: any) => toast({ title: "Could not issue invoice", description: e.message, variant: "destructive" }),
+  });
+
+  const decide = (id: string, status: "approved" | "rejected") => {
+    updateStatus.mutate({ id, status, procurementNote: notes[id]?.trim() || null });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bulk Buy Requests</CardTitle>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <div className="py-8 text-sm text-muted-foreground">Loading requests…</div>
+        ) : requests.length === 0 ? (
+          <div className="py-8 text-sm text-muted-foreground">No bulk buy requests yet.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Request ID</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Delivery</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[320px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+
+              <TableBody>
+                {requests.map((r) => {
+                  const isPending = r.status === "pending_approval";
+
+                  return (
+                    <TableRow key={r.id}>
+                      <TableCell className="font-mono">{r.requestId}</TableCell>
+                      <TableCell>
+                        <div className="space-y-1 text-sm">
+                          {r.items.map((it, i) => (
+                            <p key={i}>
+                              {it.name} × {it.quantity}
+                              {it.selectedColor ? ` (${it.selectedColor})` : ""}
+                            </p>
+                          ))}
+                          {r.requesterNote && (
+                            <p className="text-muted-foreground">Note: {r.requesterNote}</p>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-semibold">₹{r.totalAmount}</TableCell>
+                      <TableCell className="text-sm">
+                        {r.deliveryMethod === "delivery" ? r.deliveryAddress || "Delivery" : "Office"}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(r.createdAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusBadgeVariant(r.status)}>{STATUS_LABEL[r.status] ?? r.status}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {isPending && canDecide ? (
+                          <div className="flex gap-2">
+                            <Input
+                              value={notes[r.id] || ""}
+                              onChange={(e) => setNotes((n) => ({ ...n, [r.id]: e.target.value }))}
+                              placeholder="Procurement note"
+                            />
+                            <Button
+                              size="sm"
+                              onClick={() => decide(r.id, "approved")}
+                              disabled={updateStatus.isPending}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => decide(r.id, "rejected")}
+                              disabled={updateStatus.isPending}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="space-y-1">
+                            <span className="text-sm text-muted-foreground">{r.procurementNote || "—"}</span>
+                            <InvoiceLinks invoices={r.invoices} admin />
+                            {r.status === "approved" && canDecide && !r.invoices?.length && (
+                              <Button
+                                size="sm"
+                                variant="link"
+                                className="h-auto p-0 text-xs"
+                                disabled={issueInvoice.isPending}
+                                onClick={() => issueInvoice.mutate(r.id)}
+                              >
+                                Issue invoice
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
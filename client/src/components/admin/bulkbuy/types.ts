@@ -0,0 +1,30 @@
+import type { InvoiceSummary } from "@/components/orders/types";
+
+export type BulkBuyRequestItem = {
+  productId: string;
+  name: string;
+  sku?: string;
+  selectedColor?: string | null;
+  selectedSize?: string | null;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+};
+
+export type BulkBuyRequest = {
+  id: string;
+  requestId: string;
+  employeeId: string;
+  status: "pending_approval" | "approved" | "rejected";
+  deliveryMethod: "office" | "delivery" | null;
+  deliveryAddress: string | null;
+  items: BulkBuyRequestItem[];
+  totalAmount: string;
+  requesterNote: string | null;
+  procurementNote: string | null;
+  approvedByEmployeeId: string | null;
+  approvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  invoices: InvoiceSummary[];
+};
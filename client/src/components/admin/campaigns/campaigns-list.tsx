@@ -5,6 +5,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useAdminAccess } from "@/hooks/use-admin-access";
 import { apiRequest } from "@/lib/queryClient";
 import { Edit, Trash, Package, Calendar, Image as ImageIcon, Users } from "lucide-react";
 import { CampaignEditModal } from "./campaign-edit-modal";
@@ -15,6 +16,8 @@ import type { Campaign } from "./types";
 export function CampaignsList() {
   const { toast } = useToast();
   const qc = useQueryClient();
+  const { can } = useAdminAccess();
+  const canEdit = can("campaigns.write");
   const { data: campaigns = [] } = useQuery<Campaign[]>({
     queryKey: ["/api/campaigns"]
   });
@@ -117,43 +120,51 @@ export function CampaignsList() {
                       {campaign.description || "—"}
                     </TableCell>
                     <TableCell>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => setManagingProductsCampaign(campaign)}
-                      >
-                        <Package className="h-4 w-4 mr-1" />
-                        Manage Products
-                      </Button>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex flex-wrap gap-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => setManagingWhitelistCampaign(campaign)}
-                          title="Manage Whitelist"
-                        >
-                          <Users className="h-4 w-4" />
-                        </Button>
+                      {canEdit ? (
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => setEditingCampaign(campaign)}
-                        >
-                          <Edit className="h-4 w-4 mr-1" />
-                          Edit
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          onClick={() => deleteCampaignMutation.mutate(campaign.id)}
-                          disabled={deleteCampaignMutation.isPending}
+                          onClick={() => setManagingProductsCampaign(campaign)}
                         >
-                          <Trash className="h-4 w-4 mr-1" />
-                          Delete
+                          <Package className="h-4 w-4 mr-1" />
+                          Manage Products
                         </Button>
-                      </div>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {canEdit ? (
+                        <div className="flex flex-wrap gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setManagingWhitelistCampaign(campaign)}
+                            title="Manage Whitelist"
+                          >
+                            <Users className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setEditingCampaign(campaign)}
+                          >
+                            <Edit className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => deleteCampaignMutation.mutate(campaign.id)}
+                            disabled={deleteCampaignMutation.isPending}
+                          >
+                            <Trash className="h-4 w-4 mr-1" />
+                            Delete
+                          </Button>
+                        </div>
+                      ) : (
+                        "—"
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
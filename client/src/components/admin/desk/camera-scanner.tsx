@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from "react";
+
+// The browser's built-in QR reader (Chromium on Android, ChromeOS and macOS); not in the DOM typings yet
+type BarcodeDetectorLike = { detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]> };
+type BarcodeDetectorCtor = new (opts: { formats: string[] }) => BarcodeDetectorLike;
+
+const detectorCtor = () => (window as unknown as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector;
+
+export const cameraScanSupported = () => !!detectorCtor() && !!navigator.mediaDevices?.getUserMedia;
+
+interface CameraScannerProps {
+  onScan: (value: string) => void;
+  onError: (message: string) => void;
+}
+
+// Live camera preview that reports the first QR it reads; the parent unmounts it to stop the camera
+export function CameraScanner({ onScan, onError }: CameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [starting, setStarting] = useState(true);
+  // latest callbacks, so a parent re-render doesn't restart the camera
+  const handlers = useRef({ onScan, onError });
+  handlers.current = { onScan, onError };
+
+  useEffect(() => {
+    const Detector = detectorCtor();
+    if (!Detector) return;
+    const detector = new Detector({ formats: ["qr_code"] });
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const poll = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      try {
+        const [hit] = video.readyState >= 2 ? await detector.detect(video) : [];
+        if (hit?.rawValue && !stopped) {
+          stopped = true;
+          handlers.current.onScan(hit.rawValue);
+          return;
+        }
+      } catch {
+        // a frame the detector could not read; try the next one
+      }
+      timer = window.setTimeout(poll, 300);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((s) => {
+        stream = s;
+        if (stopped || !videoRef.current) return s.getTracks().forEach((t) => t.stop());
+        videoRef.current.srcObject = s;
+        return videoRef.current.play().then(() => {
+          setStarting(false);
+          poll();
+        });
+      })
+      .catch((e: any) => !stopped && handlers.current.onError(e?.message || "Could not open the camera"));
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  return (
+    <div className="relative overflow-hidden rounded-lg border bg-black">
+      <video ref={videoRef} className="w-full max-h-72 object-cover" muted playsInline />
+      {starting && (
+        <p className="absolute inset-0 flex items-center justify-center text-sm text-white">Starting camera…</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Camera, CheckCircle2, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { OrderStatusBadge } from "@/components/orders/order-status-badge";
+import { formatHandoverCode, normalizeHandoverCode } from "@shared/handover";
+import { ORDER_STATUS_LABEL } from "@shared/order-status";
+import { CameraScanner, cameraScanSupported } from "./camera-scanner";
+import type { HandoverDeskOrder } from "./types";
+
+// Scan (handheld scanner, camera) or type a pickup code, check who is collecting, hand over
+export function HandoverDesk() {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [input, setInput] = useState("");
+  const [scanning, setScanning] = useState(false);
+  const [found, setFound] = useState<{ code: string; order: HandoverDeskOrder } | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+
+  const reset = () => {
+    setInput("");
+    setFound(null);
+    setLookupError(null);
+    inputRef.current?.focus();
+  };
+
+  const lookupMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/admin/handover/lookup", { code });
+      return { code, order: (await res.json()) as HandoverDeskOrder };
+    },
+    onMutate: () => {
+      setFound(null);
+      setLookupError(null);
+    },
+    onSuccess: (result) => setFound(result),
+    onError: (e: any) => setLookupError(e.message),
+  });
+
+  const handoverMutation = useMutation({
+    mutationFn: async (code: string) =>
+      (await (await apiRequest("POST", "/api/admin/handover", { code })).json()) as HandoverDeskOrder,
+    onSuccess: (order) => {
+      qc.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      toast({ title: `${order.orderId} handed over`, description: order.employee?.name });
+      reset();
+    },
+    onError: (e: any) => {
+      toast({ title: "Not handed over", description: e.message, variant: "destructive" });
+      // someone else may have just handed it over; show the current state
+      if (found) lookupMutation.mutate(found.code);
+    },
+  });
+
+  const lookup = (raw: string) => {
+    const code = normalizeHandoverCode(raw);
+    if (!code) return;
+    setInput(formatHandoverCode(code));
+    lookupMutation.mutate(code);
+  };
+
+  const order = found?.order;
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <Card>
+        <CardHeader>
+          <CardTitle>Distribution Desk</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Scan the QR on the employee's My Orders page, or type the pickup code they read out.
+          </p>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              lookup(input);
+            }}
+          >
+            <Input
+              ref={inputRef}
+              autoFocus
+              value={input}
+              onChange={(e) => setInput(e.target.value.toUpperCase())}
+              placeholder="e.g. K7M3-Q9XP"
+              className="font-mono text-lg tracking-widest"
+              autoComplete="off"
+            />
+            <Button type="submit" disabled={!input.trim() || lookupMutation.isPending}>
+              Find order
+            </Button>
+            {cameraScanSupported() && (
+              <Button type="button" variant="outline" onClick={() => setScanning((s) => !s)}>
+                <Camera className="h-4 w-4 mr-2" />
+                {scanning ? "Stop camera" : "Scan"}
+              </Button>
+            )}
+          </form>
+
+          {scanning && (
+            <CameraScanner
+              onScan={(value) => {
+                setScanning(false);
+                lookup(value);
+              }}
+              onError={(message) => {
+                setScanning(false);
+                toast({ title: "Camera unavailable", description: message, variant: "destructive" });
+              }}
+            />
+          )}
+
+          {lookupError && <p className="text-sm text-red-600">{lookupError}</p>}
+        </CardContent>
+      </Card>
+
+      {found && order && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="font-mono">{order.orderId}</CardTitle>
+            <OrderStatusBadge status={order.status} />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-sm">
+              <p className="text-lg font-semibold">{order.employee?.name ?? "Unknown employee"}</p>
+              {order.employee && (
+                <p className="text-muted-foreground">
+                  {order.employee.email}
+                  {order.employee.employeeId ? ` · ID ${order.employee.employeeId}` : ""}
+                </p>
+              )}
+              <p className="text-muted-foreground">Pickup at {order.location?.name ?? "the office desk"}</p>
+            </div>
+
+            <ul className="space-y-2">
+              {order.items.map((item) => (
+                <li key={item.id} className="flex items-center gap-3 text-sm">
+                  <div className="h-12 w-12 rounded bg-gray-100 overflow-hidden shrink-0">
+                    {item.image && <img src={item.image} alt={item.name} className="h-full w-full object-cover" />}
+                  </div>
+                  <div>
+                    <p className="font-medium">{item.name}</p>
+                    <p className="text-muted-foreground">
+                      {[item.selectedSize && `Size ${item.selectedSize}`, item.selectedColor].filter(Boolean).join(" · ")}
+                      {(item.selectedSize || item.selectedColor) && " · "}Qty {item.quantity}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {order.handedOverAt ? (
+              <div className="flex items-start gap-2 rounded-md bg-red-50 p-3 text-sm text-red-800">
+                <XCircle className="h-5 w-5 shrink-0" />
+                <span>
+                  Already handed over on {new Date(order.handedOverAt).toLocaleString()}
+                  {order.handedOverBy ? ` by ${order.handedOverBy}` : ""}. Do not hand it over again.
+                </span>
+              </div>
+            ) : !order.ready ? (
+              <div className="flex items-start gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                <XCircle className="h-5 w-5 shrink-0" />
+                <span>
+                  This order is {ORDER_STATUS_LABEL[order.status ?? "confirmed"].toLowerCase()} and can't be handed over
+                  {order.status === "delivered" || order.status === "cancelled" || order.status === "returned"
+                    ? "."
+                    : " until it has been packed."}
+                </span>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-2 rounded-md bg-green-50 p-3">
+                <span className="flex items-center gap-2 text-sm text-green-800">
+                  <CheckCircle2 className="h-5 w-5" />
+                  Check the employee's ID, then hand over the items.
+                </span>
+                <Button disabled={handoverMutation.isPending} onClick={() => handoverMutation.mutate(found.code)}>
+                  Mark handed over
+                </Button>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={reset}>
+                Next code
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import type { OrderStatus } from "@shared/order-status";
+
+// POST /api/admin/handover(/lookup) response
+export type HandoverDeskOrder = {
+  id: string;
+  orderId: string;
+  status: OrderStatus | null;
+  orderDate: string;
+  employee: { name: string; email: string; employeeId: string | null } | null;
+  items: {
+    id: string;
+    name: string;
+    image: string | null;
+    selectedColor: string | null;
+    selectedSize: string | null;
+    quantity: number;
+  }[];
+  location: { id: string; name: string } | null;
+  ready: boolean;
+  handedOverAt: string | null;
+  handedOverBy: string | null;
+};
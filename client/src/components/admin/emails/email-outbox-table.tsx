@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { RefreshCw, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAdminAccess } from "@/hooks/use-admin-access";
+import { apiRequest } from "@/lib/queryClient";
+import { EMAIL_TEMPLATES } from "@shared/email-templates";
+import { EMAIL_OUTBOX_STATUSES, EMAIL_OUTBOX_STATUS_LABEL, type EmailOutboxStatus } from "@shared/notifications";
+import type { EmailOutboxPage } from "./types";
+
+const STATUS_VARIANT: Record<EmailOutboxStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  sending: "secondary",
+  sent: "default",
+  dead: "destructive",
+};
+
+// What the outbox sent, is retrying or gave up on, with resend for the last two
+export function EmailOutboxTable() {
+  const { toast } = useToast();
+  const { can } = useAdminAccess();
+  const canWrite = can("emails.write");
+  const [status, setStatus] = useState<EmailOutboxStatus | "">("");
+  const [to, setTo] = useState("");
+  const [appliedTo, setAppliedTo] = useState("");
+
+  const params = new URLSearchParams();
+  if (status) params.set("status", status);
+  if (appliedTo) params.set("to", appliedTo);
+  const url = `/api/admin/email-outbox${params.size ? `?${params}` : ""}`;
+
+  const { data, isLoading, refetch, isFetching } = useQuery<EmailOutboxPage>({ queryKey: [url], staleTime: 0 });
+  const messages = data?.messages ?? [];
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: string) => (await apiRequest("POST", `/api/admin/email-outbox/${id}/resend`)).json(),
+    onSuccess: () => {
+      refetch();
+      toast({ title: "Email queued again" });
+    },
+    onError: (e: any) => toast({ title: "Could not resend", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Delivery Log</CardTitle>
+        <Button size="sm" variant="outline" disabled={isFetching} onClick={() => refetch()}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className="border rounded-md p-2 text-sm bg-background"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as EmailOutboxStatus | "")}
+          >
+            <option value="">All statuses</option>
+            {EMAIL_OUTBOX_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {EMAIL_OUTBOX_STATUS_LABEL[s]}
+                {data ? ` (${data.counts[s]})` : ""}
+              </option>
+            ))}
+          </select>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setAppliedTo(to.trim().toLowerCase());
+            }}
+          >
+            <Input
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              placeholder="Recipient email"
+              className="w-64"
+            />
+            <Button type="submit" variant="outline" size="sm">
+              Filter
+            </Button>
+          </form>
+        </div>
+
+        {isLoading ? (
+          <div className="py-8 text-sm text-muted-foreground">Loading emails…</div>
+        ) : messages.length === 0 ? (
+          <div className="py-8 text-sm text-muted-foreground">No emails match.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queued</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                {canWrite && <TableHead></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {messages.map((m) => (
+                <TableRow key={m.id}>
+                  <TableCell className="whitespace-nowrap text-sm">{new Date(m.createdAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-sm">
+                    {m.to.join(", ")}
+                    {m.cc.length > 0 && <p className="text-xs text-muted-foreground">cc {m.cc.join(", ")}</p>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {m.subject}
+                    {m.templateKey && (
+                      <p className="text-xs text-muted-foreground">{EMAIL_TEMPLATES[m.templateKey]?.name ?? m.templateKey}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <Badge variant={STATUS_VARIANT[m.status]}>{EMAIL_OUTBOX_STATUS_LABEL[m.status]}</Badge>
+                    {m.status === "sent" && m.sentAt && (
+                      <p className="text-xs text-muted-foreground">{new Date(m.sentAt).toLocaleString()}</p>
+                    )}
+                    {m.status === "pending" && m.attempts > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Retrying {new Date(m.nextAttemptAt).toLocaleString()}
+                      </p>
+                    )}
+                    {m.lastError && m.status !== "sent" && (
+                      <p className="text-xs text-red-600 break-all max-w-[320px]">{m.lastError}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{m.attempts}</TableCell>
+                  {canWrite && (
+                    <TableCell>
+                      {(m.status === "sent" || m.status === "dead") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={resendMutation.isPending}
+                          onClick={() => resendMutation.mutate(m.id)}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Resend
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
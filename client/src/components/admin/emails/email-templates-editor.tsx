@@ -0,0 +1,282 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAdminAccess } from "@/hooks/use-admin-access";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  COMMON_EMAIL_VARIABLES,
+  EMAIL_TEMPLATES,
+  renderEmail,
+  templateSyntaxError,
+  type EmailTemplateContent,
+  type EmailTemplateKey,
+} from "@shared/email-templates";
+import type { Branding } from "@/components/admin/branding/types";
+import type { AdminEmailTemplate } from "./types";
+
+const FIELDS: { field: keyof EmailTemplateContent; label: string }[] = [
+  { field: "subject", label: "Subject" },
+  { field: "fromName", label: "Sender name" },
+  { field: "html", label: "HTML body" },
+  { field: "text", label: "Plain text" },
+];
+
+// Pick a template, edit it with the rendered sample alongside, save, reset or send yourself a test
+export function EmailTemplatesEditor() {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const { can } = useAdminAccess();
+  const canWrite = can("emails.write");
+  const [selected, setSelected] = useState<EmailTemplateKey>("otp");
+  const [draft, setDraft] = useState<EmailTemplateContent | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<AdminEmailTemplate[]>({
+    queryKey: ["/api/admin/email-templates"],
+  });
+  const { data: branding } = useQuery<Branding>({ queryKey: ["/api/admin/branding"] });
+
+  const current = templates.find((t) => t.key === selected);
+  const definition = EMAIL_TEMPLATES[selected];
+
+  // start from the saved version whenever the selection or the saved copy changes
+  useEffect(() => {
+    if (!current) return;
+    const { subject, fromName, html, text } = current;
+    setDraft({ subject, fromName, html, text });
+  }, [current?.key, current?.updatedAt, current?.customized]);
+
+  const dirty =
+    !!draft && !!current && FIELDS.some(({ field }) => draft[field] !== current[field]);
+
+  const errors = useMemo(() => {
+    if (!draft) return [];
+    return FIELDS.flatMap(({ field, label }) => {
+      const problem = templateSyntaxError(draft[field]);
+      return problem ? [`${label}: ${problem}`] : [];
+    });
+  }, [draft]);
+
+  // the same context the server builds, with the template's sample data
+  const preview = useMemo(() => {
+    if (!draft || errors.length) return null;
+    return renderEmail(draft, {
+      company: {
+        name: branding?.companyName || "TechCorp",
+        logoUrl: branding?.logoUrl || null,
+        primaryColor: branding?.primaryColor || "#1e40af",
+        accentColor: branding?.accentColor || "#f97316",
+        supportEmail: branding?.supportEmail || null,
+      },
+      appUrl: window.location.origin,
+      year: new Date().getFullYear(),
+      ...definition.sample,
+    });
+  }, [draft, errors, branding, definition]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (content: EmailTemplateContent) =>
+      (await apiRequest("PUT", `/api/admin/email-templates/${selected}`, content)).json(),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["/api/admin/email-templates"] });
+      toast({ title: "Template saved" });
+    },
+    onError: (e: any) => toast({ title: "Save failed", description: e.message, variant: "destructive" }),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", `/api/admin/email-templates/${selected}`),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["/api/admin/email-templates"] });
+      toast({ title: "Template reset to default" });
+    },
+    onError: (e: any) => toast({ title: "Reset failed", description: e.message, variant: "destructive" }),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (content: EmailTemplateContent) =>
+      (await (await apiRequest("POST", `/api/admin/email-templates/${selected}/test`, content)).json()) as {
+        to: string;
+      },
+    onSuccess: ({ to }) => toast({ title: "Test email sent", description: `Sent to ${to}` }),
+    onError: (e: any) => toast({ title: "Test email failed", description: e.message, variant: "destructive" }),
+  });
+
+  const select = (key: EmailTemplateKey) => {
+    if (key === selected) return;
+    if (dirty && !window.confirm("Discard unsaved changes to this template?")) return;
+    setSelected(key);
+  };
+
+  if (isLoading) return <p className="text-sm text-muted-foreground">Loading templates…</p>;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[16rem_1fr]">
+      <Card className="h-fit">
+        <CardHeader>
+          <CardTitle>Email Templates</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1 p-2">
+          {templates.map((t) => (
+            <button
+              key={t.key}
+              type="button"
+              onClick={() => select(t.key)}
+              className={`w-full rounded-md px-3 py-2 text-left text-sm ${
+                t.key === selected ? "bg-muted font-medium" : "hover:bg-muted/50"
+              }`}
+            >
+              <span className="flex items-center justify-between gap-2">
+                {EMAIL_TEMPLATES[t.key].name}
+                {t.customized && <Badge variant="secondary">Edited</Badge>}
+              </span>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      {draft && current && (
+        <div className="space-y-6 min-w-0">
+          <Card>
+            <CardHeader>
+              <CardTitle>{definition.name}</CardTitle>
+              <p className="text-sm text-muted-foreground">{definition.description}</p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Subject</Label>
+                  <Input
+                    value={draft.subject}
+                    disabled={!canWrite}
+                    onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Sender name</Label>
+                  <Input
+                    value={draft.fromName}
+                    disabled={!canWrite}
+                    onChange={(e) => setDraft({ ...draft, fromName: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>HTML body</Label>
+                <Textarea
+                  rows={12}
+                  className="font-mono text-xs"
+                  value={draft.html}
+                  disabled={!canWrite}
+                  onChange={(e) => setDraft({ ...draft, html: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Plain text</Label>
+                <Textarea
+                  rows={8}
+                  className="font-mono text-xs"
+                  value={draft.text}
+                  disabled={!canWrite}
+                  onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-1 text-xs text-muted-foreground">
+                <p>
+                  Variables: <code>{"{{name}}"}</code> is escaped, <code>{"{{{name}}}"}</code> inserted as is,{" "}
+                  <code>{"{{#name}}…{{/name}}"}</code> shown when set (repeated for lists),{" "}
+                  <code>{"{{^name}}…{{/name}}"}</code> when not.
+                </p>
+                <p className="flex flex-wrap gap-1">
+                  {[...definition.variables, ...COMMON_EMAIL_VARIABLES].map((v) => (
+                    <code key={v} className="rounded bg-muted px-1">
+                      {v}
+                    </code>
+                  ))}
+                </p>
+              </div>
+
+              {errors.length > 0 && (
+                <ul className="text-sm text-red-600">
+                  {errors.map((e) => (
+                    <li key={e}>{e}</li>
+                  ))}
+                </ul>
+              )}
+
+              {canWrite && (
+                <div className="flex flex-wrap justify-end gap-2">
+                  {current.customized && (
+                    <Button
+                      variant="outline"
+                      disabled={resetMutation.isPending}
+                      onClick={() => window.confirm("Replace this template with the built-in default?") && resetMutation.mutate()}
+                    >
+                      Reset to default
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    disabled={errors.length > 0 || testMutation.isPending}
+                    onClick={() => testMutation.mutate(draft)}
+                  >
+                    Send test to me
+                  </Button>
+                  <Button
+                    disabled={!dirty || errors.length > 0 || saveMutation.isPending}
+                    onClick={() => saveMutation.mutate(draft)}
+                  >
+                    Save
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+              {preview && (
+                <p className="text-sm text-muted-foreground">
+                  From <span className="font-medium">{preview.fromName}</span> · {preview.subject}
+                </p>
+              )}
+            </CardHeader>
+            <CardContent>
+              {preview ? (
+                <Tabs defaultValue="html">
+                  <TabsList>
+                    <TabsTrigger value="html">HTML</TabsTrigger>
+                    <TabsTrigger value="text">Plain text</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="html">
+                    <iframe
+                      title="Email preview"
+                      sandbox=""
+                      srcDoc={preview.html}
+                      className="h-[32rem] w-full rounded-md border bg-white"
+                    />
+                  </TabsContent>
+                  <TabsContent value="text">
+                    <pre className="whitespace-pre-wrap rounded-md border p-4 text-sm">{preview.text}</pre>
+                  </TabsContent>
+                </Tabs>
+              ) : (
+                <p className="text-sm text-muted-foreground">Fix the template errors to see a preview.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
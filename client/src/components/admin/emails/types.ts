@@ -0,0 +1,32 @@
+import type { EmailTemplateContent, EmailTemplateKey } from "@shared/email-templates";
+import type { EmailOutboxStatus } from "@shared/notifications";
+
+// As served by /api/admin/email-templates
+export type AdminEmailTemplate = EmailTemplateContent & {
+  key: EmailTemplateKey;
+  customized: boolean; // false = the built-in default
+  updatedAt: string | null;
+};
+
+// As served by /api/admin/email-outbox
+export type EmailOutboxMessage = {
+  id: string;
+  templateKey: EmailTemplateKey | null;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  fromName: string;
+  subject: string;
+  status: EmailOutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  messageId: string | null;
+  sentAt: string | null;
+  createdAt: string;
+};
+
+export type EmailOutboxPage = {
+  messages: EmailOutboxMessage[];
+  counts: Record<EmailOutboxStatus, number>;
+};
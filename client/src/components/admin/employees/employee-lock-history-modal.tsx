@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import type { Employee, EmployeeLockEvent } from "./types";
+
+interface EmployeeLockHistoryModalProps {
+  employee: Employee;
+  employees: Employee[];
+  onClose: () => void;
+}
+
+export function EmployeeLockHistoryModal({ employee, employees, onClose }: EmployeeLockHistoryModalProps) {
+  const { data: events = [], isLoading } = useQuery<EmployeeLockEvent[]>({
+    queryKey: [`/api/admin/employees/${employee.id}/lock-events`],
+  });
+
+  const actorName = (id: string | null) => {
+    if (!id) return "System";
+    const actor = employees.find((e) => e.id === id);
+    return actor ? `${actor.firstName} ${actor.lastName}` : id;
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            Lock history — {employee.firstName} {employee.lastName}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-6 text-sm text-muted-foreground">Loading history…</div>
+        ) : events.length === 0 ? (
+          <div className="py-6 text-sm text-muted-foreground">This account has never been locked.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>IP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((ev) => (
+                <TableRow key={ev.id}>
+                  <TableCell className="text-sm">{new Date(ev.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Badge variant={ev.action === "locked" ? "destructive" : "default"}>
+                      {ev.action === "locked" ? "Locked" : "Unlocked"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{ev.reason || "—"}</TableCell>
+                  <TableCell className="text-sm">{actorName(ev.actorEmployeeId)}</TableCell>
+                  <TableCell className="font-mono text-xs">{ev.ip || "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
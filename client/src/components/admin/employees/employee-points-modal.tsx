@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { PointsLedgerTable } from "@/components/points/points-ledger-table";
+import type { PointsStatement } from "@/components/points/types";
+import type { Employee } from "./types";
+
+type AdminPointsType = "grant" | "expire" | "adjust" | "transfer";
+
+const TYPE_HINT: Record<AdminPointsType, string> = {
+  grant: "Adds points",
+  expire: "Removes points",
+  adjust: "Signed correction, e.g. -50",
+  transfer: "Moves points to another employee",
+};
+
+interface EmployeePointsModalProps {
+  employee: Employee;
+  employees: Employee[];
+  canPost: boolean;
+  onClose: () => void;
+}
+
+export function EmployeePointsModal({ employee, employees, canPost, onClose }: EmployeePointsModalProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const queryKey = [`/api/admin/employees/${employee.id}/points`];
+  const [type, setType] = useState<AdminPointsType>("grant");
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [toEmail, setToEmail] = useState("");
+
+  const { data, isLoading } = useQuery<PointsStatement & { ledgerBalance: number }>({ queryKey, staleTime: 0 });
+
+  const describeEmployee = (id: string) => {
+    const e = employees.find((x) => x.id === id);
+    return e ? `${e.firstName} ${e.lastName}` : id;
+  };
+
+  const postMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/employees/${employee.id}/points`, {
+        type,
+        amount: Number(amount),
+        note: note.trim() || null,
+        ...(type === "transfer" ? { toEmail: toEmail.trim() } : {}),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey });
+      qc.invalidateQueries({ queryKey: ["/api/admin/employees"] });
+      setAmount("");
+      setNote("");
+      setToEmail("");
+      toast({ title: "Points updated" });
+    },
+    onError: (e: any) => toast({ title: "Failed to update points", description: e.message, variant: "destructive" }),
+  });
+
+  const outOfSync = data && data.ledgerBalance !== data.balance;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Points — {employee.firstName} {employee.lastName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-6 text-sm">
+          <p>
+            Balance: <span className="font-semibold">{data?.balance ?? employee.points ?? 0}</span>
+          </p>
+          {outOfSync && (
+            <p className="text-red-600">Ledger total {data.ledgerBalance} does not match the balance.</p>
+          )}
+        </div>
+
+        {canPost && (
+          <form
+            className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end rounded-lg border p-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              postMutation.mutate();
+            }}
+          >
+            <select
+              className="border rounded-md p-2 text-sm bg-background"
+              value={type}
+              onChange={(e) => setType(e.target.value as AdminPointsType)}
+              title={TYPE_HINT[type]}
+            >
+              <option value="grant">Grant</option>
+              <option value="expire">Expire</option>
+              <option value="adjust">Adjust</option>
+              <option value="transfer">Transfer</option>
+            </select>
+            <Input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={TYPE_HINT[type]}
+            />
+            <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note" />
+            {type === "transfer" ? (
+              <Input value={toEmail} onChange={(e) => setToEmail(e.target.value)} placeholder="Recipient email" />
+            ) : (
+              <div />
+            )}
+            <div className="md:col-span-4 flex justify-end">
+              <Button type="submit" disabled={postMutation.isPending || !amount}>
+                Post
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="py-6 text-sm text-muted-foreground">Loading ledger…</div>
+        ) : (
+          <PointsLedgerTable transactions={data?.transactions ?? []} describeEmployee={describeEmployee} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
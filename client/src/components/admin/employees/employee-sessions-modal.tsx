@@ -0,0 +1,67 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { DeviceList } from "@/components/session/device-list";
+import type { SessionDevice } from "@/components/session/types";
+import { LogOut } from "lucide-react";
+import type { Employee } from "./types";
+
+interface EmployeeSessionsModalProps {
+  employee: Employee;
+  canRevoke: boolean;
+  onClose: () => void;
+}
+
+export function EmployeeSessionsModal({ employee, canRevoke, onClose }: EmployeeSessionsModalProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const queryKey = [`/api/admin/employees/${employee.id}/sessions`];
+
+  const { data: devices = [], isLoading } = useQuery<SessionDevice[]>({ queryKey, staleTime: 0 });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/admin/employees/${employee.id}/sessions`);
+      return res.json();
+    },
+    onSuccess: (data: { count: number }) => {
+      qc.invalidateQueries({ queryKey });
+      toast({ title: "Sessions revoked", description: `${data.count} session(s) signed out.` });
+    },
+    onError: (e: any) =>
+      toast({ title: "Failed to revoke sessions", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            Active sessions — {employee.firstName} {employee.lastName}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-6 text-sm text-muted-foreground">Loading sessions…</div>
+        ) : (
+          <DeviceList devices={devices} />
+        )}
+
+        {canRevoke && (
+          <div className="flex justify-end">
+            <Button
+              variant="destructive"
+              onClick={() => revokeAllMutation.mutate()}
+              disabled={revokeAllMutation.isPending || devices.length === 0}
+            >
+              <LogOut className="h-4 w-4 mr-1" />
+              Sign out everywhere
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
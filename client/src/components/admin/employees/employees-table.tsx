@@ -5,34 +5,35 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useAdminAccess } from "@/hooks/use-admin-access";
 import { apiRequest } from "@/lib/queryClient";
-import { Save, X, Unlock } from "lucide-react";
+import { Save, X, Unlock, History, MonitorSmartphone, Coins } from "lucide-react";
 import { useState } from "react";
+import { EMPLOYEE_ROLES, ROLE_LABEL, isEmployeeRole, type EmployeeRole } from "@shared/permissions";
+import { EmployeeLockHistoryModal } from "./employee-lock-history-modal";
+import { EmployeeSessionsModal } from "./employee-sessions-modal";
+import { EmployeePointsModal } from "./employee-points-modal";
 import type { Employee } from "./types";
 
-// ✅ Define allowed roles (match your backend enum/check constraint)
-type EmployeeRole = "user" | "admin" | "procurement";
-
-const ROLE_LABEL: Record<EmployeeRole, string> = {
-  user: "User",
-  admin: "Admin",
-  procurement: "Procurement",
-};
-
 function roleBadgeVariant(role?: string) {
   switch (role) {
     case "admin":
       return "destructive";
-    case "procurement":
-      return "default";
-    default:
+    case "user":
       return "secondary";
+    default:
+      return "default";
   }
 }
 
 export function EmployeesTable() {
   const { toast } = useToast();
   const qc = useQueryClient();
+  const { can } = useAdminAccess();
+  const canEditProfile = can("employees.write");
+  const canGrantPoints = can("points.grant");
+  const canAssignRoles = can("roles.assign");
+  const canEdit = canEditProfile || canGrantPoints || canAssignRoles;
 
   const { data: employees = [] } = useQuery<Employee[]>({
     queryKey: ["/api/admin/employees"],
@@ -40,14 +41,18 @@ export function EmployeesTable() {
 
   const [editingEmployeeId, setEditingEmployeeId] = useState<string | null>(null);
   const [editEmpDraft, setEditEmpDraft] = useState<Partial<Employee>>({});
+  const [historyEmployee, setHistoryEmployee] = useState<Employee | null>(null);
+  const [sessionsEmployee, setSessionsEmployee] = useState<Employee | null>(null);
+  const [pointsEmployee, setPointsEmployee] = useState<Employee | null>(null);
 
   const unlockEmployeeMutation = useMutation({
     mutationFn: async (id: string) => {
       const res = await apiRequest("POST", `/api/admin/employees/${id}/unlock`);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, id) => {
       qc.invalidateQueries({ queryKey: ["/api/admin/employees"] });
+      qc.invalidateQueries({ queryKey: [`/api/admin/employees/${id}/lock-events`] });
       toast({ title: "Employee unlocked" });
     },
     onError: (e: any) =>
@@ -95,7 +100,7 @@ export function EmployeesTable() {
       points: emp.points,
       bulkBuyAllowed: Boolean((emp as any).bulkBuyAllowed),
       // ✅ NEW
-      role: ((emp as any).role as EmployeeRole) || "user",
+      role: isEmployeeRole(emp.role) ? emp.role : "user",
     } as any);
   };
 
@@ -104,10 +109,10 @@ export function EmployeesTable() {
 
     // ✅ Guard role on client too
     const role = (editEmpDraft as any).role as EmployeeRole | undefined;
-    if (role && !["user", "admin", "procurement"].includes(role)) {
+    if (role && !isEmployeeRole(role)) {
       toast({
         title: "Invalid role",
-        description: "Role must be user/admin/procurement",
+        description: `Role must be one of ${EMPLOYEE_ROLES.join("/")}`,
         variant: "destructive",
       });
       return;
@@ -142,12 +147,12 @@ export function EmployeesTable() {
             <TableBody>
               {employees.map((emp) => {
                 const isEditing = editingEmployeeId === emp.id;
-                const empRole = ((emp as any).role as EmployeeRole) || "user";
+                const empRole: EmployeeRole = isEmployeeRole(emp.role) ? emp.role : "user";
 
                 return (
                   <TableRow key={emp.id}>
                     <TableCell>
-                      {isEditing ? (
+                      {isEditing && canEditProfile ? (
                         <div className="flex gap-2">
                           <Input
                             value={editEmpDraft.firstName || ""}
@@ -166,7 +171,7 @@ export function EmployeesTable() {
                     </TableCell>
 
                     <TableCell>
-                      {isEditing ? (
+                      {isEditing && canEditProfile ? (
                         <Input
                           value={editEmpDraft.email || ""}
                           onChange={(e) => setEditEmpDraft((d) => ({ ...d, email: e.target.value }))}
@@ -179,7 +184,7 @@ export function EmployeesTable() {
                     </TableCell>
 
                     <TableCell>
-                      {isEditing ? (
+                      {isEditing && canGrantPoints ? (
                         <Input
                           type="number"
                           value={String(editEmpDraft.points ?? 0)}
@@ -197,7 +202,7 @@ export function EmployeesTable() {
 
                     {/* ✅ NEW: Role editor */}
                     <TableCell>
-                      {isEditing ? (
+                      {isEditing && canAssignRoles ? (
                         <select
                           className="w-full border rounded-md p-2 text-sm bg-background"
                           value={String((editEmpDraft as any).role || "user")}
@@ -205,9 +210,11 @@ export function EmployeesTable() {
                             setEditEmpDraft((d) => ({ ...(d as any), role: e.target.value as EmployeeRole }))
                           }
                         >
-                          <option value="user">User</option>
-                          <option value="procurement">Procurement</option>
-                          <option value="admin">Admin</option>
+                          {EMPLOYEE_ROLES.map((r) => (
+                            <option key={r} value={r}>
+                              {ROLE_LABEL[r]}
+                            </option>
+                          ))}
                         </select>
                       ) : (
                         <Badge variant={roleBadgeVariant(empRole)}>{ROLE_LABEL[empRole]}</Badge>
@@ -216,7 +223,7 @@ export function EmployeesTable() {
 
                     {/* Bulk Buy flag */}
                     <TableCell>
-                      {isEditing ? (
+                      {isEditing && canEditProfile ? (
                         <div className="flex items-center gap-2">
                           <input
                             type="checkbox"
@@ -239,6 +246,15 @@ export function EmployeesTable() {
                       <Badge variant={emp.isLocked ? "destructive" : "default"}>
                         {emp.isLocked ? "Locked" : "Active"}
                       </Badge>
+                      {emp.isLocked && (
+                        <div className="mt-1 text-xs text-muted-foreground">
+                          {emp.lockReason || "Locked"}
+                          <br />
+                          {emp.lockedUntil
+                            ? `until ${new Date(emp.lockedUntil).toLocaleString()}`
+                            : "until unlocked by an admin"}
+                        </div>
+                      )}
                     </TableCell>
 
                     <TableCell>
@@ -260,18 +276,49 @@ export function EmployeesTable() {
                         </div>
                       ) : (
                         <div className="flex gap-2">
-                          <Button size="sm" variant="outline" onClick={() => startEditEmp(emp)}>
-                            Edit
+                          {canEdit && (
+                            <Button size="sm" variant="outline" onClick={() => startEditEmp(emp)}>
+                              Edit
+                            </Button>
+                          )}
+
+                          {canEditProfile && (
+                            <Button
+                              size="sm"
+                              variant="default"
+                              onClick={() => unlockEmployeeMutation.mutate(emp.id)}
+                              disabled={!emp.isLocked || unlockEmployeeMutation.isPending}
+                            >
+                              <Unlock className="h-4 w-4 mr-1" />
+                              Unblock
+                            </Button>
+                          )}
+
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setHistoryEmployee(emp)}
+                            title="Lock history"
+                          >
+                            <History className="h-4 w-4" />
                           </Button>
 
                           <Button
                             size="sm"
-                            variant="default"
-                            onClick={() => unlockEmployeeMutation.mutate(emp.id)}
-                            disabled={!emp.isLocked || unlockEmployeeMutation.isPending}
+                            variant="outline"
+                            onClick={() => setSessionsEmployee(emp)}
+                            title="Active sessions"
                           >
-                            <Unlock className="h-4 w-4 mr-1" />
-                            Unblock
+                            <MonitorSmartphone className="h-4 w-4" />
+                          </Button>
+
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setPointsEmployee(emp)}
+                            title="Points ledger"
+                          >
+                            <Coins className="h-4 w-4" />
                           </Button>
                         </div>
                       )}
@@ -283,6 +330,31 @@ export function EmployeesTable() {
           </Table>
         </div>
       </CardContent>
+
+      {historyEmployee && (
+        <EmployeeLockHistoryModal
+          employee={historyEmployee}
+          employees={employees}
+          onClose={() => setHistoryEmployee(null)}
+        />
+      )}
+
+      {sessionsEmployee && (
+        <EmployeeSessionsModal
+          employee={sessionsEmployee}
+          canRevoke={canEditProfile}
+          onClose={() => setSessionsEmployee(null)}
+        />
+      )}
+
+      {pointsEmployee && (
+        <EmployeePointsModal
+          employee={pointsEmployee}
+          employees={employees}
+          canPost={canGrantPoints}
+          onClose={() => setPointsEmployee(null)}
+        />
+      )}
     </Card>
   );
 }
@@ -1,3 +1,5 @@
+import type { EmployeeRole } from "@shared/permissions";
+
 export type Employee = {
   id: string;
   firstName: string;
@@ -7,9 +9,22 @@ export type Employee = {
   points: number;
   loginAttempts: number;
   isLocked: boolean;
+  lockReason?: string | null;
+  lockedAt?: string | null;
+  lockedUntil?: string | null;
   employeeId?: string | null;
 
   // ✅ NEW
   bulkBuyAllowed?: boolean;
-  role?: "user" | "admin" | "procurement";
-};
\ No newline at end of file
+  role?: EmployeeRole;
+};
+
+export type EmployeeLockEvent = {
+  id: string;
+  employeeId: string;
+  action: "locked" | "unlocked";
+  reason: string | null;
+  ip: string | null;
+  actorEmployeeId: string | null;
+  createdAt: string;
+};
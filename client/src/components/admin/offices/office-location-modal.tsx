@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { OfficeLocation, OfficeLocationForm } from "./types";
+
+interface OfficeLocationModalProps {
+  location: OfficeLocation | null; // null = new location
+  onClose: () => void;
+}
+
+export function OfficeLocationModal({ location, onClose }: OfficeLocationModalProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [form, setForm] = useState<OfficeLocationForm>({
+    name: location?.name ?? "",
+    address: location?.address ?? "",
+    pickupHours: location?.pickupHours ?? "",
+    capacity: location?.capacity != null ? String(location.capacity) : "",
+    isActive: location?.isActive ?? true,
+  });
+  const set = (patch: Partial<OfficeLocationForm>) => setForm((f) => ({ ...f, ...patch }));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name.trim(),
+        address: form.address.trim(),
+        pickupHours: form.pickupHours.trim() || null,
+        capacity: form.capacity.trim() ? Number(form.capacity) : null,
+        isActive: form.isActive,
+      };
+      const res = location
+        ? await apiRequest("PUT", `/api/admin/office-locations/${location.id}`, body)
+        : await apiRequest("POST", "/api/admin/office-locations", body);
+      return res.json();
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["/api/admin/office-locations"] });
+      toast({ title: location ? "Location updated" : "Location added" });
+      onClose();
+    },
+    onError: (e: any) => toast({ title: "Could not save location", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{location ? `Edit ${location.name}` : "New office location"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Name</Label>
+            <Input value={form.name} onChange={(e) => set({ name: e.target.value })} placeholder="e.g. Bengaluru — Whitefield" />
+          </div>
+          <div className="space-y-1">
+            <Label>Address</Label>
+            <Textarea rows={3} value={form.address} onChange={(e) => set({ address: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label>Pickup desk hours</Label>
+            <Input
+              value={form.pickupHours}
+              onChange={(e) => set({ pickupHours: e.target.value })}
+              placeholder="e.g. Mon–Fri 10:00–18:00, reception B2"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Capacity</Label>
+            <Input
+              type="number"
+              min={1}
+              value={form.capacity}
+              onChange={(e) => set({ capacity: e.target.value })}
+              placeholder="No limit"
+            />
+            <p className="text-xs text-muted-foreground">
+              Orders the desk can hold at once. Checkout stops offering the location when it is full.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={form.isActive} onCheckedChange={(v) => set({ isActive: v })} />
+            Offered at checkout
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-4">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!form.name.trim() || !form.address.trim() || saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+          >
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAdminAccess } from "@/hooks/use-admin-access";
+import { apiRequest } from "@/lib/queryClient";
+import { OfficeLocationModal } from "./office-location-modal";
+import type { OfficeLocation } from "./types";
+
+export function OfficeLocationsTable() {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const { can } = useAdminAccess();
+  const canWrite = can("offices.write");
+  const [editing, setEditing] = useState<OfficeLocation | "new" | null>(null);
+
+  const { data: locations = [], isLoading } = useQuery<OfficeLocation[]>({
+    queryKey: ["/api/admin/office-locations"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => (await apiRequest("DELETE", `/api/admin/office-locations/${id}`)).json(),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["/api/admin/office-locations"] });
+      toast({ title: "Location deleted" });
+    },
+    onError: (e: any) => toast({ title: "Could not delete location", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Office Locations</CardTitle>
+          {canWrite && (
+            <Button size="sm" onClick={() => setEditing("new")}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add location
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="py-8 text-sm text-muted-foreground">Loading locations…</div>
+          ) : locations.length === 0 ? (
+            <div className="py-8 text-sm text-muted-foreground">
+              No office locations yet. Until one is added, office pickups are placed without a location.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Pickup hours</TableHead>
+                  <TableHead>Waiting / capacity</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canWrite && <TableHead></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {locations.map((l) => (
+                  <TableRow key={l.id}>
+                    <TableCell className="font-medium">{l.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground whitespace-pre-line">{l.address}</TableCell>
+                    <TableCell className="text-sm">{l.pickupHours || "-"}</TableCell>
+                    <TableCell>
+                      {l.openPickups} / {l.capacity ?? "∞"}
+                      {l.capacity != null && l.openPickups >= l.capacity && (
+                        <Badge variant="destructive" className="ml-2">
+                          Full
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={l.isActive ? "default" : "secondary"}>{l.isActive ? "Active" : "Inactive"}</Badge>
+                    </TableCell>
+                    {canWrite && (
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button size="sm" variant="outline" onClick={() => setEditing(l)} title="Edit">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Delete"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => window.confirm(`Delete ${l.name}?`) && deleteMutation.mutate(l.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {editing && (
+        <OfficeLocationModal location={editing === "new" ? null : editing} onClose={() => setEditing(null)} />
+      )}
+    </>
+  );
+}
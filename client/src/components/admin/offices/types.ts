@@ -0,0 +1,20 @@
+// As served by /api/admin/office-locations
+export type OfficeLocation = {
+  id: string;
+  name: string;
+  address: string;
+  pickupHours: string | null;
+  capacity: number | null; // null = no limit
+  isActive: boolean;
+  openPickups: number; // orders waiting at the desk now
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type OfficeLocationForm = {
+  name: string;
+  address: string;
+  pickupHours: string;
+  capacity: string; // blank = no limit
+  isActive: boolean;
+};
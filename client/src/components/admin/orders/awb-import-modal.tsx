@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download as DownloadIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { csvEscape, downloadBlob, readSpreadsheetRows } from "@/lib/csv-utils";
+
+type ImportField = "orderId" | "courier" | "awb" | "dispatchedAt" | "expectedAt" | "status" | "location" | "eventAt";
+type ImportRow = Partial<Record<ImportField, string>>;
+
+type ImportResult = {
+  created: number;
+  updated: number;
+  shipped: number;
+  events: number;
+  failed: { row: number; orderId: string; message: string }[];
+};
+
+// Header spellings seen in courier manifests, compared lower-case without spaces or punctuation
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  orderId: ["orderid", "order", "orderno", "ordernumber", "reference", "referenceno", "refno", "clientorderid"],
+  courier: ["courier", "couriername", "carrier", "logisticspartner"],
+  awb: ["awb", "awbno", "awbnumber", "waybill", "waybillno", "trackingnumber", "trackingno", "trackingid"],
+  dispatchedAt: ["dispatchedat", "dispatched", "dispatchdate", "dispatchedon", "shipdate", "shippedon", "pickupdate"],
+  expectedAt: ["expectedat", "expected", "expecteddate", "expecteddelivery", "edd", "promiseddate"],
+  status: ["status", "currentstatus", "shipmentstatus"],
+  location: ["location", "currentlocation", "city"],
+  eventAt: ["eventat", "statusdate", "statustime", "lastupdated", "updatedat"],
+};
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function toImportRows(raw: Record<string, string>[], defaultCourier: string): ImportRow[] {
+  return raw
+    .map((r) => {
+      const byHeader = new Map(Object.entries(r).map(([k, v]) => [normalizeHeader(k), v]));
+      const row: ImportRow = {};
+      for (const [field, aliases] of Object.entries(COLUMN_ALIASES) as [ImportField, string[]][]) {
+        const value = aliases.map((a) => byHeader.get(a)).find((v) => v);
+        // blank cells are left out so they don't clear what is already stored
+        if (value) row[field] = value;
+      }
+      if (!row.courier && defaultCourier.trim()) row.courier = defaultCourier.trim();
+      return row;
+    })
+    .filter((r) => r.orderId || r.awb);
+}
+
+function downloadAwbSample() {
+  const header = ["orderId", "courier", "awb", "dispatchedAt", "expectedAt", "status", "location", "eventAt"];
+  const rows = [
+    ["ORD-2026-001", "Delhivery", "1234567890123", "18/10/2026", "22/10/2026", "Picked up", "Bengaluru", "18/10/2026 17:30"],
+    ["ORD-2026-002", "Blue Dart", "90876543210", "18/10/2026", "21/10/2026", "", "", ""],
+  ];
+  const csv = [header, ...rows].map((r) => r.map(csvEscape).join(",")).join("\r\n");
+  downloadBlob(new Blob([csv], { type: "text/csv;charset=utf-8" }), "awb-import-sample.csv");
+}
+
+export function AwbImportModal({ onClose }: { onClose: () => void }) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [defaultCourier, setDefaultCourier] = useState("");
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (!file) throw new Error("Select a file");
+      const rows = toImportRows(await readSpreadsheetRows(file), defaultCourier);
+      if (!rows.length) throw new Error("No rows with an order ID or AWB found");
+      const res = await apiRequest("POST", "/api/admin/shipments/import", { rows });
+      return res.json() as Promise<ImportResult>;
+    },
+    onSuccess: (data) => {
+      qc.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      setResult(data);
+      toast({
+        title: "AWB import complete",
+        description: `Added ${data.created}, updated ${data.updated}, failed ${data.failed.length}`,
+        variant: data.failed.length ? "destructive" : undefined,
+      });
+    },
+    onError: (e: any) => toast({ title: "AWB import failed", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import AWBs</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Upload the courier's CSV or XLSX. Rows are matched on the order ID (ORD-…); packed orders move to shipped.
+          Optional status, location and date columns add tracking updates.
+        </p>
+
+        <div className="space-y-3">
+          <Input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setResult(null);
+            }}
+          />
+          <div className="space-y-1">
+            <Label>Courier (when the file has no courier column)</Label>
+            <Input value={defaultCourier} onChange={(e) => setDefaultCourier(e.target.value)} placeholder="e.g. Delhivery" />
+          </div>
+          <div className="flex justify-between">
+            <Button variant="outline" size="sm" onClick={downloadAwbSample}>
+              <DownloadIcon className="h-4 w-4 mr-2" />
+              Sample CSV
+            </Button>
+            <Button size="sm" disabled={!file || importMutation.isPending} onClick={() => importMutation.mutate()}>
+              {importMutation.isPending ? "Importing…" : "Import"}
+            </Button>
+          </div>
+        </div>
+
+        {result && (
+          <div className="border-t pt-3 text-sm space-y-2">
+            <p>
+              {result.created} added · {result.updated} updated · {result.shipped} marked shipped · {result.events}{" "}
+              tracking update(s)
+            </p>
+            {result.failed.length > 0 && (
+              <ul className="space-y-1 text-red-600">
+                {result.failed.map((f) => (
+                  <li key={f.row}>
+                    Row {f.row}
+                    {f.orderId ? ` (${f.orderId})` : ""}: {f.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
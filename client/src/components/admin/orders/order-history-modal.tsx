@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { OrderTimeline } from "@/components/orders/order-timeline";
+import type { Employee } from "../employees/types";
+import type { Order, OrderStatusHistoryEntry } from "./types";
+
+interface OrderHistoryModalProps {
+  order: Order;
+  onClose: () => void;
+}
+
+export function OrderHistoryModal({ order, onClose }: OrderHistoryModalProps) {
+  const { data: history = [], isLoading } = useQuery<OrderStatusHistoryEntry[]>({
+    queryKey: [`/api/admin/orders/${order.id}/history`],
+    staleTime: 0,
+  });
+  // the employee list is usually cached already; used only to name the actor
+  const { data: employees = [] } = useQuery<Employee[]>({ queryKey: ["/api/admin/employees"] });
+
+  const actorName = (id: string | null) => {
+    if (!id) return "System";
+    const e = employees.find((x) => x.id === id);
+    return e ? `${e.firstName} ${e.lastName}` : id;
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Status history — {order.orderId}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-6 text-sm text-muted-foreground">Loading history…</div>
+        ) : (
+          <OrderTimeline entries={history.map((h) => ({ ...h, actorName: actorName(h.actorEmployeeId) }))} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,20 +5,31 @@ import { useToast } from "@/hooks/use-toast";
 import { FileDown, X } from "lucide-react";
 import { csvEscape, downloadBlob } from "@/lib/csv-utils";
 import type { Order } from "./types";
+import type { OfficeLocation } from "../offices/types";
 
 
 interface OrdersExportModalProps {
   open: boolean;
   onClose: () => void;
   orders: Order[];
+  locations: OfficeLocation[];
+}
+
+/** Where the order is fulfilled: its pickup location, or home delivery. */
+export function fulfilmentLabel(order: Order, locations: OfficeLocation[]): string {
+  if (order.metadata?.deliveryMethod === "delivery") return "Home delivery";
+  const location = locations.find((l) => l.id === order.officeLocationId);
+  return location?.name ?? (order.metadata?.deliveryAddress || "Office (no location)");
 }
 
 const ORDER_EXPORT_COLUMNS = [
   { key: "orderId", label: "Order ID" },
+  { key: "fulfilment", label: "Pickup Location / Delivery" },
   { key: "employeeName", label: "Employee Name" },
   { key: "employeePhone", label: "Employee Phone" },
   { key: "productName", label: "Product Name" },
   { key: "selectedColor", label: "Color" },
+  { key: "selectedSize", label: "Size" },
   { key: "quantity", label: "Quantity" },
   { key: "price", label: "Price" },
   { key: "pointsUsed", label: "Points Used" },
@@ -29,11 +40,13 @@ const ORDER_EXPORT_COLUMNS = [
 
 type ExportKey = (typeof ORDER_EXPORT_COLUMNS)[number]["key"];
 
-export function OrdersExportModal({ open, onClose, orders }: OrdersExportModalProps) {
+export function OrdersExportModal({ open, onClose, orders, locations }: OrdersExportModalProps) {
   const { toast } = useToast();
   const [selectedExportCols, setSelectedExportCols] = useState<ExportKey[]>(
     ORDER_EXPORT_COLUMNS.map((c) => c.key)
   );
+  // each campus team works from its own pick list
+  const [filePerLocation, setFilePerLocation] = useState(false);
 
   const toggleExportCol = (key: ExportKey) => {
     setSelectedExportCols((prev) =>
@@ -58,27 +71,41 @@ export function OrdersExportModal({ open, onClose, orders }: OrdersExportModalPr
       })
       .join(",");
 
-    const rows = orders.map((order) => {
+    // rows are grouped by location; one row per item, order-level amounts on the order's first row only so column sums stay right
+    const byLocation = new Map<string, Order[]>();
+    for (const order of orders) {
+      const label = fulfilmentLabel(order, locations);
+      byLocation.set(label, [...(byLocation.get(label) ?? []), order]);
+    }
+    const groups = Array.from(byLocation.keys())
+      .sort((a, b) => a.localeCompare(b))
+      .map((label) => ({ label, orders: byLocation.get(label)! }));
+
+    const toRow = ({ order, item, first }: { order: Order; item: Order["items"][number]; first: boolean }) => {
       const values = selectedExportCols.map((key) => {
         switch (key) {
           case "orderId":
             return csvEscape(order.orderId);
+          case "fulfilment":
+            return csvEscape(fulfilmentLabel(order, locations));
           case "employeeName":
             return csvEscape(`${order.employee?.firstName ?? ""} ${order.employee?.lastName ?? ""}`.trim());
           case "employeePhone":
             return csvEscape(order.employee?.phoneNumber ?? "");
           case "productName":
-            return csvEscape(order.product?.name ?? "");
+            return csvEscape(item.product?.name ?? "");
           case "selectedColor":
-            return csvEscape(order.selectedColor ?? "");
+            return csvEscape(item.selectedColor ?? "");
+          case "selectedSize":
+            return csvEscape(item.selectedSize ?? "");
           case "quantity":
-            return csvEscape(order.quantity ?? 1);
+            return csvEscape(item.quantity ?? 1);
           case "price":
-            return csvEscape(order.product?.price ?? "");
+            return csvEscape(item.unitPrice ?? item.product?.price ?? "");
           case "pointsUsed":
-            return csvEscape(order.metadata?.usedPoints ?? 0);
+            return csvEscape(item.usedPoints ?? 0);
           case "copayAmount":
-            return csvEscape(order.metadata?.copayInr ?? 0);
+            return csvEscape(first ? order.metadata?.copayInr ?? 0 : 0);
           case "orderDate":
             try {
               const d = new Date(order.orderDate);
@@ -98,12 +125,21 @@ export function OrdersExportModal({ open, onClose, orders }: OrdersExportModalPr
         }
       });
       return values.join(",");
-    });
+    };
+    const toCsv = (list: Order[]) => {
+      const rows = list.flatMap((order) => order.items.map((item, index) => toRow({ order, item, first: index === 0 })));
+      return new Blob([[header, ...rows].join("\r\n")], { type: "text/csv;charset=utf-8" });
+    };
 
-    const csv = [header, ...rows].join("\r\n");
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
     const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
-    downloadBlob(blob, `orders-export-${stamp}.csv`);
+    if (filePerLocation) {
+      for (const group of groups) {
+        const slug = group.label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+        downloadBlob(toCsv(group.orders), `orders-${slug || "location"}-${stamp}.csv`);
+      }
+    } else {
+      downloadBlob(toCsv(groups.flatMap((g) => g.orders)), `orders-export-${stamp}.csv`);
+    }
     
     onClose();
     toast({ title: "Export started", description: "Your CSV file has been downloaded." });
@@ -129,6 +165,15 @@ export function OrdersExportModal({ open, onClose, orders }: OrdersExportModalPr
             </label>
           ))}
         </div>
+        <label className="mt-3 flex items-center gap-2 text-sm border-t pt-3">
+          <input
+            type="checkbox"
+            className="h-4 w-4"
+            checked={filePerLocation}
+            onChange={(e) => setFilePerLocation(e.target.checked)}
+          />
+          One file per pickup location
+        </label>
         <div className="mt-4 flex justify-end gap-2">
           <Button variant="secondary" onClick={onClose}>
             <X className="h-4 w-4 mr-1" />
@@ -1,20 +1,75 @@
 // src/components/admin/orders/orders-table.tsx
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { FileDown } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FileDown, History, Truck, Upload } from "lucide-react";
 import { useState } from "react";
-import { OrdersExportModal } from "./orders-export-modal";
+import { OrdersExportModal, fulfilmentLabel } from "./orders-export-modal";
+import { OrderHistoryModal } from "./order-history-modal";
+import { ShipmentModal } from "./shipment-modal";
+import { AwbImportModal } from "./awb-import-modal";
+import { OrderStatusBadge } from "@/components/orders/order-status-badge";
+import { InvoiceLinks } from "@/components/orders/invoice-links";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { useAdminAccess } from "@/hooks/use-admin-access";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  ORDER_STATUSES,
+  ORDER_STATUS_LABEL,
+  ORDER_STATUS_TRANSITIONS,
+  isOrderStatus,
+  type OrderStatus,
+} from "@shared/order-status";
+import type { OrderCancellation } from "@shared/schema";
 import type { Order } from "./types";
+import type { OfficeLocation } from "../offices/types";
+
+function nextStatuses(order: Order): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[isOrderStatus(order.status) ? order.status : "confirmed"];
+}
+
+// Header total; orders from before it was recorded fall back to the item prices
+export function orderTotalInr(order: Order): number {
+  if (typeof order.metadata?.totalInr === "number") return order.metadata.totalInr;
+  const sum = order.items.reduce((s, i) => s + Number(i.unitPrice ?? i.product?.price ?? 0) * i.quantity, 0);
+  return Number(sum.toFixed(2));
+}
+
+// Copay refund state for cancelled orders, with a retry when the gateway call failed
+function RefundNote({ order, canRetry, onRetry }: { order: Order; canRetry: boolean; onRetry: () => void }) {
+  const c = order.metadata?.cancellation as OrderCancellation | undefined;
+  if (!c || c.copayRefundInr <= 0) return null;
+  return (
+    <div className="text-xs text-muted-foreground">
+      Refund ₹{c.copayRefundInr} · {c.refundStatus}
+      {c.refundStatus === "failed" && canRetry && (
+        <Button size="sm" variant="link" className="h-auto p-0 ml-1 text-xs" onClick={onRetry} title={c.refundError ?? ""}>
+          Retry
+        </Button>
+      )}
+    </div>
+  );
+}
 
 export function OrdersTable() {
   const { token } = useAuth();
   const { toast } = useToast();
+  const qc = useQueryClient();
+  const { can } = useAdminAccess();
+  const canWrite = can("orders.write");
   const [exportOpen, setExportOpen] = useState(false);
+  const [historyOrder, setHistoryOrder] = useState<Order | null>(null);
+  const [shipmentOrder, setShipmentOrder] = useState<Order | null>(null);
+  const [awbImportOpen, setAwbImportOpen] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkStatus, setBulkStatus] = useState<OrderStatus | "">("");
+  const [bulkNote, setBulkNote] = useState("");
+  // "" = all, "delivery" = home delivery, otherwise a pickup location label
+  const [fulfilment, setFulfilment] = useState("");
 
   const {
     data: orders = [],
@@ -45,6 +100,87 @@ export function OrdersTable() {
     retry: 1,
   });
 
+  const { data: locations = [] } = useQuery<OfficeLocation[]>({
+    queryKey: ["/api/admin/office-locations"],
+    enabled: !!token,
+  });
+
+  const fulfilmentOptions = Array.from(new Set(orders.map((o) => fulfilmentLabel(o, locations)))).sort((a, b) =>
+    a.localeCompare(b)
+  );
+  const visibleOrders = fulfilment ? orders.filter((o) => fulfilmentLabel(o, locations) === fulfilment) : orders;
+
+  const statusMutation = useMutation({
+    mutationFn: async (payload: { id: string; status: OrderStatus }) => {
+      const res = await apiRequest("PUT", `/api/admin/orders/${payload.id}/status`, { status: payload.status });
+      return res.json();
+    },
+    onSuccess: (_data, vars) => {
+      qc.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      toast({ title: `Order marked ${ORDER_STATUS_LABEL[vars.status].toLowerCase()}` });
+    },
+    onError: (e: any) => toast({ title: "Failed to update status", description: e.message, variant: "destructive" }),
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/orders/${id}/refund`);
+      return res.json() as Promise<Order>;
+    },
+    onSuccess: (order) => {
+      qc.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      const c = order.metadata?.cancellation;
+      toast({
+        title: c?.refundStatus === "initiated" ? "Refund initiated" : "Refund failed again",
+        description: c?.refundError ?? undefined,
+        variant: c?.refundStatus === "initiated" ? undefined : "destructive",
+      });
+    },
+    onError: (e: any) => toast({ title: "Refund failed", description: e.message, variant: "destructive" }),
+  });
+
+  const invoiceMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/orders/${id}/invoice`);
+      return res.json();
+    },
+    onSuccess: (invoice: any) => {
+      qc.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      toast({ title: `Invoice ${invoice.number} issued` });
+    },
+    onError: (e: any) => toast({ title: "Could not issue invoice", description: e.message, variant: "destructive" }),
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: async (payload: { ids: string[]; status: OrderStatus; note: string | null }) => {
+      const res = await apiRequest("POST", "/api/admin/orders/status", payload);
+      return res.json() as Promise<{ updated: string[]; failed: { id: string; message: string }[] }>;
+    },
+    onSuccess: (data) => {
+      qc.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      setSelected(new Set(data.failed.map((f) => f.id)));
+      setBulkNote("");
+      toast({
+        title: `${data.updated.length} order(s) updated`,
+        description: data.failed.length
+          ? `${data.failed.length} skipped: ${data.failed[0].message}${data.failed.length > 1 ? " …" : ""}`
+          : undefined,
+        variant: data.failed.length ? "destructive" : undefined,
+      });
+    },
+    onError: (e: any) => toast({ title: "Bulk update failed", description: e.message, variant: "destructive" }),
+  });
+
+  const toggle = (id: string, on: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (on) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const allSelected = visibleOrders.length > 0 && visibleOrders.every((o) => selected.has(o.id));
+
   const onRefresh = async () => {
     try {
       await refetch();
@@ -61,24 +197,89 @@ export function OrdersTable() {
           <CardTitle>All Orders</CardTitle>
 
           <div className="flex gap-2">
+            {fulfilmentOptions.length > 1 && (
+              <select
+                className="border rounded-md p-2 text-sm bg-background"
+                value={fulfilment}
+                onChange={(e) => setFulfilment(e.target.value)}
+                aria-label="Pickup location"
+              >
+                <option value="">All locations</option>
+                {fulfilmentOptions.map((label) => (
+                  <option key={label} value={label}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            )}
+
             <Button variant="outline" size="sm" onClick={onRefresh}>
               Refresh
             </Button>
 
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setExportOpen(true)}
-              disabled={!orders.length}
-              title={!orders.length ? "No orders to export" : "Export"}
-            >
-              <FileDown className="h-4 w-4 mr-2" />
-              Export (Excel/CSV)
-            </Button>
+            {canWrite && (
+              <Button variant="outline" size="sm" onClick={() => setAwbImportOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import AWBs
+              </Button>
+            )}
+
+            {can("orders.export") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setExportOpen(true)}
+                disabled={!visibleOrders.length}
+                title={!visibleOrders.length ? "No orders to export" : "Export"}
+              >
+                <FileDown className="h-4 w-4 mr-2" />
+                Export (Excel/CSV)
+              </Button>
+            )}
           </div>
         </CardHeader>
 
         <CardContent>
+          {canWrite && selected.size > 0 && (
+            <div className="mb-4 flex flex-wrap items-center gap-2 rounded-lg border p-3">
+              <span className="text-sm font-medium">{selected.size} selected</span>
+              <select
+                className="border rounded-md p-2 text-sm bg-background"
+                value={bulkStatus}
+                onChange={(e) => setBulkStatus(e.target.value as OrderStatus | "")}
+              >
+                <option value="">Move to…</option>
+                {ORDER_STATUSES.map((s) => (
+                  <option key={s} value={s}>
+                    {ORDER_STATUS_LABEL[s]}
+                  </option>
+                ))}
+              </select>
+              <Input
+                className="max-w-xs"
+                value={bulkNote}
+                onChange={(e) => setBulkNote(e.target.value)}
+                placeholder="Note (optional)"
+              />
+              <Button
+                size="sm"
+                disabled={!bulkStatus || bulkMutation.isPending}
+                onClick={() => {
+                  if (!bulkStatus) return;
+                  if (bulkStatus === "cancelled" && !window.confirm(`Cancel ${selected.size} order(s) and refund them?`)) {
+                    return;
+                  }
+                  bulkMutation.mutate({ ids: Array.from(selected), status: bulkStatus, note: bulkNote.trim() || null });
+                }}
+              >
+                Apply
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setSelected(new Set())}>
+                Clear
+              </Button>
+            </div>
+          )}
+
           {isLoading ? (
             <div className="py-8 text-sm text-muted-foreground">Loading orders…</div>
           ) : isError ? (
@@ -90,34 +291,59 @@ export function OrdersTable() {
                 Try again
               </Button>
             </div>
-          ) : orders.length === 0 ? (
-            <div className="py-8 text-sm text-muted-foreground">No orders yet.</div>
+          ) : visibleOrders.length === 0 ? (
+            <div className="py-8 text-sm text-muted-foreground">{fulfilment ? "No orders for this location." : "No orders yet."}</div>
           ) : (
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
                   <TableRow>
+                    {canWrite && (
+                      <TableHead className="w-8">
+                        <Checkbox
+                          checked={allSelected}
+                          onCheckedChange={(v) => setSelected(v ? new Set(visibleOrders.map((o) => o.id)) : new Set())}
+                          aria-label="Select all orders"
+                        />
+                      </TableHead>
+                    )}
                     <TableHead>Order ID</TableHead>
                     <TableHead>Employee</TableHead>
-                    <TableHead>Product</TableHead>
-                    <TableHead>Color</TableHead>
-                    <TableHead>Quantity</TableHead>
-                    <TableHead>Price</TableHead>
+                    <TableHead>Items</TableHead>
+                    <TableHead>Total</TableHead>
                     <TableHead>Points Used</TableHead>
                     <TableHead>Amount Paid</TableHead>
                     <TableHead>Date</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
                   </TableRow>
                 </TableHeader>
 
                 <TableBody>
-                  {orders.map((order) => {
+                  {visibleOrders.map((order) => {
                     const employeeName =
                       `${order.employee?.firstName || ""} ${order.employee?.lastName || ""}`.trim();
 
                     return (
                       <TableRow key={order.id}>
-                        <TableCell className="font-mono">{order.orderId}</TableCell>
+                        {canWrite && (
+                          <TableCell>
+                            <Checkbox
+                              checked={selected.has(order.id)}
+                              onCheckedChange={(v) => toggle(order.id, !!v)}
+                              aria-label={`Select ${order.orderId}`}
+                            />
+                          </TableCell>
+                        )}
+                        <TableCell>
+                          <p className="font-mono">{order.orderId}</p>
+                          <p className="text-xs text-muted-foreground">{fulfilmentLabel(order, locations)}</p>
+                          {order.handedOverAt && (
+                            <p className="text-xs text-green-700">
+                              Handed over {new Date(order.handedOverAt).toLocaleDateString()}
+                            </p>
+                          )}
+                        </TableCell>
 
                         <TableCell>
                           <div>
@@ -128,18 +354,45 @@ export function OrdersTable() {
                           </div>
                         </TableCell>
 
-                        <TableCell>{order.product?.name || "-"}</TableCell>
-                        <TableCell>{order.selectedColor || "-"}</TableCell>
-                        <TableCell>{order.quantity}</TableCell>
-
-                        <TableCell className="font-semibold">
-                          ₹{order.metadata?.unitPrice ?? order.product?.price ?? 0}
+                        <TableCell>
+                          <ul className="space-y-1">
+                            {order.items.map((item) => (
+                              <li key={item.id} className="text-sm">
+                                <span className="font-medium">{item.product?.name || "-"}</span>
+                                <span className="text-muted-foreground">
+                                  {" "}
+                                  × {item.quantity}
+                                  {[item.selectedColor, item.selectedSize].filter(Boolean).length > 0 &&
+                                    ` · ${[item.selectedColor, item.selectedSize].filter(Boolean).join(" / ")}`}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
                         </TableCell>
 
+                        <TableCell className="font-semibold">₹{orderTotalInr(order)}</TableCell>
+
                         <TableCell>{order.metadata?.usedPoints ?? 0}</TableCell>
 
                         <TableCell>
                           {order.metadata?.copayInr ? `₹${order.metadata.copayInr}` : "₹0"}
+                          <RefundNote
+                            order={order}
+                            canRetry={canWrite && !refundMutation.isPending}
+                            onRetry={() => refundMutation.mutate(order.id)}
+                          />
+                          <InvoiceLinks invoices={order.invoices} admin />
+                          {canWrite && order.metadata?.copayInr > 0 && !order.invoices.some((i) => i.kind === "invoice") && (
+                            <Button
+                              size="sm"
+                              variant="link"
+                              className="h-auto p-0 text-xs"
+                              disabled={invoiceMutation.isPending}
+                              onClick={() => invoiceMutation.mutate(order.id)}
+                            >
+                              Issue invoice
+                            </Button>
+                          )}
                         </TableCell>
 
                         <TableCell>
@@ -147,7 +400,50 @@ export function OrdersTable() {
                         </TableCell>
 
                         <TableCell>
-                          <Badge className="bg-green-100 text-green-800">{order.status}</Badge>
+                          <div className="flex flex-col items-start gap-1">
+                            <OrderStatusBadge status={order.status} />
+                            {order.shipment && (
+                              <span className="text-xs text-muted-foreground">
+                                {order.shipment.courier} · <span className="font-mono">{order.shipment.awb}</span>
+                              </span>
+                            )}
+                            {canWrite && nextStatuses(order).length > 0 && (
+                              <select
+                                className="border rounded-md px-1 py-0.5 text-xs bg-background"
+                                value=""
+                                disabled={statusMutation.isPending}
+                                onChange={(e) => {
+                                  const status = e.target.value as OrderStatus | "";
+                                  if (!status) return;
+                                  if (
+                                    status === "cancelled" &&
+                                    !window.confirm(`Cancel ${order.orderId}? Stock is restored and points/copay refunded.`)
+                                  ) {
+                                    return;
+                                  }
+                                  statusMutation.mutate({ id: order.id, status });
+                                }}
+                              >
+                                <option value="">Move to…</option>
+                                {nextStatuses(order).map((s) => (
+                                  <option key={s} value={s}>
+                                    {ORDER_STATUS_LABEL[s]}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                        </TableCell>
+
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button size="sm" variant="outline" onClick={() => setHistoryOrder(order)} title="Status history">
+                              <History className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setShipmentOrder(order)} title="Shipment">
+                              <Truck className="h-4 w-4" />
+                            </Button>
+                          </div>
                         </TableCell>
                       </TableRow>
                     );
@@ -159,7 +455,20 @@ export function OrdersTable() {
         </CardContent>
       </Card>
 
-      <OrdersExportModal open={exportOpen} onClose={() => setExportOpen(false)} orders={orders} />
+      <OrdersExportModal
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+        orders={visibleOrders}
+        locations={locations}
+      />
+
+      {historyOrder && <OrderHistoryModal order={historyOrder} onClose={() => setHistoryOrder(null)} />}
+
+      {shipmentOrder && (
+        <ShipmentModal order={shipmentOrder} canWrite={canWrite} onClose={() => setShipmentOrder(null)} />
+      )}
+
+      {awbImportOpen && <AwbImportModal onClose={() => setAwbImportOpen(false)} />}
     </>
   );
 }
@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ShipmentTracking } from "@/components/orders/shipment-tracking";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Order, ShipmentDetail } from "./types";
+
+interface ShipmentModalProps {
+  order: Order;
+  canWrite: boolean;
+  onClose: () => void;
+}
+
+// <input type="date"> wants yyyy-mm-dd
+const toDateInput = (value: string | null | undefined) => (value ? value.slice(0, 10) : "");
+
+export function ShipmentModal({ order, canWrite, onClose }: ShipmentModalProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const url = `/api/admin/orders/${order.id}/shipment`;
+  const { data: shipment, isLoading } = useQuery<ShipmentDetail | null>({ queryKey: [url], staleTime: 0 });
+
+  const [courier, setCourier] = useState("");
+  const [awb, setAwb] = useState("");
+  const [dispatchedAt, setDispatchedAt] = useState("");
+  const [expectedAt, setExpectedAt] = useState("");
+  const [description, setDescription] = useState("");
+  const [location, setLocation] = useState("");
+
+  useEffect(() => {
+    if (!shipment) return;
+    setCourier(shipment.courier);
+    setAwb(shipment.awb);
+    setDispatchedAt(toDateInput(shipment.dispatchedAt));
+    setExpectedAt(toDateInput(shipment.expectedAt));
+  }, [shipment]);
+
+  const refresh = () => {
+    qc.invalidateQueries({ queryKey: [url] });
+    qc.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", url, { courier, awb, dispatchedAt, expectedAt });
+      return res.json() as Promise<{ shipped: boolean }>;
+    },
+    onSuccess: (data) => {
+      refresh();
+      toast({ title: "Shipment saved", description: data.shipped ? `${order.orderId} marked shipped` : undefined });
+    },
+    onError: (e: any) => toast({ title: "Could not save shipment", description: e.message, variant: "destructive" }),
+  });
+
+  const eventMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${url}/events`, { description, location });
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setDescription("");
+      setLocation("");
+      toast({ title: "Tracking update added" });
+    },
+    onError: (e: any) => toast({ title: "Could not add update", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Shipment — {order.orderId}</DialogTitle>
+        </DialogHeader>
+
+        {order.metadata?.deliveryAddress && (
+          <p className="text-sm text-muted-foreground">Deliver to: {order.metadata.deliveryAddress}</p>
+        )}
+
+        {isLoading ? (
+          <div className="py-6 text-sm text-muted-foreground">Loading shipment…</div>
+        ) : (
+          <>
+            {canWrite && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Courier</Label>
+                  <Input value={courier} onChange={(e) => setCourier(e.target.value)} placeholder="e.g. Delhivery" />
+                </div>
+                <div className="space-y-1">
+                  <Label>AWB number</Label>
+                  <Input value={awb} onChange={(e) => setAwb(e.target.value)} className="font-mono" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Dispatched on</Label>
+                  <Input type="date" value={dispatchedAt} onChange={(e) => setDispatchedAt(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Expected by</Label>
+                  <Input type="date" value={expectedAt} onChange={(e) => setExpectedAt(e.target.value)} />
+                </div>
+                <div className="col-span-2 flex justify-end">
+                  <Button
+                    size="sm"
+                    disabled={!courier.trim() || !awb.trim() || saveMutation.isPending}
+                    onClick={() => saveMutation.mutate()}
+                  >
+                    {shipment ? "Update shipment" : "Add shipment"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {shipment ? (
+              <div className="border-t pt-4 space-y-3">
+                <ShipmentTracking shipment={shipment} />
+
+                {canWrite && (
+                  <div className="flex flex-wrap items-end gap-2">
+                    <Input
+                      className="flex-1 min-w-[10rem]"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      placeholder="Update, e.g. Out for delivery"
+                    />
+                    <Input
+                      className="w-36"
+                      value={location}
+                      onChange={(e) => setLocation(e.target.value)}
+                      placeholder="Location"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!description.trim() || eventMutation.isPending}
+                      onClick={() => eventMutation.mutate()}
+                    >
+                      Add
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ) : (
+              !canWrite && <p className="text-sm text-muted-foreground">Not shipped yet.</p>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
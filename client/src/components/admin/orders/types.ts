@@ -1,16 +1,66 @@
 import type { Employee } from "../employees/types";
 import type { Product } from "../products/types";
+import type { OrderStatus } from "@shared/order-status";
+import type { InvoiceSummary } from "@/components/orders/types";
 
-export type Order = {
+export type OrderItem = {
   id: string;
   orderId: string;
-  employeeId: string;
   productId: string;
   selectedColor: string | null;
+  selectedSize: string | null;
   quantity: number;
-  status: string;
+  unitPrice: string | null;
+  usedPoints: number;
+  campaignId: string | null;
+  product: Product | null;
+};
+
+export type Order = {
+  id: string;
+  orderId: string;
+  employeeId: string;
+  status: OrderStatus | null;
   orderDate: string;
   metadata: Record<string, any> | null;
+  officeLocationId: string | null; // office pickups
+  handedOverAt: string | null; // set at the distribution desk
+  handedOverByEmployeeId: string | null;
   employee: Employee;
-  product: Product;
-};
\ No newline at end of file
+  items: OrderItem[];
+  shipment: Shipment | null;
+  invoices: InvoiceSummary[];
+};
+
+export type Shipment = {
+  id: string;
+  orderId: string;
+  courier: string;
+  awb: string;
+  dispatchedAt: string | null;
+  expectedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ShipmentEvent = {
+  id: string;
+  shipmentId: string;
+  description: string;
+  location: string | null;
+  occurredAt: string;
+  actorEmployeeId: string | null;
+  createdAt: string;
+};
+
+export type ShipmentDetail = Shipment & { events: ShipmentEvent[] };
+
+export type OrderStatusHistoryEntry = {
+  id: string;
+  orderId: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actorEmployeeId: string | null;
+  note: string | null;
+  createdAt: string;
+};
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Download, RefreshCw, RotateCcw, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAdminAccess } from "@/hooks/use-admin-access";
+import { apiRequest } from "@/lib/queryClient";
+import { csvEscape, downloadBlob } from "@/lib/csv-utils";
+import { PAYMENT_PROVIDER_LABEL, PAYMENT_STATUSES, PAYMENT_STATUS_LABEL, type PaymentStatus } from "@shared/payments";
+import type { AdminPayment, PaymentFilters, PaymentsReport as Report } from "./types";
+
+const STATUS_VARIANT: Record<PaymentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  processing: "secondary",
+  completed: "default",
+  failed: "outline",
+  refunded: "secondary",
+  refund_failed: "destructive",
+};
+
+const EMPTY_FILTERS: PaymentFilters = { status: "", from: "", to: "" };
+
+function buildQueryUrl(f: PaymentFilters) {
+  const params = new URLSearchParams();
+  if (f.status) params.set("status", f.status);
+  if (f.from) params.set("from", new Date(`${f.from}T00:00:00`).toISOString());
+  if (f.to) params.set("to", new Date(`${f.to}T23:59:59.999`).toISOString());
+  const qs = params.toString();
+  return qs ? `/api/admin/payments?${qs}` : "/api/admin/payments";
+}
+
+// Every copay attempt against the orders it placed, for finance to reconcile with the gateway
+export function PaymentsReport() {
+  const { toast } = useToast();
+  const { can } = useAdminAccess();
+  const canWrite = can("payments.write");
+  const [draft, setDraft] = useState<PaymentFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<PaymentFilters>(EMPTY_FILTERS);
+  const url = buildQueryUrl(filters);
+
+  const { data, isLoading, isFetching, refetch } = useQuery<Report>({ queryKey: [url], staleTime: 0 });
+  const payments = data?.payments ?? [];
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "check" | "refund" }) =>
+      (await apiRequest("POST", `/api/admin/payments/${id}/${action}`)).json() as Promise<AdminPayment>,
+    onSuccess: (payment) => {
+      refetch();
+      toast({ title: `${payment.ref}: ${PAYMENT_STATUS_LABEL[payment.status]}` });
+    },
+    onError: (e: any) => toast({ title: "Action failed", description: e.message, variant: "destructive" }),
+  });
+
+  const exportCsv = () => {
+    const header = [
+      "Created",
+      "Reference",
+      "Gateway",
+      "Gateway payment ID",
+      "Employee",
+      "Email",
+      "Amount (INR)",
+      "Status",
+      "Orders",
+      "Refund ID",
+      "Note",
+    ]
+      .map(csvEscape)
+      .join(",");
+    const rows = payments.map((p) =>
+      [
+        new Date(p.createdAt).toISOString(),
+        p.ref,
+        PAYMENT_PROVIDER_LABEL[p.provider] ?? p.provider,
+        p.gatewayPaymentId ?? "",
+        p.employeeName ?? "",
+        p.employeeEmail ?? "",
+        p.amountInr,
+        PAYMENT_STATUS_LABEL[p.status],
+        p.orderNumbers.join(" "),
+        p.refundTxnId ?? "",
+        p.error ?? "",
+      ]
+        .map(csvEscape)
+        .join(",")
+    );
+
+    const csv = [header, ...rows].join("\r\n");
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadBlob(blob, `copay-payments-${stamp}.csv`);
+  };
+
+  const summary = data?.summary;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {[
+          { label: "Collected", value: summary ? `₹${summary.collectedInr}` : "—" },
+          { label: "Refunded", value: summary ? `₹${summary.refundedInr}` : "—" },
+          { label: "Awaiting payment", value: summary?.pending ?? "—" },
+          { label: "Refunds failed", value: summary?.refundFailed ?? "—", alert: !!summary?.refundFailed },
+        ].map((c) => (
+          <Card key={c.label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{c.label}</p>
+              <p className={`text-2xl font-bold ${c.alert ? "text-red-600" : ""}`}>{c.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Copay Payments</CardTitle>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" disabled={isFetching} onClick={() => refetch()}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button size="sm" variant="outline" disabled={payments.length === 0} onClick={exportCsv}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex flex-wrap items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setFilters(draft);
+            }}
+          >
+            <select
+              className="border rounded-md p-2 text-sm bg-background"
+              value={draft.status}
+              onChange={(e) => setDraft({ ...draft, status: e.target.value as PaymentStatus | "" })}
+            >
+              <option value="">All statuses</option>
+              {PAYMENT_STATUSES.map((s) => (
+                <option key={s} value={s}>
+                  {PAYMENT_STATUS_LABEL[s]}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="date"
+              className="w-40"
+              value={draft.from}
+              onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              aria-label="From date"
+            />
+            <Input
+              type="date"
+              className="w-40"
+              value={draft.to}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              aria-label="To date"
+            />
+            <Button type="submit" variant="outline" size="sm">
+              <Search className="h-4 w-4 mr-2" />
+              Apply
+            </Button>
+          </form>
+
+          {isLoading ? (
+            <div className="py-8 text-sm text-muted-foreground">Loading payments…</div>
+          ) : payments.length === 0 ? (
+            <div className="py-8 text-sm text-muted-foreground">No payments match.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Orders</TableHead>
+                    {canWrite && <TableHead></TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payments.map((p) => (
+                    <TableRow key={p.id}>
+                      <TableCell className="whitespace-nowrap text-sm">{new Date(p.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">
+                        <span className="font-mono">{p.ref}</span>
+                        <p className="text-xs text-muted-foreground">
+                          {PAYMENT_PROVIDER_LABEL[p.provider] ?? p.provider}
+                          {p.gatewayPaymentId && ` · ${p.gatewayPaymentId}`}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {p.employeeName ?? p.employeeId}
+                        {p.employeeEmail && <p className="text-xs text-muted-foreground">{p.employeeEmail}</p>}
+                      </TableCell>
+                      <TableCell className="text-sm font-semibold">
+                        ₹{p.amountInr}
+                        <p className="text-xs font-normal text-muted-foreground">{p.itemCount} item(s)</p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <Badge variant={STATUS_VARIANT[p.status]}>{PAYMENT_STATUS_LABEL[p.status]}</Badge>
+                        {p.refundTxnId && <p className="text-xs text-muted-foreground">Refund {p.refundTxnId}</p>}
+                        {p.error && <p className="text-xs text-red-600 break-all max-w-[320px]">{p.error}</p>}
+                        {p.lastCheckedAt && (
+                          <p className="text-xs text-muted-foreground">
+                            Checked {new Date(p.lastCheckedAt).toLocaleString()} ({p.checks}×)
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm font-mono">{p.orderNumbers.join(", ") || "—"}</TableCell>
+                      {canWrite && (
+                        <TableCell>
+                          {(p.status === "pending" || p.status === "processing") && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={actionMutation.isPending}
+                              onClick={() => actionMutation.mutate({ id: p.id, action: "check" })}
+                            >
+                              <RefreshCw className="h-4 w-4 mr-2" />
+                              Check now
+                            </Button>
+                          )}
+                          {p.status === "refund_failed" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={actionMutation.isPending}
+                              onClick={() => {
+                                if (!window.confirm(`Retry the ₹${p.amountInr} refund for ${p.ref}?`)) return;
+                                actionMutation.mutate({ id: p.id, action: "refund" });
+                              }}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                              Retry refund
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import type { PaymentProviderId, PaymentStatus } from "@shared/payments";
+
+// As served by /api/admin/payments
+export type AdminPayment = {
+  id: string;
+  ref: string;
+  provider: PaymentProviderId;
+  employeeId: string;
+  employeeName: string | null;
+  employeeEmail: string | null;
+  amountInr: number;
+  itemCount: number;
+  status: PaymentStatus;
+  gatewayRef: string | null;
+  gatewayPaymentId: string | null;
+  orderIds: string[] | null;
+  orderNumbers: string[];
+  checks: number;
+  lastCheckedAt: string | null;
+  error: string | null;
+  refundTxnId: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PaymentsSummary = {
+  collectedInr: number;
+  refundedInr: number;
+  pending: number;
+  refundFailed: number;
+};
+
+export type PaymentsReport = {
+  payments: AdminPayment[];
+  summary: PaymentsSummary;
+};
+
+export type PaymentFilters = { status: PaymentStatus | ""; from: string; to: string };
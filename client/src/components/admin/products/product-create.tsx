@@ -29,6 +29,7 @@ const defaultNewProduct: Partial<Product> = {
   bulkBuy: false,
   // ✅ NEW
   gst: "0",
+  hsnCode: "",
   stockStatus: "non_committed",
   brandStore: false,
   brand: "",
@@ -241,6 +242,7 @@ export function ProductCreate() {
       bulkBuy: Boolean(newProduct.bulkBuy),
       // ✅ NEW
       gst: newProduct.gst || "0",
+      hsnCode: newProduct.hsnCode?.trim() || null,
       stockStatus: (newProduct.stockStatus as any) || "non_committed",
       brandStore: Boolean(newProduct.brandStore),
       brand: newProduct.brand?.trim() || "",
@@ -306,6 +308,16 @@ export function ProductCreate() {
             />
           </div>
 
+          <div>
+            <Label htmlFor="product-hsn">HSN code</Label>
+            <Input
+              id="product-hsn"
+              value={newProduct.hsnCode || ""}
+              onChange={(e) => setNewProduct((p) => ({ ...p, hsnCode: e.target.value }))}
+              placeholder="e.g. 6109"
+            />
+          </div>
+
           {/* ✅ NEW: Bulk Buy flag */}
           <div className="md:col-span-2">
             <Label>Bulk Buy</Label>
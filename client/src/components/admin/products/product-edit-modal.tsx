@@ -112,6 +112,7 @@ export function ProductEditModal({ open, onClose, product, products, categories
 
         // ✅ NEW
         gst: product.gst || "0",
+        hsnCode: product.hsnCode || "",
         stockStatus: (product.stockStatus as any) || "non_committed",
         brandStore: Boolean(product.brandStore),
         brand: product.brand || "",
@@ -227,6 +228,7 @@ export function ProductEditModal({ open, onClose, product, products, categories
       bulkBuy: Boolean((formData as any).bulkBuy),
       brandStore: Boolean((formData as any).brandStore),
       gst: formData.gst || "0",
+      hsnCode: formData.hsnCode?.trim() || null,
       stockStatus: (formData.stockStatus as any) || "non_committed",
       brand: (formData.brand ?? "").trim(),
       sizes: sizeUnit ? {
@@ -314,6 +316,16 @@ export function ProductEditModal({ open, onClose, product, products, categories
               />
             </div>
 
+            <div>
+              <Label htmlFor="edit-hsn">HSN code</Label>
+              <Input
+                id="edit-hsn"
+                value={formData.hsnCode || ""}
+                onChange={(e) => setFormData({ ...formData, hsnCode: e.target.value })}
+                placeholder="e.g. 6109"
+              />
+            </div>
+
             {/* ✅ NEW: Bulk Buy */}
             <div className="md:col-span-2">
               <Label>Bulk Buy</Label>
@@ -4,6 +4,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useAdminAccess } from "@/hooks/use-admin-access";
 import { apiRequest } from "@/lib/queryClient";
 import { Trash, Tag } from "lucide-react";
 import { ProductEditModal } from "./product-edit-modal";
@@ -15,6 +16,8 @@ import type { Campaign } from "@/components/admin/campaigns/types";
 export function ProductsTable() {
   const { toast } = useToast();
   const qc = useQueryClient();
+  const { can } = useAdminAccess();
+  const canEdit = can("products.write");
   const { data: products = [] } = useQuery<Product[]>({
     queryKey: ["/api/products-admin"],
   });
@@ -164,19 +167,23 @@ export function ProductsTable() {
                       </TableCell>
 
                       <TableCell>
-                        <div className="flex flex-wrap gap-2">
-                          <Button size="sm" variant="outline" onClick={() => openEditModal(p)}>
-                            Edit
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="destructive"
-                            onClick={() => deleteProductMutation.mutate(p.id)}
-                          >
-                            <Trash className="h-4 w-4 mr-1" />
-                            Delete
-                          </Button>
-                        </div>
+                        {canEdit ? (
+                          <div className="flex flex-wrap gap-2">
+                            <Button size="sm" variant="outline" onClick={() => openEditModal(p)}>
+                              Edit
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => deleteProductMutation.mutate(p.id)}
+                            >
+                              <Trash className="h-4 w-4 mr-1" />
+                              Delete
+                            </Button>
+                          </div>
+                        ) : (
+                          "—"
+                        )}
                       </TableCell>
                     </TableRow>
                   );
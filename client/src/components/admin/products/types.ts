@@ -34,6 +34,7 @@ export type Product = {
 
   // ✅ NEW: Extra fields
   gst?: string;
+  hsnCode?: string | null;
   stockStatus?: "committed" | "non_committed";
   brandStore?: boolean;
   brand?: string;
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAdminAccess } from "@/hooks/use-admin-access";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  RETURN_REQUEST_STATUSES,
+  RETURN_STATUS_LABEL,
+  RETURN_TYPE_LABEL,
+  type ReturnRequestStatus,
+} from "@shared/returns";
+import type { AdminReturnRequest } from "./types";
+
+const STATUS_CLASS: Record<ReturnRequestStatus, string> = {
+  requested: "bg-amber-100 text-amber-800",
+  approved: "bg-blue-100 text-blue-800",
+  rejected: "bg-red-100 text-red-800",
+  received: "bg-green-100 text-green-800",
+};
+
+type PendingAction = { request: AdminReturnRequest; action: "approve" | "reject" | "receive" };
+
+const ACTION_LABEL: Record<PendingAction["action"], string> = {
+  approve: "Approve",
+  reject: "Reject",
+  receive: "Mark received",
+};
+
+const DONE_LABEL: Record<PendingAction["action"], string> = {
+  approve: "approved",
+  reject: "rejected",
+  receive: "marked received",
+};
+
+function variantText(color: string | null | undefined, size: string | null | undefined) {
+  return [size, color].filter(Boolean).join(" / ") || "—";
+}
+
+export function ReturnsTable() {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const { can } = useAdminAccess();
+  const canWrite = can("orders.write");
+  const [status, setStatus] = useState<ReturnRequestStatus | "">("requested");
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [note, setNote] = useState("");
+
+  const url = status ? `/api/admin/returns?status=${status}` : "/api/admin/returns";
+  const { data: requests = [], isLoading } = useQuery<AdminReturnRequest[]>({ queryKey: [url] });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ request, action }: PendingAction) => {
+      const body = { note: note.trim() || null };
+      const res =
+        action === "receive"
+          ? await apiRequest("POST", `/api/admin/returns/${request.id}/receive`, body)
+          : await apiRequest("PUT", `/api/admin/returns/${request.id}/decision`, { ...body, decision: action });
+      return res.json();
+    },
+    onSuccess: (_data, { request, action }) => {
+      qc.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/admin/returns") });
+      qc.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      toast({ title: `${request.rmaNumber} ${DONE_LABEL[action]}` });
+      setPending(null);
+      setNote("");
+    },
+    onError: (e: any) => toast({ title: "Action failed", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Returns & Exchanges</CardTitle>
+          <select
+            className="border rounded-md p-2 text-sm bg-background"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ReturnRequestStatus | "")}
+          >
+            <option value="">All statuses</option>
+            {RETURN_REQUEST_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {RETURN_STATUS_LABEL[s]}
+              </option>
+            ))}
+          </select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="py-8 text-center text-muted-foreground">Loading requests…</div>
+          ) : requests.length === 0 ? (
+            <div className="py-8 text-center text-muted-foreground">No return requests.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>RMA</TableHead>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Request</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map((r) => (
+                    <TableRow key={r.id}>
+                      <TableCell>
+                        <p className="font-mono">{r.rmaNumber}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {r.order?.orderId ?? "-"} · {new Date(r.createdAt).toLocaleDateString()}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">
+                          {`${r.employee?.firstName ?? ""} ${r.employee?.lastName ?? ""}`.trim() || "-"}
+                        </p>
+                        <p className="text-xs text-muted-foreground">{r.employee?.email ?? ""}</p>
+                      </TableCell>
+                      <TableCell>
+                        <p>{r.item?.product?.name ?? "-"}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {variantText(r.item?.selectedColor, r.item?.selectedSize)} · qty {r.quantity}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <p>{RETURN_TYPE_LABEL[r.type]}</p>
+                        {r.type === "exchange" && (
+                          <p className="text-xs text-muted-foreground">
+                            to {variantText(r.exchangeColor, r.exchangeSize)}
+                          </p>
+                        )}
+                        {r.refundPoints ? (
+                          <p className="text-xs text-muted-foreground">{r.refundPoints} points refunded</p>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="max-w-xs">
+                        <p>{r.reason}</p>
+                        {r.details && <p className="text-xs text-muted-foreground">{r.details}</p>}
+                        {r.photos.length > 0 && (
+                          <div className="mt-1 flex gap-1">
+                            {r.photos.map((p) => (
+                              <a key={p} href={p} target="_blank" rel="noreferrer">
+                                <img src={p} alt="" className="w-10 h-10 rounded border object-cover" />
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_CLASS[r.status]}>{RETURN_STATUS_LABEL[r.status]}</Badge>
+                        {r.adminNote && <p className="text-xs text-muted-foreground mt-1">{r.adminNote}</p>}
+                      </TableCell>
+                      <TableCell>
+                        {canWrite && r.status === "requested" && (
+                          <div className="flex gap-2">
+                            <Button size="sm" onClick={() => setPending({ request: r, action: "approve" })}>
+                              Approve
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setPending({ request: r, action: "reject" })}>
+                              Reject
+                            </Button>
+                          </div>
+                        )}
+                        {canWrite && r.status === "approved" && (
+                          <Button size="sm" variant="outline" onClick={() => setPending({ request: r, action: "receive" })}>
+                            Mark received
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {pending && (
+        <Dialog open onOpenChange={(open) => !open && setPending(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>
+                {ACTION_LABEL[pending.action]} {pending.request.rmaNumber}
+              </DialogTitle>
+            </DialogHeader>
+            <p className="text-sm text-muted-foreground">
+              {pending.action === "approve" && pending.request.type === "exchange" &&
+                `Reserves ${pending.request.quantity} unit(s) for the replacement.`}
+              {pending.action === "approve" && pending.request.type === "return" &&
+                "Refunds the item's points to the employee's balance."}
+              {pending.action === "receive" && "Puts the returned unit(s) back into stock."}
+              {pending.action === "reject" && "The employee will see your note."}
+            </p>
+            <Textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note (optional)" />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPending(null)}>
+                Cancel
+              </Button>
+              <Button disabled={actionMutation.isPending} onClick={() => actionMutation.mutate(pending)}>
+                {ACTION_LABEL[pending.action]}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,9 @@
+import type { ReturnRequest } from "@/components/orders/types";
+import type { Employee } from "../employees/types";
+import type { OrderItem } from "../orders/types";
+
+export type AdminReturnRequest = ReturnRequest & {
+  order: { id: string; orderId: string; status: string | null } | null;
+  item: OrderItem | null;
+  employee: Employee | null;
+};
@@ -1,18 +1,24 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Badge } from "@/components/ui/badge";
+import { OrderStatusBadge } from "@/components/orders/order-status-badge";
+import { orderTotalInr } from "@/components/admin/orders/orders-table";
 import { Button } from "@/components/ui/button";
 import { StatsCards } from "@/components/admin/stats-cards";
 import { ShieldQuestion } from "lucide-react"; // Add this import
+import { useAdminAccess } from "@/hooks/use-admin-access";
+import { ROLE_LABEL } from "@shared/permissions";
 
 interface AdminDashboardProps {
   onViewAllOrders: () => void;
 }
 
 export function AdminDashboard({ onViewAllOrders }: AdminDashboardProps) {
+  const { role, can } = useAdminAccess();
   const { data: stats } = useQuery({ queryKey: ["/api/admin/stats"] });
-  const { data: orders = [] } = useQuery<any[]>({ queryKey: ["/api/admin/orders"] });
+  // full order details (addresses, phones) are only for roles that can read orders
+  const canReadOrders = can("orders.read");
+  const { data: orders = [] } = useQuery<any[]>({ queryKey: ["/api/admin/orders"], enabled: canReadOrders });
   
   const recentOrders = orders.slice(0, 10);
 
@@ -25,7 +31,7 @@ export function AdminDashboard({ onViewAllOrders }: AdminDashboardProps) {
         </div>
         <div className="flex items-center space-x-4">
           <div className="text-right">
-            <p className="font-medium">Administrator</p>
+            <p className="font-medium">{ROLE_LABEL[role]}</p>
           </div>
           <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
             <ShieldQuestion className="text-primary-foreground" />
@@ -35,60 +41,64 @@ export function AdminDashboard({ onViewAllOrders }: AdminDashboardProps) {
 
       <StatsCards stats={stats} />
       
-      <Card className="shadow-sm border border-border overflow-hidden mt-8">
-        <CardHeader className="border-b border-border">
-          <div className="flex items-center justify-between">
-            <CardTitle>Recent Orders</CardTitle>
-            <Button
-              variant="default"
-              size="sm"
-              onClick={onViewAllOrders}
-              data-testid="button-view-all-orders"
-            >
-              View All
-            </Button>
-          </div>
-        </CardHeader>
-        <CardContent className="p-0">
-          <div className="overflow-x-auto">
-            <Table>
-              <TableHeader>
-                <TableRow className="bg-muted">
-                  <TableHead>Order ID</TableHead>
-                  <TableHead>Employee</TableHead>
-                  <TableHead>Product</TableHead>
-                  <TableHead>Price</TableHead>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Status</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {recentOrders.map((order: any) => (
-                  <TableRow key={order.id} className="hover:bg-muted/50">
-                    <TableCell className="font-mono text-sm">{order.orderId}</TableCell>
-                    <TableCell>
-                      <div>
-                        <p className="font-medium">{order.employee?.firstName} {order.employee?.lastName}</p>
-                        {order.employee?.phoneNumber && (
-                          <p className="text-sm text-muted-foreground">{order.employee?.phoneNumber}</p>
-                        )}
-                      </div>
-                    </TableCell>
-                    <TableCell>{order.product?.name}</TableCell>
-                    <TableCell className="font-semibold">₹{order.product?.price}</TableCell>
-                    <TableCell className="text-sm text-muted-foreground">
-                      {new Date(order.orderDate).toLocaleDateString()}
-                    </TableCell>
-                    <TableCell>
-                      <Badge className="bg-green-100 text-green-800">{order.status}</Badge>
-                    </TableCell>
+      {canReadOrders && (
+        <Card className="shadow-sm border border-border overflow-hidden mt-8">
+          <CardHeader className="border-b border-border">
+            <div className="flex items-center justify-between">
+              <CardTitle>Recent Orders</CardTitle>
+              <Button
+                variant="default"
+                size="sm"
+                onClick={onViewAllOrders}
+                data-testid="button-view-all-orders"
+              >
+                View All
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted">
+                    <TableHead>Order ID</TableHead>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Items</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Status</TableHead>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </div>
-        </CardContent>
-      </Card>
+                </TableHeader>
+                <TableBody>
+                  {recentOrders.map((order: any) => (
+                    <TableRow key={order.id} className="hover:bg-muted/50">
+                      <TableCell className="font-mono text-sm">{order.orderId}</TableCell>
+                      <TableCell>
+                        <div>
+                          <p className="font-medium">{order.employee?.firstName} {order.employee?.lastName}</p>
+                          {order.employee?.phoneNumber && (
+                            <p className="text-sm text-muted-foreground">{order.employee?.phoneNumber}</p>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {(order.items ?? []).map((i: any) => i.product?.name).filter(Boolean).join(", ") || "-"}
+                      </TableCell>
+                      <TableCell className="font-semibold">₹{orderTotalInr(order)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(order.orderDate).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        <OrderStatusBadge status={order.status} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </>
   );
 }
\ No newline at end of file
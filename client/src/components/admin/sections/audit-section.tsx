@@ -0,0 +1,5 @@
+import { AuditLogTable } from "@/components/admin/audit/audit-log-table";
+
+export function AuditSection() {
+  return <AuditLogTable />;
+}
@@ -1,9 +1,12 @@
 import { useState } from "react";
 import { BlogsList } from "@/components/admin/blogs/blogs-list";
 import { BlogCreate } from "@/components/admin/blogs/blog-create";
+import { useAdminAccess } from "@/hooks/use-admin-access";
 
 export function BlogsSection() {
   const [activeTab, setActiveTab] = useState<"list" | "create">("list");
+  const { can } = useAdminAccess();
+  const canEdit = can("blogs.write");
 
   return (
     <div className="space-y-8">
@@ -20,20 +23,22 @@ export function BlogsSection() {
           >
             All Blogs
           </button>
-          <button
-            className={`px-4 py-2 rounded-lg ${
-              activeTab === "create"
-                ? "bg-primary text-primary-foreground"
-                : "bg-muted text-muted-foreground"
-            }`}
-            onClick={() => setActiveTab("create")}
-          >
-            Create Blog
-          </button>
+          {canEdit && (
+            <button
+              className={`px-4 py-2 rounded-lg ${
+                activeTab === "create"
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted text-muted-foreground"
+              }`}
+              onClick={() => setActiveTab("create")}
+            >
+              Create Blog
+            </button>
+          )}
         </div>
       </div>
 
-      {activeTab === "list" ? <BlogsList /> : <BlogCreate />}
+      {activeTab === "create" && canEdit ? <BlogCreate /> : <BlogsList />}
     </div>
   );
 }
\ No newline at end of file
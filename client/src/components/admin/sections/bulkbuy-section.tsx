@@ -0,0 +1,5 @@
+import { BulkBuyRequestsTable } from "@/components/admin/bulkbuy/bulkbuy-requests-table";
+
+export function BulkBuySection() {
+  return <BulkBuyRequestsTable />;
+}
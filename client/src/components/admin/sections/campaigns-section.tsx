@@ -1,9 +1,12 @@
 import { useState } from "react";
 import { CampaignsList } from "@/components/admin/campaigns/campaigns-list";
 import { CampaignCreate } from "@/components/admin/campaigns/campaign-create";
+import { useAdminAccess } from "@/hooks/use-admin-access";
 
 export function CampaignsSection() {
   const [activeTab, setActiveTab] = useState<"list" | "create">("list");
+  const { can } = useAdminAccess();
+  const canEdit = can("campaigns.write");
 
   return (
     <div className="space-y-8">
@@ -20,20 +23,22 @@ export function CampaignsSection() {
           >
             All Campaigns
           </button>
-          <button
-            className={`px-4 py-2 rounded-lg ${
-              activeTab === "create"
-                ? "bg-primary text-primary-foreground"
-                : "bg-muted text-muted-foreground"
-            }`}
-            onClick={() => setActiveTab("create")}
-          >
-            Create Campaign
-          </button>
+          {canEdit && (
+            <button
+              className={`px-4 py-2 rounded-lg ${
+                activeTab === "create"
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted text-muted-foreground"
+              }`}
+              onClick={() => setActiveTab("create")}
+            >
+              Create Campaign
+            </button>
+          )}
         </div>
       </div>
 
-      {activeTab === "list" ? <CampaignsList /> : <CampaignCreate />}
+      {activeTab === "create" && canEdit ? <CampaignCreate /> : <CampaignsList />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,5 @@
+import { HandoverDesk } from "@/components/admin/desk/handover-desk";
+
+export function DeskSection() {
+  return <HandoverDesk />;
+}
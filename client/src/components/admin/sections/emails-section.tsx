@@ -0,0 +1,20 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { EmailTemplatesEditor } from "@/components/admin/emails/email-templates-editor";
+import { EmailOutboxTable } from "@/components/admin/emails/email-outbox-table";
+
+export function EmailsSection() {
+  return (
+    <Tabs defaultValue="templates" className="space-y-4">
+      <TabsList>
+        <TabsTrigger value="templates">Templates</TabsTrigger>
+        <TabsTrigger value="log">Delivery log</TabsTrigger>
+      </TabsList>
+      <TabsContent value="templates">
+        <EmailTemplatesEditor />
+      </TabsContent>
+      <TabsContent value="log">
+        <EmailOutboxTable />
+      </TabsContent>
+    </Tabs>
+  );
+}
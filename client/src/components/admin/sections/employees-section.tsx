@@ -1,10 +1,13 @@
 import { EmployeesUpload } from "@/components/admin/employees/employees-upload";
 import { EmployeesTable } from "@/components/admin/employees/employees-table";
+import { useAdminAccess } from "@/hooks/use-admin-access";
 
 export function EmployeesSection() {
+  const { can } = useAdminAccess();
+
   return (
     <div className="space-y-8">
-      <EmployeesUpload />
+      {can("employees.write") && <EmployeesUpload />}
       <EmployeesTable />
     </div>
   );
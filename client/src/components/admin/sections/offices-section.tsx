@@ -0,0 +1,5 @@
+import { OfficeLocationsTable } from "@/components/admin/offices/office-locations-table";
+
+export function OfficesSection() {
+  return <OfficeLocationsTable />;
+}
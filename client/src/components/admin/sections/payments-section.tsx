@@ -0,0 +1,5 @@
+import { PaymentsReport } from "@/components/admin/payments/payments-report";
+
+export function PaymentsSection() {
+  return <PaymentsReport />;
+}
@@ -2,9 +2,12 @@ import { useState } from "react";
 import { ProductCreate } from "@/components/admin/products/product-create";
 import { ProductsTable } from "@/components/admin/products/products-table";
 import { CategoriesManagement } from "@/components/admin/categories/categories-management";
+import { useAdminAccess } from "@/hooks/use-admin-access";
 
 export function ProductsSection() {
   const [activeTab, setActiveTab] = useState<"categories" | "create" | "list">("list");
+  const { can } = useAdminAccess();
+  const canEdit = can("products.write");
 
   return (
     <div className="space-y-8">
@@ -21,31 +24,35 @@ export function ProductsSection() {
           >
             All Products
           </button>
-          <button
-            className={`px-4 py-2 rounded-lg ${
-              activeTab === "create"
-                ? "bg-primary text-primary-foreground"
-                : "bg-muted text-muted-foreground"
-            }`}
-            onClick={() => setActiveTab("create")}
-          >
-            Create Product
-          </button>
-          <button
-            className={`px-4 py-2 rounded-lg ${
-              activeTab === "categories"
-                ? "bg-primary text-primary-foreground"
-                : "bg-muted text-muted-foreground"
-            }`}
-            onClick={() => setActiveTab("categories")}
-          >
-            Categories
-          </button>
+          {canEdit && (
+            <>
+              <button
+                className={`px-4 py-2 rounded-lg ${
+                  activeTab === "create"
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-muted text-muted-foreground"
+                }`}
+                onClick={() => setActiveTab("create")}
+              >
+                Create Product
+              </button>
+              <button
+                className={`px-4 py-2 rounded-lg ${
+                  activeTab === "categories"
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-muted text-muted-foreground"
+                }`}
+                onClick={() => setActiveTab("categories")}
+              >
+                Categories
+              </button>
+            </>
+          )}
         </div>
       </div>
 
-      {activeTab === "categories" && <CategoriesManagement />}
-      {activeTab === "create" && <ProductCreate />}
+      {activeTab === "categories" && canEdit && <CategoriesManagement />}
+      {activeTab === "create" && canEdit && <ProductCreate />}
       {activeTab === "list" && <ProductsTable />}
     </div>
   );
@@ -0,0 +1,5 @@
+import { ReturnsTable } from "@/components/admin/returns/returns-table";
+
+export function ReturnsSection() {
+  return <ReturnsTable />;
+}
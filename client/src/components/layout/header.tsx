@@ -3,7 +3,7 @@ import { useState, useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
-import { Building, LogOut, Menu, X, ShoppingCart, History } from "lucide-react";
+import { Building, LogOut, Menu, X, ShoppingCart, History, MonitorSmartphone, Coins } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { Badge } from "@/components/ui/badge";
 
@@ -152,6 +152,15 @@ export function Header() {
               <History className="h-5 w-5" />
             </Button>
 
+            <Button
+              variant="ghost"
+              onClick={() => setLocation("/my-devices")}
+              className="text-gray-700 hover:text-gray-900 hover:bg-gray-100"
+              title="My devices"
+            >
+              <MonitorSmartphone className="h-5 w-5" />
+            </Button>
+
             <div className="hidden sm:block text-right">
               <p className="font-medium text-gray-900" data-testid="text-user-name">
                 {employee?.firstName} {employee?.lastName}
@@ -159,7 +168,9 @@ export function Header() {
               <p className="text-sm text-gray-600" data-testid="text-employee-id">
                 {employee?.employeeId}
               </p>
-              <p className="text-sm text-gray-600">Points: {employee?.points ?? 0}</p>
+              <Link to="/points" className="text-sm text-gray-600 hover:underline" title="Points statement">
+                Points: {employee?.points ?? 0}
+              </Link>
             </div>
 
             <Button
@@ -211,7 +222,9 @@ export function Header() {
                 {employee?.firstName} {employee?.lastName}
               </p>
               <p className="text-sm text-gray-600">{employee?.employeeId}</p>
-              <p className="text-sm text-gray-600">Points: {employee?.points ?? 0}</p>
+              <Link to="/points" className="text-sm text-gray-600 hover:underline" title="Points statement">
+                Points: {employee?.points ?? 0}
+              </Link>
             </div>
 
             <Button
@@ -238,6 +251,30 @@ export function Header() {
               My Orders
             </Button>
 
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-gray-700 hover:text-gray-900 hover:bg-gray-100"
+              onClick={() => {
+                setLocation("/my-devices");
+                setIsMobileMenuOpen(false);
+              }}
+            >
+              <MonitorSmartphone className="mr-2 h-4 w-4" />
+              My Devices
+            </Button>
+
+            <Button
+              variant="ghost"
+              className="w-full justify-start text-gray-700 hover:text-gray-900 hover:bg-gray-100"
+              onClick={() => {
+                setLocation("/points");
+                setIsMobileMenuOpen(false);
+              }}
+            >
+              <Coins className="mr-2 h-4 w-4" />
+              Points Statement
+            </Button>
+
             <Button
               variant="outline"
               className="w-full justify-start text-gray-700 border-gray-300 hover:bg-gray-50"
@@ -0,0 +1,47 @@
+// src/components/orders/email-preferences.tsx
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ORDER_EMAIL_CATEGORIES, ORDER_EMAIL_CATEGORY_INFO, type OrderEmailCategory } from "@shared/notifications";
+
+type EmailPreferencesData = { optOuts: OrderEmailCategory[] };
+
+// One switch per order email category; switching one off stops that email only
+export function EmailPreferences() {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const { data, isLoading } = useQuery<EmailPreferencesData>({ queryKey: ["/api/email-preferences"] });
+  const optOuts = data?.optOuts ?? [];
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: OrderEmailCategory[]) =>
+      (await apiRequest("PUT", "/api/email-preferences", { optOuts: next })).json() as Promise<EmailPreferencesData>,
+    onSuccess: (saved) => qc.setQueryData(["/api/email-preferences"], saved),
+    onError: (e: any) => toast({ title: "Could not save preferences", description: e.message, variant: "destructive" }),
+  });
+
+  const toggle = (category: OrderEmailCategory, on: boolean) =>
+    saveMutation.mutate(on ? optOuts.filter((c) => c !== category) : [...optOuts, category]);
+
+  return (
+    <div className="bg-card rounded-xl border p-4">
+      <p className="font-medium mb-3">Email me about my orders</p>
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        {ORDER_EMAIL_CATEGORIES.map((category) => (
+          <label key={category} className="flex items-start gap-2 text-sm">
+            <Switch
+              checked={!optOuts.includes(category)}
+              disabled={isLoading || saveMutation.isPending}
+              onCheckedChange={(on) => toggle(category, on)}
+            />
+            <span>
+              <span className="font-medium">{ORDER_EMAIL_CATEGORY_INFO[category].label}</span>
+              <span className="block text-xs text-muted-foreground">{ORDER_EMAIL_CATEGORY_INFO[category].description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
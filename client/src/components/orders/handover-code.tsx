@@ -0,0 +1,35 @@
+// src/components/orders/handover-code.tsx
+import { useMemo } from "react";
+import { encodeQr, qrSvgPath } from "@/lib/qr";
+import { formatHandoverCode } from "@shared/handover";
+
+// The pickup code as a QR plus text, for the employee to show at the distribution desk
+export function HandoverCode({ code, location }: { code: string; location?: string | null }) {
+  const formatted = formatHandoverCode(code);
+  const { path, size } = useMemo(() => {
+    const modules = encodeQr(formatted);
+    return { path: qrSvgPath(modules), size: modules.length + 8 };
+  }, [formatted]);
+
+  return (
+    <div className="flex items-center gap-4 rounded-lg border p-3 bg-white">
+      <svg
+        viewBox={`0 0 ${size} ${size}`}
+        className="h-28 w-28 shrink-0"
+        shapeRendering="crispEdges"
+        role="img"
+        aria-label={`Pickup code ${formatted}`}
+      >
+        <rect width={size} height={size} fill="#fff" />
+        <path d={path} fill="#000" />
+      </svg>
+      <div className="text-sm text-gray-700">
+        <p className="font-medium">Pickup code</p>
+        <p className="font-mono text-xl font-bold tracking-widest text-gray-900">{formatted}</p>
+        <p className="text-xs text-gray-500 mt-1">
+          Show this at the {location ? `${location} ` : ""}distribution desk to collect your order.
+        </p>
+      </div>
+    </div>
+  );
+}
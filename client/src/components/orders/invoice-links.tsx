@@ -0,0 +1,51 @@
+// src/components/orders/invoice-links.tsx
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadBlob } from "@/lib/csv-utils";
+import { INVOICE_KIND_LABEL } from "@shared/gst";
+import type { InvoiceSummary } from "./types";
+
+interface InvoiceLinksProps {
+  invoices: InvoiceSummary[] | undefined;
+  admin?: boolean; // admins download through /api/admin
+}
+
+// The PDF routes need the bearer token, so the file is fetched and saved rather than linked
+export function InvoiceLinks({ invoices, admin = false }: InvoiceLinksProps) {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState<string | null>(null);
+  if (!invoices?.length) return null;
+
+  const download = async (invoice: InvoiceSummary) => {
+    try {
+      setBusy(invoice.id);
+      const res = await apiRequest("GET", `${admin ? "/api/admin" : "/api"}/invoices/${invoice.id}/pdf`);
+      downloadBlob(await res.blob(), `${invoice.number}.pdf`);
+    } catch (e: any) {
+      toast({ title: "Download failed", description: e.message, variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-start">
+      {invoices.map((invoice) => (
+        <Button
+          key={invoice.id}
+          variant="link"
+          size="sm"
+          className="h-auto p-0 text-xs"
+          disabled={busy === invoice.id}
+          onClick={() => download(invoice)}
+        >
+          <FileText className="h-3 w-3 mr-1" />
+          {INVOICE_KIND_LABEL[invoice.kind]} {invoice.number}
+        </Button>
+      ))}
+    </div>
+  );
+}
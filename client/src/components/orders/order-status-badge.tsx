@@ -0,0 +1,18 @@
+// src/components/orders/order-status-badge.tsx
+import { Badge } from "@/components/ui/badge";
+import { ORDER_STATUS_LABEL, isOrderStatus, type OrderStatus } from "@shared/order-status";
+
+const STATUS_CLASS: Record<OrderStatus, string> = {
+  confirmed: "bg-blue-100 text-blue-800",
+  processing: "bg-amber-100 text-amber-800",
+  packed: "bg-indigo-100 text-indigo-800",
+  shipped: "bg-purple-100 text-purple-800",
+  delivered: "bg-green-100 text-green-800",
+  cancelled: "bg-red-100 text-red-800",
+  returned: "bg-gray-200 text-gray-800",
+};
+
+export function OrderStatusBadge({ status }: { status: string | null | undefined }) {
+  const s = isOrderStatus(status) ? status : "confirmed";
+  return <Badge className={STATUS_CLASS[s]}>{ORDER_STATUS_LABEL[s]}</Badge>;
+}
@@ -0,0 +1,35 @@
+// src/components/orders/order-timeline.tsx
+import { ORDER_STATUS_LABEL, isOrderStatus } from "@shared/order-status";
+
+export type OrderTimelineEntry = {
+  id?: string;
+  fromStatus: string | null;
+  toStatus: string;
+  note: string | null;
+  createdAt: string;
+  actorName?: string; // admin view only
+};
+
+export function OrderTimeline({ entries }: { entries: OrderTimelineEntry[] }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-3">
+      {entries.map((e, i) => (
+        <li key={e.id ?? i} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <p className="text-sm font-medium">
+            {isOrderStatus(e.toStatus) ? ORDER_STATUS_LABEL[e.toStatus] : e.toStatus}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {new Date(e.createdAt).toLocaleString()}
+            {e.actorName ? ` · ${e.actorName}` : ""}
+          </p>
+          {e.note && <p className="text-xs">{e.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
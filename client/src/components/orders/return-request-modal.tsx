@@ -0,0 +1,208 @@
+// src/components/orders/return-request-modal.tsx
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { uploadFiles } from "@/lib/admin-utils";
+import { MAX_RETURN_PHOTOS, RETURN_REASONS, type ReturnRequestType } from "@shared/returns";
+
+interface ReturnRequestModalProps {
+  item: any; // order item with its product, as served by /api/orders/my-orders
+  maxQuantity: number; // units not already covered by another request
+  onClose: () => void;
+}
+
+export function ReturnRequestModal({ item, maxQuantity, onClose }: ReturnRequestModalProps) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const product = item.product;
+  const sizes: string[] = product?.sizes?.values ?? [];
+  const colors: string[] = product?.colors ?? [];
+
+  const [type, setType] = useState<ReturnRequestType>(sizes.length > 0 ? "exchange" : "return");
+  const [quantity, setQuantity] = useState(1);
+  const [reason, setReason] = useState<string>(RETURN_REASONS[0]);
+  const [details, setDetails] = useState("");
+  const [exchangeSize, setExchangeSize] = useState(item.selectedSize ?? "");
+  const [exchangeColor, setExchangeColor] = useState(item.selectedColor ?? "");
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/returns", {
+        orderItemId: item.id,
+        type,
+        quantity,
+        reason,
+        details: details.trim() || null,
+        photos,
+        ...(type === "exchange" ? { exchangeSize: exchangeSize || null, exchangeColor: exchangeColor || null } : {}),
+      });
+      return res.json();
+    },
+    onSuccess: (data: any) => {
+      qc.invalidateQueries({ queryKey: ["/api/orders/my-orders"] });
+      toast({ title: `Request ${data?.rmaNumber ?? ""} submitted`, description: "We'll let you know once it's reviewed." });
+      onClose();
+    },
+    onError: (e: any) => toast({ title: "Could not submit request", description: e.message, variant: "destructive" }),
+  });
+
+  const onPickPhotos = async (files: File[]) => {
+    const room = MAX_RETURN_PHOTOS - photos.length;
+    if (!files.length || room <= 0) return;
+    try {
+      setUploading(true);
+      const urls = await uploadFiles(files.slice(0, room));
+      setPhotos((prev) => [...prev, ...urls]);
+    } catch (e: any) {
+      toast({ title: "Photo upload failed", description: e.message, variant: "destructive" });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return or exchange — {product?.name ?? "item"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={type} onValueChange={(v) => setType(v as ReturnRequestType)} className="flex gap-6">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="exchange" id="rma-exchange" />
+              <Label htmlFor="rma-exchange">Exchange</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="return" id="rma-return" />
+              <Label htmlFor="rma-return">Return for points</Label>
+            </div>
+          </RadioGroup>
+
+          {maxQuantity > 1 && (
+            <div className="space-y-1">
+              <Label>Quantity</Label>
+              <Input
+                type="number"
+                min={1}
+                max={maxQuantity}
+                value={quantity}
+                onChange={(e) => setQuantity(Math.min(maxQuantity, Math.max(1, Number(e.target.value) || 1)))}
+              />
+            </div>
+          )}
+
+          {type === "exchange" && (
+            <div className="grid grid-cols-2 gap-3">
+              {sizes.length > 0 && (
+                <div className="space-y-1">
+                  <Label>New size</Label>
+                  <select
+                    className="w-full border rounded-md p-2 text-sm bg-background"
+                    value={exchangeSize}
+                    onChange={(e) => setExchangeSize(e.target.value)}
+                  >
+                    {sizes.map((s) => (
+                      <option key={s} value={s}>
+                        {s}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {colors.length > 0 && (
+                <div className="space-y-1">
+                  <Label>New colour</Label>
+                  <select
+                    className="w-full border rounded-md p-2 text-sm bg-background"
+                    value={exchangeColor}
+                    onChange={(e) => setExchangeColor(e.target.value)}
+                  >
+                    {colors.map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label>Reason</Label>
+            <select
+              className="w-full border rounded-md p-2 text-sm bg-background"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            >
+              {RETURN_REASONS.map((r) => (
+                <option key={r} value={r}>
+                  {r}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Details</Label>
+            <Textarea value={details} onChange={(e) => setDetails(e.target.value)} placeholder="Anything we should know" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Photos ({photos.length}/{MAX_RETURN_PHOTOS})
+            </Label>
+            {photos.length < MAX_RETURN_PHOTOS && (
+              <Input
+                type="file"
+                accept="image/*"
+                multiple
+                disabled={uploading}
+                onChange={(e) => {
+                  onPickPhotos(Array.from(e.target.files ?? []));
+                  e.target.value = "";
+                }}
+              />
+            )}
+            {uploading && <p className="text-xs text-muted-foreground">Uploading…</p>}
+            <div className="flex flex-wrap gap-2">
+              {photos.map((url) => (
+                <div key={url} className="relative w-16 h-16 rounded border overflow-hidden">
+                  <img src={url} alt="" className="w-full h-full object-cover" />
+                  <button
+                    type="button"
+                    className="absolute top-0 right-0 bg-background/80 rounded-bl p-0.5"
+                    onClick={() => setPhotos((prev) => prev.filter((p) => p !== url))}
+                    aria-label="Remove photo"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button disabled={submitMutation.isPending || uploading} onClick={() => submitMutation.mutate()}>
+              Submit request
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,43 @@
+// src/components/orders/shipment-tracking.tsx
+import type { ShipmentTracking as ShipmentTrackingData } from "./types";
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : null);
+
+export function ShipmentTracking({ shipment }: { shipment: ShipmentTrackingData }) {
+  // latest scan first, like the courier sites
+  const events = [...shipment.events].sort(
+    (a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime()
+  );
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm">
+        {shipment.courier} · AWB <span className="font-mono">{shipment.awb}</span>
+      </p>
+      {(shipment.dispatchedAt || shipment.expectedAt) && (
+        <p className="text-xs text-muted-foreground">
+          {shipment.dispatchedAt && `Dispatched ${formatDate(shipment.dispatchedAt)}`}
+          {shipment.dispatchedAt && shipment.expectedAt && " · "}
+          {shipment.expectedAt && `Expected by ${formatDate(shipment.expectedAt)}`}
+        </p>
+      )}
+
+      {events.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No tracking updates yet.</p>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-3">
+          {events.map((e, i) => (
+            <li key={e.id ?? i} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+              <p className="text-sm font-medium">{e.description}</p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(e.occurredAt).toLocaleString()}
+                {e.location ? ` · ${e.location}` : ""}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
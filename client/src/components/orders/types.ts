@@ -0,0 +1,47 @@
+// src/components/orders/types.ts
+import type { ReturnRequestStatus, ReturnRequestType } from "@shared/returns";
+import type { InvoiceKind } from "@shared/gst";
+
+export type ReturnRequest = {
+  id: string;
+  rmaNumber: string;
+  orderId: string;
+  orderItemId: string;
+  employeeId: string;
+  type: ReturnRequestType;
+  quantity: number;
+  reason: string;
+  details: string | null;
+  photos: string[];
+  exchangeColor: string | null;
+  exchangeSize: string | null;
+  status: ReturnRequestStatus;
+  refundPoints: number | null;
+  adminNote: string | null;
+  decidedAt: string | null;
+  receivedAt: string | null;
+  createdAt: string;
+};
+
+export type ShipmentTrackingEvent = {
+  id?: string;
+  description: string;
+  location: string | null;
+  occurredAt: string;
+};
+
+// The courier view of an order; admins also get ids and timestamps (admin/orders/types.ts)
+export type ShipmentTracking = {
+  courier: string;
+  awb: string;
+  dispatchedAt: string | null;
+  expectedAt: string | null;
+  events: ShipmentTrackingEvent[];
+};
+
+export type InvoiceSummary = {
+  id: string;
+  number: string;
+  kind: InvoiceKind;
+  issuedAt: string;
+};
@@ -0,0 +1,64 @@
+// src/components/points/points-ledger-table.tsx
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import type { PointsTransaction, PointsTransactionType } from "./types";
+
+export const POINTS_TYPE_LABEL: Record<PointsTransactionType, string> = {
+  grant: "Granted",
+  redeem: "Redeemed",
+  refund: "Refunded",
+  expire: "Expired",
+  adjust: "Adjustment",
+  transfer: "Transfer",
+};
+
+interface PointsLedgerTableProps {
+  transactions: PointsTransaction[];
+  // admin view resolves actor / counterparty ids to names
+  describeEmployee?: (id: string) => string;
+}
+
+export function PointsLedgerTable({ transactions, describeEmployee }: PointsLedgerTableProps) {
+  if (transactions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No points activity yet.</p>;
+  }
+
+  const details = (t: PointsTransaction) => {
+    const parts: string[] = [];
+    if (t.note) parts.push(t.note);
+    if (t.counterpartyEmployeeId && describeEmployee) {
+      parts.push(`${t.amount < 0 ? "to" : "from"} ${describeEmployee(t.counterpartyEmployeeId)}`);
+    }
+    if (t.actorEmployeeId && describeEmployee) parts.push(`by ${describeEmployee(t.actorEmployeeId)}`);
+    return parts.join(" · ") || "—";
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Details</TableHead>
+          <TableHead className="text-right">Points</TableHead>
+          <TableHead className="text-right">Balance</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {transactions.map((t) => (
+          <TableRow key={t.id}>
+            <TableCell className="text-sm whitespace-nowrap">{new Date(t.createdAt).toLocaleString()}</TableCell>
+            <TableCell>
+              <Badge variant={t.amount < 0 ? "secondary" : "default"}>{POINTS_TYPE_LABEL[t.type] ?? t.type}</Badge>
+            </TableCell>
+            <TableCell className="text-sm">{details(t)}</TableCell>
+            <TableCell className={`text-right font-mono ${t.amount < 0 ? "text-red-600" : "text-green-700"}`}>
+              {t.amount > 0 ? `+${t.amount}` : t.amount}
+            </TableCell>
+            <TableCell className="text-right font-mono">{t.balanceAfter}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
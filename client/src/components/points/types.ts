@@ -0,0 +1,19 @@
+export type PointsTransactionType = "grant" | "redeem" | "refund" | "expire" | "adjust" | "transfer";
+
+export type PointsTransaction = {
+  id: string;
+  employeeId: string;
+  type: PointsTransactionType;
+  amount: number; // signed
+  balanceAfter: number;
+  orderId: string | null;
+  actorEmployeeId: string | null;
+  counterpartyEmployeeId: string | null;
+  note: string | null;
+  createdAt: string;
+};
+
+export type PointsStatement = {
+  balance: number;
+  transactions: PointsTransaction[];
+};
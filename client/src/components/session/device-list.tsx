@@ -0,0 +1,77 @@
+// src/components/session/device-list.tsx
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Monitor, Smartphone } from "lucide-react";
+import type { SessionDevice } from "./types";
+
+// rough browser / OS label; good enough to recognise your own devices
+export function describeUserAgent(ua: string | null): { label: string; mobile: boolean } {
+  if (!ua) return { label: "Unknown device", mobile: false };
+
+  const browser =
+    /Edg\//.test(ua) ? "Edge"
+    : /OPR\//.test(ua) ? "Opera"
+    : /Chrome\//.test(ua) ? "Chrome"
+    : /Firefox\//.test(ua) ? "Firefox"
+    : /Safari\//.test(ua) ? "Safari"
+    : "Browser";
+
+  const os =
+    /Android/.test(ua) ? "Android"
+    : /iPhone|iPad|iPod/.test(ua) ? "iOS"
+    : /Windows/.test(ua) ? "Windows"
+    : /Mac OS X/.test(ua) ? "macOS"
+    : /Linux/.test(ua) ? "Linux"
+    : "Unknown OS";
+
+  return { label: `${browser} on ${os}`, mobile: /Mobi|Android|iPhone|iPad/.test(ua) };
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+interface DeviceListProps {
+  devices: SessionDevice[];
+  onRevoke?: (device: SessionDevice) => void;
+  revoking?: boolean;
+}
+
+export function DeviceList({ devices, onRevoke, revoking }: DeviceListProps) {
+  if (devices.length === 0) {
+    return <p className="text-sm text-muted-foreground">No active sessions.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {devices.map((d) => {
+        const { label, mobile } = describeUserAgent(d.userAgent);
+        const Icon = mobile ? Smartphone : Monitor;
+
+        return (
+          <div key={d.id} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div className="flex items-start gap-3">
+              <Icon className="h-5 w-5 mt-0.5 text-muted-foreground" />
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{label}</p>
+                  {d.current && <Badge variant="secondary">This device</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">IP {d.ip || "unknown"}</p>
+                <p className="text-xs text-muted-foreground">
+                  Last seen {formatDate(d.lastSeenAt)} · Signed in {formatDate(d.createdAt)}
+                </p>
+              </div>
+            </div>
+
+            {onRevoke && !d.current && (
+              <Button size="sm" variant="outline" onClick={() => onRevoke(d)} disabled={revoking}>
+                Sign out
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
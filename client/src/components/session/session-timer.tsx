@@ -3,10 +3,15 @@ import { useEffect, useState } from "react";
 import { Clock, X } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+
+// the session slides forward with activity, so only the idle tail is worth showing
+const SHOW_WITHIN_SEC = 5 * 60;
 
 export function SessionTimer() {
   const { token, sessionExpiry } = useAuth();
   const [isVisible, setIsVisible] = useState(true);
+  const [isRenewing, setIsRenewing] = useState(false);
   const [remaining, setRemaining] = useState<number>(() => {
     if (!sessionExpiry) return 0;
     const ms = Date.parse(sessionExpiry) - Date.now();
@@ -24,12 +29,25 @@ export function SessionTimer() {
       setRemaining(ms > 0 ? Math.floor(ms / 1000) : 0);
     };
     update(); // immediate sync
+    setIsVisible(true); // a renewed expiry brings the timer back next time it runs low
     const id = window.setInterval(update, 1000);
     return () => window.clearInterval(id);
   }, [sessionExpiry]);
 
-  // hide when not authenticated, no expiry, or user hid it
-  if (!token || !sessionExpiry || !isVisible) return null;
+  // any authenticated call slides the session; the new expiry arrives via use-auth
+  const staySignedIn = async () => {
+    setIsRenewing(true);
+    try {
+      await apiRequest("GET", "/api/auth/session");
+    } catch {
+      // a dead session is handled by use-auth's session query
+    } finally {
+      setIsRenewing(false);
+    }
+  };
+
+  // hide when not authenticated, no expiry, plenty of time left, or user hid it
+  if (!token || !sessionExpiry || !isVisible || remaining > SHOW_WITHIN_SEC) return null;
 
   const minutes = Math.floor(remaining / 60);
   const seconds = remaining % 60;
@@ -41,6 +59,16 @@ export function SessionTimer() {
       <div className="px-3 py-1 rounded-full bg-black/70 text-white text-sm font-mono shadow flex items-center space-x-2">
         <Clock className="h-4 w-4" />
         <span data-testid="timer-display">{timeDisplay}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-white hover:bg-white/20 px-2 py-0.5 h-auto font-sans"
+          onClick={staySignedIn}
+          disabled={isRenewing}
+          data-testid="button-stay-signed-in"
+        >
+          Stay signed in
+        </Button>
         <Button
           variant="ghost"
           size="sm"
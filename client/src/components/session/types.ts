@@ -0,0 +1,9 @@
+export type SessionDevice = {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  lastSeenAt: string | null;
+  createdAt: string | null;
+  expiresAt: string;
+  current: boolean;
+};
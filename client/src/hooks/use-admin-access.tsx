@@ -0,0 +1,37 @@
+import { createContext, useContext, useMemo, ReactNode } from "react";
+import type { AdminPermission, EmployeeRole } from "@shared/permissions";
+
+interface AdminAccessContextType {
+  role: EmployeeRole;
+  permissions: AdminPermission[];
+  can: (permission: AdminPermission) => boolean;
+}
+
+const AdminAccessContext = createContext<AdminAccessContextType | undefined>(undefined);
+
+export function AdminAccessProvider({
+  role,
+  permissions,
+  children,
+}: {
+  role: EmployeeRole;
+  permissions: AdminPermission[];
+  children: ReactNode;
+}) {
+  const value = useMemo<AdminAccessContextType>(
+    () => ({
+      role,
+      permissions,
+      can: (permission) => permissions.includes(permission),
+    }),
+    [role, permissions]
+  );
+
+  return <AdminAccessContext.Provider value={value}>{children}</AdminAccessContext.Provider>;
+}
+
+export function useAdminAccess() {
+  const ctx = useContext(AdminAccessContext);
+  if (!ctx) throw new Error("useAdminAccess must be used within an AdminAccessProvider");
+  return ctx;
+}
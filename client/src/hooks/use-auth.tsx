@@ -8,7 +8,7 @@ import {
   ReactNode,
 } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, SESSION_RENEWED_EVENT } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 interface Employee {
@@ -36,6 +36,7 @@ interface AuthContextType {
 interface SessionResponse {
   employee: Employee;
   expiresAt: string;
+  idleTimeoutSec?: number;
   isNewUser?: boolean;
 }
 
@@ -69,6 +70,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   // keep a single timer ref for auto-logout
   const logoutTimerRef = useRef<number | null>(null);
+  const warningTimerRef = useRef<number | null>(null);
 
   const { 
     data: sessionData, 
@@ -227,11 +229,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   // Schedule a single auto-logout exactly at expiry
   useEffect(() => {
-    // clear any existing timer first
+    // clear any existing timers first (expiry slides forward with activity)
     if (logoutTimerRef.current) {
       window.clearTimeout(logoutTimerRef.current);
       logoutTimerRef.current = null;
     }
+    if (warningTimerRef.current) {
+      window.clearTimeout(warningTimerRef.current);
+      warningTimerRef.current = null;
+    }
 
     if (!token || !sessionExpiry) return;
 
@@ -251,10 +257,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // Show warning 5 minutes before expiry
       if (delay > 5 * 60 * 1000) {
         const warningDelay = delay - 5 * 60 * 1000;
-        setTimeout(() => {
+        warningTimerRef.current = window.setTimeout(() => {
           toast({
             title: "Session Expiring Soon",
-            description: "Your session will expire in 5 minutes. Please save your work.",
+            description: "You will be signed out in 5 minutes unless you stay active.",
             variant: "destructive",
             duration: 10000,
           });
@@ -268,9 +274,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         window.clearTimeout(logoutTimerRef.current);
         logoutTimerRef.current = null;
       }
+      if (warningTimerRef.current) {
+        window.clearTimeout(warningTimerRef.current);
+        warningTimerRef.current = null;
+      }
     };
   }, [token, sessionExpiry]);
 
+  // Sliding renewal: every authenticated API response carries the new expiry
+  useEffect(() => {
+    const handleRenewed = (e: Event) => {
+      const next = (e as CustomEvent<string>).detail;
+      if (!token || !next) return;
+      setSessionExpiry((prev) => {
+        if (prev === next) return prev;
+        localStorage.setItem("session_expiry", next);
+        return next;
+      });
+    };
+
+    window.addEventListener(SESSION_RENEWED_EVENT, handleRenewed);
+    return () => window.removeEventListener(SESSION_RENEWED_EVENT, handleRenewed);
+  }, [token]);
+
   // Clean up stale data if token disappears
   useEffect(() => {
     if (!token) {
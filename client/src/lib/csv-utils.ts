@@ -18,14 +18,34 @@ export function csvEscape(value: unknown): string {
     URL.revokeObjectURL(url);
   }
   
-  export async function parseAnySpreadsheet(file: File) {
+  function isXlsx(file: File) {
     const name = (file.name || "").toLowerCase();
-    if (name.endsWith(".xlsx") || file.type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet") {
-      const XLSX = await import("xlsx");
-      const buf = await file.arrayBuffer();
-      const wb = XLSX.read(buf, { type: "array" });
-      const sheet = wb.Sheets[wb.SheetNames[0]];
-      const rows = XLSX.utils.sheet_to_json<any>(sheet, { defval: "" });
+    return name.endsWith(".xlsx") || file.type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+  }
+
+  /**
+   * Reads the first sheet of an .xlsx or .csv file into header-keyed rows.
+   * Every value comes back as a trimmed string; date cells as ISO strings.
+   */
+  export async function readSpreadsheetRows(file: File): Promise<Record<string, string>[]> {
+    const XLSX = await import("xlsx");
+    const wb = isXlsx(file)
+      ? XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true })
+      : XLSX.read(await file.text(), { type: "string", raw: true }); // raw: keep dd/mm dates as typed
+    const sheet = wb.Sheets[wb.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "" });
+    return rows.map((r) => {
+      const out: Record<string, string> = {};
+      for (const [key, value] of Object.entries(r)) {
+        out[key.trim()] = value instanceof Date ? value.toISOString() : String(value).trim();
+      }
+      return out;
+    });
+  }
+
+  export async function parseAnySpreadsheet(file: File) {
+    if (isXlsx(file)) {
+      const rows = await readSpreadsheetRows(file);
       return rows.map((r) => ({
         firstName: String(r.firstName || r["first name"] || r["First Name"] || "").trim(),
         lastName: String(r.lastName || r["last name"] || r["Last Name"] || "").trim(),
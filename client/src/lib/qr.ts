@@ -0,0 +1,335 @@
+/**
+ * Minimal QR code encoder (ISO/IEC 18004): byte mode, error correction level M,
+ * versions 1-10. Enough for the short codes we show on screen; no dependency.
+ * Returns the module grid as rows of booleans (true = dark), without the quiet zone.
+ */
+
+const MAX_VERSION = 10;
+// level M, indexed by version
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const ECC_LEVEL_M_BITS = 0;
+
+export function encodeQr(text: string): boolean[][] {
+  const bytes = Array.from(new TextEncoder().encode(text));
+
+  let version = 1;
+  for (; version <= MAX_VERSION; version++) {
+    const needed = 4 + charCountBits(version) + bytes.length * 8;
+    if (needed <= dataCodewords(version) * 8) break;
+  }
+  if (version > MAX_VERSION) throw new Error("Text too long for a QR code");
+
+  // mode indicator, length, payload, terminator, then pad to the version's capacity
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, charCountBits(version));
+  bytes.forEach((b) => push(b, 8));
+  const capacity = dataCodewords(version) * 8;
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) push(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(""), 2));
+
+  const grid = new QrGrid(version);
+  grid.drawFunctionPatterns();
+  grid.drawCodewords(addEccAndInterleave(data, version));
+
+  // keep the mask the spec's penalty rules like best
+  let best: boolean[][] = [];
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    const candidate = grid.masked(mask);
+    const penalty = penaltyScore(candidate);
+    if (penalty < bestPenalty) {
+      best = candidate;
+      bestPenalty = penalty;
+    }
+  }
+  return best;
+}
+
+/** An SVG path ("M x y h1 v1 h-1 z" per dark module) offset by a quiet zone of `margin` modules. */
+export function qrSvgPath(modules: boolean[][], margin = 4): string {
+  const parts: string[] = [];
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + margin} ${y + margin}h1v1h-1z`);
+    })
+  );
+  return parts.join("");
+}
+
+function charCountBits(version: number) {
+  return version < 10 ? 8 : 16;
+}
+
+function rawDataModules(version: number) {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number) {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version]
+  );
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+}
+
+// ---- Reed-Solomon over GF(256), polynomial 0x11D ----
+
+function gfMultiply(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function rsDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], divisor: number[]) {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => (result[i] ^= gfMultiply(coef, factor)));
+  }
+  return result;
+}
+
+function addEccAndInterleave(data: number[], version: number) {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const eccLen = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = rsDivisor(eccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - eccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = rsRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0); // placeholder, skipped when interleaving
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - eccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+// ---- module placement ----
+
+class QrGrid {
+  readonly size: number;
+  private modules: boolean[][];
+  private isFunction: boolean[][];
+
+  constructor(private version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    const size = this.size;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          const dist = Math.max(Math.abs(dx), Math.abs(dy));
+          if (x >= 0 && x < size && y >= 0 && y < size) this.setFunction(x, y, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+
+    const align = alignmentPositions(this.version);
+    const last = align.length - 1;
+    align.forEach((cx, i) =>
+      align.forEach((cy, j) => {
+        // the three corners already hold finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      })
+    );
+
+    // reserve the format areas now; masked() fills them in per mask
+    this.drawFormatBits(0);
+
+    if (this.version >= 7) {
+      let rem = this.version;
+      for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+      const bits = (this.version << 12) | rem;
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) !== 0;
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, dark);
+        this.setFunction(b, a, dark);
+      }
+    }
+  }
+
+  private drawFormatBits(mask: number, target = this.modules) {
+    const data = (ECC_LEVEL_M_BITS << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+    const set = (x: number, y: number, dark: boolean) => {
+      target[y][x] = dark;
+      this.isFunction[y][x] = true;
+    };
+    const size = this.size;
+
+    for (let i = 0; i <= 5; i++) set(8, i, bit(i));
+    set(8, 7, bit(6));
+    set(8, 8, bit(7));
+    set(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) set(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) set(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) set(8, size - 15 + i, bit(i));
+    set(8, size - 8, true); // the always-dark module
+  }
+
+  drawCodewords(data: number[]) {
+    const size = this.size;
+    let i = 0;
+    // two-module columns, right to left, snaking up and down; column 6 is the timing pattern
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  masked(mask: number): boolean[][] {
+    const out = this.modules.map((row) => row.slice());
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskApplies(mask, x, y)) out[y][x] = !out[y][x];
+      }
+    }
+    this.drawFormatBits(mask, out);
+    return out;
+  }
+}
+
+function maskApplies(mask: number, x: number, y: number) {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+// Penalty rules N1-N4. Any mask gives a valid code; this only picks the easiest one to scan.
+function penaltyScore(m: boolean[][]) {
+  const size = m.length;
+  let penalty = 0;
+  const finderLike = [true, false, true, true, true, false, true];
+
+  const scanLine = (get: (i: number) => boolean) => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && get(i) === get(i - 1)) {
+        run++;
+      } else {
+        if (run >= 5) penalty += 3 + (run - 5);
+        run = 1;
+      }
+    }
+    // 1:1:3:1:1 with four light modules on one side (edges count as light)
+    const light = (i: number) => i < 0 || i >= size || !get(i);
+    for (let i = 0; i + 7 <= size; i++) {
+      if (!finderLike.every((dark, k) => get(i + k) === dark)) continue;
+      const before = [1, 2, 3, 4].every((k) => light(i - k));
+      const after = [0, 1, 2, 3].every((k) => light(i + 7 + k));
+      if (before || after) penalty += 40;
+    }
+  };
+
+  for (let y = 0; y < size; y++) scanLine((x) => m[y][x]);
+  for (let x = 0; x < size; x++) scanLine((y) => m[y][x]);
+
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = m[y][x];
+      if (c === m[y][x + 1] && c === m[y + 1][x] && c === m[y + 1][x + 1]) penalty += 3;
+    }
+  }
+
+  const dark = m.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  return penalty + Math.max(0, k) * 10;
+}
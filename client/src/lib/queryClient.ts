@@ -1,7 +1,19 @@
 // src/lib/queryClient.ts
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
-async function readErrorMessage(res: Response): Promise<string> {
+/** Thrown for non-2xx responses; keeps the status and parsed JSON body for callers. */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public data: any = null
+  ) {
+    super(`${status}: ${message}`);
+    this.name = "ApiError";
+  }
+}
+
+async function readErrorBody(res: Response): Promise<{ message: string; data: any }> {
   // Try JSON first (many APIs return { message })
   try {
     const ct = res.headers.get("content-type") || "";
@@ -13,7 +25,7 @@ async function readErrorMessage(res: Response): Promise<string> {
           (data as any).error ||
           (data as any).details ||
           JSON.stringify(data);
-        return String(msg);
+        return { message: String(msg), data };
       }
     }
   } catch {
@@ -23,21 +35,29 @@ async function readErrorMessage(res: Response): Promise<string> {
   // Fallback to text
   try {
     const text = await res.text();
-    if (text) return text;
+    if (text) return { message: text, data: null };
   } catch {
     // ignore
   }
 
-  return res.statusText || "Request failed";
+  return { message: res.statusText || "Request failed", data: null };
 }
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
-    const msg = await readErrorMessage(res);
-    throw new Error(`${res.status}: ${msg}`);
+    const { message, data } = await readErrorBody(res);
+    throw new ApiError(res.status, message, data);
   }
 }
 
+// Server echoes the slid session expiry on authenticated calls; use-auth listens for this.
+export const SESSION_RENEWED_EVENT = "session:renewed";
+
+function noteSessionExpiry(res: Response) {
+  const expiresAt = res.headers.get("X-Session-Expires-At");
+  if (expiresAt) window.dispatchEvent(new CustomEvent(SESSION_RENEWED_EVENT, { detail: expiresAt }));
+}
+
 function getToken(): string | null {
   try {
     return localStorage.getItem("auth_token");
@@ -62,6 +82,7 @@ export async function apiRequest(
     credentials: "include",
   });
 
+  noteSessionExpiry(res);
   await throwIfResNotOk(res);
   return res;
 }
@@ -82,6 +103,8 @@ export const getQueryFn: <T>(options: {
       headers: token ? { Authorization: `Bearer ${token}` } : undefined,
     });
 
+    noteSessionExpiry(res);
+
     if (on401 === "returnNull" && res.status === 401) {
       return null as unknown as T;
     }
@@ -0,0 +1,50 @@
+import type { PaymentCheckout } from "@shared/payments";
+
+const SCRIPT_URL = "https://checkout.razorpay.com/v1/checkout.js";
+
+// checkout.js puts a constructor on window; only the parts we use
+type RazorpayInstance = { open: () => void; on: (event: string, handler: (e: any) => void) => void };
+type RazorpayCtor = new (options: Record<string, unknown>) => RazorpayInstance;
+
+let loading: Promise<RazorpayCtor> | null = null;
+
+function loadCheckoutScript(): Promise<RazorpayCtor> {
+  const existing = (window as unknown as { Razorpay?: RazorpayCtor }).Razorpay;
+  if (existing) return Promise.resolve(existing);
+  loading ??= new Promise<RazorpayCtor>((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = SCRIPT_URL;
+    script.async = true;
+    script.onload = () => resolve((window as unknown as { Razorpay: RazorpayCtor }).Razorpay);
+    script.onerror = () => {
+      loading = null;
+      reject(new Error("Could not load Razorpay checkout"));
+    };
+    document.body.appendChild(script);
+  });
+  return loading;
+}
+
+/**
+ * Opens Razorpay's payment modal on the order created by the server. `onPaid`
+ * runs once the payment goes through (the server still verifies it),
+ * `onDismiss` if the employee closes the modal without paying.
+ */
+export async function openRazorpayCheckout(
+  checkout: Extract<PaymentCheckout, { kind: "razorpay" }>,
+  handlers: { onPaid: () => void; onDismiss: () => void; onFailed: (message: string) => void }
+) {
+  const Razorpay = await loadCheckoutScript();
+  const rzp = new Razorpay({
+    key: checkout.keyId,
+    order_id: checkout.orderId,
+    amount: checkout.amountPaise,
+    currency: checkout.currency,
+    name: checkout.name,
+    prefill: checkout.prefill,
+    handler: () => handlers.onPaid(),
+    modal: { ondismiss: () => handlers.onDismiss() },
+  });
+  rzp.on("payment.failed", (e) => handlers.onFailed(e?.error?.description || "Payment failed"));
+  rzp.open();
+}
@@ -1,61 +1,85 @@
-import { useState } from "react";
-import { AdminSidebar } from "@/components/admin/admin-sidebar";
-import { AdminLockScreen } from "@/components/admin/admin-lock-screen";
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { AdminSidebar, visibleAdminSections } from "@/components/admin/admin-sidebar";
+import { AdminLogin, type AdminLoginResult } from "@/components/admin/admin-login";
 import { AdminDashboard } from "@/components/admin/sections/admin-dashboard";
 import { EmployeesSection } from "@/components/admin/sections/employees-section";
 import { ProductsSection } from "@/components/admin/sections/products-section";
 import { OrdersSection } from "@/components/admin/sections/orders-section";
 import { BrandingSection } from "@/components/admin/sections/branding-section";
 import { CampaignsSection } from "@/components/admin/sections/campaigns-section";
+import { BulkBuySection } from "@/components/admin/sections/bulkbuy-section";
+import { AuditSection } from "@/components/admin/sections/audit-section";
+import { ReturnsSection } from "@/components/admin/sections/returns-section";
+import { OfficesSection } from "@/components/admin/sections/offices-section";
+import { DeskSection } from "@/components/admin/sections/desk-section";
+import { EmailsSection } from "@/components/admin/sections/emails-section";
+import { PaymentsSection } from "@/components/admin/sections/payments-section";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { AdminAccessProvider } from "@/hooks/use-admin-access";
 import { BlogsSection } from "@/components/admin/sections/blogs-section";
 import { DomainWhitelistSection } from "@/components/admin/DomainWhitelistSection";
+import type { AdminPermission, EmployeeRole } from "@shared/permissions";
 
-const ADMIN_PASSWORD = "12345678";
+type AdminMe = {
+  employee: { id: string; firstName: string; lastName: string; email: string; role: EmployeeRole };
+  permissions: AdminPermission[];
+  expiresAt: string;
+};
 
 export default function Admin() {
   const { toast } = useToast();
+  const qc = useQueryClient();
+  const { token, login, logout } = useAuth();
   const [activeSection, setActiveSection] = useState("dashboard");
-  const [unlocked, setUnlocked] = useState<boolean>(() => {
-    try {
-      return sessionStorage.getItem("admin_unlocked") === "1";
-    } catch {
-      return false;
-    }
+
+  const {
+    data: me,
+    isLoading,
+    error,
+  } = useQuery<AdminMe>({
+    queryKey: ["/api/admin/me"],
+    enabled: !!token,
   });
 
-  const handleUnlock = (password: string) => {
-    const cleaned = password.trim();
-    if (!/^\d{8}$/.test(cleaned)) {
-      toast({ 
-        title: "Invalid format", 
-        description: "Password must be exactly 8 digits.", 
-        variant: "destructive" 
-      });
-      return false;
-    }
-    if (cleaned !== ADMIN_PASSWORD) {
-      toast({ 
-        title: "Access denied", 
-        description: "Incorrect admin password.", 
-        variant: "destructive" 
-      });
-      return false;
+  const role = me?.employee.role;
+  const permissions = me?.permissions;
+
+  // land on the first section this admin may open
+  useEffect(() => {
+    if (!permissions) return;
+    const sections = visibleAdminSections((p) => permissions.includes(p));
+    if (!sections.some((s) => s.id === activeSection)) {
+      setActiveSection(sections[0]?.id ?? "dashboard");
     }
-    try { sessionStorage.setItem("admin_unlocked", "1"); } catch {}
-    setUnlocked(true);
-    toast({ title: "Admin unlocked", description: "Access granted." });
-    return true;
+  }, [permissions]);
+
+  const handleAuthenticated = (result: AdminLoginResult) => {
+    login(result.token, result.employee, result.expiresAt);
+    qc.invalidateQueries({ queryKey: ["/api/admin/me"] });
   };
 
-  const handleLock = () => {
-    try { sessionStorage.removeItem("admin_unlocked"); } catch {}
-    setUnlocked(false);
-    toast({ title: "Admin locked", description: "Access revoked." });
+  const handleLogout = () => {
+    logout();
+    qc.removeQueries({ queryKey: ["/api/admin/me"] });
+    toast({ title: "Admin locked", description: "You have been signed out of the admin panel." });
   };
 
-  if (!unlocked) {
-    return <AdminLockScreen onUnlock={handleUnlock} />;
+  if (token && isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!token || !me || !role || !permissions) {
+    // a signed-in storefront user without an admin role gets a 403 from /api/admin/me
+    const denied = token && String((error as any)?.message || "").startsWith("403")
+      ? "Your account does not have admin access. Sign in with an admin account."
+      : null;
+    return <AdminLogin onAuthenticated={handleAuthenticated} deniedMessage={denied} />;
   }
 
   const renderSection = () => {
@@ -68,29 +92,45 @@ export default function Admin() {
         return <DomainWhitelistSection/>
       case "products":
         return <ProductsSection />;
-      case "campaigns": 
+      case "campaigns":
         return <CampaignsSection />;
       case "orders":
         return <OrdersSection />;
+      case "returns":
+        return <ReturnsSection />;
+      case "desk":
+        return <DeskSection />;
+      case "emails":
+        return <EmailsSection />;
+      case "offices":
+        return <OfficesSection />;
+      case "payments":
+        return <PaymentsSection />;
+      case "bulkbuy":
+        return <BulkBuySection />;
       case "blogs":
         return <BlogsSection />;
       case "branding":
         return <BrandingSection />;
+      case "audit":
+        return <AuditSection />;
       default:
         return <AdminDashboard onViewAllOrders={() => setActiveSection("orders")} />;
     }
   };
 
   return (
-    <div className="flex h-screen bg-background">
-      <AdminSidebar
-        activeSection={activeSection}
-        onSectionChange={setActiveSection}
-        onLogout={handleLock}
-      />
-      <main className="flex-1 overflow-y-auto p-8">
-        {renderSection()}
-      </main>
-    </div>
+    <AdminAccessProvider role={role} permissions={permissions}>
+      <div className="flex h-screen bg-background">
+        <AdminSidebar
+          activeSection={activeSection}
+          onSectionChange={setActiveSection}
+          onLogout={handleLogout}
+        />
+        <main className="flex-1 overflow-y-auto p-8">
+          {renderSection()}
+        </main>
+      </div>
+    </AdminAccessProvider>
   );
-}
\ No newline at end of file
+}
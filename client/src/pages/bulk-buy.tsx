@@ -7,6 +7,8 @@ import { Footer } from "@/components/layout/footer";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { InvoiceLinks } from "@/components/orders/invoice-links";
+import type { InvoiceSummary } from "@/components/orders/types";
 
 type Product = {
   id: string;
@@ -30,6 +32,7 @@ type BulkBuyRequest = {
   createdAt: string;
   items: Array<any>;
   procurementNote?: string | null;
+  invoices?: InvoiceSummary[];
 };
 
 function unitPriceForQty(p: Product, qty: number) {
@@ -474,6 +477,7 @@ export default function BulkBuyPage() {
                       <span className="font-medium">Procurement note:</span> {r.procurementNote}
                     </div>
                   ) : null}
+                  <InvoiceLinks invoices={r.invoices} />
                 </div>
               ))}
             </div>
@@ -1,11 +1,12 @@
 // src/pages/cart.tsx
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Header } from "@/components/layout/header";
 import { Footer } from "@/components/layout/footer";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
   Dialog,
@@ -26,6 +27,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { countsTowardLimits } from "@shared/order-status";
+import { formatAddress } from "@shared/addresses";
+import { AddressPicker } from "@/components/addresses/address-picker";
+import type { SavedAddress } from "@/components/addresses/types";
+import { openRazorpayCheckout } from "@/lib/razorpay-checkout";
+import { cartLinePoints, splitCheckout, unitPriceForQty, type PaymentCheckout } from "@shared/payments";
 
 function getQueryParam(name: string): string | null {
   if (typeof window === "undefined") return null;
@@ -34,20 +41,16 @@ function getQueryParam(name: string): string | null {
 }
 
 type DeliveryMethod = "office" | "delivery";
-type AddressDetails = {
-  flatNumber: string;
-  buildingName: string;
-  street: string;
-  landmark: string;
-  city: string;
-  state: string;
-  pincode: string;
-};
 type CheckoutData = {
   deliveryMethod: DeliveryMethod;
-  deliveryAddress?: string;
+  deliveryAddress?: string; // shown in the copay prompt
+  addressId?: string | null; // saved address for deliveries
+  officeLocationId?: string | null; // pickup location for office orders
 };
 
+// As served by /api/office-locations
+type PickupLocation = { id: string; name: string; address: string; pickupHours: string | null; full: boolean };
+
 export default function Cart() {
   const { employee, token, isAuthenticated } = useAuth();
   const { toast } = useToast();
@@ -57,23 +60,11 @@ export default function Cart() {
   const [checkoutData, setCheckoutData] = useState<CheckoutData>({
     deliveryMethod: "office",
   });
-  const [addressDetails, setAddressDetails] = useState<AddressDetails>({
-    flatNumber: "",
-    buildingName: "",
-    street: "",
-    landmark: "",
-    city: "",
-    state: "",
-    pincode: "",
-  });
+  const [addressId, setAddressId] = useState<string | null>(null);
 
   // ✅ NEW: office pickup dropdown state
-  const OFFICE_ADDRESSES = [
-    { id: "office_1", label: "Office Address 1", value: "Office Address 1" },
-    { id: "office_2", label: "Office Address 2", value: "Office Address 2" },
-    { id: "office_3", label: "Office Address 3", value: "Office Address 3" },
-  ];
-  const [selectedOfficeId, setSelectedOfficeId] = useState<string>(OFFICE_ADDRESSES[0]?.id);
+  const [selectedOfficeId, setSelectedOfficeId] = useState<string>("");
+  const [pointsChoice, setPointsChoice] = useState<number | null>(null); // null = as many as possible
 
   const [, setLocation] = useLocation();
 
@@ -82,6 +73,23 @@ export default function Cart() {
     enabled: !!token,
   });
 
+  const { data: addresses = [] } = useQuery<SavedAddress[]>({
+    queryKey: ["/api/addresses"],
+    enabled: !!token,
+  });
+  const selectedAddress = addresses.find((a) => a.id === addressId);
+
+  const { data: pickupLocations = [] } = useQuery<PickupLocation[]>({
+    queryKey: ["/api/office-locations"],
+    enabled: !!token,
+  });
+  const selectedOffice = pickupLocations.find((o) => o.id === selectedOfficeId && !o.full);
+
+  // preselect the first location with room
+  useEffect(() => {
+    if (!selectedOffice) setSelectedOfficeId(pickupLocations.find((o) => !o.full)?.id ?? "");
+  }, [pickupLocations, selectedOffice]);
+
   const { data: branding } = useQuery<any>({
     queryKey: ["/api/admin/branding"],
   });
@@ -89,63 +97,15 @@ export default function Cart() {
   const inrPerPoint = parseFloat(branding?.inrPerPoint || "1");
   const maxSelections = branding?.maxSelectionsPerUser ?? 1;
 
-  const { data: myOrders = [] } = useQuery<any[]>({
+  const { data: placedOrders = [] } = useQuery<any[]>({
     queryKey: ["/api/orders/my-orders"],
     retry: false,
     enabled: !!token,
   });
-
-  // ✅ slab pricing helpers (TOTAL slab price for the qty range)
-  const getLinePriceInr = (product: any, qty: number): number => {
-    const q = Math.max(1, Number(qty) || 1);
-    const baseUnit = Number(product?.price);
-    const baseUnitSafe = Number.isFinite(baseUnit) ? baseUnit : 0;
-
-    const slabs = Array.isArray(product?.priceSlabs) ? product.priceSlabs : [];
-    if (!slabs.length) return baseUnitSafe * q;
-
-    const matches = (slab: any) => {
-      const from =
-        slab?.from ??
-        slab?.min ??
-        slab?.minQty ??
-        slab?.start ??
-        slab?.minQuantity ??
-        1;
-
-      const to =
-        slab?.to ??
-        slab?.max ??
-        slab?.maxQty ??
-        slab?.end ??
-        slab?.maxQuantity ??
-        Number.POSITIVE_INFINITY;
-
-      const min = Number(from);
-      const max = Number(to);
-
-      const minOk = Number.isFinite(min) ? q >= min : true;
-      const maxOk = Number.isFinite(max) ? q <= max : true;
-      return minOk && maxOk;
-    };
-
-    const slab = slabs.find(matches);
-    if (!slab) return baseUnitSafe * q;
-
-    const slabPrice =
-      slab?.totalPrice ??
-      slab?.total ??
-      slab?.price ??
-      slab?.amount ??
-      slab?.inr ??
-      slab?.value ??
-      slab?.slabPrice;
-
-    const n = Number(slabPrice);
-    if (Number.isFinite(n)) return n;
-
-    return baseUnitSafe * q;
-  };
+  // every item of an open order is one selection; cancelled orders free theirs up
+  const mySelections = placedOrders
+    .filter((o) => countsTowardLimits(o?.order?.status))
+    .flatMap((o) => (o?.items ?? []).map((item: any) => ({ order: o.order, item })));
 
   const groupedItems = useMemo(() => {
     const groups: Record<string, any[]> = {};
@@ -157,68 +117,43 @@ export default function Cart() {
     return groups;
   }, [cartItems]);
 
-  const { totalPointsRequired, totalProductValue, totalGstAmount, totalAmountInr } = useMemo(() => {
+  // priced as the server prices the checkout (shared/payments.ts); prices include GST
+  const { totalPointsRequired, totalProductValue, totalGstAmount, totalAmountInr, linePoints } = useMemo(() => {
     let points = 0;
+    const perLine: number[] = [];
     let prodValue = 0;
     let gstAmt = 0;
     let totalAmt = 0;
 
     cartItems.forEach((item: any) => {
-      const linePriceInr = getLinePriceInr(item.product, item.quantity);
-      // linePriceInr from getLinePriceInr is usually the base price from the slab/unit price.
-      // We need to check if the price stored/calculated includes GST or if GST is added on top.
-      // Based on product-detail-modal, GST is added on top of `linePriceInr`.
-      // Let's assume `getLinePriceInr` returns the taxable value (base price).
-
+      const lineInr = unitPriceForQty(item.product, item.quantity) * item.quantity;
       const gstPercent = parseFloat(item.product.gst || "0");
-      const itemGst = linePriceInr * (gstPercent / 100);
-      const itemTotal = linePriceInr + itemGst;
-
-      const linePoints = Math.ceil(itemTotal / inrPerPoint);
+      const taxable = lineInr / (1 + gstPercent / 100);
+      const linePoints = cartLinePoints(item.product, item.quantity, inrPerPoint);
 
       points += linePoints;
-      prodValue += linePriceInr;
-      gstAmt += itemGst;
-      totalAmt += itemTotal;
+      perLine.push(linePoints);
+      prodValue += taxable;
+      gstAmt += lineInr - taxable;
+      totalAmt += lineInr;
     });
 
     return {
       totalPointsRequired: points,
       totalProductValue: prodValue,
       totalGstAmount: gstAmt,
-      totalAmountInr: totalAmt
+      totalAmountInr: totalAmt,
+      linePoints: perLine,
     };
   }, [cartItems, inrPerPoint]);
 
   const userPoints = employee?.points ?? 0;
-  const needsCopay = totalPointsRequired > userPoints;
-  const copayInr = needsCopay
-    ? Math.ceil((totalPointsRequired - userPoints) * inrPerPoint)
-    : 0;
-
-  const formatAddress = (details: AddressDetails): string => {
-    const parts = [
-      details.flatNumber,
-      details.buildingName,
-      details.street,
-      details.landmark,
-      details.city,
-      details.state,
-      details.pincode,
-    ].filter((part) => part.trim() !== "");
-    return parts.join(", ");
-  };
-
-  const isAddressComplete = (): boolean => {
-    return !!(
-      addressDetails.flatNumber.trim() &&
-      addressDetails.street.trim() &&
-      addressDetails.city.trim() &&
-      addressDetails.state.trim() &&
-      addressDetails.pincode.trim() &&
-      /^\d{6}$/.test(addressDetails.pincode.trim())
-    );
-  };
+  // points to spend on this checkout; the rest is paid online. Starts at as many as the cart takes
+  const maxPoints = Math.min(userPoints, totalPointsRequired);
+  const pointsToUse = pointsChoice === null ? maxPoints : Math.min(pointsChoice, maxPoints);
+  // a preview; the server runs the same split on its own prices
+  const { copayInr } = splitCheckout(linePoints, pointsToUse, inrPerPoint);
+  const needsCopay = copayInr > 0;
 
   const updateQuantityMutation = useMutation({
     mutationFn: async ({ id, quantity }: { id: string; quantity: number }) => {
@@ -279,23 +214,31 @@ export default function Cart() {
     },
   });
 
+  // one key per checkout attempt: a double-click or retry replays instead of ordering twice
+  const checkoutKeyRef = useRef<string | null>(null);
+
   const checkoutMutation = useMutation({
     mutationFn: async (deliveryData?: CheckoutData) => {
+      checkoutKeyRef.current ??= crypto.randomUUID();
       const response = await fetch("/api/orders", {
         method: "POST",
         headers: {
           Authorization: `Bearer ${token}`,
           "Content-Type": "application/json",
+          "Idempotency-Key": checkoutKeyRef.current,
         },
         body: JSON.stringify({
           deliveryMethod: deliveryData?.deliveryMethod || "office",
-          deliveryAddress: deliveryData?.deliveryAddress || null,
+          addressId: deliveryData?.addressId || null,
+          officeLocationId: deliveryData?.officeLocationId || null,
+          pointsToUse,
         }),
       });
       if (!response.ok) throw new Error((await response.json()).message || "Checkout failed");
       return response.json();
     },
     onSuccess: () => {
+      checkoutKeyRef.current = null;
       toast({ title: "Checkout successful" });
       queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
       queryClient.invalidateQueries({ queryKey: ["/api/orders/my-orders"] });
@@ -307,28 +250,26 @@ export default function Cart() {
   });
 
   const handleCheckout = () => {
+    checkoutKeyRef.current = crypto.randomUUID();
     setShowDeliveryDialog(true);
   };
 
   const handleDeliveryConfirm = () => {
-    // ✅ Office: must select an office address
-    if (checkoutData.deliveryMethod === "office") {
-      const picked = OFFICE_ADDRESSES.find((o) => o.id === selectedOfficeId);
-      if (!picked) {
-        toast({
-          title: "Error",
-          description: "Please select an office address for pickup.",
-          variant: "destructive",
-        });
-        return;
-      }
+    // ✅ Office: must select a pickup location once any are set up
+    if (checkoutData.deliveryMethod === "office" && pickupLocations.length > 0 && !selectedOffice) {
+      toast({
+        title: "Error",
+        description: "Please select an office location for pickup.",
+        variant: "destructive",
+      });
+      return;
     }
 
-    // Delivery: validate required fields
-    if (checkoutData.deliveryMethod === "delivery" && !isAddressComplete()) {
+    // Delivery: pick (or add) a saved address
+    if (checkoutData.deliveryMethod === "delivery" && !selectedAddress) {
       toast({
         title: "Error",
-        description: "Please fill in all required address fields",
+        description: "Please choose a delivery address",
         variant: "destructive",
       });
       return;
@@ -336,22 +277,70 @@ export default function Cart() {
 
     setShowDeliveryDialog(false);
 
-    // ✅ Use selected office address OR formatted home address
-    const deliveryAddress =
-      checkoutData.deliveryMethod === "delivery"
-        ? formatAddress(addressDetails)
-        : OFFICE_ADDRESSES.find((o) => o.id === selectedOfficeId)?.value;
+    // ✅ Use selected office location OR the saved home address
+    const delivery: CheckoutData =
+      checkoutData.deliveryMethod === "delivery" && selectedAddress
+        ? { deliveryMethod: "delivery", deliveryAddress: formatAddress(selectedAddress), addressId: selectedAddress.id }
+        : { deliveryMethod: "office", deliveryAddress: selectedOffice?.name, officeLocationId: selectedOffice?.id ?? null };
 
     if (needsCopay) {
-      setCheckoutData((prev) => ({
-        ...prev,
-        deliveryAddress,
-      }));
+      setCheckoutData(delivery);
       setShowCopayPrompt(true);
     } else {
-      checkoutMutation.mutate({
-        deliveryMethod: checkoutData.deliveryMethod,
-        deliveryAddress,
+      checkoutMutation.mutate(delivery);
+    }
+  };
+
+  // Checks the payment with the server, which places the orders from what was
+  // in the cart when the payment started (delivery choice included)
+  const verifyAndFinish = async (id: string) => {
+    // the gateway sends the employee back with only our reference in the query string
+    const forgetPayment = () => {
+      sessionStorage.removeItem("PP_MERCHANT_ORDER_ID");
+      if (typeof window !== "undefined" && getQueryParam("merchantTransactionId")) {
+        const url = new URL(window.location.href);
+        url.searchParams.delete("merchantTransactionId");
+        window.history.replaceState({}, "", url.toString());
+      }
+    };
+    try {
+      const verifyResponse = await fetch("/api/orders/verify-copay", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          merchantTransactionId: id,
+        }),
+      });
+
+      const verifyJson = await verifyResponse.json().catch(() => ({}));
+      if (!verifyResponse.ok) {
+        // only a pending payment is worth checking again on the next visit
+        if (verifyJson?.status !== "pending") forgetPayment();
+        toast({
+          title: verifyJson?.status === "pending" ? "Payment processing" : "Payment not completed",
+          description: verifyJson?.message || "Please try again if amount was not deducted.",
+          variant: verifyJson?.status === "pending" ? undefined : "destructive",
+        });
+        return;
+      }
+
+      forgetPayment();
+
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["/api/cart"] }),
+        queryClient.invalidateQueries({ queryKey: ["/api/orders/my-orders"] }),
+      ]);
+
+      setShowCopayPrompt(false);
+      setLocation("/my-orders");
+    } catch {
+      toast({
+        title: "Verification failed",
+        description: "We couldn't verify the payment. If amount was deducted, contact support.",
+        variant: "destructive",
       });
     }
   };
@@ -366,8 +355,9 @@ export default function Cart() {
         },
         body: JSON.stringify({
           deliveryMethod: checkoutData.deliveryMethod,
-          deliveryAddress:
-            checkoutData.deliveryMethod === "delivery" ? checkoutData.deliveryAddress : checkoutData.deliveryAddress || null,
+          addressId: checkoutData.addressId || null,
+          officeLocationId: checkoutData.officeLocationId || null,
+          pointsToUse,
         }),
       });
 
@@ -381,102 +371,39 @@ export default function Cart() {
         return;
       }
 
-      const redirectUrlFromPhonePe = data?.paymentUrl;
-      const merchantTxnId = data?.merchantTransactionId;
+      const checkout = data?.checkout as PaymentCheckout | undefined;
+      const merchantTxnId: string | undefined = data?.merchantTransactionId;
 
-      if (!redirectUrlFromPhonePe) {
+      if (!checkout || !merchantTxnId) {
         toast({
           title: "Error",
-          description: "Payment page URL not received from PhonePe",
+          description: "Payment details not received from the server",
           variant: "destructive",
         });
         return;
       }
 
-      if (merchantTxnId) {
-        sessionStorage.setItem("PP_MERCHANT_ORDER_ID", merchantTxnId);
-        sessionStorage.setItem("PP_DELIVERY_METHOD", checkoutData.deliveryMethod);
-        if (checkoutData.deliveryAddress) {
-          sessionStorage.setItem("PP_DELIVERY_ADDRESS", checkoutData.deliveryAddress);
-        } else {
-          sessionStorage.removeItem("PP_DELIVERY_ADDRESS");
-        }
+      // survives the round trip through the gateway's page
+      sessionStorage.setItem("PP_MERCHANT_ORDER_ID", merchantTxnId);
+
+      if (checkout.kind === "redirect") {
+        window.location.href = checkout.url;
+        return;
       }
 
-      window.location.href = redirectUrlFromPhonePe;
+      setShowCopayPrompt(false);
+      await openRazorpayCheckout(checkout, {
+        onPaid: () => verifyAndFinish(merchantTxnId),
+        onDismiss: () => sessionStorage.removeItem("PP_MERCHANT_ORDER_ID"),
+        onFailed: (message) => toast({ title: "Payment failed", description: message, variant: "destructive" }),
+      });
     } catch (e) {
       toast({ title: "Error", description: "Failed to initiate payment", variant: "destructive" });
     }
   };
 
   useEffect(() => {
-    const incomingTxnId = getQueryParam("merchantTransactionId");
-    const incomingDeliveryMethod = getQueryParam("deliveryMethod") as DeliveryMethod;
-    const incomingDeliveryAddress = getQueryParam("deliveryAddress");
-
-    const storedTxnId = sessionStorage.getItem("PP_MERCHANT_ORDER_ID");
-    const txnId = incomingTxnId || storedTxnId;
-
-    async function verifyAndFinish(id: string) {
-      try {
-        const deliveryMethod =
-          incomingDeliveryMethod ||
-          ((sessionStorage.getItem("PP_DELIVERY_METHOD") as DeliveryMethod) || "office");
-
-        const deliveryAddress =
-          incomingDeliveryAddress || sessionStorage.getItem("PP_DELIVERY_ADDRESS") || undefined;
-
-        const verifyResponse = await fetch("/api/orders/verify-copay", {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            merchantTransactionId: id,
-            deliveryMethod,
-            deliveryAddress,
-          }),
-        });
-
-        const verifyJson = await verifyResponse.json().catch(() => ({}));
-        if (!verifyResponse.ok) {
-          toast({
-            title: "Payment not completed",
-            description: verifyJson?.message || "Please try again if amount was not deducted.",
-            variant: "destructive",
-          });
-          return;
-        }
-
-        if (typeof window !== "undefined" && incomingTxnId) {
-          const url = new URL(window.location.href);
-          url.searchParams.delete("merchantTransactionId");
-          url.searchParams.delete("deliveryMethod");
-          url.searchParams.delete("deliveryAddress");
-          window.history.replaceState({}, "", url.toString());
-        }
-
-        sessionStorage.removeItem("PP_MERCHANT_ORDER_ID");
-        sessionStorage.removeItem("PP_DELIVERY_METHOD");
-        sessionStorage.removeItem("PP_DELIVERY_ADDRESS");
-
-        await Promise.all([
-          queryClient.invalidateQueries({ queryKey: ["/api/cart"] }),
-          queryClient.invalidateQueries({ queryKey: ["/api/orders/my-orders"] }),
-        ]);
-
-        setShowCopayPrompt(false);
-        setLocation("/my-orders");
-      } catch {
-        toast({
-          title: "Verification failed",
-          description: "We couldn't verify the payment. If amount was deducted, contact support.",
-          variant: "destructive",
-        });
-      }
-    }
-
+    const txnId = getQueryParam("merchantTransactionId") || sessionStorage.getItem("PP_MERCHANT_ORDER_ID");
     if (isAuthenticated && txnId) {
       verifyAndFinish(txnId);
     }
@@ -509,10 +436,8 @@ export default function Cart() {
                     </h2>
                     <div className="space-y-4">
                       {items.map((item: any) => {
-                        const linePriceInr = getLinePriceInr(item.product, item.quantity);
-                        const linePoints = Math.ceil(linePriceInr / inrPerPoint);
-                        const perUnitPrice = linePriceInr / Math.max(1, item.quantity);
-                        const pointsEach = Math.ceil(perUnitPrice / inrPerPoint);
+                        const linePoints = cartLinePoints(item.product, item.quantity, inrPerPoint);
+                        const pointsEach = Math.ceil(unitPriceForQty(item.product, item.quantity) / inrPerPoint);
 
                         return (
                           <div
@@ -657,7 +582,7 @@ export default function Cart() {
                 <span>₹{totalProductValue.toFixed(2)}</span>
               </div>
               <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">GST Amount:</span>
+                <span className="text-muted-foreground">GST Amount (included):</span>
                 <span>₹{totalGstAmount.toFixed(2)}</span>
               </div>
               <div className="flex justify-between text-base font-semibold border-t pt-2">
@@ -673,6 +598,23 @@ export default function Cart() {
                 <span className="font-semibold">Your Points:</span>
                 <span>{employee?.points ?? 0}</span>
               </div>
+              {maxPoints > 0 && (
+                <div className="space-y-2 mb-4">
+                  <div className="flex justify-between text-sm">
+                    <Label htmlFor="points-to-use">Points to use:</Label>
+                    <span className="font-semibold">{pointsToUse}</span>
+                  </div>
+                  <Slider
+                    id="points-to-use"
+                    min={0}
+                    max={maxPoints}
+                    step={1}
+                    value={[pointsToUse]}
+                    onValueChange={([v]) => setPointsChoice(v)}
+                  />
+                  <p className="text-xs text-muted-foreground">Keep points for later and pay the rest online.</p>
+                </div>
+              )}
               {needsCopay && (
                 <div className="flex justify-between mb-4 text-primary">
                   <span className="font-semibold">Co-pay Needed:</span>
@@ -686,7 +628,7 @@ export default function Cart() {
                 disabled={
                   cartItems.length === 0 ||
                   checkoutMutation.isPending ||
-                  (maxSelections !== -1 && myOrders.length + cartItems.length > maxSelections)
+                  (maxSelections !== -1 && mySelections.length + cartItems.length > maxSelections)
                 }
               >
                 {checkoutMutation.isPending ? "Processing..." : "Proceed to Checkout"}
@@ -708,22 +650,6 @@ export default function Cart() {
             value={checkoutData.deliveryMethod}
             onValueChange={(value: DeliveryMethod) => {
               setCheckoutData({ ...checkoutData, deliveryMethod: value });
-
-              if (value === "office") {
-                // ✅ reset delivery address fields
-                setAddressDetails({
-                  flatNumber: "",
-                  buildingName: "",
-                  street: "",
-                  landmark: "",
-                  city: "",
-                  state: "",
-                  pincode: "",
-                });
-
-                // ✅ ensure some office is selected
-                setSelectedOfficeId((prev) => prev || OFFICE_ADDRESSES[0]?.id);
-              }
             }}
             className="space-y-4"
           >
@@ -738,30 +664,31 @@ export default function Cart() {
                   Pick up your order from the company office during working hours
                 </p>
 
-                {/* ✅ NEW: Office address dropdowns */}
-                {checkoutData.deliveryMethod === "office" && (
+                {/* ✅ NEW: Office location dropdown */}
+                {checkoutData.deliveryMethod === "office" && pickupLocations.length > 0 && (
                   <div className="mt-4 space-y-2">
-                    <Label htmlFor="officeAddress">Select Office Address</Label>
+                    <Label htmlFor="officeAddress">Select Office Location</Label>
                     <select
                       id="officeAddress"
                       className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
-                      value={selectedOfficeId}
+                      value={selectedOffice?.id ?? ""}
                       onChange={(e) => setSelectedOfficeId(e.target.value)}
                     >
-                      {OFFICE_ADDRESSES.map((o) => (
-                        <option key={o.id} value={o.id}>
-                          {o.label}
+                      {!selectedOffice && <option value="">No location has room right now</option>}
+                      {pickupLocations.map((o) => (
+                        <option key={o.id} value={o.id} disabled={o.full}>
+                          {o.name}
+                          {o.full ? " (full)" : ""}
                         </option>
                       ))}
                     </select>
 
-                    {/* optional preview */}
-                    <p className="text-xs text-muted-foreground">
-                      Selected:{" "}
-                      <span className="font-medium">
-                        {OFFICE_ADDRESSES.find((o) => o.id === selectedOfficeId)?.value}
-                      </span>
-                    </p>
+                    {selectedOffice && (
+                      <div className="text-xs text-muted-foreground">
+                        <p className="whitespace-pre-line">{selectedOffice.address}</p>
+                        {selectedOffice.pickupHours && <p>Pickup desk: {selectedOffice.pickupHours}</p>}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -780,112 +707,7 @@ export default function Cart() {
                   </p>
 
                   {checkoutData.deliveryMethod === "delivery" && (
-                    <div className="space-y-4 mt-4">
-                      <div className="grid grid-cols-2 gap-4">
-                        <div className="space-y-2">
-                          <Label htmlFor="flatNumber">
-                            Flat/House No. <span className="text-red-500">*</span>
-                          </Label>
-                          <Input
-                            id="flatNumber"
-                            placeholder="e.g., 101"
-                            value={addressDetails.flatNumber}
-                            onChange={(e) =>
-                              setAddressDetails({ ...addressDetails, flatNumber: e.target.value })
-                            }
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="buildingName">Building/Apartment Name</Label>
-                          <Input
-                            id="buildingName"
-                            placeholder="e.g., Green Valley"
-                            value={addressDetails.buildingName}
-                            onChange={(e) =>
-                              setAddressDetails({ ...addressDetails, buildingName: e.target.value })
-                            }
-                          />
-                        </div>
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="street">
-                          Street/Area <span className="text-red-500">*</span>
-                        </Label>
-                        <Input
-                          id="street"
-                          placeholder="e.g., MG Road, Sector 14"
-                          value={addressDetails.street}
-                          onChange={(e) =>
-                            setAddressDetails({ ...addressDetails, street: e.target.value })
-                          }
-                        />
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="landmark">Landmark</Label>
-                        <Input
-                          id="landmark"
-                          placeholder="e.g., Near Metro Station"
-                          value={addressDetails.landmark}
-                          onChange={(e) =>
-                            setAddressDetails({ ...addressDetails, landmark: e.target.value })
-                          }
-                        />
-                      </div>
-
-                      <div className="grid grid-cols-2 gap-4">
-                        <div className="space-y-2">
-                          <Label htmlFor="city">
-                            City <span className="text-red-500">*</span>
-                          </Label>
-                          <Input
-                            id="city"
-                            placeholder="e.g., Mumbai"
-                            value={addressDetails.city}
-                            onChange={(e) =>
-                              setAddressDetails({ ...addressDetails, city: e.target.value })
-                            }
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="state">
-                            State <span className="text-red-500">*</span>
-                          </Label>
-                          <Input
-                            id="state"
-                            placeholder="e.g., Maharashtra"
-                            value={addressDetails.state}
-                            onChange={(e) =>
-                              setAddressDetails({ ...addressDetails, state: e.target.value })
-                            }
-                          />
-                        </div>
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="pincode">
-                          PIN Code <span className="text-red-500">*</span>
-                        </Label>
-                        <Input
-                          id="pincode"
-                          placeholder="e.g., 400001"
-                          value={addressDetails.pincode}
-                          onChange={(e) => {
-                            const value = e.target.value.replace(/\D/g, "").slice(0, 6);
-                            setAddressDetails({ ...addressDetails, pincode: value });
-                          }}
-                          maxLength={6}
-                        />
-                        {addressDetails.pincode && !/^\d{6}$/.test(addressDetails.pincode) && (
-                          <p className="text-xs text-red-500">PIN code must be 6 digits</p>
-                        )}
-                      </div>
-
-                      <p className="text-xs text-muted-foreground">
-                        <span className="text-red-500">*</span> Required fields
-                      </p>
-                    </div>
+                    <AddressPicker selectedId={addressId} onSelect={setAddressId} />
                   )}
                 </div>
               </div>
@@ -898,7 +720,11 @@ export default function Cart() {
             </Button>
             <Button
               onClick={handleDeliveryConfirm}
-              disabled={checkoutData.deliveryMethod === "delivery" && !isAddressComplete()}
+              disabled={
+                checkoutMutation.isPending ||
+                (checkoutData.deliveryMethod === "delivery" && !selectedAddress) ||
+                (checkoutData.deliveryMethod === "office" && pickupLocations.length > 0 && !selectedOffice)
+              }
             >
               Confirm Delivery Method
             </Button>
@@ -914,7 +740,7 @@ export default function Cart() {
       >
         <div className="space-y-3">
           <span className="font-medium">
-            Confirm and Pay using co-pay with {userPoints} points + {copayInr} INR.
+            Confirm and Pay using co-pay with {pointsToUse} points + {copayInr} INR.
           </span>
           <div className="text-sm text-muted-foreground border-t pt-3">
             <p className="font-medium">Delivery Method:</p>
@@ -23,6 +23,7 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { countsTowardLimits } from "@shared/order-status";
 
 // Import images
 import element5Img from '@assets/element_5.png';
@@ -511,12 +512,16 @@ export default function Dashboard() {
   const inrPerPoint = parseFloat(branding?.inrPerPoint || "1");
   const maxSelections = branding?.maxSelectionsPerUser ?? 1;
 
-  const { data: myOrders = [] } = useQuery<any[]>({
+  const { data: placedOrders = [] } = useQuery<any[]>({
     queryKey: ["/api/orders/my-orders"],
     retry: false,
   });
+  // every item of an open order is one selection; cancelled orders free theirs up
+  const mySelections = placedOrders
+    .filter((o) => countsTowardLimits(o?.order?.status))
+    .flatMap((o) => (o?.items ?? []).map((item: any) => ({ order: o.order, item })));
 
-  const reachedLimit = maxSelections !== -1 && myOrders.length >= maxSelections;
+  const reachedLimit = maxSelections !== -1 && mySelections.length >= maxSelections;
 
   const campaignProductIds = useMemo(() => {
     return campaignProducts.map(cp => cp.product.id);
@@ -706,14 +711,14 @@ export default function Dashboard() {
 
   const handleConfirmSelection = useCallback(
     (orderResult: any) => {
-      const willReachLimit = maxSelections !== -1 && myOrders.length + 1 >= maxSelections;
+      const willReachLimit = maxSelections !== -1 && mySelections.length + 1 >= maxSelections;
       setOrderData(orderResult);
       setShowConfirmation(false);
       setShowOrderConfirmation(true);
       setShowLogoutInPrompt(willReachLimit);
       setShowRecordedPrompt(true);
     },
-    [maxSelections, myOrders.length]
+    [maxSelections, mySelections.length]
   );
 
   const handleDeclineSelection = useCallback(() => {
@@ -747,26 +752,26 @@ export default function Dashboard() {
             </div>
             <h2 className="text-2xl font-bold text-green-600 mb-2">Selections Complete</h2>
             <p className="text-muted-foreground mb-6">
-              You have reached the selection limit ({myOrders.length}/{maxDisplay}).
+              You have reached the selection limit ({mySelections.length}/{maxDisplay}).
             </p>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {myOrders.map((o: any, idx: number) => (
+              {mySelections.map((o: any, idx: number) => (
                 <div key={idx} className="bg-card rounded-xl shadow-sm border p-6">
                   <div className="flex items-center space-x-4">
                     <div className="w-16 h-16 bg-gray-100 rounded-lg overflow-hidden">
                       <img
-                        src={o.product?.images?.[0]}
-                        alt={o.product?.name}
+                        src={o.item.product?.images?.[0]}
+                        alt={o.item.product?.name}
                         className="w-full h-full object-cover"
                       />
                     </div>
                     <div className="flex-1 text-left">
-                      <h4 className="font-semibold">{o.product?.name}</h4>
-                      {(o.order?.selectedColor || o.order?.selectedSize) && (
+                      <h4 className="font-semibold">{o.item.product?.name}</h4>
+                      {(o.item.selectedColor || o.item.selectedSize) && (
                         <p className="text-sm text-muted-foreground">
-                          {o.order?.selectedColor}
-                          {o.order?.selectedColor && o.order?.selectedSize && " | "}
-                          {o.order?.selectedSize && `Size: ${o.order?.selectedSize}`}
+                          {o.item.selectedColor}
+                          {o.item.selectedColor && o.item.selectedSize && " | "}
+                          {o.item.selectedSize && `Size: ${o.item.selectedSize}`}
                         </p>
                       )}
                     </div>
@@ -778,8 +783,8 @@ export default function Dashboard() {
                     <p>
                       Status: <span className="text-green-600 font-medium">Confirmed</span>
                     </p>
-                    {o.order?.metadata?.usedPoints && (
-                      <p>Used points: <span>{o.order.metadata.usedPoints}</span></p>
+                    {o.item.usedPoints > 0 && (
+                      <p>Used points: <span>{o.item.usedPoints}</span></p>
                     )}
                     {o.order?.metadata?.copayInr && (
                       <p>
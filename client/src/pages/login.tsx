@@ -4,7 +4,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import { OTPVerificationModal } from "@/components/auth/otp-verification-modal";
 import { ArrowRight, CheckCircle, XCircle, Loader2, Building } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
@@ -138,10 +138,9 @@ export default function Login() {
     },
     onError: (err: any) => {
       let message = "Failed to send OTP";
-      try {
-        const json = JSON.parse(String(err.message).split(": ").slice(1).join(": "));
-        message = json?.message || message;
-      } catch { }
+      if (err instanceof ApiError) {
+        message = err.data?.message || message;
+      }
       toast({ title: "Error", description: message, variant: "destructive" });
     },
   });
@@ -162,12 +161,11 @@ export default function Login() {
       let message = "Verification failed";
       let remaining: number | undefined;
       let isLocked: boolean | undefined;
-      try {
-        const json = JSON.parse(String(err.message).split(": ").slice(1).join(": "));
-        message = json?.message || message;
-        remaining = json?.remainingAttempts;
-        isLocked = json?.isLocked;
-      } catch { }
+      if (err instanceof ApiError) {
+        message = err.data?.message || message;
+        remaining = err.data?.remainingAttempts;
+        isLocked = err.data?.isLocked;
+      }
 
       if (isLocked) {
         toast({ title: "Unsuccessful attempts .. Please contact HR Team !!", variant: "destructive" });
@@ -0,0 +1,90 @@
+// src/pages/my-devices.tsx
+import { Header } from "@/components/layout/header";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { DeviceList } from "@/components/session/device-list";
+import type { SessionDevice } from "@/components/session/types";
+import { LogOut } from "lucide-react";
+
+export default function MyDevices() {
+  const { token, logout } = useAuth();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+
+  const {
+    data: devices = [],
+    isLoading,
+    isError,
+    error,
+  } = useQuery<SessionDevice[]>({
+    queryKey: ["/api/auth/sessions"],
+    enabled: !!token,
+    staleTime: 0,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/auth/sessions/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Device signed out" });
+    },
+    onError: (e: any) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/logout-all");
+      return res.json();
+    },
+    onSuccess: () => logout(),
+    onError: (e: any) => toast({ title: "Error", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="max-w-3xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold">My Devices</h1>
+            <p className="text-muted-foreground text-sm">
+              Browsers currently signed in to your account. Sessions end after a period of inactivity.
+            </p>
+          </div>
+
+          <Button
+            variant="destructive"
+            onClick={() => {
+              if (window.confirm("Sign out of every device, including this one?")) logoutAllMutation.mutate();
+            }}
+            disabled={logoutAllMutation.isPending}
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            Log out everywhere
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-muted-foreground mt-8">Loading devices…</p>
+        ) : isError ? (
+          <p className="text-center text-red-600 text-sm mt-8">
+            {(error as any)?.message || "Failed to load devices"}
+          </p>
+        ) : (
+          <DeviceList
+            devices={devices}
+            onRevoke={(d) => revokeMutation.mutate(d.id)}
+            revoking={revokeMutation.isPending}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,14 +1,29 @@
 // src/pages/my-orders.tsx
+import { useState } from "react";
 import { Header } from "@/components/layout/header";
 import { Footer } from "@/components/layout/footer";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { OrderStatusBadge } from "@/components/orders/order-status-badge";
+import { OrderTimeline } from "@/components/orders/order-timeline";
+import { apiRequest } from "@/lib/queryClient";
+import { canSelfCancelOrder } from "@shared/order-status";
+import { orderPointsSpent } from "@shared/payments";
+import { RETURN_STATUS_LABEL, RETURN_TYPE_LABEL } from "@shared/returns";
+import { ReturnRequestModal } from "@/components/orders/return-request-modal";
+import { ShipmentTracking } from "@/components/orders/shipment-tracking";
+import { InvoiceLinks } from "@/components/orders/invoice-links";
+import { HandoverCode } from "@/components/orders/handover-code";
+import { EmailPreferences } from "@/components/orders/email-preferences";
+import type { ReturnRequest, ShipmentTracking as ShipmentTrackingData } from "@/components/orders/types";
 
 export default function MyOrders() {
   const { token } = useAuth();
   const { toast } = useToast();
+  const qc = useQueryClient();
+  const [returnItem, setReturnItem] = useState<{ item: any; maxQuantity: number } | null>(null);
 
   const {
     data: orders = [],
@@ -34,6 +49,26 @@ export default function MyOrders() {
     retry: 1,
   });
 
+  const { data: branding } = useQuery<any>({ queryKey: ["/api/admin/branding"] });
+  const cancelWindowHours = branding?.selfCancelWindowHours ?? 24;
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/orders/${id}/cancel`, {});
+      return res.json();
+    },
+    onSuccess: (data: any) => {
+      qc.invalidateQueries({ queryKey: ["/api/orders/my-orders"] });
+      qc.invalidateQueries({ queryKey: ["/api/auth/session"] });
+      qc.invalidateQueries({ queryKey: ["/api/points/statement"] });
+      const parts = [];
+      if (data?.pointsRefunded) parts.push(`${data.pointsRefunded} points returned to your balance`);
+      if (data?.copayRefundInr) parts.push(`₹${data.copayRefundInr} will be refunded to your payment method`);
+      toast({ title: "Order cancelled", description: parts.join(". ") || undefined });
+    },
+    onError: (e: any) => toast({ title: "Could not cancel", description: e.message, variant: "destructive" }),
+  });
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -57,6 +92,10 @@ export default function MyOrders() {
           </Button>
         </div>
 
+        <div className="mb-6">
+          <EmailPreferences />
+        </div>
+
         {isLoading ? (
           <p className="text-center text-muted-foreground mt-8">Loading your orders…</p>
         ) : isError ? (
@@ -65,7 +104,7 @@ export default function MyOrders() {
               {(error as any)?.message || "Failed to load orders"}
             </p>
             <p className="text-muted-foreground text-sm mt-2">
-              If you just paid via PhonePe, try refresh. If this persists, check token/session.
+              If you just paid, try refresh. If this persists, check token/session.
             </p>
           </div>
         ) : orders.length === 0 ? (
@@ -74,37 +113,77 @@ export default function MyOrders() {
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {orders.map((o: any, idx: number) => {
               const order = o?.order;
-              const product = o?.product;
+              const items: any[] = o?.items ?? [];
+              const returns: ReturnRequest[] = o?.returns ?? [];
+              const shipment: ShipmentTrackingData | null = o?.shipment ?? null;
+              // units of an item not yet covered by a live request
+              const returnableLeft = (item: any) =>
+                item.quantity -
+                returns
+                  .filter((r) => r.orderItemId === item.id && r.status !== "rejected")
+                  .reduce((sum, r) => sum + r.quantity, 0);
 
               return (
                 <div key={order?.id ?? idx} className="bg-card rounded-xl shadow-sm border p-6">
-                  <div className="flex items-center space-x-4">
-                    <div className="w-16 h-16 bg-gray-100 rounded-lg overflow-hidden">
-                      {product?.images?.[0] ? (
-                        <img
-                          src={product.images[0]}
-                          alt={product?.name || "Product"}
-                          className="w-full h-full object-cover"
-                        />
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center text-xs text-muted-foreground">
-                          No image
+                  <div className="space-y-3">
+                    {items.map((item: any) => (
+                      <div key={item.id} className="flex items-center space-x-4">
+                        <div className="w-16 h-16 bg-gray-100 rounded-lg overflow-hidden">
+                          {item.product?.images?.[0] ? (
+                            <img
+                              src={item.product.images[0]}
+                              alt={item.product?.name || "Product"}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <div className="w-full h-full flex items-center justify-center text-xs text-muted-foreground">
+                              No image
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
 
-                    <div className="flex-1 text-left">
-                      <h4 className="font-semibold">{product?.name || "-"}</h4>
-                      {(order?.selectedColor || order?.selectedSize) && (
-                        <p className="text-muted-foreground">
-                          {order?.selectedColor}
-                          {order?.selectedColor && order?.selectedSize && " | "}
-                          {order?.selectedSize && `Size: ${order?.selectedSize}`}
+                        <div className="flex-1 text-left">
+                          <h4 className="font-semibold">{item.product?.name || "-"}</h4>
+                          {(item.selectedColor || item.selectedSize) && (
+                            <p className="text-muted-foreground">
+                              {item.selectedColor}
+                              {item.selectedColor && item.selectedSize && " | "}
+                              {item.selectedSize && `Size: ${item.selectedSize}`}
+                            </p>
+                          )}
+                          <p className="text-muted-foreground">
+                            Quantity: {item.quantity ?? "-"} · {item.usedPoints ?? 0} points
+                          </p>
+                          {order?.status === "delivered" && returnableLeft(item) > 0 && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="h-auto p-0"
+                              onClick={() => setReturnItem({ item, maxQuantity: returnableLeft(item) })}
+                            >
+                              Return / exchange
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {returns.length > 0 && (
+                    <div className="mt-3 space-y-1 text-sm">
+                      {returns.map((r) => (
+                        <p key={r.id}>
+                          <span className="font-mono">{r.rmaNumber}</span> · {RETURN_TYPE_LABEL[r.type]}
+                          {r.type === "exchange" && (r.exchangeSize || r.exchangeColor)
+                            ? ` to ${[r.exchangeSize, r.exchangeColor].filter(Boolean).join(" / ")}`
+                            : ""}{" "}
+                          · <span className="font-medium">{RETURN_STATUS_LABEL[r.status]}</span>
+                          {r.refundPoints ? ` · ${r.refundPoints} points refunded` : ""}
+                          {r.adminNote && <span className="block text-xs text-muted-foreground">{r.adminNote}</span>}
                         </p>
-                      )}
-                      <p className="text-muted-foreground">Quantity: {order?.quantity ?? "-"}</p>
+                      ))}
                     </div>
-                  </div>
+                  )}
 
                   <div className="mt-4 pt-4 border-t border-border text-sm text-muted-foreground">
                     <p>
@@ -112,10 +191,7 @@ export default function MyOrders() {
                       <span className="font-mono font-bold">{order?.orderId || "-"}</span>
                     </p>
                     <p>
-                      Status:{" "}
-                      <span className="text-green-600 font-medium">
-                        {order?.status || "confirmed"}
-                      </span>
+                      Status: <OrderStatusBadge status={order?.status} />
                     </p>
                     <p>
                       Date:{" "}
@@ -124,7 +200,7 @@ export default function MyOrders() {
 
                     {order?.metadata?.usedPoints !== undefined && (
                       <p>
-                        Used points: <span>{order.metadata.usedPoints ?? 0}</span>
+                        Used points: <span>{orderPointsSpent(order.metadata)}</span>
                       </p>
                     )}
 
@@ -136,6 +212,7 @@ export default function MyOrders() {
                     ) : (
                       <p>Co-pay: 0 INR</p>
                     )}
+                    <InvoiceLinks invoices={o?.invoices} />
 
                     {(order?.metadata?.deliveryMethod || order?.metadata?.deliveryAddress) && (
                       <div className="mt-2">
@@ -148,6 +225,47 @@ export default function MyOrders() {
                         </p>
                       </div>
                     )}
+
+                    {order?.handoverCode &&
+                      !order.handedOverAt &&
+                      !["delivered", "cancelled", "returned"].includes(order.status) && (
+                      <div className="mt-3">
+                        <HandoverCode code={order.handoverCode} location={order.metadata?.deliveryAddress} />
+                      </div>
+                    )}
+                    {order?.handedOverAt && (
+                      <p className="mt-2">Collected at the desk on {new Date(order.handedOverAt).toLocaleString()}</p>
+                    )}
+
+                    {shipment && (
+                      <div className="mt-3">
+                        <p className="font-medium mb-2">Shipment:</p>
+                        <ShipmentTracking shipment={shipment} />
+                      </div>
+                    )}
+
+                    {order && canSelfCancelOrder(order, cancelWindowHours) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-3"
+                        disabled={cancelMutation.isPending}
+                        onClick={() => {
+                          if (window.confirm(`Cancel order ${order.orderId}? Your points will be refunded.`)) {
+                            cancelMutation.mutate(order.id);
+                          }
+                        }}
+                      >
+                        Cancel order
+                      </Button>
+                    )}
+
+                    {Array.isArray(o?.statusHistory) && o.statusHistory.length > 0 && (
+                      <div className="mt-3">
+                        <p className="font-medium mb-2">Tracking:</p>
+                        <OrderTimeline entries={o.statusHistory} />
+                      </div>
+                    )}
                   </div>
                 </div>
               );
@@ -156,6 +274,14 @@ export default function MyOrders() {
         )}
       </main>
 
+      {returnItem && (
+        <ReturnRequestModal
+          item={returnItem.item}
+          maxQuantity={returnItem.maxQuantity}
+          onClose={() => setReturnItem(null)}
+        />
+      )}
+
       <Footer />
     </div>
   );
@@ -0,0 +1,50 @@
+// src/pages/points-statement.tsx
+import { Header } from "@/components/layout/header";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent } from "@/components/ui/card";
+import { PointsLedgerTable } from "@/components/points/points-ledger-table";
+import type { PointsStatement } from "@/components/points/types";
+
+export default function PointsStatementPage() {
+  const { token } = useAuth();
+
+  const { data, isLoading, isError, error } = useQuery<PointsStatement>({
+    queryKey: ["/api/points/statement"],
+    enabled: !!token,
+    staleTime: 0,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        <div className="flex items-end justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold">Points Statement</h1>
+            <p className="text-muted-foreground text-sm">Every grant, redemption and adjustment to your points.</p>
+          </div>
+          <div className="text-right">
+            <p className="text-sm text-muted-foreground">Current balance</p>
+            <p className="text-3xl font-bold">{data?.balance ?? 0}</p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-muted-foreground mt-8">Loading statement…</p>
+        ) : isError ? (
+          <p className="text-center text-red-600 text-sm mt-8">
+            {(error as any)?.message || "Failed to load statement"}
+          </p>
+        ) : (
+          <Card>
+            <CardContent className="pt-6">
+              <PointsLedgerTable transactions={data?.transactions ?? []} />
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
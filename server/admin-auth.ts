@@ -0,0 +1,109 @@
+// server/admin-auth.ts
+import type { Request, Response, NextFunction } from "express";
+import type { Employee, Session } from "@shared/schema";
+import {
+  permissionsForRole,
+  type AdminPermission,
+} from "@shared/permissions";
+import { storage } from "./storage";
+
+export type AdminContext = {
+  employee: Employee;
+  session: Session;
+  permissions: AdminPermission[];
+};
+
+/**
+ * Admin endpoints that the storefront reads without an admin session.
+ * Matched against `req.path` relative to the /api/admin mount.
+ */
+const PUBLIC_ADMIN_READS: RegExp[] = [/^\/branding\/?$/, /^\/all-campaign-products\/?$/];
+
+export function getBearerToken(req: Request): string | null {
+  const token = req.headers.authorization?.replace("Bearer ", "").trim();
+  return token || null;
+}
+
+/**
+ * Resolves the bearer session to an employee. Sends 401 on a missing,
+ * unknown or expired session (423 for a locked account) and returns null
+ * in that case.
+ */
+export async function resolveSessionEmployee(req: Request, res: Response) {
+  const token = getBearerToken(req);
+  if (!token) {
+    res.status(401).json({ message: "No token provided" });
+    return null;
+  }
+
+  const session = await storage.getSession(token);
+  if (!session || new Date(session.expiresAt) < new Date()) {
+    res.status(401).json({ message: "Invalid or expired session" });
+    return null;
+  }
+
+  const employee = await storage.getEmployee(session.employeeId);
+  if (!employee) {
+    res.status(401).json({ message: "Employee not found" });
+    return null;
+  }
+  // locking deletes the sessions too; this covers one created while the lock was being set
+  if (employee.isLocked) {
+    res.status(423).json({ message: "Your account is locked, please contact the HR team.", isLocked: true });
+    return null;
+  }
+
+  return { employee, session };
+}
+
+/**
+ * Mounted on /api/admin. Authenticates the caller and requires a role with
+ * at least one admin permission; individual routes then add `requirePermission`.
+ */
+export async function requireAdminAccess(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (req.method === "GET" && PUBLIC_ADMIN_READS.some((re) => re.test(req.path))) {
+      return next();
+    }
+
+    const ctx = await resolveSessionEmployee(req, res);
+    if (!ctx) return;
+
+    const permissions = permissionsForRole(ctx.employee.role);
+    if (!permissions.length) {
+      return res.status(403).json({ message: "You do not have access to this resource" });
+    }
+
+    const admin: AdminContext = { ...ctx, permissions };
+    res.locals.admin = admin;
+    next();
+  } catch (e) {
+    next(e);
+  }
+}
+
+export function getAdminContext(res: Response): AdminContext {
+  return res.locals.admin as AdminContext;
+}
+
+/**
+ * Per-route guard; passes when the admin holds any of `required`.
+ * Must run after `requireAdminAccess`.
+ */
+export function requirePermission(...required: AdminPermission[]) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const ctx = res.locals.admin as AdminContext | undefined;
+    if (!ctx) {
+      return res.status(401).json({ message: "No token provided" });
+    }
+    if (!required.some((p) => ctx.permissions.includes(p))) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+export function hasPermission(res: Response, permission: AdminPermission): boolean {
+  const ctx = res.locals.admin as AdminContext | undefined;
+  return !!ctx?.permissions.includes(permission);
+}
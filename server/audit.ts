@@ -0,0 +1,72 @@
+// server/audit.ts
+// Audit trail for admin mutations: who changed what, from where.
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { getAdminContext } from "./admin-auth";
+import { clientIp } from "./otp-throttle";
+
+type Row = Record<string, any> | null | undefined;
+
+// bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(["updatedAt", "createdAt"]);
+
+function toPlain(row: Row): Record<string, unknown> | null {
+  return row ? JSON.parse(JSON.stringify(row)) : null;
+}
+
+/**
+ * Full rows for create/delete; for updates only the fields whose value changed.
+ */
+export function diffRows(before: Row, after: Row) {
+  if (!before || !after) return { before: toPlain(before), after: toPlain(after) };
+
+  const b = toPlain(before)!;
+  const a = toPlain(after)!;
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const key of Array.from(new Set([...Object.keys(b), ...Object.keys(a)]))) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    if (JSON.stringify(b[key]) !== JSON.stringify(a[key])) {
+      changedBefore[key] = b[key] ?? null;
+      changedAfter[key] = a[key] ?? null;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Records an admin action. Never throws: a failed audit write is logged
+ * and the request carries on.
+ */
+export async function recordAudit(
+  req: Request,
+  res: Response,
+  event: {
+    action: string;
+    entityType: string;
+    entityId?: string | null;
+    before?: Row;
+    after?: Row;
+  }
+): Promise<void> {
+  try {
+    const changes = diffRows(event.before, event.after);
+    // updates that touched nothing are not worth a row
+    if (event.before && event.after && Object.keys(changes.after ?? {}).length === 0) return;
+
+    const admin = getAdminContext(res);
+    await storage.createAuditEvent({
+      actorEmployeeId: admin?.employee.id ?? null,
+      actorEmail: admin?.employee.email ?? null,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId ?? null,
+      changes,
+      ip: clientIp(req),
+    });
+  } catch (e) {
+    console.error("[audit] write failed:", (e as any)?.message || e);
+  }
+}
@@ -1,9 +1,26 @@
 // auth-otp.ts (or wherever these handlers live)
 import type { Request, Response } from "express";
 import { storage } from "./storage";
-import { emailService } from "./email-service";
+import { sendTemplatedEmail } from "./email-templates";
+import { canOpenAdminPanel } from "@shared/permissions";
+import { startSession } from "./sessions";
+import {
+  checkOtpSend,
+  checkOtpVerify,
+  clientIp,
+  recordOtpFailure,
+  recordOtpSend,
+  recordOtpSuccess,
+} from "./otp-throttle";
+import crypto from "crypto";
+import { promisify } from "util";
 import "dotenv/config";
 
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Plaintext codes only reach the console when explicitly asked for outside production.
+const OTP_DEV_LOG = process.env.OTP_DEV_LOG === "true" && process.env.NODE_ENV !== "production";
+
 function normalizeEmail(input?: string | null): string {
   if (!input) return "";
   return String(input).trim().toLowerCase();
@@ -17,22 +34,38 @@ function isValidEmail(email: string): boolean {
 type OtpIssue = {
   id: string;
   email: string;
+  code: string; // "scrypt$<salt>$<hash>"
   expiresAt: Date | string | null;
-  metadata?: { localCode?: string | null } | null;
 };
 
-async function saveLocalOtpIssue(args: {
+async function hashOtp(code: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = await scrypt(code, salt, 32);
+  return `scrypt$${salt}$${hash.toString("hex")}`;
+}
+
+async function otpMatches(code: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hashHex] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scrypt(code, salt, expected.length);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Stores the hashed code; any older unused code for the email stops working.
+ */
+async function saveOtpIssue(args: {
   email: string;
   code: string;
   timeoutSec: number;
 }): Promise<OtpIssue> {
   const expiresAt = new Date(Date.now() + args.timeoutSec * 1000);
-  const rec = await storage.createOTP({
+  const rec = await storage.replaceOTP({
     email: args.email,
-    code: args.code,
+    codeHash: await hashOtp(args.code),
     expiresAt,
-    metadata: { localCode: args.code },
-  } as any);
+  });
   return rec as OtpIssue;
 }
 
@@ -46,12 +79,52 @@ async function loadLatestOtpForEmail(email: string): Promise<OtpIssue | null> {
   }
 }
 
-async function markOtpUsed(otpId: string): Promise<void> {
-  try {
-    await storage.markOTPAsUsed(otpId);
-  } catch (e) {
-    console.warn("[otp] mark used failed:", (e as any)?.message || e);
+/**
+ * Generates a fresh code for `email`, stores it and mails it out.
+ */
+async function issueOtp(email: string, ip: string | null): Promise<{ emailSent: boolean; timeoutSec: number }> {
+  const code = crypto.randomInt(100000, 1000000).toString();
+  const timeoutSec = 600;
+
+  await saveOtpIssue({ email, code, timeoutSec });
+  await recordOtpSend(email, ip);
+
+  storage.purgeExpiredOTPs().catch((e) =>
+    console.warn("[otp] purge expired failed:", (e as any)?.message || e)
+  );
+
+  // sent directly: a queued copy would keep the plaintext code in email_outbox
+  const emailSent = await sendTemplatedEmail("otp", { to: email }, { code, expiresInMinutes: timeoutSec / 60 });
+  if (emailSent) {
+    console.log(`OTP sent to ${email} (valid ${timeoutSec}s)`);
   }
+  if (OTP_DEV_LOG) {
+    console.log(`[otp:dev] ${email}: ${code}`);
+  }
+
+  return { emailSent, timeoutSec };
+}
+
+type OtpCheck = { ok: true } | { ok: false; status: number; message: string };
+
+/**
+ * Compares `code` against the latest unused OTP for `email` and consumes it
+ * on a match. Marking it used is conditional, so of two requests racing
+ * with the same code only one gets in.
+ */
+async function checkOtp(email: string, code: string): Promise<OtpCheck> {
+  const otpRec = await loadLatestOtpForEmail(email);
+  if (!otpRec) return { ok: false, status: 400, message: "No OTP issued" };
+
+  if (otpRec.expiresAt && new Date(otpRec.expiresAt) < new Date()) {
+    return { ok: false, status: 400, message: "OTP expired" };
+  }
+
+  if (!(await otpMatches(code, otpRec.code)) || !(await storage.redeemOTP(otpRec.id))) {
+    return { ok: false, status: 401, message: "Invalid or expired OTP" };
+  }
+
+  return { ok: true };
 }
 
 /**
@@ -153,21 +226,14 @@ export async function sendOTP(req: Request, res: Response) {
 
     const employeePrefill = { firstName: user.firstName ?? "", lastName: user.lastName ?? "" };
 
-    const code = Math.floor(100000 + Math.random() * 900000).toString();
-    const timeoutSec = 600;
-
-    await saveLocalOtpIssue({ email, code, timeoutSec });
+    const throttle = await checkOtpSend(email, user);
+    if (!throttle.ok) return res.status(throttle.status).json(throttle.body);
 
-    const branding = await storage.getBranding();
-    const companyName = branding?.companyName || "TechCorp";
-
-    const emailSent = await emailService.sendOTP(email, code, companyName);
+    const { emailSent, timeoutSec } = await issueOtp(email, clientIp(req));
     if (!emailSent) {
       return res.status(500).json({ message: "Failed to send OTP email" });
     }
 
-    console.log(`OTP sent to ${email}: ${code} (valid ${timeoutSec}s)`);
-
     return res.json({
       ok: true,
       timeoutSec,
@@ -204,19 +270,17 @@ export async function verifyOTP(req: Request, res: Response) {
       });
     }
 
-    const otpRec = await loadLatestOtpForEmail(email);
-    if (!otpRec) return res.status(400).json({ message: "No OTP issued" });
+    const ip = clientIp(req);
+    const throttle = await checkOtpVerify(email, ip, policy.emp);
+    if (!throttle.ok) return res.status(throttle.status).json(throttle.body);
 
-    if (otpRec.expiresAt && new Date(otpRec.expiresAt) < new Date()) {
-      return res.status(400).json({ message: "OTP expired" });
+    const check = await checkOtp(email, code);
+    if (!check.ok) {
+      const failure = await recordOtpFailure(email, ip, policy.emp);
+      return res.status(check.status).json({ message: check.message, ...failure });
     }
 
-    const localCode = (otpRec.metadata as any)?.localCode || (otpRec as any)?.code || "";
-    if (!localCode || localCode !== code) {
-      return res.status(401).json({ message: "Invalid or expired OTP" });
-    }
-
-    await markOtpUsed(otpRec.id);
+    await recordOtpSuccess(throttle.attemptId, policy.emp);
 
     let user = policy.emp;
 
@@ -231,13 +295,16 @@ export async function verifyOTP(req: Request, res: Response) {
       const defaultLastName = lastName || emailName.split(".")[1] || "";
       const finalLastName = lastName ? lastName : (defaultLastName ? defaultLastName.charAt(0).toUpperCase() + defaultLastName.slice(1) : "");
 
-      user = await storage.createEmployee({
-        firstName: finalFirstName,
-        lastName: finalLastName,
-        email,
-        points: policy.domainConfig?.defaultPoints || 0,
-        bulkBuyAllowed: false,
-      } as any);
+      user = await storage.createEmployee(
+        {
+          firstName: finalFirstName,
+          lastName: finalLastName,
+          email,
+          points: policy.domainConfig?.defaultPoints || 0,
+          bulkBuyAllowed: false,
+        } as any,
+        { note: "Domain default points" }
+      );
     }
 
     if (!user) {
@@ -246,7 +313,7 @@ export async function verifyOTP(req: Request, res: Response) {
       });
     }
 
-    const session = await storage.createSession(user.id);
+    const session = await startSession(user.id, req);
 
     return res.json({
       token: session.token,
@@ -264,3 +331,79 @@ export async function verifyOTP(req: Request, res: Response) {
     return res.status(500).json({ message: "Failed to verify OTP" });
   }
 }
+
+// =======================
+// Admin panel login
+// Only employees whose role grants admin permissions receive a code.
+// =======================
+const ADMIN_LOGIN_DENIED = "This account does not have admin access.";
+
+export async function sendAdminOTP(req: Request, res: Response) {
+  try {
+    const email = normalizeEmail((req.body as any)?.email);
+    if (!email || !isValidEmail(email)) {
+      return res.status(400).json({ message: "Invalid email address" });
+    }
+
+    const emp = await storage.getEmployeeByEmail(email);
+    if (!emp || !canOpenAdminPanel(emp.role)) {
+      return res.status(403).json({ message: ADMIN_LOGIN_DENIED });
+    }
+
+    const throttle = await checkOtpSend(email, emp);
+    if (!throttle.ok) return res.status(throttle.status).json(throttle.body);
+
+    const { emailSent, timeoutSec } = await issueOtp(email, clientIp(req));
+    if (!emailSent) {
+      return res.status(500).json({ message: "Failed to send OTP email" });
+    }
+
+    return res.json({ ok: true, timeoutSec, message: "OTP sent to your email." });
+  } catch (e) {
+    console.error("sendAdminOTP error:", (e as any)?.message || e);
+    return res.status(500).json({ message: "Failed to send OTP" });
+  }
+}
+
+export async function verifyAdminOTP(req: Request, res: Response) {
+  try {
+    const email = normalizeEmail((req.body as any)?.email);
+    const code = String((req.body as any)?.code || "").trim();
+    if (!email || !code) return res.status(400).json({ message: "email and code required" });
+
+    const emp = await storage.getEmployeeByEmail(email);
+    if (!emp || !canOpenAdminPanel(emp.role)) {
+      return res.status(403).json({ message: ADMIN_LOGIN_DENIED });
+    }
+
+    const ip = clientIp(req);
+    const throttle = await checkOtpVerify(email, ip, emp);
+    if (!throttle.ok) return res.status(throttle.status).json(throttle.body);
+
+    const check = await checkOtp(email, code);
+    if (!check.ok) {
+      const failure = await recordOtpFailure(email, ip, emp);
+      return res.status(check.status).json({ message: check.message, ...failure });
+    }
+
+    await recordOtpSuccess(throttle.attemptId, emp);
+
+    const session = await startSession(emp.id, req);
+
+    return res.json({
+      token: session.token,
+      employee: {
+        id: emp.id,
+        firstName: emp.firstName,
+        lastName: emp.lastName,
+        email: emp.email,
+        points: emp.points ?? 0,
+        role: emp.role,
+      },
+      expiresAt: session.expiresAt,
+    });
+  } catch (e) {
+    console.error("verifyAdminOTP error:", (e as any)?.message || e);
+    return res.status(500).json({ message: "Failed to verify OTP" });
+  }
+}
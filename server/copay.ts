@@ -0,0 +1,161 @@
+// server/copay.ts
+// Turns a paid copay attempt (payments table) into orders. The browser
+// (verify-copay), the gateway's webhook and the reconciler all end up in
+// settlePayment; claimPayment lets exactly one of them place the orders or refund.
+// If the orders can't be placed any more (stock, points, limits) the
+// money goes straight back through the gateway.
+import type { Employee, Order, Payment } from "@shared/schema";
+import { paymentCheckoutKey } from "@shared/payments";
+import { storage, CheckoutError } from "./storage";
+import { paymentProvider, type PaymentVerification } from "./payments";
+import { issueOrderInvoice } from "./invoices";
+import { notifyOrder } from "./order-emails";
+
+const RECONCILE_MS = Number(process.env.PAYMENT_RECONCILE_MS) || 2 * 60_000;
+const EXPIRY_MS = (Number(process.env.PAYMENT_EXPIRY_MINUTES) || 30) * 60_000;
+// the browser usually verifies within seconds; the reconciler leaves it that long
+const GRACE_MS = 2 * 60_000;
+// a "processing" row this old belongs to a run that died
+const STALE_MS = 10 * 60_000;
+
+export type Settlement = {
+  payment: Payment;
+  placed?: { orders: Order[]; employee: Employee; replayed: boolean }; // when this call placed (or replayed) them
+};
+
+const staleBefore = () => new Date(Date.now() - STALE_MS);
+
+/** Applies a gateway answer to the payment: places the orders, refunds, or records the failure. */
+export async function settlePayment(
+  payment: Payment,
+  result: PaymentVerification,
+  failure = "Payment failed at the gateway"
+): Promise<Settlement> {
+  await storage.recordPaymentCheck(payment.id, { gatewayResponse: result.raw, gatewayPaymentId: result.gatewayPaymentId });
+  const reload = async () => ({ payment: (await storage.getPayment(payment.id)) ?? payment });
+  if (result.status === "pending") return reload();
+
+  // a payment completed after we expired the attempt still has to place its orders or be refunded
+  const claimed = await storage.claimPayment(payment.id, staleBefore(), { reopenFailed: result.status === "success" });
+  if (!claimed) return reload();
+
+  if (result.status === "failed") {
+    return { payment: (await storage.updatePayment(claimed.id, { status: "failed", error: failure }))! };
+  }
+
+  const paid = result.amountInr ?? 0;
+  if (paid !== claimed.amountInr) {
+    return refundPayment(claimed, paid, `Paid ₹${paid}, expected ₹${claimed.amountInr}`);
+  }
+
+  const { cart } = claimed;
+  try {
+    const branding = await storage.getBranding();
+    const placed = await storage.placeOrders({
+      employeeId: claimed.employeeId,
+      maxSelections: branding?.maxSelectionsPerUser ?? 1,
+      pointsCoveredByPayment: cart.pointsCovered,
+      checkoutKey: paymentCheckoutKey({ provider: claimed.provider, ref: claimed.ref }),
+      lines: cart.lines,
+      metadata: {
+        usedPoints: cart.totalPoints,
+        totalInr: cart.totalInr,
+        copayInr: claimed.amountInr,
+        paymentId: result.gatewayPaymentId ?? claimed.gatewayPaymentId,
+        paymentProvider: claimed.provider,
+        paymentRef: claimed.ref,
+        deliveryMethod: cart.delivery.deliveryMethod,
+        deliveryAddress: cart.delivery.deliveryAddress,
+        deliveryAddressSnapshot: cart.delivery.deliveryAddressSnapshot,
+      },
+      officeLocationId: cart.delivery.officeLocationId,
+    });
+
+    const done = await storage.updatePayment(claimed.id, {
+      status: "completed",
+      orderIds: placed.orders.map((o) => o.id),
+      error: null,
+    });
+    // a missing invoice can be issued later from the admin orders view; the checkout stands regardless
+    for (const order of placed.orders) {
+      await issueOrderInvoice(order).catch((e) => console.error(`Invoice for ${order.orderId} failed:`, e));
+    }
+    if (!placed.replayed) placed.orders.forEach((o) => notifyOrder(o, "confirmation"));
+    return { payment: done ?? claimed, placed };
+  } catch (e) {
+    if (e instanceof CheckoutError) return refundPayment(claimed, paid, e.message);
+    // not the checkout's fault (database, network); the reconciler tries again
+    await storage.updatePayment(claimed.id, { status: "pending", error: (e as any)?.message || String(e) });
+    throw e;
+  }
+}
+
+async function refundPayment(payment: Payment, amountInr: number, reason: string): Promise<Settlement> {
+  if (amountInr <= 0) {
+    return { payment: (await storage.updatePayment(payment.id, { status: "failed", error: reason }))! };
+  }
+  const refund = await paymentProvider(payment.provider).refund({
+    ref: payment.ref,
+    gatewayPaymentId: payment.gatewayPaymentId,
+    amountInr,
+    customerId: payment.employeeId,
+  });
+  if (!refund.ok) console.error(`Copay refund for ${payment.ref} failed:`, refund.error);
+  const updated = await storage.updatePayment(payment.id, {
+    status: refund.ok ? "refunded" : "refund_failed",
+    refundTxnId: refund.refundTxnId,
+    error: refund.ok ? reason : `${reason}; refund failed: ${refund.error}`,
+  });
+  return { payment: updated ?? payment };
+}
+
+/** Why a refunded payment placed no orders, without the gateway's refund error. */
+export const paymentFailureReason = (payment: Payment) =>
+  payment.error?.split("; refund failed:")[0] || "Your orders could not be placed";
+
+/** Admin retry of a refund the gateway rejected. */
+export async function retryPaymentRefund(payment: Payment) {
+  return (await refundPayment(payment, payment.amountInr, paymentFailureReason(payment))).payment;
+}
+
+/** Asks the gateway about one payment and settles it; attempts pending past the expiry are closed as unpaid. */
+export async function checkPayment(payment: Payment): Promise<Settlement> {
+  const result = await paymentProvider(payment.provider).verify(payment.ref, payment.gatewayRef);
+  const age = Date.now() - (payment.createdAt?.getTime() ?? Date.now());
+  if (result.status === "pending" && payment.status === "pending" && age > EXPIRY_MS) {
+    return settlePayment(payment, { ...result, status: "failed" }, `No payment within ${EXPIRY_MS / 60_000} minutes`);
+  }
+  return settlePayment(payment, result);
+}
+
+let running = false;
+
+/** One pass over payments the browser never came back for. */
+export async function reconcilePayments() {
+  if (running) return;
+  running = true;
+  try {
+    const due = await storage.getPaymentsToReconcile({
+      createdBefore: new Date(Date.now() - GRACE_MS),
+      staleBefore: staleBefore(),
+      limit: 20,
+    });
+    for (const payment of due) {
+      await checkPayment(payment).catch((e) =>
+        console.error(`[payments] reconciling ${payment.ref} failed:`, (e as any)?.message || e)
+      );
+    }
+  } finally {
+    running = false;
+  }
+}
+
+let timer: NodeJS.Timeout | undefined;
+
+export function startPaymentReconciler() {
+  if (timer) return;
+  timer = setInterval(() => {
+    reconcilePayments().catch((e) => console.error("[payments] reconcile run failed:", (e as any)?.message || e));
+  }, RECONCILE_MS);
+  timer.unref();
+}
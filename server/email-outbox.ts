@@ -0,0 +1,90 @@
+// server/email-outbox.ts
+// Every email is written to email_outbox and sent from here, so an SMTP
+// outage never slows or fails the request that triggered it. Failed sends
+// are retried with exponential backoff; after EMAIL_MAX_ATTEMPTS the message
+// is marked dead and waits for an admin to resend it.
+import type { InsertEmailOutboxMessage } from "@shared/schema";
+import { storage } from "./storage";
+import { emailService } from "./email-service";
+
+const POLL_MS = Number(process.env.EMAIL_OUTBOX_POLL_MS) || 15_000;
+const MAX_ATTEMPTS = Number(process.env.EMAIL_MAX_ATTEMPTS) || 8;
+const BATCH = 20;
+// a claimed message is retried if the worker hasn't reported back by then
+const LEASE_MS = 5 * 60_000;
+const BASE_BACKOFF_MS = 60_000;
+const MAX_BACKOFF_MS = 6 * 60 * 60_000;
+
+/** 1, 2, 4, 8 … minutes after each failed attempt, capped at 6 hours. */
+export function retryDelayMs(attempts: number) {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+/** Queues a rendered message and nudges the worker; resolves once it is stored. */
+export async function enqueueEmail(message: InsertEmailOutboxMessage) {
+  const row = await storage.enqueueEmail(message);
+  kickEmailOutbox();
+  return row;
+}
+
+let running = false;
+let again = false;
+
+/** Sends whatever is due now (used after an enqueue or a resend instead of waiting for the next poll). */
+export function kickEmailOutbox() {
+  if (running) {
+    again = true;
+    return;
+  }
+  running = true;
+  drain()
+    .catch((e) => console.error("[email] outbox run failed:", (e as any)?.message || e))
+    .finally(() => {
+      running = false;
+      if (again) {
+        again = false;
+        kickEmailOutbox();
+      }
+    });
+}
+
+async function drain() {
+  for (;;) {
+    const batch = await storage.claimDueEmails(BATCH, LEASE_MS);
+    for (const message of batch) {
+      try {
+        const messageId = await emailService.deliver({
+          to: message.to,
+          cc: message.cc.length ? message.cc : undefined,
+          bcc: message.bcc.length ? message.bcc : undefined,
+          fromName: message.fromName,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+        });
+        await storage.markEmailSent(message.id, messageId);
+      } catch (e) {
+        const error = String((e as any)?.message || e).slice(0, 1000);
+        const retryAt = message.attempts < MAX_ATTEMPTS ? new Date(Date.now() + retryDelayMs(message.attempts)) : null;
+        await storage.markEmailFailed(message.id, error, retryAt);
+        console.error(
+          `[email] "${message.subject}" to ${message.to.join(", ")} failed (attempt ${message.attempts}/${MAX_ATTEMPTS}${
+            retryAt ? "" : ", giving up"
+          }):`,
+          error
+        );
+      }
+    }
+    if (batch.length < BATCH) return;
+  }
+}
+
+let timer: NodeJS.Timeout | undefined;
+
+/** Polls for due messages (retries, and anything queued by another instance). Idempotent. */
+export function startEmailOutbox() {
+  if (timer) return;
+  timer = setInterval(kickEmailOutbox, POLL_MS);
+  timer.unref();
+  kickEmailOutbox();
+}
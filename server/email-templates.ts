@@ -0,0 +1,120 @@
+// server/email-templates.ts
+// Queues the emails defined in shared/email-templates.ts (login codes are
+// sent directly): the admin's saved version when there is one, the default
+// otherwise, filled in with the branding (name, colors, logo, support
+// address) and the caller's data.
+import type { Branding } from "@shared/schema";
+import { EMAIL_TEMPLATES, renderEmail, type EmailTemplateContent, type EmailTemplateKey } from "@shared/email-templates";
+import { storage } from "./storage";
+import { enqueueEmail } from "./email-outbox";
+import { emailService } from "./email-service";
+
+export type EmailRecipients = { to: string | string[]; cc?: string | string[]; bcc?: string | string[] };
+
+// frontend base for links and a relative logo URL
+export const appBaseUrl = () =>
+  (process.env.APP_BASE_URL || process.env.PHONEPE_REDIRECT_URL_BASE || "http://localhost:5173").replace(/\/+$/, "");
+
+export async function loadEmailTemplate(key: EmailTemplateKey): Promise<EmailTemplateContent> {
+  const saved = await storage.getEmailTemplate(key);
+  if (!saved) return EMAIL_TEMPLATES[key].defaults;
+  const { subject, fromName, html, text } = saved;
+  return { subject, fromName, html, text };
+}
+
+/** The variables every template gets (COMMON_EMAIL_VARIABLES). */
+export function commonEmailContext(branding: Branding | undefined) {
+  const logoUrl = branding?.logoUrl
+    ? /^https?:\/\//.test(branding.logoUrl)
+      ? branding.logoUrl
+      : `${appBaseUrl()}${branding.logoUrl.startsWith("/") ? "" : "/"}${branding.logoUrl}`
+    : null;
+  return {
+    company: {
+      name: branding?.companyName || "TechCorp",
+      logoUrl,
+      primaryColor: branding?.primaryColor || "#1e40af",
+      accentColor: branding?.accentColor || "#f97316",
+      supportEmail: branding?.supportEmail || null,
+    },
+    appUrl: appBaseUrl(),
+    year: new Date().getFullYear(),
+  };
+}
+
+/** `key` (or `content`, for unsaved edits) filled in with the branding and `data`. */
+export async function renderTemplatedEmail(
+  key: EmailTemplateKey,
+  data: Record<string, unknown>,
+  content?: EmailTemplateContent
+): Promise<EmailTemplateContent> {
+  const branding = await storage.getBranding();
+  return renderEmail(content ?? (await loadEmailTemplate(key)), { ...commonEmailContext(branding), ...data });
+}
+
+const asList = (v: string | string[] | undefined) => (v === undefined ? [] : Array.isArray(v) ? v : [v]);
+
+/**
+ * Renders `key` with `data` and puts it in the outbox (server/email-outbox.ts).
+ * False when the template can't be rendered or the message can't be stored.
+ */
+export async function queueTemplatedEmail(
+  key: EmailTemplateKey,
+  recipients: EmailRecipients,
+  data: Record<string, unknown>
+): Promise<boolean> {
+  let rendered: EmailTemplateContent;
+  try {
+    rendered = await renderTemplatedEmail(key, data);
+  } catch (e) {
+    console.error(`[email] ${key} template could not be rendered:`, (e as any)?.message || e);
+    return false;
+  }
+  try {
+    await enqueueEmail({
+      templateKey: key,
+      to: asList(recipients.to),
+      cc: asList(recipients.cc),
+      bcc: asList(recipients.bcc),
+      ...rendered,
+    });
+    return true;
+  } catch (e) {
+    console.error(`[email] ${key} could not be queued:`, (e as any)?.message || e);
+    return false;
+  }
+}
+
+/**
+ * Renders `key` and hands it straight to SMTP, bypassing the outbox. For mail
+ * carrying secrets (login codes) that must not sit in email_outbox; a failed
+ * send is not retried, the employee asks for a new code.
+ */
+export async function sendTemplatedEmail(
+  key: EmailTemplateKey,
+  recipients: EmailRecipients,
+  data: Record<string, unknown>
+): Promise<boolean> {
+  try {
+    const rendered = await renderTemplatedEmail(key, data);
+    await emailService.deliver({ ...recipients, ...rendered });
+    return true;
+  } catch (e) {
+    console.error(`[email] ${key} could not be sent:`, (e as any)?.message || e);
+    return false;
+  }
+}
+
+/**
+ * Staff copies of a notification: `to` (e.g. procurement), falling back to the
+ * support address, with support and the configured CC list copied. Null when
+ * nobody is configured.
+ */
+export async function staffRecipients(to: string[]): Promise<EmailRecipients | null> {
+  const branding = await storage.getBranding();
+  const support = branding?.supportEmail ? [branding.supportEmail] : [];
+  const primary = to.length ? to : support;
+  const cc = Array.from(new Set([...support, ...(branding?.emailCc ?? [])])).filter((a) => !primary.includes(a));
+  if (!primary.length) return cc.length ? { to: cc } : null;
+  return cc.length ? { to: primary, cc } : { to: primary };
+}
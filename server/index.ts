@@ -7,7 +7,18 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// behind a reverse proxy, req.ip must come from X-Forwarded-For (OTP per-IP limits)
+if (process.env.TRUST_PROXY) app.set("trust proxy", Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+// payment webhooks are signed over the exact bytes the gateway sent
+app.use(
+  express.json({
+    verify: (req, _res, buf) => {
+      if (req.url?.startsWith("/api/payments/webhook/") || req.url?.startsWith("/api/orders/phonepe-callback")) {
+        (req as any).rawBody = buf;
+      }
+    },
+  })
+);
 app.use(express.urlencoded({ extended: false }));
 
 // ensure uploads dir exists
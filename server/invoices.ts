@@ -0,0 +1,319 @@
+// server/invoices.ts
+// GST tax invoices and credit notes. Each document is built from its order or
+// bulk-buy request when issued and stored as a snapshot; the PDF is rendered
+// from that snapshot on every download, so it never changes afterwards.
+import type { BulkBuyRequest, Invoice, Order } from "@shared/schema";
+import {
+  computeInvoiceLines,
+  gstStateFromAddress,
+  gstStateName,
+  INVOICE_KIND_LABEL,
+  type InvoiceLineInput,
+  type InvoiceParty,
+} from "@shared/gst";
+import { lookupPincode } from "@shared/pincodes";
+import { storage } from "./storage";
+import { PdfDocument, textWidth } from "./pdf";
+
+async function supplierParty(): Promise<InvoiceParty> {
+  const b = await storage.getBranding();
+  return {
+    name: b?.companyName || "TechCorp",
+    gstin: b?.gstin ?? null,
+    address: b?.invoiceAddress ?? null,
+    stateCode: b?.gstStateCode ?? null,
+  };
+}
+
+// Office pickups are supplied in the seller's own state; deliveries in the state of the
+// address: the state saved with a structured address, then its pincode's, then a parse
+// of the free-text address
+function placeOfSupply(
+  supplier: InvoiceParty,
+  deliveryMethod: string | null | undefined,
+  address: string | null | undefined,
+  snapshot?: { state?: string | null; pincode?: string | null } | null
+) {
+  const own = supplier.stateCode ?? "";
+  if (deliveryMethod !== "delivery") return own;
+  return (
+    gstStateFromAddress(snapshot?.state) ??
+    lookupPincode(snapshot?.pincode)?.stateCode ??
+    gstStateFromAddress(address) ??
+    own
+  );
+}
+
+async function billToParty(employeeId: string, address: string | null | undefined): Promise<InvoiceParty> {
+  const e = await storage.getEmployee(employeeId);
+  return {
+    name: e ? `${e.firstName} ${e.lastName}`.trim() : "Employee",
+    email: e?.email ?? null,
+    address: address ?? null,
+  };
+}
+
+function variantLabel(color: string | null | undefined, size: string | null | undefined) {
+  const v = [color, size].filter(Boolean).join(" / ");
+  return v ? ` (${v})` : "";
+}
+
+/**
+ * Tax invoice for an order paid partly by copay. Checkout charges the catalogue
+ * price as-is (points + copay), so item prices are treated as tax-inclusive.
+ * Returns undefined for points-only orders.
+ */
+export async function issueOrderInvoice(order: Order) {
+  if (!(Number(order.metadata?.copayInr) > 0)) return undefined;
+
+  const items = await storage.getOrderItems([order.id]);
+  const inputs: InvoiceLineInput[] = [];
+  for (const item of items) {
+    const product = await storage.getProduct(item.productId);
+    inputs.push({
+      description: `${product?.name ?? "Product"}${variantLabel(item.selectedColor, item.selectedSize)}`,
+      hsnCode: product?.hsnCode ?? null,
+      quantity: item.quantity,
+      unitPrice: Number(item.unitPrice ?? product?.price ?? 0),
+      gstRate: parseFloat(product?.gst ?? "0"),
+    });
+  }
+
+  const supplier = await supplierParty();
+  const pos = placeOfSupply(
+    supplier,
+    order.metadata?.deliveryMethod,
+    order.metadata?.deliveryAddress,
+    order.metadata?.deliveryAddressSnapshot
+  );
+  const { lines, totals } = computeInvoiceLines(inputs, {
+    pricesIncludeTax: true,
+    intraState: !supplier.stateCode || pos === supplier.stateCode,
+  });
+
+  const { invoice } = await storage.issueInvoice({
+    kind: "invoice",
+    orderId: order.id,
+    employeeId: order.employeeId,
+    supplier,
+    billTo: await billToParty(order.employeeId, order.metadata?.deliveryAddress),
+    placeOfSupply: pos,
+    pricesIncludeTax: true,
+    lines,
+    totals,
+  });
+  return invoice;
+}
+
+/** Tax invoice for an approved bulk-buy request. Bulk-buy quotes add GST on top of the price. */
+export async function issueBulkBuyInvoice(request: BulkBuyRequest) {
+  if (request.status !== "approved") return undefined;
+
+  const inputs: InvoiceLineInput[] = [];
+  for (const item of request.items) {
+    const product = await storage.getProduct(item.productId);
+    inputs.push({
+      description: `${item.name}${variantLabel(item.selectedColor, item.selectedSize)}`,
+      hsnCode: product?.hsnCode ?? null,
+      quantity: item.quantity,
+      unitPrice: Number(item.unitPrice),
+      gstRate: parseFloat(product?.gst ?? "0"),
+    });
+  }
+
+  const supplier = await supplierParty();
+  const pos = placeOfSupply(supplier, request.deliveryMethod, request.deliveryAddress);
+  const { lines, totals } = computeInvoiceLines(inputs, {
+    pricesIncludeTax: false,
+    intraState: !supplier.stateCode || pos === supplier.stateCode,
+  });
+
+  const { invoice } = await storage.issueInvoice({
+    kind: "invoice",
+    bulkBuyRequestId: request.id,
+    employeeId: request.employeeId,
+    supplier,
+    billTo: await billToParty(request.employeeId, request.deliveryAddress),
+    placeOfSupply: pos,
+    pricesIncludeTax: false,
+    lines,
+    totals,
+  });
+  return invoice;
+}
+
+/** Full reversal of a cancelled order's invoice. Orders without an invoice need none. */
+export async function issueCreditNote(order: Order) {
+  const original = (await storage.listInvoices({ orderIds: [order.id] })).find((i) => i.kind === "invoice");
+  if (!original) return undefined;
+
+  const { invoice } = await storage.issueInvoice({
+    kind: "credit_note",
+    orderId: order.id,
+    originalInvoiceId: original.id,
+    employeeId: original.employeeId,
+    supplier: original.supplier,
+    billTo: original.billTo,
+    placeOfSupply: original.placeOfSupply,
+    pricesIncludeTax: original.pricesIncludeTax,
+    lines: original.lines,
+    totals: original.totals,
+  });
+  return invoice;
+}
+
+export function invoiceFileName(invoice: Invoice) {
+  return `${invoice.number}.pdf`;
+}
+
+const money = (n: number) => n.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function fit(text: string, maxWidth: number, size: number) {
+  if (textWidth(text, size) <= maxWidth) return text;
+  let out = text;
+  while (out.length > 1 && textWidth(`${out}...`, size) > maxWidth) out = out.slice(0, -1);
+  return `${out}...`;
+}
+
+// Splits an address into lines that fit the given width
+function wrap(text: string, maxWidth: number, size: number) {
+  const lines: string[] = [];
+  for (const part of text.split(/\n/)) {
+    let line = "";
+    for (const word of part.split(/\s+/).filter(Boolean)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && textWidth(next, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+}
+
+// x is the right edge for the numeric columns
+const COLUMNS = [
+  { key: "n", label: "#", x: 40 },
+  { key: "description", label: "Description", x: 56 },
+  { key: "hsn", label: "HSN", x: 200 },
+  { key: "qty", label: "Qty", x: 255, right: true },
+  { key: "rate", label: "Rate", x: 300, right: true },
+  { key: "taxable", label: "Taxable", x: 350, right: true },
+  { key: "gst", label: "GST%", x: 378, right: true },
+  { key: "cgst", label: "CGST", x: 423, right: true },
+  { key: "sgst", label: "SGST", x: 468, right: true },
+  { key: "igst", label: "IGST", x: 513, right: true },
+  { key: "total", label: "Total", x: 555, right: true },
+] as const;
+
+export async function renderInvoicePdf(invoice: Invoice): Promise<Buffer> {
+  const pdf = new PdfDocument();
+  const left = 40;
+  const right = 555;
+  const isCredit = invoice.kind === "credit_note";
+
+  const order = invoice.orderId ? await storage.getOrder(invoice.orderId) : undefined;
+  const request = invoice.bulkBuyRequestId ? await storage.getBulkBuyRequest(invoice.bulkBuyRequestId) : undefined;
+  const original = invoice.originalInvoiceId ? await storage.getInvoice(invoice.originalInvoiceId) : undefined;
+
+  pdf.text(left, 50, INVOICE_KIND_LABEL[invoice.kind].toUpperCase(), { size: 16, bold: true });
+
+  // seller, top left
+  let y = 75;
+  const { supplier, billTo } = invoice;
+  pdf.text(left, y, supplier.name, { size: 11, bold: true });
+  for (const line of wrap(supplier.address ?? "", 250, 9)) pdf.text(left, (y += 12), line, { size: 9 });
+  if (supplier.gstin) pdf.text(left, (y += 12), `GSTIN: ${supplier.gstin}`, { size: 9 });
+  if (supplier.stateCode) pdf.text(left, (y += 12), `State: ${gstStateName(supplier.stateCode)} (${supplier.stateCode})`, { size: 9 });
+
+  // document details, top right
+  const meta: [string, string][] = [
+    [isCredit ? "Credit note no." : "Invoice no.", invoice.number],
+    ["Date", invoice.issuedAt ? new Date(invoice.issuedAt).toLocaleDateString("en-IN") : "-"],
+  ];
+  if (original) meta.push(["Against invoice", original.number]);
+  if (order) meta.push(["Order", order.orderId]);
+  if (request) meta.push(["Bulk-buy request", request.requestId]);
+  meta.push(["Place of supply", `${gstStateName(invoice.placeOfSupply)} (${invoice.placeOfSupply || "-"})`]);
+  let my = 75;
+  for (const [label, value] of meta) {
+    pdf.text(340, my, label, { size: 9 });
+    pdf.text(right, my, value, { size: 9, bold: true, align: "right" });
+    my += 12;
+  }
+
+  y = Math.max(y, my) + 20;
+  pdf.text(left, y, "Bill to", { size: 9, bold: true });
+  pdf.text(left, (y += 12), billTo.name, { size: 10 });
+  if (billTo.email) pdf.text(left, (y += 12), billTo.email, { size: 9 });
+  for (const line of wrap(billTo.address ?? "", 300, 9)) pdf.text(left, (y += 12), line, { size: 9 });
+
+  const header = () => {
+    y += 24;
+    for (const c of COLUMNS) pdf.text(c.x, y, c.label, { size: 8, bold: true, align: "right" in c ? "right" : "left" });
+    pdf.line(left, y + 5, right, y + 5);
+    y += 4;
+  };
+  header();
+
+  invoice.lines.forEach((l, i) => {
+    if (y > 760) {
+      pdf.addPage();
+      y = 30;
+      header();
+    }
+    y += 14;
+    const cells: Record<(typeof COLUMNS)[number]["key"], string> = {
+      n: String(i + 1),
+      description: fit(l.description, 140, 8),
+      hsn: l.hsnCode ?? "-",
+      qty: String(l.quantity),
+      rate: money(l.unitPrice),
+      taxable: money(l.taxableValue),
+      gst: `${l.gstRate}%`,
+      cgst: money(l.cgst),
+      sgst: money(l.sgst),
+      igst: money(l.igst),
+      total: money(l.total),
+    };
+    for (const c of COLUMNS) pdf.text(c.x, y, cells[c.key], { size: 8, align: "right" in c ? "right" : "left" });
+  });
+  pdf.line(left, y + 6, right, y + 6);
+
+  if (y > 700) {
+    pdf.addPage();
+    y = 30;
+  }
+  y += 10;
+  const t = invoice.totals;
+  const totals: [string, number][] = [
+    ["Taxable value", t.taxableValue],
+    ["CGST", t.cgst],
+    ["SGST", t.sgst],
+    ["IGST", t.igst],
+  ];
+  for (const [label, value] of totals) {
+    pdf.text(400, (y += 13), label, { size: 9 });
+    pdf.text(right, y, money(value), { size: 9, align: "right" });
+  }
+  pdf.text(400, (y += 16), isCredit ? "Credit total (INR)" : "Invoice total (INR)", { size: 10, bold: true });
+  pdf.text(right, y, money(t.total), { size: 10, bold: true, align: "right" });
+
+  // how an order was settled; copay is the only part that went through the gateway
+  if (order && !isCredit) {
+    const copay = Number(order.metadata?.copayInr ?? 0);
+    pdf.text(left, (y += 24), `Paid online: INR ${money(copay)}. Balance settled with reward points.`, { size: 9 });
+  }
+  if (isCredit && original) {
+    pdf.text(left, (y += 24), `Issued on cancellation; reverses invoice ${original.number} in full.`, { size: 9 });
+  }
+  pdf.text(left, (y += 16), invoice.pricesIncludeTax ? "Prices are inclusive of GST." : "GST is charged on the listed prices.", {
+    size: 8,
+  });
+  pdf.text(left, 810, "This is a computer-generated document and needs no signature.", { size: 8 });
+
+  return pdf.toBuffer();
+}
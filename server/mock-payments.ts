@@ -0,0 +1,119 @@
+// server/mock-payments.ts
+// A stand-in gateway for local runs and tests: the "pay page" is served by
+// this app and lets you pick success, failure or pending; with
+// PAYMENT_MOCK_OUTCOME set the page is skipped and that outcome applies.
+// Attempts live in memory only. Refused outright in production.
+import crypto from "crypto";
+import {
+  PaymentError,
+  webhookHeader,
+  type PaymentProvider,
+  type GatewayStatus,
+  type PaymentVerification,
+} from "./payments";
+
+type MockAttempt = {
+  amountInr: number;
+  status: GatewayStatus;
+  gatewayPaymentId: string | null;
+  returnUrl: string;
+};
+
+const attempts = new Map<string, MockAttempt>();
+
+// no built-in default: anyone who knew it could post a "paid" event
+const webhookSecret = () => process.env.PAYMENT_MOCK_WEBHOOK_SECRET || null;
+
+const disabledError = () =>
+  process.env.NODE_ENV === "production" ? "The mock payment gateway is disabled in production" : null;
+
+export const MOCK_OUTCOMES = ["success", "failed", "pending"] as const satisfies readonly GatewayStatus[];
+
+const isOutcome = (v: unknown): v is GatewayStatus => MOCK_OUTCOMES.includes(v as GatewayStatus);
+
+function settle(attempt: MockAttempt, outcome: GatewayStatus) {
+  attempt.status = outcome;
+  attempt.gatewayPaymentId = outcome === "success" ? `MOCKPAY_${crypto.randomBytes(6).toString("hex")}` : null;
+}
+
+/** The attempt for the mock pay page, or undefined for an unknown reference. */
+export const getMockAttempt = (ref: string) => attempts.get(ref);
+
+/** Records the outcome picked on the mock pay page; returns where to send the browser. */
+export function completeMockPayment(ref: string, outcome: unknown) {
+  const attempt = attempts.get(ref);
+  if (!attempt) throw new PaymentError("Unknown mock payment", 404);
+  if (!isOutcome(outcome)) throw new PaymentError("Unknown outcome", 400);
+  settle(attempt, outcome);
+  return attempt.returnUrl;
+}
+
+/** HMAC the mock webhook is signed with (X-Mock-Signature), for tests posting events. */
+export function signMockWebhook(rawBody: string) {
+  const secret = webhookSecret();
+  if (!secret) throw new PaymentError("Mock webhooks need PAYMENT_MOCK_WEBHOOK_SECRET", 401);
+  return crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+export const mockPaymentProvider: PaymentProvider = {
+  id: "mock",
+
+  configError() {
+    return disabledError();
+  },
+
+  async createPayment(input) {
+    const attempt: MockAttempt = { amountInr: input.amountInr, status: "pending", gatewayPaymentId: null, returnUrl: input.returnUrl };
+    attempts.set(input.ref, attempt);
+
+    const preset = process.env.PAYMENT_MOCK_OUTCOME;
+    if (isOutcome(preset)) {
+      settle(attempt, preset);
+      return { checkout: { kind: "redirect", url: input.returnUrl }, gatewayRef: null };
+    }
+    // served by routes.ts on the API origin
+    const page = `${new URL(input.callbackUrl).origin}/api/payments/mock/${encodeURIComponent(input.ref)}`;
+    return { checkout: { kind: "redirect", url: page }, gatewayRef: null };
+  },
+
+  async verify(ref): Promise<PaymentVerification> {
+    const attempt = attempts.get(ref);
+    if (!attempt) return { status: "failed", amountInr: null, gatewayPaymentId: null, raw: null };
+    return {
+      status: attempt.status,
+      amountInr: attempt.status === "success" ? attempt.amountInr : null,
+      gatewayPaymentId: attempt.gatewayPaymentId,
+      raw: { ...attempt },
+    };
+  },
+
+  async refund(input) {
+    return { ok: true, refundTxnId: `MOCKRFD_${input.ref}_${Date.now()}` };
+  },
+
+  // body { ref, status, amountInr }, X-Mock-Signature = hex HMAC-SHA256 of the raw body
+  parseWebhook(req) {
+    const disabled = disabledError();
+    if (disabled) throw new PaymentError(disabled, 404);
+    const signature = webhookHeader(req, "x-mock-signature") ?? "";
+    const expected = signMockWebhook(req.rawBody);
+    if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new PaymentError("Webhook signature mismatch", 401);
+    }
+    let event: any;
+    try {
+      event = JSON.parse(req.rawBody);
+    } catch {
+      throw new PaymentError("Malformed webhook body", 400);
+    }
+    if (typeof event?.ref !== "string" || !isOutcome(event.status)) return null;
+    const attempt = attempts.get(event.ref);
+    if (attempt) settle(attempt, event.status);
+    return {
+      ref: event.ref,
+      status: event.status,
+      amountInr: typeof event.amountInr === "number" ? event.amountInr : null,
+      gatewayPaymentId: attempt?.gatewayPaymentId ?? null,
+    };
+  },
+};
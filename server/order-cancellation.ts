@@ -0,0 +1,45 @@
+// server/order-cancellation.ts
+// Cancelling an order: the database side is one transaction in storage;
+// the copay refund goes to the gateway afterwards and its outcome is
+// written back onto the order, then an invoiced order gets its credit note.
+import type { Order } from "@shared/schema";
+import { storage } from "./storage";
+import { orderPaymentRef } from "@shared/payments";
+import { paymentProvider } from "./payments";
+import { issueCreditNote } from "./invoices";
+
+export async function cancelOrderWithRefund(
+  orderId: string,
+  opts: { actorEmployeeId?: string | null; note?: string | null; byEmployee?: boolean }
+) {
+  const result = await storage.cancelOrder(orderId, opts);
+  const order = await refundCopay(result.order);
+  // invoiced (copay) orders get a credit note; like the refund, a failure doesn't undo the cancellation
+  await issueCreditNote(order).catch((e) => console.error(`Credit note for ${order.orderId} failed:`, e));
+  return { ...result, order };
+}
+
+/**
+ * Sends the order's copay share back through the gateway it was paid on. A
+ * failed refund leaves refundStatus "failed" with the error so an admin can retry it.
+ */
+export async function refundCopay(order: Order): Promise<Order> {
+  const c = order.metadata?.cancellation;
+  const payment = orderPaymentRef(order.metadata);
+  if (!c || c.copayRefundInr <= 0 || !payment || c.refundStatus === "initiated") return order;
+
+  const refund = await paymentProvider(payment.provider).refund({
+    ref: payment.ref,
+    gatewayPaymentId: order.metadata?.paymentId ?? null,
+    amountInr: c.copayRefundInr,
+    customerId: order.employeeId,
+  });
+  const updated = await storage.recordOrderRefund(
+    order.id,
+    refund.ok
+      ? { refundStatus: "initiated", refundTxnId: refund.refundTxnId, refundError: null }
+      : { refundStatus: "failed", refundTxnId: refund.refundTxnId, refundError: refund.error }
+  );
+  if (!refund.ok) console.error(`Copay refund failed for ${order.orderId}:`, refund.error);
+  return updated ?? order;
+}
@@ -0,0 +1,81 @@
+// server/order-emails.ts
+// Transactional emails for points/copay orders: confirmation, dispatch,
+// delivery and cancellation. Sent once the change is committed and never
+// awaited by the route; a failed send is logged and the order stands.
+// The wording lives in the order_* email templates.
+import type { Employee, Order } from "@shared/schema";
+import { ORDER_STATUS_LABEL, type OrderStatus } from "@shared/order-status";
+import { formatHandoverCode } from "@shared/handover";
+import { orderPointsSpent } from "@shared/payments";
+import type { OrderEmailCategory } from "@shared/notifications";
+import { storage } from "./storage";
+import { queueTemplatedEmail } from "./email-templates";
+
+const STATUS_EMAIL: Partial<Record<OrderStatus, OrderEmailCategory>> = {
+  shipped: "dispatch",
+  delivered: "delivery",
+  cancelled: "cancellation",
+};
+
+/** Emails the order's employee in the background unless they opted out of the category. */
+export function notifyOrder(order: Order, category: OrderEmailCategory) {
+  sendOrderEmail(order, category).catch((e) =>
+    console.error(`[email] ${category} email for ${order.orderId} failed:`, (e as any)?.message || e)
+  );
+}
+
+/** The email for the status the order just moved to, if that status has one. */
+export function notifyOrderStatus(order: Order) {
+  const category = order.status ? STATUS_EMAIL[order.status] : undefined;
+  if (category) notifyOrder(order, category);
+}
+
+async function sendOrderEmail(order: Order, category: OrderEmailCategory) {
+  const employee = await storage.getEmployee(order.employeeId);
+  if (!employee?.email || employee.emailOptOuts.includes(category)) return;
+
+  await queueTemplatedEmail(`order_${category}`, { to: employee.email }, await orderEmailData(order, employee));
+}
+
+/** The order_* template variables (see EMAIL_TEMPLATES for the list). */
+async function orderEmailData(order: Order, employee: Employee) {
+  const m = order.metadata ?? {};
+  const items = await storage.getOrderItems([order.id]);
+  const lines = [];
+  for (const item of items) {
+    const product = await storage.getProduct(item.productId);
+    // the points actually taken for the line, as in the total; usedPoints is its full price
+    const split = m.pointsSplit?.find((s) => s.orderItemId === item.id);
+    lines.push({
+      name: product?.name ?? "Product",
+      variant: [item.selectedSize && `Size ${item.selectedSize}`, item.selectedColor].filter(Boolean).join(", "),
+      quantity: item.quantity,
+      points: split ? split.points : item.usedPoints,
+    });
+  }
+  const [shipment] = order.status === "shipped" ? await storage.getShipments([order.id]) : [];
+
+  const office = m.deliveryMethod === "office";
+  return {
+    employee: { firstName: employee.firstName, lastName: employee.lastName, email: employee.email },
+    order: {
+      orderId: order.orderId,
+      status: ORDER_STATUS_LABEL[order.status ?? "confirmed"],
+      usedPoints: orderPointsSpent(m),
+      copayInr: m.copayInr ?? null,
+      deliveryLabel: office ? "Pickup" : "Deliver to",
+      deliveryAddress: m.deliveryAddress || (office ? "Office" : "-"),
+      pickupCode: order.handoverCode ? formatHandoverCode(order.handoverCode) : null,
+      collectedAtDesk: !!order.handedOverAt,
+      byEmployee: !!m.cancellation?.byEmployee,
+      pointsRefunded: m.cancellation?.pointsRefunded ?? 0,
+      copayRefundInr: m.cancellation?.copayRefundInr ?? 0,
+    },
+    shipment: shipment && {
+      courier: shipment.courier,
+      awb: shipment.awb,
+      expectedAt: shipment.expectedAt ? shipment.expectedAt.toLocaleDateString("en-IN") : null,
+    },
+    items: lines,
+  };
+}
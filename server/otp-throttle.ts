@@ -0,0 +1,193 @@
+// server/otp-throttle.ts
+// Brute-force protection for the email OTP login (storefront + admin panel).
+import type { Request } from "express";
+import type { Employee } from "@shared/schema";
+import { storage } from "./storage";
+import "dotenv/config";
+
+function envInt(name: string, fallback: number): number {
+  const n = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+export const OTP_LIMITS = {
+  // failed verifies before the account is locked
+  maxFailedAttempts: envInt("OTP_MAX_FAILED_ATTEMPTS", 5),
+  // how long an automatic lock lasts; 0 = until an admin unlocks it
+  lockMinutes: envInt("OTP_LOCK_MINUTES", 30),
+  // failed verifies from a single IP (any email) within the window
+  ipMaxFailures: envInt("OTP_IP_MAX_FAILURES", 20),
+  ipWindowMinutes: envInt("OTP_IP_WINDOW_MINUTES", 15),
+  // minimum gap between two codes for the same email
+  resendCooldownSec: envInt("OTP_RESEND_COOLDOWN_SEC", 60),
+  maxSendsPerHour: envInt("OTP_MAX_SENDS_PER_HOUR", 5),
+};
+
+const LOCKED_MESSAGE = "Too many unsuccessful attempts. Your account is locked, please contact the HR team.";
+const AUTO_LOCK_REASON = "Too many invalid OTP attempts";
+
+export type ThrottleResult =
+  | { ok: true }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+export function clientIp(req: Request): string | null {
+  return req.ip || req.socket?.remoteAddress || null;
+}
+
+function minutesAgo(min: number) {
+  return new Date(Date.now() - min * 60 * 1000);
+}
+
+function lockedBody(emp: Employee) {
+  return {
+    message: LOCKED_MESSAGE,
+    isLocked: true,
+    lockedUntil: emp.lockedUntil,
+  };
+}
+
+/**
+ * Re-opens accounts whose lock period has run out. Cheap when nothing is due,
+ * so it runs on every OTP request and when admins list employees.
+ */
+export async function releaseExpiredLocks(): Promise<void> {
+  try {
+    const released = await storage.releaseExpiredLocks();
+    for (const e of released) console.log(`[otp] auto-unlocked ${e.email}`);
+  } catch (e) {
+    console.error("[otp] release expired locks failed:", (e as any)?.message || e);
+  }
+}
+
+async function refreshLock(emp?: Employee | null): Promise<Employee | null> {
+  if (!emp?.isLocked) return emp ?? null;
+  await releaseExpiredLocks();
+  return (await storage.getEmployee(emp.id)) ?? null;
+}
+
+/**
+ * Cooldown + hourly resend cap for `email`, and refuses locked accounts.
+ */
+export async function checkOtpSend(email: string, emp?: Employee | null): Promise<ThrottleResult> {
+  const current = await refreshLock(emp);
+  if (current?.isLocked) return { ok: false, status: 423, body: lockedBody(current) };
+
+  const last = await storage.getLastAuthAttempt(email, "otp_send");
+  if (last?.createdAt) {
+    const elapsedSec = Math.floor((Date.now() - new Date(last.createdAt).getTime()) / 1000);
+    const wait = OTP_LIMITS.resendCooldownSec - elapsedSec;
+    if (wait > 0) {
+      return {
+        ok: false,
+        status: 429,
+        body: { message: `Please wait ${wait}s before requesting another code.`, retryAfterSec: wait },
+      };
+    }
+  }
+
+  const sentLastHour = await storage.countAuthAttempts({ kind: "otp_send", email, since: minutesAgo(60) });
+  if (sentLastHour >= OTP_LIMITS.maxSendsPerHour) {
+    return {
+      ok: false,
+      status: 429,
+      body: { message: "Too many codes requested. Please try again in an hour.", retryAfterSec: 3600 },
+    };
+  }
+
+  return { ok: true };
+}
+
+export async function recordOtpSend(email: string, ip: string | null): Promise<void> {
+  await storage.recordAuthAttempt({ email, ip, kind: "otp_send", success: true });
+}
+
+/**
+ * Per-IP and per-email gate in front of the code comparison. The attempt is
+ * recorded as failed before anything is counted, so parallel guesses count
+ * each other; recordOtpSuccess flips it once the code matches.
+ * Unknown emails (auto-create flow) have no employee row, so they are
+ * limited by their recent failures instead of the lock flag.
+ */
+export async function checkOtpVerify(
+  email: string,
+  ip: string | null,
+  emp?: Employee | null
+): Promise<ThrottleResult & { attemptId: string }> {
+  const attempt = await storage.recordAuthAttempt({ email, ip, kind: "otp_verify", success: false });
+  const attemptId = attempt.id;
+
+  if (ip) {
+    const ipFailures = await storage.countAuthAttempts({
+      kind: "otp_verify",
+      ip,
+      success: false,
+      since: minutesAgo(OTP_LIMITS.ipWindowMinutes),
+    });
+    if (ipFailures > OTP_LIMITS.ipMaxFailures) {
+      return {
+        ok: false,
+        status: 429,
+        body: { message: "Too many attempts from your network. Please try again later." },
+        attemptId,
+      };
+    }
+  }
+
+  const current = await refreshLock(emp);
+  if (current?.isLocked) return { ok: false, status: 423, body: lockedBody(current), attemptId };
+
+  if (!emp) {
+    const failures = await countEmailFailures(email);
+    if (failures > OTP_LIMITS.maxFailedAttempts) {
+      return { ok: false, status: 429, body: { message: LOCKED_MESSAGE, isLocked: true }, attemptId };
+    }
+  }
+
+  return { ok: true, attemptId };
+}
+
+function countEmailFailures(email: string) {
+  return storage.countAuthAttempts({
+    kind: "otp_verify",
+    email,
+    success: false,
+    since: minutesAgo(OTP_LIMITS.lockMinutes || OTP_LIMITS.ipWindowMinutes),
+  });
+}
+
+/**
+ * Counts a wrong code (the attempt itself was recorded by checkOtpVerify) and
+ * locks the account once the limit is reached. Returns the extra fields the
+ * login screens use for their warnings.
+ */
+export async function recordOtpFailure(
+  email: string,
+  ip: string | null,
+  emp?: Employee | null
+): Promise<{ remainingAttempts: number; isLocked: boolean }> {
+  if (!emp) {
+    const remainingAttempts = Math.max(0, OTP_LIMITS.maxFailedAttempts - (await countEmailFailures(email)));
+    return { remainingAttempts, isLocked: remainingAttempts === 0 };
+  }
+
+  const until = OTP_LIMITS.lockMinutes > 0 ? new Date(Date.now() + OTP_LIMITS.lockMinutes * 60 * 1000) : null;
+  const result = await storage.recordLoginFailure(emp.id, {
+    lockAfter: OTP_LIMITS.maxFailedAttempts,
+    reason: AUTO_LOCK_REASON,
+    until,
+    ip,
+  });
+  if (!result) return { remainingAttempts: 0, isLocked: false };
+
+  const attempts = result.employee.loginAttempts ?? 0;
+  if (result.locked) console.warn(`[otp] locked ${email} after ${attempts} failed attempts`);
+  if (result.employee.isLocked) return { remainingAttempts: 0, isLocked: true };
+  return { remainingAttempts: Math.max(0, OTP_LIMITS.maxFailedAttempts - attempts), isLocked: false };
+}
+
+export async function recordOtpSuccess(attemptId: string, emp?: Employee | null): Promise<void> {
+  await storage.markAuthAttemptSucceeded(attemptId);
+  if (emp && (emp.loginAttempts ?? 0) > 0) {
+    await storage.updateEmployee(emp.id, { loginAttempts: 0 });
+  }
+}
@@ -0,0 +1,92 @@
+// server/payments.ts
+// The gateway layer behind copay checkout. Routes talk to a PaymentProvider
+// and never to a gateway directly; branding.paymentProvider picks which one.
+import type { PaymentCheckout, PaymentProviderId } from "@shared/payments";
+import { storage } from "./storage";
+import { phonePeProvider } from "./phonepe";
+import { razorpayProvider } from "./razorpay";
+import { mockPaymentProvider } from "./mock-payments";
+
+export class PaymentError extends Error {
+  constructor(message: string, public status = 502) {
+    super(message);
+  }
+}
+
+export type GatewayStatus = "success" | "pending" | "failed";
+
+export type CreatePaymentInput = {
+  ref: string; // our merchant transaction id, unique per attempt
+  amountInr: number;
+  customer: { id: string; name: string; email: string; phone?: string | null };
+  description: string;
+  returnUrl: string; // the cart page the employee comes back to
+  callbackUrl: string; // server endpoint for gateways that call back (PhonePe)
+};
+
+export type CreatedPayment = {
+  checkout: PaymentCheckout;
+  gatewayRef: string | null; // the gateway's own id for the attempt, when it issues one up front (Razorpay order)
+};
+
+export type PaymentVerification = {
+  status: GatewayStatus;
+  amountInr: number | null; // what the gateway says was paid
+  gatewayPaymentId: string | null;
+  raw: unknown;
+};
+
+export type RefundInput = {
+  ref: string;
+  gatewayPaymentId: string | null;
+  amountInr: number;
+  customerId: string;
+};
+
+/** ok means the gateway accepted the refund; most settle it asynchronously. */
+export type RefundResult =
+  | { ok: true; refundTxnId: string }
+  | { ok: false; refundTxnId: string | null; error: string };
+
+export type PaymentWebhookEvent = {
+  ref: string;
+  status: GatewayStatus;
+  amountInr: number | null;
+  gatewayPaymentId: string | null;
+};
+
+export type WebhookRequest = {
+  headers: Record<string, string | string[] | undefined>;
+  rawBody: string;
+};
+
+export interface PaymentProvider {
+  id: PaymentProviderId;
+  /** Null when ready; otherwise what is missing, for the checkout error. */
+  configError(): string | null;
+  createPayment(input: CreatePaymentInput): Promise<CreatedPayment>;
+  /** Asks the gateway how the attempt ended. `gatewayRef` as returned by createPayment. */
+  verify(ref: string, gatewayRef?: string | null): Promise<PaymentVerification>;
+  refund(input: RefundInput): Promise<RefundResult>;
+  /** Checks the signature and reads the event; PaymentError(401) when it doesn't verify, null for events we ignore. */
+  parseWebhook(req: WebhookRequest): PaymentWebhookEvent | null;
+}
+
+const PROVIDERS: Record<PaymentProviderId, PaymentProvider> = {
+  phonepe: phonePeProvider,
+  razorpay: razorpayProvider,
+  mock: mockPaymentProvider,
+};
+
+export const paymentProvider = (id: PaymentProviderId) => PROVIDERS[id];
+
+/** The gateway chosen in branding, for new payments. Refunds and checks use the one the payment went through. */
+export async function activePaymentProvider() {
+  const branding = await storage.getBranding();
+  return PROVIDERS[branding?.paymentProvider ?? "phonepe"];
+}
+
+export function webhookHeader(req: WebhookRequest, name: string) {
+  const v = req.headers[name.toLowerCase()];
+  return Array.isArray(v) ? v[0] : v;
+}
@@ -0,0 +1,93 @@
+// server/pdf.ts
+// Just enough PDF for text-and-rule documents (invoices): A4 pages, the
+// built-in Helvetica faces, lines. Coordinates are points from the top-left.
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+
+// Helvetica advance widths (per 1000 em) for the characters that get right-aligned;
+// everything else uses an average, which is close enough for left-aligned prose.
+const WIDTHS: Record<string, number> = {
+  "0": 556, "1": 556, "2": 556, "3": 556, "4": 556, "5": 556, "6": 556, "7": 556, "8": 556, "9": 556,
+  ".": 278, ",": 278, "-": 333, " ": 278, "%": 889, "R": 722, "s": 500,
+};
+
+type TextOptions = { size?: number; bold?: boolean; align?: "left" | "right" };
+
+// The standard fonts only cover WinAnsi; swap the rupee sign and drop anything else
+function toWinAnsi(text: string) {
+  return text.replace(/₹/g, "Rs.").replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+function escapeText(text: string) {
+  return text.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+}
+
+export function textWidth(text: string, size = 10) {
+  const units = Array.from(toWinAnsi(text)).reduce((sum, ch) => sum + (WIDTHS[ch] ?? 520), 0);
+  return (units * size) / 1000;
+}
+
+export class PdfDocument {
+  readonly width = PAGE_WIDTH;
+  readonly height = PAGE_HEIGHT;
+  private pages: string[][] = [[]];
+
+  private get current() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, value: string, opts: TextOptions = {}) {
+    const size = opts.size ?? 10;
+    const left = opts.align === "right" ? x - textWidth(value, size) : x;
+    const font = opts.bold ? "F2" : "F1";
+    this.current.push(
+      `BT /${font} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapeText(toWinAnsi(value))}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+    this.current.push(
+      `${width} w ${x1.toFixed(2)} ${(PAGE_HEIGHT - y1).toFixed(2)} m ${x2.toFixed(2)} ${(PAGE_HEIGHT - y2).toFixed(2)} l S`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body); // object number = index + 1
+
+    add("<< /Type /Catalog /Pages 2 0 R >>");
+    add(""); // pages tree, filled in once the page objects are numbered
+    add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+    const pageRefs: string[] = [];
+    for (const ops of this.pages) {
+      const content = ops.join("\n");
+      add(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+      const contentRef = objects.length;
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R >>`
+      );
+      pageRefs.push(`${objects.length} 0 R`);
+    }
+    objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pageRefs.length} >>`;
+
+    let out = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(Buffer.byteLength(out, "latin1"));
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xrefAt = Buffer.byteLength(out, "latin1");
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+    return Buffer.from(out, "latin1");
+  }
+}
@@ -0,0 +1,173 @@
+// server/phonepe.ts
+// PhonePe PG (pay page, status check, refund, S2S callback), signed with the
+// salt key as PhonePe's X-VERIFY: sha256(payload + endpoint + salt) + "###" + index.
+import crypto from "crypto";
+import "dotenv/config";
+import {
+  PaymentError,
+  webhookHeader,
+  type PaymentProvider,
+  type GatewayStatus,
+  type PaymentVerification,
+} from "./payments";
+
+function phonePeConfig() {
+  const merchantId = process.env.PHONEPE_MERCHANT_ID;
+  const saltKey = process.env.PHONEPE_SALT_KEY;
+  if (!merchantId || !saltKey) return null;
+  return {
+    merchantId,
+    saltKey,
+    saltIndex: process.env.PHONEPE_SALT_INDEX || "1",
+    apiUrl: process.env.PHONEPE_API_URL || "https://api-preprod.phonepe.com/apis/pg-sandbox",
+  };
+}
+
+function requireConfig() {
+  const cfg = phonePeConfig();
+  if (!cfg) throw new PaymentError("PhonePe not configured. Missing PHONEPE_MERCHANT_ID / PHONEPE_SALT_KEY", 500);
+  return cfg;
+}
+
+const xVerify = (data: string, cfg: { saltKey: string; saltIndex: string }) =>
+  `${crypto.createHash("sha256").update(data + cfg.saltKey).digest("hex")}###${cfg.saltIndex}`;
+
+function statusOf(code: string | undefined): GatewayStatus {
+  if (code === "PAYMENT_SUCCESS") return "success";
+  // PhonePe's advice for these is to check again later
+  if (code === "PAYMENT_PENDING" || code === "INTERNAL_SERVER_ERROR") return "pending";
+  return "failed";
+}
+
+export const phonePeProvider: PaymentProvider = {
+  id: "phonepe",
+
+  configError() {
+    return phonePeConfig() ? null : "PhonePe not configured. Missing PHONEPE_MERCHANT_ID / PHONEPE_SALT_KEY";
+  },
+
+  async createPayment(input) {
+    const cfg = requireConfig();
+    const payload = {
+      merchantId: cfg.merchantId,
+      merchantTransactionId: input.ref,
+      merchantUserId: input.customer.id,
+      amount: Math.round(input.amountInr * 100),
+      redirectUrl: input.returnUrl,
+      redirectMode: "REDIRECT",
+      callbackUrl: input.callbackUrl,
+      mobileNumber: input.customer.phone?.replace(/^\+91/, ""),
+      paymentInstrument: { type: "PAY_PAGE" },
+    };
+
+    const base64Payload = Buffer.from(JSON.stringify(payload)).toString("base64");
+    const endpoint = "/pg/v1/pay";
+    const response = await fetch(`${cfg.apiUrl}${endpoint}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-VERIFY": xVerify(base64Payload + endpoint, cfg) },
+      body: JSON.stringify({ request: base64Payload }),
+    });
+    const result: any = await response.json().catch(() => null);
+    if (!response.ok || !result?.success) {
+      throw new PaymentError(`Failed to initiate PhonePe payment: ${result?.message || result?.code || `HTTP ${response.status}`}`);
+    }
+
+    const url =
+      result?.data?.instrumentResponse?.redirectInfo?.url ||
+      result?.data?.instrumentResponse?.redirectInfo?.redirectUrl;
+    if (!url) throw new PaymentError("PhonePe redirect URL missing");
+    return { checkout: { kind: "redirect", url }, gatewayRef: null };
+  },
+
+  async verify(ref): Promise<PaymentVerification> {
+    const cfg = requireConfig();
+    const endpoint = `/pg/v1/status/${cfg.merchantId}/${ref}`;
+    const response = await fetch(`${cfg.apiUrl}${endpoint}`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        "X-VERIFY": xVerify(endpoint, cfg),
+        "X-MERCHANT-ID": cfg.merchantId,
+      },
+    });
+    const result: any = await response.json().catch(() => null);
+    if (!result) throw new PaymentError(`PhonePe status check failed: HTTP ${response.status}`);
+
+    return {
+      status: response.ok ? statusOf(result.code) : "failed",
+      amountInr: typeof result.data?.amount === "number" ? result.data.amount / 100 : null,
+      gatewayPaymentId: result.data?.transactionId ?? null,
+      raw: result,
+    };
+  },
+
+  /**
+   * Asks PhonePe to refund part or all of an earlier payment. PhonePe settles
+   * refunds asynchronously, so ok means "accepted", not "money returned".
+   */
+  async refund(input) {
+    const cfg = phonePeConfig();
+    if (!cfg) return { ok: false, refundTxnId: null, error: "PhonePe not configured" };
+
+    const refundTxnId = `RFD_${Date.now()}_${crypto.randomBytes(4).toString("hex")}`;
+    const payload = {
+      merchantId: cfg.merchantId,
+      merchantUserId: input.customerId,
+      originalTransactionId: input.ref,
+      merchantTransactionId: refundTxnId,
+      amount: Math.round(input.amountInr * 100),
+    };
+
+    const base64Payload = Buffer.from(JSON.stringify(payload)).toString("base64");
+    const endpoint = "/pg/v1/refund";
+    try {
+      const response = await fetch(`${cfg.apiUrl}${endpoint}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-VERIFY": xVerify(base64Payload + endpoint, cfg) },
+        body: JSON.stringify({ request: base64Payload }),
+      });
+      const result: any = await response.json().catch(() => null);
+      if (!response.ok || !result?.success) {
+        return { ok: false, refundTxnId, error: result?.message || result?.code || `HTTP ${response.status}` };
+      }
+      return { ok: true, refundTxnId };
+    } catch (e: any) {
+      return { ok: false, refundTxnId, error: e?.message || "Refund request failed" };
+    }
+  },
+
+  // S2S callback: { response: base64(json) } with X-VERIFY over the base64 string
+  parseWebhook(req) {
+    const cfg = requireConfig();
+    let body: any;
+    try {
+      body = JSON.parse(req.rawBody);
+    } catch {
+      throw new PaymentError("Malformed callback body", 400);
+    }
+    const encoded = typeof body?.response === "string" ? body.response : null;
+    const signature = webhookHeader(req, "x-verify");
+    if (!encoded || !signature) throw new PaymentError("Unsigned callback", 401);
+
+    const expected = Buffer.from(xVerify(encoded, cfg));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+      throw new PaymentError("Callback signature mismatch", 401);
+    }
+
+    let decoded: any;
+    try {
+      decoded = JSON.parse(Buffer.from(encoded, "base64").toString("utf8"));
+    } catch {
+      throw new PaymentError("Malformed callback body", 400);
+    }
+    const ref = decoded?.data?.merchantTransactionId;
+    if (!ref) return null;
+    return {
+      ref,
+      status: statusOf(decoded.code),
+      amountInr: typeof decoded.data.amount === "number" ? decoded.data.amount / 100 : null,
+      gatewayPaymentId: decoded.data.transactionId ?? null,
+    };
+  },
+};
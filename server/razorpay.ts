@@ -0,0 +1,147 @@
+// server/razorpay.ts
+// Razorpay Standard Checkout: we create an order (receipt = our reference),
+// the cart opens checkout.js on it, and payments are auto-captured.
+import crypto from "crypto";
+import Razorpay from "razorpay";
+import "dotenv/config";
+import {
+  PaymentError,
+  webhookHeader,
+  type PaymentProvider,
+  type GatewayStatus,
+  type PaymentVerification,
+} from "./payments";
+
+function razorpayConfig() {
+  const keyId = process.env.RAZORPAY_KEY_ID;
+  const keySecret = process.env.RAZORPAY_KEY_SECRET;
+  if (!keyId || !keySecret) return null;
+  return { keyId, keySecret, webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET || null };
+}
+
+let client: { keyId: string; api: Razorpay } | null = null;
+
+function razorpayClient() {
+  const cfg = razorpayConfig();
+  if (!cfg) throw new PaymentError("Razorpay not configured. Missing RAZORPAY_KEY_ID / RAZORPAY_KEY_SECRET", 500);
+  if (client?.keyId !== cfg.keyId) {
+    client = { keyId: cfg.keyId, api: new Razorpay({ key_id: cfg.keyId, key_secret: cfg.keySecret }) };
+  }
+  return client.api;
+}
+
+// the SDK rejects with { statusCode, error: { description } }
+const razorpayMessage = (e: any) => e?.error?.description || e?.message || "Razorpay request failed";
+
+async function findOrder(api: Razorpay, ref: string, gatewayRef?: string | null) {
+  if (gatewayRef) {
+    const order = await api.orders.fetch(gatewayRef);
+    return order.receipt === ref ? order : null;
+  }
+  const { items } = await api.orders.all({ receipt: ref });
+  return items[0] ?? null;
+}
+
+export const razorpayProvider: PaymentProvider = {
+  id: "razorpay",
+
+  configError() {
+    return razorpayConfig() ? null : "Razorpay not configured. Missing RAZORPAY_KEY_ID / RAZORPAY_KEY_SECRET";
+  },
+
+  async createPayment(input) {
+    const api = razorpayClient();
+    const amountPaise = Math.round(input.amountInr * 100);
+    try {
+      const order = await api.orders.create({
+        amount: amountPaise,
+        currency: "INR",
+        receipt: input.ref,
+        notes: { employeeId: input.customer.id },
+      });
+      return {
+        checkout: {
+          kind: "razorpay",
+          keyId: razorpayConfig()!.keyId,
+          orderId: order.id,
+          amountPaise,
+          currency: "INR",
+          name: input.description,
+          prefill: {
+            name: input.customer.name,
+            email: input.customer.email,
+            contact: input.customer.phone ?? undefined,
+          },
+        },
+        gatewayRef: order.id,
+      };
+    } catch (e) {
+      throw new PaymentError(`Failed to create Razorpay order: ${razorpayMessage(e)}`);
+    }
+  },
+
+  async verify(ref, gatewayRef): Promise<PaymentVerification> {
+    const api = razorpayClient();
+    try {
+      const order = await findOrder(api, ref, gatewayRef);
+      if (!order) return { status: "failed", amountInr: null, gatewayPaymentId: null, raw: null };
+
+      const { items: payments } = await api.orders.fetchPayments(order.id);
+      const captured = payments.find((p) => p.status === "captured");
+      // authorized = captured shortly; created = the employee is still on the checkout
+      const inFlight = payments.some((p) => p.status === "authorized" || p.status === "created");
+      const status: GatewayStatus = captured ? "success" : inFlight || !payments.length ? "pending" : "failed";
+      return {
+        status,
+        amountInr: captured ? Number(captured.amount) / 100 : null,
+        gatewayPaymentId: captured?.id ?? null,
+        raw: { order, payments },
+      };
+    } catch (e) {
+      throw new PaymentError(`Razorpay status check failed: ${razorpayMessage(e)}`);
+    }
+  },
+
+  async refund(input) {
+    if (!input.gatewayPaymentId) return { ok: false, refundTxnId: null, error: "No Razorpay payment id on the order" };
+    const refundTxnId = `RFD_${Date.now()}_${crypto.randomBytes(4).toString("hex")}`;
+    try {
+      const api = razorpayClient();
+      const refund = await api.payments.refund(input.gatewayPaymentId, {
+        amount: Math.round(input.amountInr * 100),
+        receipt: refundTxnId,
+      });
+      return { ok: true, refundTxnId: refund.id ?? refundTxnId };
+    } catch (e) {
+      return { ok: false, refundTxnId, error: razorpayMessage(e) };
+    }
+  },
+
+  // X-Razorpay-Signature is an HMAC-SHA256 of the raw body with the webhook secret.
+  // Only order.paid carries our receipt; a failed payment can still be retried on the same order.
+  parseWebhook(req) {
+    const secret = razorpayConfig()?.webhookSecret;
+    if (!secret) throw new PaymentError("Razorpay webhook secret not configured (RAZORPAY_WEBHOOK_SECRET)", 500);
+    const signature = webhookHeader(req, "x-razorpay-signature");
+    if (!signature || !Razorpay.validateWebhookSignature(req.rawBody, signature, secret)) {
+      throw new PaymentError("Webhook signature mismatch", 401);
+    }
+
+    let event: any;
+    try {
+      event = JSON.parse(req.rawBody);
+    } catch {
+      throw new PaymentError("Malformed webhook body", 400);
+    }
+    if (event?.event !== "order.paid") return null;
+    const order = event.payload?.order?.entity;
+    const payment = event.payload?.payment?.entity;
+    if (!order?.receipt) return null;
+    return {
+      ref: order.receipt,
+      status: "success",
+      amountInr: typeof payment?.amount === "number" ? payment.amount / 100 : null,
+      gatewayPaymentId: payment?.id ?? null,
+    };
+  },
+};
@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import path from "node:path";
 import fs from "node:fs";
 import multer from "multer";
@@ -8,8 +8,18 @@ import {
   insertCartItemSchema,
   insertCategorySchema,
   insertDomainWhitelistSchema,
+  insertOfficeLocationSchema,
   type Product,
+  type CartItem,
+  type Employee,
+  type Order,
+  type OrderItem,
   type Category,
+  type Shipment,
+  type ShipmentEvent,
+  type Invoice,
+  type EmployeeAddress,
+  type BulkBuyRequest,
   insertCampaignSchema,
   insertCampaignProductSchema,
   type Campaign,
@@ -18,11 +28,70 @@ import {
   insertCampaignWhitelistSchema,
 } from "@shared/schema";
 import { employeeRoleSchema } from "@shared/schema"; // <-- add this export in shared/schema.ts as shown earlier
-import { storage } from "./storage";
-import { sendOTP, verifyOTP, lookupByEmail } from "./auth-otp";
+import type { AdminPermission } from "@shared/permissions";
+import {
+  canSelfCancelOrder,
+  canTransitionOrder,
+  isOrderStatus,
+  ORDER_STATUSES,
+  type OrderStatus,
+} from "@shared/order-status";
+import {
+  storage,
+  CheckoutError,
+  OrderTransitionError,
+  ReturnRequestError,
+  ShipmentError,
+  AddressError,
+  OfficeLocationError,
+  type AddressInput,
+  type OrderLine,
+} from "./storage";
+import { isReturnRequestType, MAX_RETURN_PHOTOS, RETURN_REQUEST_STATUSES, type ReturnRequestStatus } from "@shared/returns";
+import { sendOTP, verifyOTP, lookupByEmail, sendAdminOTP, verifyAdminOTP } from "./auth-otp";
+import {
+  requireAdminAccess,
+  requirePermission,
+  hasPermission,
+  getAdminContext,
+  getBearerToken,
+  resolveSessionEmployee,
+} from "./admin-auth";
+import { SESSION_LIMITS, trackSessionActivity, toDeviceView } from "./sessions";
+import { recordAudit } from "./audit";
+import { cancelOrderWithRefund, refundCopay } from "./order-cancellation";
+import { notifyOrder, notifyOrderStatus } from "./order-emails";
+import { invoiceFileName, issueBulkBuyInvoice, issueOrderInvoice, renderInvoicePdf } from "./invoices";
+import { GST_STATES, gstStateFromAddress, gstStateName } from "@shared/gst";
+import { ADDRESS_PHONE_PATTERN, formatAddress, type AddressSnapshot } from "@shared/addresses";
+import { lookupPincode } from "@shared/pincodes";
+import { HANDOVER_READY_STATUSES, isHandoverCode, normalizeHandoverCode } from "@shared/handover";
+import {
+  cartLinePoints,
+  isPaymentProviderId,
+  isPaymentStatus,
+  paymentCheckoutKey,
+  splitCheckout,
+  unitPriceForQty,
+  type CheckoutSplit,
+} from "@shared/payments";
+import { isEmailOutboxStatus, isOrderEmailCategory, ORDER_EMAIL_CATEGORIES } from "@shared/notifications";
+import {
+  EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_KEYS,
+  isEmailTemplateKey,
+  templateSyntaxError,
+  type EmailTemplateContent,
+} from "@shared/email-templates";
+import { releaseExpiredLocks } from "./otp-throttle";
 import crypto from "crypto";
 import "dotenv/config";
-import { emailService } from "./email-service"; // ✅ ADD THIS
+import { appBaseUrl, queueTemplatedEmail, renderTemplatedEmail, staffRecipients } from "./email-templates";
+import { activePaymentProvider, paymentProvider, PaymentError, type CreatedPayment } from "./payments";
+import { checkPayment, paymentFailureReason, retryPaymentRefund, settlePayment, startPaymentReconciler } from "./copay";
+import { completeMockPayment, getMockAttempt, MOCK_OUTCOMES } from "./mock-payments";
+import { emailService } from "./email-service";
+import { kickEmailOutbox, startEmailOutbox } from "./email-outbox";
 
 const UPLOAD_DIR = path.join(process.cwd(), "uploads");
 if (!fs.existsSync(UPLOAD_DIR)) {
@@ -114,29 +183,384 @@ function normalizePriceSlabs(input: any): PriceSlabRange[] {
   return cleaned;
 }
 
-function getUnitPriceForQty(product: any, qty: number): number {
-  const base = Number(product?.price ?? 0);
-  const slabs = Array.isArray(product?.priceSlabs) ? product.priceSlabs : [];
+type PricedCartLine = { item: CartItem; product: Product; unitPrice: number; usedPoints: number };
 
-  if (!slabs.length) return base;
+// Slab-aware points price of every cart line. Stock is only pre-checked here;
+// storage.placeOrders re-checks it under lock.
+async function priceCart(
+  items: CartItem[],
+  inrPerPoint: number
+): Promise<{ lines: PricedCartLine[]; totalPointsRequired: number } | { unavailable: string }> {
+  const lines: PricedCartLine[] = [];
+  let totalPointsRequired = 0;
 
-  const match = slabs.find((s: any) => {
-    const min = Number(s?.minQty);
-    const max =
-      s?.maxQty === null || s?.maxQty === undefined
-        ? Number.POSITIVE_INFINITY
-        : Number(s?.maxQty);
-    return Number.isFinite(min) && qty >= min && qty <= max;
-  });
+  for (const item of items) {
+    const product = await storage.getProduct(item.productId);
+    if (!product || (product.stock || 0) < item.quantity) {
+      return { unavailable: product?.name || item.productId };
+    }
+
+    const unitPrice = unitPriceForQty(product, item.quantity);
+    const usedPoints = cartLinePoints(product, item.quantity, inrPerPoint);
+    lines.push({ item, product, unitPrice, usedPoints });
+    totalPointsRequired += usedPoints;
+  }
+
+  return { lines, totalPointsRequired };
+}
+
+function toOrderLines(lines: PricedCartLine[], split: CheckoutSplit): OrderLine[] {
+  return lines.map(({ item, unitPrice, usedPoints }, i) => ({
+    productId: item.productId,
+    quantity: item.quantity,
+    selectedColor: item.selectedColor,
+    selectedSize: item.selectedSize,
+    campaignId: item.campaignId,
+    unitPrice,
+    usedPoints,
+    split: split.lines[i],
+  }));
+}
+
+/**
+ * How many points the employee spends on this checkout: body.pointsToUse, or
+ * the whole balance when it's left out. The rest is copay.
+ */
+function checkoutSplit(priced: PricedCartLine[], body: any, balance: number, inrPerPoint: number) {
+  const wanted = body?.pointsToUse ?? balance;
+  if (!Number.isInteger(wanted) || wanted < 0) throw new CheckoutError("pointsToUse must be a whole number of points");
+  if (wanted > balance) throw new CheckoutError("Insufficient points");
+  return splitCheckout(priced.map((l) => l.usedPoints), wanted, inrPerPoint);
+}
+
+function cartTotalInr(lines: PricedCartLine[]) {
+  return Number(lines.reduce((sum, l) => sum + l.unitPrice * l.item.quantity, 0).toFixed(2));
+}
+
+// The pincode must be one India Post lists. An entered state must be one the pincode serves
+// and is kept as given, since a few border pincodes span two states; otherwise the pincode's
+// state is used. The district only fills in for the city when that's left blank.
+function readAddressInput(body: any): AddressInput {
+  const line1 = String(body?.line1 ?? "").trim().slice(0, 200);
+  if (!line1) throw new AddressError("Address line 1 is required");
+
+  const pin = lookupPincode(body?.pincode);
+  if (!pin) throw new AddressError("Enter a valid 6-digit Indian pincode");
+
+  const enteredState = String(body?.state ?? "").trim();
+  const stateCode = enteredState ? gstStateFromAddress(enteredState) : pin.stateCode;
+  if (!stateCode || !pin.stateCodes.includes(stateCode)) {
+    const served = pin.stateCodes.map(gstStateName).join(" or ");
+    throw new AddressError(`Pincode ${pin.pincode} is in ${served}, not ${enteredState}`);
+  }
+
+  const city = String(body?.city ?? "").trim().slice(0, 100) || pin.district;
+
+  const phone = String(body?.phone ?? "").replace(/[\s-]/g, "").replace(/^(\+91|0)/, "");
+  if (!ADDRESS_PHONE_PATTERN.test(phone)) throw new AddressError("Enter a valid 10-digit mobile number");
+
+  return {
+    label: String(body?.label ?? "").trim().slice(0, 40) || "Home",
+    line1,
+    line2: String(body?.line2 ?? "").trim().slice(0, 200) || null,
+    city,
+    state: gstStateName(stateCode),
+    pincode: pin.pincode,
+    phone,
+    isDefault: body?.isDefault === true,
+  };
+}
+
+function addressSnapshot(a: EmployeeAddress): AddressSnapshot {
+  return {
+    addressId: a.id,
+    label: a.label,
+    line1: a.line1,
+    line2: a.line2,
+    city: a.city,
+    state: a.state,
+    pincode: a.pincode,
+    phone: a.phone,
+  };
+}
+
+/**
+ * Delivery checkouts name one of the employee's saved addresses (addressId);
+ * the order keeps a copy, so later address book edits don't move it. Office
+ * pickups name an active office location (officeLocationId) once any exist;
+ * its capacity is checked when the order is placed.
+ */
+async function resolveDelivery(employeeId: string, body: any) {
+  if (body?.deliveryMethod !== "delivery") {
+    const officeLocationId = String(body?.officeLocationId ?? "");
+    const active = (await storage.getOfficeLocations()).filter((l) => l.isActive);
+    const office = active.find((l) => l.id === officeLocationId);
+    if (active.length > 0 && !office) throw new CheckoutError("Choose a pickup location");
+    // early answer for copay checkouts, before the employee pays; placeOrders has the binding check
+    if (office?.capacity != null && ((await storage.getOpenPickupCounts()).get(office.id) ?? 0) >= office.capacity) {
+      throw new CheckoutError(`${office.name} has no pickup slots left; choose another location`, 409);
+    }
+    return {
+      metadata: { deliveryMethod: "office" as const, deliveryAddress: office?.name ?? null, deliveryAddressSnapshot: null },
+      officeLocationId: office?.id ?? null,
+    };
+  }
+  const addressId = String(body?.addressId ?? "");
+  const address = addressId ? await storage.getAddress(employeeId, addressId) : undefined;
+  if (!address) throw new CheckoutError("Choose a delivery address");
+
+  const snapshot = addressSnapshot(address);
+  return {
+    metadata: { deliveryMethod: "delivery" as const, deliveryAddress: formatAddress(snapshot), deliveryAddressSnapshot: snapshot },
+    officeLocationId: null,
+  };
+}
+
+// Each order's items with their product, keyed by order id
+async function loadOrderItems(orders: Order[], categoryMap?: CategoryMap) {
+  const items = await storage.getOrderItems(orders.map((o) => o.id));
+  const products = new Map<string, Product | null>();
+  for (const productId of Array.from(new Set(items.map((i) => i.productId)))) {
+    products.set(productId, (await storage.getProduct(productId)) ?? null);
+  }
+
+  const byOrder = new Map<string, Array<OrderItem & { product: Product | null }>>();
+  for (const item of items) {
+    const product = products.get(item.productId) ?? null;
+    const list = byOrder.get(item.orderId) ?? [];
+    list.push({ ...item, product: product && categoryMap ? attachCategoriesToProduct(product, categoryMap) : product });
+    byOrder.set(item.orderId, list);
+  }
+  return byOrder;
+}
+
+// Checkout responses pair each order with its items
+async function withItems(orders: Order[]) {
+  const items = await loadOrderItems(orders);
+  return orders.map((order) => ({ order, items: items.get(order.id) ?? [] }));
+}
+
+// Answers with the orders already placed under `key`. Returns false when the key is new.
+async function replayCheckout(key: string, employee: Employee, res: Response): Promise<boolean> {
+  const seen = await storage.getCheckoutKey(key);
+  if (!seen) return false;
+  if (seen.employeeId !== employee.id) {
+    res.status(409).json({ message: "This checkout has already been used" });
+    return true;
+  }
+
+  const orders = await withItems(await storage.getOrdersByIds(seen.orderIds));
+  res.json({ orders, employee, replayed: true });
+  return true;
+}
+
+// A gateway's signed notification about one of our payments. Unknown references and
+// events we don't act on are acknowledged so the gateway stops resending them;
+// a 5xx makes it retry later.
+async function handlePaymentWebhook(providerId: string, req: Request, res: Response) {
+  try {
+    if (!isPaymentProviderId(providerId)) return res.status(404).json({ message: "Unknown payment gateway" });
+    const provider = paymentProvider(providerId);
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    if (!rawBody) return res.status(400).json({ message: "Expected a JSON body" });
+
+    const event = provider.parseWebhook({ headers: req.headers, rawBody: rawBody.toString("utf8") });
+    if (!event) return res.json({ received: true });
+
+    const payment = await storage.getPaymentByRef(event.ref);
+    if (!payment || payment.provider !== provider.id) {
+      console.warn(`[payments] ${provider.id} webhook for unknown payment ${event.ref}`);
+      return res.json({ received: true });
+    }
+
+    // without an amount we can't match it to the cart, so ask the gateway instead
+    const { payment: settled } =
+      event.status === "success" && event.amountInr == null
+        ? await checkPayment(payment)
+        : await settlePayment(payment, { ...event, raw: req.body });
+    res.json({ received: true, status: settled.status });
+  } catch (error: any) {
+    if (error instanceof PaymentError) return res.status(error.status).json({ message: error.message });
+    console.error("Payment webhook error:", error);
+    res.status(500).json({ message: "Error handling payment webhook" });
+  }
+}
+
+// Admin status change; cancelling also restocks and refunds. Audited either way.
+async function moveOrder(
+  req: Request,
+  res: Response,
+  id: string,
+  change: { status: OrderStatus; actorEmployeeId: string; note: string | null }
+) {
+  if (change.status === "cancelled") {
+    const { before, order } = await cancelOrderWithRefund(id, change);
+    await recordAudit(req, res, { action: "order.cancel", entityType: "order", entityId: id, before, after: order });
+    notifyOrderStatus(order);
+    return order;
+  }
+  const { before, order } = await storage.changeOrderStatus(id, change);
+  await recordAudit(req, res, { action: "order.status", entityType: "order", entityId: id, before, after: order });
+  notifyOrderStatus(order);
+  return order;
+}
+
+// What the distribution desk sees for a scanned code: who collects, what, where, and whether it already went out
+async function handoverDeskView(order: Order) {
+  const employee = await storage.getEmployee(order.employeeId);
+  const items = (await loadOrderItems([order])).get(order.id) ?? [];
+  const location = order.officeLocationId ? await storage.getOfficeLocation(order.officeLocationId) : undefined;
+  const handedOverBy = order.handedOverByEmployeeId ? await storage.getEmployee(order.handedOverByEmployeeId) : undefined;
+  return {
+    id: order.id,
+    orderId: order.orderId,
+    status: order.status,
+    orderDate: order.orderDate,
+    employee: employee
+      ? { name: `${employee.firstName} ${employee.lastName}`.trim(), email: employee.email, employeeId: employee.employeeId }
+      : null,
+    items: items.map((i) => ({
+      id: i.id,
+      name: i.product?.name ?? "-",
+      image: i.product?.images?.[0] ?? null,
+      selectedColor: i.selectedColor,
+      selectedSize: i.selectedSize,
+      quantity: i.quantity,
+    })),
+    location: location ? { id: location.id, name: location.name } : null,
+    ready: !order.handedOverAt && HANDOVER_READY_STATUSES.includes(order.status ?? "confirmed"),
+    handedOverAt: order.handedOverAt,
+    handedOverBy: handedOverBy ? `${handedOverBy.firstName} ${handedOverBy.lastName}`.trim() : null,
+  };
+}
+
+// Each order's shipment with its tracking events (oldest first), keyed by order id
+async function loadShipments(orderIds: string[]) {
+  const list = await storage.getShipments(orderIds);
+  const events = await storage.getShipmentEvents(list.map((s) => s.id));
+  return new Map<string, Shipment & { events: ShipmentEvent[] }>(
+    list.map((s) => [s.orderId, { ...s, events: events.filter((e) => e.shipmentId === s.id) }])
+  );
+}
+
+// What the employee sees: no admin ids on the events
+function employeeShipmentView(shipment: (Shipment & { events: ShipmentEvent[] }) | undefined) {
+  if (!shipment) return null;
+  const { courier, awb, dispatchedAt, expectedAt, events } = shipment;
+  return {
+    courier,
+    awb,
+    dispatchedAt,
+    expectedAt,
+    events: events.map(({ description, location, occurredAt }) => ({ description, location, occurredAt })),
+  };
+}
+
+// Accepts ISO dates and the day-first dd/mm/yyyy [hh:mm] couriers export. Blank = null.
+function parseShipmentDate(value: unknown, label: string): Date | null {
+  const raw = value === undefined || value === null ? "" : String(value).trim();
+  if (!raw) return null;
+  const dayFirst = raw.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T](\d{1,2}):(\d{2}))?/);
+  const date = dayFirst
+    ? new Date(+dayFirst[3], +dayFirst[2] - 1, +dayFirst[1], +(dayFirst[4] ?? 0), +(dayFirst[5] ?? 0))
+    : new Date(raw);
+  if (isNaN(date.getTime())) throw new ShipmentError(`Invalid ${label}: ${raw}`);
+  return date;
+}
+
+type ShipmentInput = {
+  courier: string;
+  awb: string;
+  dispatchedAt?: Date | null;
+  expectedAt?: Date | null;
+  event?: { description: string; location: string | null; occurredAt: Date };
+};
+
+// Body / import row: { courier, awb, dispatchedAt?, expectedAt?, status?, location?, eventAt? }
+function readShipmentInput(body: any): ShipmentInput {
+  const courier = String(body?.courier ?? "").trim().slice(0, 100);
+  const awb = String(body?.awb ?? "").trim().replace(/\s+/g, "");
+  if (!courier) throw new ShipmentError("Courier is required");
+  if (!/^[A-Za-z0-9-]{4,40}$/.test(awb)) throw new ShipmentError(`Invalid AWB: ${awb || "(blank)"}`);
+
+  // omitted dates keep what is stored; an explicit blank clears them
+  const dispatchedAt = body?.dispatchedAt === undefined ? undefined : parseShipmentDate(body.dispatchedAt, "dispatch date");
+  const expectedAt = body?.expectedAt === undefined ? undefined : parseShipmentDate(body.expectedAt, "expected date");
+
+  const description = String(body?.status ?? "").trim().slice(0, 200);
+  const event = description
+    ? {
+        description,
+        location: String(body?.location ?? "").trim().slice(0, 200) || null,
+        occurredAt: parseShipmentDate(body?.eventAt, "event date") ?? dispatchedAt ?? new Date(),
+      }
+    : undefined;
+
+  return { courier, awb, dispatchedAt, expectedAt, event };
+}
 
-  if (!match) return base;
+/**
+ * Saves an order's shipment and its optional tracking event. A packed order
+ * moves to shipped once it has an AWB. Audited.
+ */
+async function saveShipment(req: Request, res: Response, order: Order, input: ShipmentInput, actorEmployeeId: string) {
+  const { before, shipment } = await storage.upsertShipment(order.id, input);
+  await recordAudit(req, res, {
+    action: before ? "shipment.update" : "shipment.create",
+    entityType: "shipment",
+    entityId: shipment.id,
+    before,
+    after: shipment,
+  });
+
+  const event = input.event
+    ? await storage.addShipmentEvent(shipment.id, { ...input.event, actorEmployeeId })
+    : undefined;
+
+  let shipped = false;
+  if (canTransitionOrder(order.status, "shipped")) {
+    await moveOrder(req, res, order.id, {
+      status: "shipped",
+      actorEmployeeId,
+      note: `${shipment.courier} AWB ${shipment.awb}`,
+    });
+    shipped = true;
+  }
+  return { created: !before, shipment, event, shipped };
+}
 
-  const slabPrice = Number(match.price);
-  if (!Number.isFinite(slabPrice) || slabPrice < 0) return base;
-  return slabPrice;
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Body of a template save or test send; an error when a field is missing or does not parse
+function readTemplateContent(body: any): { content: EmailTemplateContent } | { error: string } {
+  const content = {
+    subject: String(body?.subject ?? "").trim(),
+    fromName: String(body?.fromName ?? "").trim(),
+    html: String(body?.html ?? ""),
+    text: String(body?.text ?? ""),
+  };
+  if (!content.subject || !content.fromName || !content.html.trim() || !content.text.trim()) {
+    return { error: "Subject, sender name, HTML and plain text are all required" };
+  }
+  for (const field of ["subject", "fromName", "html", "text"] as const) {
+    const problem = templateSyntaxError(content[field]);
+    if (problem) return { error: `${field}: ${problem}` };
+  }
+  return { content };
 }
 
+// What order and request listings show of their invoices; the PDF is fetched by id
+function invoiceSummaries(invoices: Invoice[], match: (i: Invoice) => boolean) {
+  return invoices.filter(match).map(({ id, number, kind, issuedAt }) => ({ id, number, kind, issuedAt }));
+}
 
+async function sendInvoicePdf(res: Response, invoice: Invoice) {
+  const pdf = await renderInvoicePdf(invoice);
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${invoiceFileName(invoice)}"`);
+  res.send(pdf);
+}
 
 function isValidEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -200,41 +624,64 @@ async function requireBulkBuyAccess(req: any, res: any) {
 }
 
 
-function buildItemsTableHtml(items: any[]) {
-  const rows = items
-    .map(
-      (it) => `
-      <tr>
-        <td style="padding:8px;border:1px solid #eee;">${it.name}</td>
-        <td style="padding:8px;border:1px solid #eee;">${it.sku || ""}</td>
-        <td style="padding:8px;border:1px solid #eee;">${it.selectedColor || "-"}</td>
-        <td style="padding:8px;border:1px solid #eee;text-align:right;">${it.quantity}</td>
-        <td style="padding:8px;border:1px solid #eee;text-align:right;">₹${Number(it.unitPrice).toFixed(2)}</td>
-        <td style="padding:8px;border:1px solid #eee;text-align:right;">₹${Number(it.lineTotal).toFixed(2)}</td>
-      </tr>`
-    )
-    .join("");
-
-  return `
-    <table cellspacing="0" cellpadding="0" style="border-collapse:collapse;width:100%;font-family:Arial,sans-serif;">
-      <thead>
-        <tr>
-          <th style="padding:8px;border:1px solid #eee;text-align:left;">Product</th>
-          <th style="padding:8px;border:1px solid #eee;text-align:left;">SKU</th>
-          <th style="padding:8px;border:1px solid #eee;text-align:left;">Color</th>
-          <th style="padding:8px;border:1px solid #eee;text-align:right;">Qty</th>
-          <th style="padding:8px;border:1px solid #eee;text-align:right;">Unit</th>
-          <th style="padding:8px;border:1px solid #eee;text-align:right;">Total</th>
-        </tr>
-      </thead>
-      <tbody>${rows}</tbody>
-    </table>
-  `;
+const BULKBUY_STATUS_LABEL: Record<string, string> = {
+  pending_approval: "Pending approval",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+// Requester and staff copies of a bulk-buy email, queued in the outbox; the request never waits on SMTP
+async function sendBulkBuyEmails(
+  key: "bulkbuy_submitted" | "bulkbuy_status",
+  requester: Employee | undefined,
+  request: BulkBuyRequest
+) {
+  const data = {
+    employee: requester && { firstName: requester.firstName, lastName: requester.lastName, email: requester.email },
+    request: {
+      requestId: request.requestId,
+      status: request.status,
+      statusLabel: BULKBUY_STATUS_LABEL[request.status] ?? request.status,
+      deliveryMethod: request.deliveryMethod,
+      deliveryAddress: request.deliveryMethod === "delivery" ? request.deliveryAddress : null,
+      requesterNote: request.requesterNote,
+      procurementNote: request.procurementNote,
+      total: Number(request.totalAmount).toFixed(2),
+      items: request.items.map((it) => ({
+        ...it,
+        unitPrice: Number(it.unitPrice).toFixed(2),
+        lineTotal: Number(it.lineTotal).toFixed(2),
+      })),
+    },
+  };
+
+  if (requester?.email) await queueTemplatedEmail(key, { to: requester.email }, data);
+  const staff = await staffRecipients(await storage.getProcurementRecipients());
+  if (staff) await queueTemplatedEmail(key, staff, data);
 }
 
 export async function registerRoutes(app: Express): Promise<void> {
   app.use("/uploads", (await import("express")).default.static(UPLOAD_DIR));
 
+  // Sliding session renewal for any authenticated API call
+  app.use("/api", trackSessionActivity);
+
+  storage.backfillOpeningBalances().catch((e) =>
+    console.warn("[points] opening balance backfill failed:", (e as any)?.message || e)
+  );
+  storage.backfillOrderItems().catch((e) =>
+    console.warn("[orders] order item backfill failed:", (e as any)?.message || e)
+  );
+  storage.backfillHandoverCodes().catch((e) =>
+    console.warn("[orders] handover code backfill failed:", (e as any)?.message || e)
+  );
+  // login codes used to be queued; their rendered bodies held the plaintext code
+  storage.purgeOutboxEmails("otp").catch((e) =>
+    console.warn("[email] purging queued login codes failed:", (e as any)?.message || e)
+  );
+  startEmailOutbox();
+  startPaymentReconciler();
+
   // File upload
   app.post("/api/upload", upload.array("files", 10), (req, res) => {
     const files = (req.files as Express.Multer.File[]) || [];
@@ -247,6 +694,28 @@ export async function registerRoutes(app: Express): Promise<void> {
   app.post("/api/auth/verify-otp", verifyOTP);
   app.get("/api/auth/lookup-by-email", lookupByEmail);
 
+  // Admin panel login (OTP, restricted to admin-panel roles)
+  app.post("/api/auth/admin/send-otp", sendAdminOTP);
+  app.post("/api/auth/admin/verify-otp", verifyAdminOTP);
+
+  // ✅ Every /api/admin route below requires an admin session
+  app.use("/api/admin", requireAdminAccess);
+
+  app.get("/api/admin/me", (_req, res) => {
+    const { employee, session, permissions } = getAdminContext(res);
+    res.json({
+      employee: {
+        id: employee.id,
+        firstName: employee.firstName,
+        lastName: employee.lastName,
+        email: employee.email,
+        role: employee.role,
+      },
+      permissions,
+      expiresAt: session.expiresAt,
+    });
+  });
+
   // Domain check endpoint
   app.get("/api/auth/check-domain/:domain", async (req, res) => {
     try {
@@ -285,13 +754,51 @@ export async function registerRoutes(app: Express): Promise<void> {
         lastName: employee.lastName,
         email: employee.email,
         points: employee.points ?? 0,
+        role: employee.role,
       },
       expiresAt: session.expiresAt,
+      idleTimeoutSec: SESSION_LIMITS.idleMinutes * 60,
     });
   });
 
+  // My devices: the caller's active sessions
+  app.get("/api/auth/sessions", async (req, res) => {
+    try {
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      const list = await storage.getSessionsByEmployeeId(auth.employee.id);
+      res.json(list.map((s) => toDeviceView(s, auth.session.token)));
+    } catch {
+      res.status(500).json({ message: "Error fetching sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", async (req, res) => {
+    try {
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      const removed = await storage.deleteSessionById(auth.employee.id, req.params.id);
+      if (!removed) return res.status(404).json({ message: "Session not found" });
+      res.json({ message: "Device signed out" });
+    } catch {
+      res.status(500).json({ message: "Error revoking session" });
+    }
+  });
+
+  // Log out everywhere, including this device
+  app.post("/api/auth/logout-all", async (req, res) => {
+    try {
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      const count = await storage.deleteSessionsByEmployeeId(auth.employee.id);
+      res.json({ message: "Logged out of all devices", count });
+    } catch {
+      res.status(500).json({ message: "Error logging out of all devices" });
+    }
+  });
+
   // Domain Whitelist Admin Routes
-  app.get("/api/admin/domain-whitelist", async (_req, res) => {
+  app.get("/api/admin/domain-whitelist", requirePermission("domains.read"), async (_req, res) => {
     try {
       const domains = await storage.getAllDomainWhitelists();
       res.json(domains);
@@ -301,7 +808,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.get("/api/admin/domain-whitelist/:id", async (req, res) => {
+  app.get("/api/admin/domain-whitelist/:id", requirePermission("domains.read"), async (req, res) => {
     try {
       const { id } = req.params;
       const domain = await storage.getDomainWhitelist(id);
@@ -313,7 +820,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/admin/domain-whitelist", async (req, res) => {
+  app.post("/api/admin/domain-whitelist", requirePermission("domains.write"), async (req, res) => {
     try {
       const domainData = insertDomainWhitelistSchema.parse(req.body);
       // Ensure domain doesn't start with @ and is lowercase
@@ -326,6 +833,7 @@ export async function registerRoutes(app: Express): Promise<void> {
       }
 
       const domain = await storage.createDomainWhitelist(domainData);
+      await recordAudit(req, res, { action: "domain.create", entityType: "domain", entityId: domain.id, after: domain });
       res.json(domain);
     } catch (error: any) {
       console.error("Domain creation error:", error);
@@ -333,7 +841,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.put("/api/admin/domain-whitelist/:id", async (req, res) => {
+  app.put("/api/admin/domain-whitelist/:id", requirePermission("domains.write"), async (req, res) => {
     try {
       const { id } = req.params;
       const updates = insertDomainWhitelistSchema.partial().parse(req.body);
@@ -342,8 +850,10 @@ export async function registerRoutes(app: Express): Promise<void> {
         updates.domain = updates.domain.toLowerCase().replace(/^@/, '');
       }
 
+      const before = await storage.getDomainWhitelist(id);
       const domain = await storage.updateDomainWhitelist(id, updates);
       if (!domain) return res.status(404).json({ message: "Domain not found" });
+      await recordAudit(req, res, { action: "domain.update", entityType: "domain", entityId: id, before, after: domain });
       res.json(domain);
     } catch (error: any) {
       console.error("Domain update error:", error);
@@ -351,11 +861,13 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.delete("/api/admin/domain-whitelist/:id", async (req, res) => {
+  app.delete("/api/admin/domain-whitelist/:id", requirePermission("domains.write"), async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getDomainWhitelist(id);
       const ok = await storage.deleteDomainWhitelist(id);
       if (!ok) return res.status(404).json({ message: "Domain not found" });
+      await recordAudit(req, res, { action: "domain.delete", entityType: "domain", entityId: id, before });
       res.json({ ok: true });
     } catch (error: any) {
       console.error("Domain delete error:", error);
@@ -363,6 +875,74 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Office locations (pickup points); the orders view reads them for its location filter
+  app.get("/api/admin/office-locations", requirePermission("offices.read", "orders.read"), async (_req, res) => {
+    try {
+      const [locations, open] = await Promise.all([storage.getOfficeLocations(), storage.getOpenPickupCounts()]);
+      res.json(locations.map((l) => ({ ...l, openPickups: open.get(l.id) ?? 0 })));
+    } catch (error: any) {
+      console.error("Office locations fetch error:", error);
+      res.status(500).json({ message: "Error fetching office locations" });
+    }
+  });
+
+  app.post("/api/admin/office-locations", requirePermission("offices.write"), async (req, res) => {
+    try {
+      const parsed = insertOfficeLocationSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ message: parsed.error.issues[0]?.message ?? "Invalid location" });
+
+      const existing = await storage.getOfficeLocations();
+      if (existing.some((l) => l.name.toLowerCase() === parsed.data.name.toLowerCase())) {
+        return res.status(409).json({ message: "A location with this name already exists" });
+      }
+
+      const location = await storage.createOfficeLocation(parsed.data);
+      await recordAudit(req, res, { action: "office.create", entityType: "office_location", entityId: location.id, after: location });
+      res.json(location);
+    } catch (error: any) {
+      console.error("Office location create error:", error);
+      res.status(500).json({ message: "Error creating office location" });
+    }
+  });
+
+  app.put("/api/admin/office-locations/:id", requirePermission("offices.write"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsed = insertOfficeLocationSchema.partial().safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ message: parsed.error.issues[0]?.message ?? "Invalid location" });
+
+      const existing = await storage.getOfficeLocations();
+      const before = existing.find((l) => l.id === id);
+      if (!before) return res.status(404).json({ message: "Location not found" });
+      const name = parsed.data.name?.toLowerCase();
+      if (name && existing.some((l) => l.id !== id && l.name.toLowerCase() === name)) {
+        return res.status(409).json({ message: "A location with this name already exists" });
+      }
+
+      const location = await storage.updateOfficeLocation(id, parsed.data);
+      await recordAudit(req, res, { action: "office.update", entityType: "office_location", entityId: id, before, after: location });
+      res.json(location);
+    } catch (error: any) {
+      console.error("Office location update error:", error);
+      res.status(500).json({ message: "Error updating office location" });
+    }
+  });
+
+  app.delete("/api/admin/office-locations/:id", requirePermission("offices.write"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const before = await storage.getOfficeLocation(id);
+      const ok = await storage.deleteOfficeLocation(id);
+      if (!ok) return res.status(404).json({ message: "Location not found" });
+      await recordAudit(req, res, { action: "office.delete", entityType: "office_location", entityId: id, before });
+      res.json({ ok: true });
+    } catch (error: any) {
+      if (error instanceof OfficeLocationError) return res.status(error.status).json({ message: error.message });
+      console.error("Office location delete error:", error);
+      res.status(500).json({ message: "Error deleting office location" });
+    }
+  });
+
   // Categories API
   app.get("/api/categories", async (_req, res) => {
     try {
@@ -386,31 +966,36 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/admin/categories", async (req, res) => {
+  app.post("/api/admin/categories", requirePermission("products.write"), async (req, res) => {
     try {
       const categoryData = insertCategorySchema.parse(req.body);
       const category = await storage.createCategory(categoryData);
+      await recordAudit(req, res, { action: "category.create", entityType: "category", entityId: category.id, after: category });
       res.json(category);
     } catch {
       res.status(400).json({ message: "Invalid category data" });
     }
   });
 
-  app.put("/api/admin/categories/:id", async (req, res) => {
+  app.put("/api/admin/categories/:id", requirePermission("products.write"), async (req, res) => {
     try {
       const updates = req.body;
+      const before = await storage.getCategory(req.params.id);
       const category = await storage.updateCategory(req.params.id, updates);
       if (!category) return res.status(404).json({ message: "Category not found" });
+      await recordAudit(req, res, { action: "category.update", entityType: "category", entityId: category.id, before, after: category });
       res.json(category);
     } catch {
       res.status(500).json({ message: "Error updating category" });
     }
   });
 
-  app.delete("/api/admin/categories/:id", async (req, res) => {
+  app.delete("/api/admin/categories/:id", requirePermission("products.write"), async (req, res) => {
     try {
+      const before = await storage.getCategory(req.params.id);
       const ok = await storage.deleteCategory(req.params.id);
       if (!ok) return res.status(404).json({ message: "Category not found" });
+      await recordAudit(req, res, { action: "category.delete", entityType: "category", entityId: req.params.id, before });
       res.json({ ok: true });
     } catch {
       res.status(500).json({ message: "Error deleting category" });
@@ -602,7 +1187,7 @@ export async function registerRoutes(app: Express): Promise<void> {
       if (data.campaignId) {
         const campaign = await storage.getCampaign(data.campaignId);
         if (campaign && campaign.isActive && campaign.maxProductsPerUser !== null) {
-          const employeeOrders = await storage.getOrdersByEmployeeId(employee.id);
+          const orderedItems = await storage.getActiveOrderItems(employee.id);
           const currentCart = await storage.getCartItems(employee.id);
 
           const limit = campaign.maxProductsPerUser;
@@ -614,7 +1199,7 @@ export async function registerRoutes(app: Express): Promise<void> {
           // User requested "campaign orders must be placed seperately".
           // Let's rely on the explicit campaignId for new logic.
 
-          employeeOrders.forEach(o => {
+          orderedItems.forEach(o => {
             if (o.campaignId === campaign.id) usage += (o.quantity || 1);
           });
           currentCart.forEach(c => {
@@ -690,7 +1275,7 @@ export async function registerRoutes(app: Express): Promise<void> {
       if (activeCampaignsWithLimit.length > 0) {
         const employee = await storage.getEmployee(item.employeeId);
         if (employee) {
-          const employeeOrders = await storage.getOrdersByEmployeeId(employee.id);
+          const orderedItems = await storage.getActiveOrderItems(employee.id);
           const currentCart = await storage.getCartItems(employee.id);
 
           for (const campaign of activeCampaignsWithLimit) {
@@ -699,7 +1284,7 @@ export async function registerRoutes(app: Express): Promise<void> {
             const campaignProductIds = new Set(campaignProducts.map(cp => cp.product.id));
 
             let usage = 0;
-            employeeOrders.forEach(o => {
+            orderedItems.forEach(o => {
               if (campaignProductIds.has(o.productId)) usage += (o.quantity || 1);
             });
 
@@ -749,72 +1334,58 @@ export async function registerRoutes(app: Express): Promise<void> {
       const employee = await storage.getEmployee(session.employeeId);
       if (!employee) return res.status(404).json({ message: "Employee not found" });
 
+      // a retried / double-submitted checkout carries the same Idempotency-Key
+      const idempotencyKey = req.get("Idempotency-Key")?.trim();
+      if (idempotencyKey && idempotencyKey.length > 200) {
+        return res.status(400).json({ message: "Idempotency-Key is too long" });
+      }
+      const checkoutKey = idempotencyKey ? `order:${idempotencyKey}` : undefined;
+      if (checkoutKey && (await replayCheckout(checkoutKey, employee, res))) return;
+
       const branding = await storage.getBranding();
       const maxSelections = branding?.maxSelectionsPerUser ?? 1;
 
-      const { deliveryMethod = "office", deliveryAddress = null } = req.body;
+      const delivery = await resolveDelivery(employee.id, req.body);
 
       const cartItems = await storage.getCartItems(session.employeeId);
       if (cartItems.length === 0) return res.status(400).json({ message: "Cart is empty" });
 
-      const employeeOrders = await storage.getOrdersByEmployeeId(session.employeeId);
-      if (maxSelections !== -1 && employeeOrders.length + cartItems.length > maxSelections) {
+      const orderedItems = await storage.getActiveOrderItems(session.employeeId);
+      if (maxSelections !== -1 && orderedItems.length + cartItems.length > maxSelections) {
         return res.status(400).json({ message: "Selection limit reached" });
       }
 
       const inrPerPoint = parseFloat(branding?.inrPerPoint ?? "1");
-      let totalPointsRequired = 0;
-
-      // ✅ slab-aware points calc
-      for (const item of cartItems) {
-        const p = await storage.getProduct(item.productId);
-        if (!p || (p.stock || 0) < item.quantity) {
-          return res.status(400).json({ message: `Product ${p?.name || item.productId} unavailable` });
-        }
-
-        const unitPrice = getUnitPriceForQty(p, item.quantity);
-        totalPointsRequired += Math.ceil(unitPrice / inrPerPoint) * item.quantity;
-      }
-
-      const userPoints = employee.points ?? 0;
-      if (userPoints < totalPointsRequired) {
-        return res.status(400).json({ message: "Insufficient points" });
+      const priced = await priceCart(cartItems, inrPerPoint);
+      if ("unavailable" in priced) {
+        return res.status(400).json({ message: `Product ${priced.unavailable} unavailable` });
       }
 
-      const orders: any[] = [];
-      for (const item of cartItems) {
-        const p = await storage.getProduct(item.productId);
-        if (!p) continue;
-
-        await storage.updateProduct(item.productId, { stock: (p.stock || 0) - item.quantity });
-
-        const unitPrice = getUnitPriceForQty(p, item.quantity);
-        const usedPoints = Math.ceil(unitPrice / inrPerPoint) * item.quantity;
-
-        const order = await storage.createOrder({
-          employeeId: session.employeeId,
-          productId: item.productId,
-          selectedColor: item.selectedColor,
-          selectedSize: item.selectedSize,
-          quantity: item.quantity,
-          campaignId: item.campaignId || undefined,
-          metadata: {
-            usedPoints,
-            unitPrice,
-            deliveryMethod,
-            deliveryAddress,
-          },
-        });
-
-        orders.push({ order, product: p });
+      // anything not covered by points goes through create-copay-order
+      const split = checkoutSplit(priced.lines, req.body, employee.points ?? 0, inrPerPoint);
+      if (split.copayInr > 0) {
+        const message = split.points < (employee.points ?? 0) ? "Pay the rest online or use more points" : "Insufficient points";
+        return res.status(400).json({ message, copayInr: split.copayInr });
       }
 
-      await storage.updateEmployee(employee.id, { points: userPoints - totalPointsRequired });
-      await storage.clearCart(session.employeeId);
+      // stock, points, orders and cart change together or not at all
+      const placed = await storage.placeOrders({
+        employeeId: employee.id,
+        maxSelections,
+        checkoutKey,
+        lines: toOrderLines(priced.lines, split),
+        metadata: {
+          usedPoints: priced.totalPointsRequired,
+          totalInr: cartTotalInr(priced.lines),
+          ...delivery.metadata,
+        },
+        officeLocationId: delivery.officeLocationId,
+      });
+      if (!placed.replayed) placed.orders.forEach((o) => notifyOrder(o, "confirmation"));
 
-      const updatedEmployee = await storage.getEmployee(session.employeeId);
-      res.json({ orders, employee: updatedEmployee });
+      res.json({ orders: await withItems(placed.orders), employee: placed.employee, replayed: placed.replayed });
     } catch (error: any) {
+      if (error instanceof CheckoutError) return res.status(error.status).json({ message: error.message });
       console.error("Orders POST error:", error);
       res.status(500).json({ message: "Error creating orders", details: error.message });
     }
@@ -822,13 +1393,11 @@ export async function registerRoutes(app: Express): Promise<void> {
 
 
   // ===============================
-  // PhonePe Payment Routes (UPDATED)
-  // Uses .env:
-  // PHONEPE_MERCHANT_ID
-  // PHONEPE_SALT_KEY
-  // PHONEPE_SALT_INDEX
-  // PHONEPE_REDIRECT_URL_BASE  (frontend base URL)
-  // Optional (if you want): PHONEPE_API_URL
+  // Copay payment routes
+  // The gateway is branding.paymentProvider (server/payments.ts); each reads
+  // its own .env (PHONEPE_*, RAZORPAY_*, PAYMENT_MOCK_*). The employee comes
+  // back to APP_BASE_URL/cart (PHONEPE_REDIRECT_URL_BASE for older setups);
+  // Razorpay's dashboard webhook points at /api/payments/webhook/razorpay.
   // ===============================
   app.post("/api/orders/create-copay-order", async (req, res) => {
     try {
@@ -841,7 +1410,8 @@ export async function registerRoutes(app: Express): Promise<void> {
       const employee = await storage.getEmployee(session.employeeId);
       if (!employee) return res.status(404).json({ message: "Employee not found" });
 
-      const { deliveryMethod = "office", deliveryAddress = null } = req.body;
+      // checked now so a bad address fails before payment; verify-copay resolves it again
+      const delivery = await resolveDelivery(employee.id, req.body);
 
       const cartItems = await storage.getCartItems(session.employeeId);
       if (cartItems.length === 0) return res.status(400).json({ message: "Cart is empty" });
@@ -849,315 +1419,438 @@ export async function registerRoutes(app: Express): Promise<void> {
       const branding = await storage.getBranding();
       const maxSelections = branding?.maxSelectionsPerUser ?? 1;
 
-      const employeeOrders = await storage.getOrdersByEmployeeId(session.employeeId);
-      if (maxSelections !== -1 && employeeOrders.length + cartItems.length > maxSelections) {
+      const orderedItems = await storage.getActiveOrderItems(session.employeeId);
+      if (maxSelections !== -1 && orderedItems.length + cartItems.length > maxSelections) {
         return res.status(400).json({ message: "Selection limit reached" });
       }
 
       const inrPerPoint = parseFloat(branding?.inrPerPoint ?? "1");
-      let totalPointsRequired = 0;
-
-      // ✅ slab-aware points calc
-      for (const item of cartItems) {
-        const product = await storage.getProduct(item.productId);
-        if (!product || (product.stock || 0) < item.quantity) {
-          return res
-            .status(400)
-            .json({ message: `Product ${product?.name || item.productId} unavailable` });
-        }
-
-        const unitPrice = getUnitPriceForQty(product, item.quantity);
-        totalPointsRequired += Math.ceil(unitPrice / inrPerPoint) * item.quantity;
+      const priced = await priceCart(cartItems, inrPerPoint);
+      if ("unavailable" in priced) {
+        return res.status(400).json({ message: `Product ${priced.unavailable} unavailable` });
       }
 
-      const userPoints = employee.points ?? 0;
-      if (userPoints >= totalPointsRequired) {
-        return res.status(400).json({ message: "Sufficient points, use normal checkout" });
+      const split = checkoutSplit(priced.lines, req.body, employee.points ?? 0, inrPerPoint);
+      if (split.copayInr <= 0) {
+        return res.status(400).json({ message: "Nothing left to pay, use normal checkout" });
       }
 
-      const deficitPoints = totalPointsRequired - userPoints;
-      const copayInr = Math.ceil(deficitPoints * inrPerPoint);
-
-      const merchantId = process.env.PHONEPE_MERCHANT_ID;
-      const saltKey = process.env.PHONEPE_SALT_KEY;
-      const saltIndex = process.env.PHONEPE_SALT_INDEX || "1";
-      const redirectBase = process.env.PHONEPE_REDIRECT_URL_BASE;
-      const apiUrl = process.env.PHONEPE_API_URL || "https://api-preprod.phonepe.com/apis/pg-sandbox";
-
-      if (!merchantId || !saltKey || !redirectBase) {
-        return res.status(500).json({
-          message:
-            "PhonePe not configured. Missing PHONEPE_MERCHANT_ID / PHONEPE_SALT_KEY / PHONEPE_REDIRECT_URL_BASE",
-        });
-      }
+      const provider = await activePaymentProvider();
+      const configError = provider.configError();
+      if (configError) return res.status(500).json({ message: configError });
 
-      const merchantTransactionId = `TXN_${Date.now()}`;
-      const redirectUrl = `${redirectBase.replace(/\/$/, "")}/cart`;
+      const merchantTransactionId = `TXN_${Date.now()}_${crypto.randomBytes(4).toString("hex")}`;
 
       const proto = (req.headers["x-forwarded-proto"] as string) || req.protocol;
       const host = (req.headers["x-forwarded-host"] as string) || req.get("host");
       const backendBase = `${proto}://${host}`;
 
-      let callbackUrl =
-        `${backendBase}/api/orders/phonepe-callback` +
-        `?merchantTransactionId=${encodeURIComponent(merchantTransactionId)}` +
-        `&deliveryMethod=${encodeURIComponent(deliveryMethod)}`;
-
-      if (deliveryAddress) {
-        callbackUrl += `&deliveryAddress=${encodeURIComponent(deliveryAddress)}`;
-      }
-
-      const payload = {
-        merchantId,
-        merchantTransactionId,
-        merchantUserId: employee.id,
-        amount: copayInr * 100,
-        redirectUrl,
-        redirectMode: "REDIRECT",
-        callbackUrl,
-        mobileNumber: employee.phoneNumber?.replace(/^\+91/, ""),
-        paymentInstrument: { type: "PAY_PAGE" },
-      };
-
-      const base64Payload = Buffer.from(JSON.stringify(payload)).toString("base64");
-      const endpoint = "/pg/v1/pay";
+      // the gateway tells the server directly; the browser only brings our reference back
+      const callbackUrl = `${backendBase}/api/payments/webhook/${provider.id}`;
+      const returnUrl = `${appBaseUrl()}/cart?merchantTransactionId=${encodeURIComponent(merchantTransactionId)}`;
 
-      const stringToHash = base64Payload + endpoint + saltKey;
-      const sha256 = crypto.createHash("sha256").update(stringToHash).digest("hex");
-      const xVerify = sha256 + "###" + saltIndex;
-
-      const response = await fetch(`${apiUrl}${endpoint}`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-VERIFY": xVerify,
+      // what the payment buys, so the orders can be placed without the browser (server/copay.ts)
+      const payment = await storage.createPayment({
+        ref: merchantTransactionId,
+        provider: provider.id,
+        employeeId: employee.id,
+        amountInr: split.copayInr,
+        cart: {
+          lines: toOrderLines(priced.lines, split),
+          totalPoints: split.totalPoints,
+          pointsCovered: split.pointsCovered,
+          totalInr: cartTotalInr(priced.lines),
+          delivery: { ...delivery.metadata, officeLocationId: delivery.officeLocationId },
         },
-        body: JSON.stringify({ request: base64Payload }),
       });
 
-      const result = await response.json();
-
-      if (!response.ok || !result?.success) {
-        return res.status(500).json({
-          message: "Failed to initiate PhonePe payment",
-          details: result,
+      let created: CreatedPayment;
+      try {
+        created = await provider.createPayment({
+          ref: merchantTransactionId,
+          amountInr: split.copayInr,
+          customer: {
+            id: employee.id,
+            name: `${employee.firstName} ${employee.lastName}`.trim(),
+            email: employee.email,
+            phone: employee.phoneNumber,
+          },
+          description: `${branding?.companyName || "TechCorp"} copay`,
+          returnUrl,
+          callbackUrl,
         });
+      } catch (e: any) {
+        await storage.updatePayment(payment.id, { status: "failed", error: e?.message || String(e) });
+        throw e;
       }
-
-      const paymentUrl =
-        result?.data?.instrumentResponse?.redirectInfo?.url ||
-        result?.data?.instrumentResponse?.redirectInfo?.redirectUrl;
-
-      if (!paymentUrl) {
-        return res.status(500).json({ message: "PhonePe redirect URL missing", details: result });
-      }
+      if (created.gatewayRef) await storage.updatePayment(payment.id, { gatewayRef: created.gatewayRef });
 
       res.json({
-        paymentUrl,
+        provider: provider.id,
         merchantTransactionId,
+        checkout: created.checkout,
       });
     } catch (error: any) {
+      if (error instanceof CheckoutError) return res.status(error.status).json({ message: error.message });
+      if (error instanceof PaymentError) return res.status(error.status).json({ message: error.message });
       console.error("create-copay-order error:", error);
       res.status(500).json({ message: "Failed to create copay order", details: error.message });
     }
   });
 
 
-  app.post("/api/orders/phonepe-callback", async (req, res) => {
+  // Gateway server-to-server notifications, signed per gateway (PhonePe X-VERIFY,
+  // Razorpay / mock HMAC) over the raw body captured in index.ts. Settles the
+  // payment whether or not the employee's browser ever comes back.
+  app.post("/api/payments/webhook/:provider", (req, res) => handlePaymentWebhook(req.params.provider, req, res));
+
+  // callback URL of PhonePe payments started before the webhook endpoint existed
+  app.post("/api/orders/phonepe-callback", (req, res) => handlePaymentWebhook("phonepe", req, res));
+
+  // The cart's check once the gateway sends the employee back. What was bought
+  // comes from the payment row; settlePayment (server/copay.ts) places the
+  // orders or refunds once, whether this or the reconciler gets there first.
+  app.post("/api/orders/verify-copay", async (req, res) => {
     try {
-      const { code } = req.body;
-      const { merchantTransactionId, deliveryMethod, deliveryAddress } = req.query;
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      const { employee } = auth;
 
-      const redirectBase = process.env.PHONEPE_REDIRECT_URL_BASE || "http://localhost:5173";
-      const frontendCart = `${redirectBase.replace(/\/$/, "")}/cart`;
+      const { merchantTransactionId, merchantOrderId } = req.body;
+      const txnId = merchantTransactionId || merchantOrderId;
+      if (!txnId) return res.status(400).json({ message: "Missing merchantTransactionId" });
 
-      // PhonePe can hit callback for success/failure depending on integration
-      if (code !== "PAYMENT_SUCCESS") {
-        return res.redirect(`${frontendCart}?payment=failure`);
-      }
+      const payment = await storage.getPaymentByRef(String(txnId));
+      if (!payment || payment.employeeId !== employee.id) return res.status(404).json({ message: "Payment not found" });
+
+      // each payment pays for one checkout; re-verifying returns those orders
+      const checkoutKey = paymentCheckoutKey(payment);
+      if (await replayCheckout(checkoutKey, employee, res)) return;
 
-      if (merchantTransactionId && deliveryMethod) {
-        const qs =
-          `merchantTransactionId=${encodeURIComponent(merchantTransactionId as string)}` +
-          `&deliveryMethod=${encodeURIComponent(deliveryMethod as string)}` +
-          (deliveryAddress ? `&deliveryAddress=${encodeURIComponent(deliveryAddress as string)}` : "");
+      const { payment: settled, placed } =
+        payment.status === "pending" || payment.status === "processing" ? await checkPayment(payment) : { payment };
+      if (placed) {
+        return res.json({ orders: await withItems(placed.orders), employee: placed.employee, replayed: placed.replayed });
+      }
 
-        return res.redirect(`${frontendCart}?${qs}`);
+      switch (settled.status) {
+        case "completed": // the reconciler got there first
+          if (await replayCheckout(checkoutKey, employee, res)) return;
+          break;
+        case "pending":
+        case "processing":
+          return res.status(409).json({ message: "Payment is still being processed; your order will be placed as soon as it clears", status: "pending" });
+        case "failed":
+          return res.status(400).json({ message: settled.error || "Payment not completed" });
+        case "refunded":
+          return res.status(409).json({
+            message: `${paymentFailureReason(settled)}. Your payment has been refunded.`,
+            status: settled.status,
+          });
+        case "refund_failed":
+          return res.status(409).json({
+            message: `${paymentFailureReason(settled)}. Your refund is being handled by our team.`,
+            status: settled.status,
+          });
       }
+      res.status(500).json({ message: "Payment state could not be resolved" });
+    } catch (error: any) {
+      if (error instanceof PaymentError) return res.status(error.status).json({ message: error.message });
+      console.error("verify-copay error:", error);
+      res.status(500).json({ message: "Error verifying payment", details: error.message });
+    }
+  });
+
+  // Mock gateway pay page (PAYMENT_MOCK_OUTCOME skips it); only while mock is the active gateway
+  app.get("/api/payments/mock/:ref", async (req, res) => {
+    if ((await activePaymentProvider()).id !== "mock") return res.status(404).json({ message: "Not found" });
+    // only references we issued (TXN_<digits>_<hex>) get this far, so they are safe to echo
+    const attempt = getMockAttempt(req.params.ref);
+    if (!attempt) return res.status(404).json({ message: "Unknown mock payment" });
+    const ref = req.params.ref;
+    res.type("html").send(`<!doctype html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Mock payment</title></head>
+<body style="font-family:system-ui,sans-serif;max-width:420px;margin:48px auto;padding:0 16px;">
+  <h2>Mock payment</h2>
+  <p>Reference <code>${ref}</code><br>Amount <b>&#8377;${attempt.amountInr}</b></p>
+  <form method="post" style="display:flex;gap:8px;">
+    ${MOCK_OUTCOMES.map((o) => `<button name="outcome" value="${o}" style="padding:8px 12px;">${o}</button>`).join("")}
+  </form>
+</body></html>`);
+  });
 
-      return res.redirect(`${frontendCart}?payment=success`);
+  app.post("/api/payments/mock/:ref", async (req, res) => {
+    try {
+      if ((await activePaymentProvider()).id !== "mock") return res.status(404).json({ message: "Not found" });
+      res.redirect(303, completeMockPayment(req.params.ref, req.body?.outcome));
     } catch (error: any) {
-      console.error("PhonePe callback error:", error);
-      const redirectBase = process.env.PHONEPE_REDIRECT_URL_BASE || "http://localhost:5173";
-      return res.redirect(`${redirectBase.replace(/\/$/, "")}/cart?payment=failure`);
+      if (error instanceof PaymentError) return res.status(error.status).json({ message: error.message });
+      res.status(500).json({ message: "Error completing mock payment" });
     }
   });
 
-  app.post("/api/orders/verify-copay", async (req, res) => {
+  // Points statement for the signed-in employee
+  app.get("/api/points/statement", async (req, res) => {
     try {
-      const {
-        merchantTransactionId,
-        merchantOrderId,
-        deliveryMethod = "office",
-        deliveryAddress = null,
-      } = req.body;
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      const transactions = await storage.getPointsTransactions(auth.employee.id);
+      res.json({ balance: auth.employee.points ?? 0, transactions });
+    } catch {
+      res.status(500).json({ message: "Error fetching points statement" });
+    }
+  });
 
-      const txnId = merchantTransactionId || merchantOrderId;
-      if (!txnId) return res.status(400).json({ message: "Missing merchantTransactionId" });
+  // Pickup points offered at checkout; full ones are listed but can't be picked
+  app.get("/api/office-locations", async (req, res) => {
+    try {
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      const [locations, open] = await Promise.all([storage.getOfficeLocations(), storage.getOpenPickupCounts()]);
+      res.json(
+        locations
+          .filter((l) => l.isActive)
+          .map((l) => ({
+            id: l.id,
+            name: l.name,
+            address: l.address,
+            pickupHours: l.pickupHours,
+            full: l.capacity != null && (open.get(l.id) ?? 0) >= l.capacity,
+          }))
+      );
+    } catch {
+      res.status(500).json({ message: "Error fetching office locations" });
+    }
+  });
 
-      const merchantId = process.env.PHONEPE_MERCHANT_ID;
-      const saltKey = process.env.PHONEPE_SALT_KEY;
-      const saltIndex = process.env.PHONEPE_SALT_INDEX || "1";
-      const apiUrl = process.env.PHONEPE_API_URL || "https://api-preprod.phonepe.com/apis/pg-sandbox";
+  // Order email categories the signed-in employee has switched off
+  app.get("/api/email-preferences", async (req, res) => {
+    try {
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      res.json({ optOuts: auth.employee.emailOptOuts });
+    } catch {
+      res.status(500).json({ message: "Error fetching email preferences" });
+    }
+  });
 
-      if (!merchantId || !saltKey) {
-        return res.status(500).json({ message: "PhonePe not configured" });
+  // Body: { optOuts: OrderEmailCategory[] } — the full list, replacing the saved one
+  app.put("/api/email-preferences", async (req, res) => {
+    try {
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      const optOuts = req.body?.optOuts;
+      if (!Array.isArray(optOuts) || !optOuts.every(isOrderEmailCategory)) {
+        return res.status(400).json({ message: `optOuts must list categories from: ${ORDER_EMAIL_CATEGORIES.join(", ")}` });
       }
+      const employee = await storage.updateEmployee(auth.employee.id, { emailOptOuts: Array.from(new Set(optOuts)) });
+      res.json({ optOuts: employee?.emailOptOuts ?? [] });
+    } catch {
+      res.status(500).json({ message: "Error saving email preferences" });
+    }
+  });
 
-      const endpoint = `/pg/v1/status/${merchantId}/${txnId}`;
-      const stringToHash = endpoint + saltKey;
-      const sha256 = crypto.createHash("sha256").update(stringToHash).digest("hex");
-      const xVerify = sha256 + "###" + saltIndex;
+  // Delivery address book for the signed-in employee
+  app.get("/api/addresses", async (req, res) => {
+    try {
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      res.json(await storage.getAddresses(auth.employee.id));
+    } catch {
+      res.status(500).json({ message: "Error fetching addresses" });
+    }
+  });
 
-      const response = await fetch(`${apiUrl}${endpoint}`, {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-          "X-VERIFY": xVerify,
-          "X-MERCHANT-ID": merchantId,
-        },
-      });
+  app.post("/api/addresses", async (req, res) => {
+    try {
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      const address = await storage.createAddress(auth.employee.id, readAddressInput(req.body));
+      res.status(201).json(address);
+    } catch (error: any) {
+      if (error instanceof AddressError) return res.status(error.status).json({ message: error.message });
+      console.error("Address create error:", error);
+      res.status(500).json({ message: "Error saving address" });
+    }
+  });
 
-      const result = await response.json();
+  app.put("/api/addresses/:id", async (req, res) => {
+    try {
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      const { address } = await storage.updateAddress(auth.employee.id, req.params.id, readAddressInput(req.body));
+      res.json(address);
+    } catch (error: any) {
+      if (error instanceof AddressError) return res.status(error.status).json({ message: error.message });
+      console.error("Address update error:", error);
+      res.status(500).json({ message: "Error saving address" });
+    }
+  });
 
-      if (!response.ok || !result?.success || result?.code !== "PAYMENT_SUCCESS") {
-        return res.status(400).json({ message: "Payment not completed", details: result });
-      }
+  app.delete("/api/addresses/:id", async (req, res) => {
+    try {
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      const deleted = await storage.deleteAddress(auth.employee.id, req.params.id);
+      if (!deleted) return res.status(404).json({ message: "Address not found" });
+      res.json({ ok: true });
+    } catch {
+      res.status(500).json({ message: "Error deleting address" });
+    }
+  });
 
+  app.get("/api/orders/my-orders", async (req, res) => {
+    try {
       const token = req.headers.authorization?.replace("Bearer ", "");
-      if (!token) return res.status(401).json({ message: "No token" });
-
+      if (!token) return res.status(401).json({ message: "No token provided" });
       const session = await storage.getSession(token);
       if (!session) return res.status(401).json({ message: "Invalid session" });
+      const orders = await storage.getOrdersByEmployeeId(session.employeeId);
+      const categories = await storage.getAllCategories();
+      const categoryMap = buildCategoryMap(categories);
+      const history = await storage.getOrderStatusHistory(orders.map((o) => o.id));
+      const items = await loadOrderItems(orders, categoryMap);
+      const returns = await storage.listReturnRequests({ orderIds: orders.map((o) => o.id) });
+      const shipments = await loadShipments(orders.map((o) => o.id));
+      const invoices = await storage.listInvoices({ orderIds: orders.map((o) => o.id) });
 
-      const employee = await storage.getEmployee(session.employeeId);
-      if (!employee) return res.status(404).json({ message: "Employee not found" });
-
-      const branding = await storage.getBranding();
-      const maxSelections = branding?.maxSelectionsPerUser ?? 1;
-
-      const employeeOrders = await storage.getOrdersByEmployeeId(session.employeeId);
-      const cartItems = await storage.getCartItems(session.employeeId);
-
-      if (cartItems.length === 0) return res.status(400).json({ message: "Cart is empty" });
-      if (maxSelections !== -1 && employeeOrders.length + cartItems.length > maxSelections) {
-        return res.status(400).json({ message: "Selection limit reached" });
-      }
-
-      const inrPerPoint = parseFloat(branding?.inrPerPoint ?? "1");
-      let totalPointsRequired = 0;
-
-      // ✅ slab-aware points calc
-      for (const item of cartItems) {
-        const product = await storage.getProduct(item.productId);
-        if (!product || (product.stock || 0) < item.quantity) {
-          return res
-            .status(400)
-            .json({ message: `Product ${product?.name || item.productId} unavailable` });
-        }
-
-        const unitPrice = getUnitPriceForQty(product, item.quantity);
-        totalPointsRequired += Math.ceil(unitPrice / inrPerPoint) * item.quantity;
-      }
+      const detailedOrders = await Promise.all(
+        orders.map(async (order) => {
+          const employee = await storage.getEmployee(order.employeeId);
 
-      const userPoints = employee.points ?? 0;
-      if (userPoints >= totalPointsRequired) {
-        return res.status(400).json({ message: "Sufficient points" });
-      }
+          return {
+            order,
+            items: items.get(order.id) ?? [],
+            employee,
+            returns: returns.filter((r) => r.orderId === order.id),
+            shipment: employeeShipmentView(shipments.get(order.id)),
+            invoices: invoiceSummaries(invoices, (i) => i.orderId === order.id),
+            // actor ids are internal; the employee only sees what happened and when
+            statusHistory: history
+              .filter((h) => h.orderId === order.id)
+              .map(({ fromStatus, toStatus, note, createdAt }) => ({ fromStatus, toStatus, note, createdAt })),
+          };
+        })
+      );
+      res.json(detailedOrders);
+    } catch {
+      res.status(500).json({ message: "Error fetching orders" });
+    }
+  });
 
-      const deficitPoints = totalPointsRequired - userPoints;
-      const copayInr = Math.ceil(deficitPoints * inrPerPoint);
+  // Employee self-cancel: own orders only, before packing and within the branding window
+  app.post("/api/orders/:id/cancel", async (req, res) => {
+    try {
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
 
-      const paidAmount = (result?.data?.amount ?? 0) / 100;
-      if (paidAmount !== copayInr) {
-        return res.status(400).json({ message: "Amount mismatch", expected: copayInr, paid: paidAmount });
+      const existing = await storage.getOrder(req.params.id);
+      if (!existing || existing.employeeId !== auth.employee.id) {
+        return res.status(404).json({ message: "Order not found" });
       }
-
-      const orders: any[] = [];
-      for (const item of cartItems) {
-        const product = await storage.getProduct(item.productId);
-        if (!product) continue;
-
-        await storage.updateProduct(item.productId, { stock: (product.stock || 0) - item.quantity });
-
-        const unitPrice = getUnitPriceForQty(product, item.quantity);
-        const usedPoints = Math.ceil(unitPrice / inrPerPoint) * item.quantity;
-
-        const order = await storage.createOrder({
-          employeeId: employee.id,
-          productId: item.productId,
-          selectedColor: item.selectedColor,
-          selectedSize: item.selectedSize,
-          quantity: item.quantity,
-          campaignId: item.campaignId || undefined,
-          metadata: {
-            usedPoints,
-            unitPrice,
-            copayInr,
-            paymentId: result?.data?.transactionId,
-            phonepeOrderId: txnId,
-            deliveryMethod,
-            deliveryAddress,
-          },
-        });
-
-        orders.push({ order, product });
+      const branding = await storage.getBranding();
+      if (!canSelfCancelOrder(existing, branding?.selfCancelWindowHours ?? 24)) {
+        return res.status(409).json({ message: "This order can no longer be cancelled. Please contact support." });
       }
 
-      await storage.updateEmployee(employee.id, { points: 0 });
-      await storage.clearCart(employee.id);
-
-      const updatedEmployee = await storage.getEmployee(employee.id);
-      res.json({ orders, employee: updatedEmployee });
+      const reason = req.body?.reason ? String(req.body.reason).trim().slice(0, 500) : "";
+      const result = await cancelOrderWithRefund(existing.id, {
+        actorEmployeeId: auth.employee.id,
+        note: reason ? `Cancelled by employee: ${reason}` : "Cancelled by employee",
+        byEmployee: true,
+      });
+      notifyOrderStatus(result.order);
+      const employee = await storage.getEmployee(auth.employee.id);
+      res.json({
+        order: result.order,
+        pointsRefunded: result.pointsRefunded,
+        copayRefundInr: result.copayRefundInr,
+        employee,
+      });
     } catch (error: any) {
-      console.error("verify-copay error:", error);
-      res.status(400).json({ message: "Invalid payment", details: error.message });
+      if (error instanceof OrderTransitionError) return res.status(error.status).json({ message: error.message });
+      console.error("Order cancel error:", error);
+      res.status(500).json({ message: "Error cancelling order" });
     }
   });
 
+  // Tax invoice / credit note PDF for the signed-in employee's own order or bulk-buy request
+  app.get("/api/invoices/:id/pdf", async (req, res) => {
+    try {
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || invoice.employeeId !== auth.employee.id) return res.status(404).json({ message: "Invoice not found" });
+      await sendInvoicePdf(res, invoice);
+    } catch (error: any) {
+      console.error("Invoice PDF error:", error);
+      res.status(500).json({ message: "Error generating invoice" });
+    }
+  });
 
-
-
-  app.get("/api/orders/my-orders", async (req, res) => {
+  // Employee raises a return or exchange for a delivered item.
+  // Body: { orderItemId, type, quantity, reason, details?, photos?, exchangeColor?, exchangeSize? }
+  app.post("/api/returns", async (req, res) => {
     try {
-      const token = req.headers.authorization?.replace("Bearer ", "");
-      if (!token) return res.status(401).json({ message: "No token provided" });
-      const session = await storage.getSession(token);
-      if (!session) return res.status(401).json({ message: "Invalid session" });
-      const orders = await storage.getOrdersByEmployeeId(session.employeeId);
-      const categories = await storage.getAllCategories();
-      const categoryMap = buildCategoryMap(categories);
+      const auth = await resolveSessionEmployee(req, res);
+      if (!auth) return;
+
+      const { orderItemId, type, quantity = 1, reason, details, photos = [], exchangeColor, exchangeSize } = req.body || {};
+      if (!orderItemId) return res.status(400).json({ message: "orderItemId is required" });
+      if (!isReturnRequestType(type)) return res.status(400).json({ message: "type must be return or exchange" });
+      const cleanReason = String(reason ?? "").trim().slice(0, 200);
+      if (!cleanReason) return res.status(400).json({ message: "Please give a reason" });
+      const qty = Number(quantity);
+      if (!Number.isInteger(qty) || qty < 1) return res.status(400).json({ message: "Invalid quantity" });
+      if (!Array.isArray(photos) || photos.length > MAX_RETURN_PHOTOS) {
+        return res.status(400).json({ message: `Attach up to ${MAX_RETURN_PHOTOS} photos` });
+      }
+      // photos must be files we stored via /api/upload
+      const cleanPhotos = photos.map(String);
+      if (cleanPhotos.some((p) => !p.startsWith("/uploads/"))) {
+        return res.status(400).json({ message: "Photos must be uploaded first" });
+      }
 
-      const detailedOrders = await Promise.all(
-        orders.map(async (order) => {
-          const product = await storage.getProduct(order.productId);
-          const employee = await storage.getEmployee(order.employeeId);
+      if (type === "exchange") {
+        // ownership and delivery are checked again when the request is stored
+        const item = await storage.getOrderItem(String(orderItemId));
+        const product = item ? await storage.getProduct(item.productId) : undefined;
+        if (!item || !product) return res.status(404).json({ message: "Order item not found" });
 
-          return {
-            order,
-            product: product ? attachCategoriesToProduct(product, categoryMap) : null,
-            employee
-          };
-        })
-      );
-      res.json(detailedOrders);
-    } catch {
-      res.status(500).json({ message: "Error fetching orders" });
+        const color = exchangeColor || item.selectedColor || null;
+        const size = exchangeSize || item.selectedSize || null;
+        if (color && (product.colors ?? []).length > 0 && !(product.colors ?? []).includes(color)) {
+          return res.status(400).json({ message: `${color} is not available for ${product.name}` });
+        }
+        if (size && (product.sizes?.values ?? []).length > 0 && !product.sizes!.values.includes(size)) {
+          return res.status(400).json({ message: `Size ${size} is not available for ${product.name}` });
+        }
+        if (color === (item.selectedColor ?? null) && size === (item.selectedSize ?? null)) {
+          return res.status(400).json({ message: "Choose a different size or colour to exchange for" });
+        }
+      }
+
+      const request = await storage.createReturnRequest({
+        employeeId: auth.employee.id,
+        orderItemId: String(orderItemId),
+        type,
+        quantity: qty,
+        reason: cleanReason,
+        details: details ? String(details).trim().slice(0, 1000) || null : null,
+        photos: cleanPhotos,
+        exchangeColor: exchangeColor ? String(exchangeColor) : null,
+        exchangeSize: exchangeSize ? String(exchangeSize) : null,
+      });
+      res.status(201).json(request);
+    } catch (error: any) {
+      if (error instanceof ReturnRequestError) return res.status(error.status).json({ message: error.message });
+      console.error("Return request error:", error);
+      res.status(500).json({ message: "Error creating return request" });
     }
   });
 
   // Admin Stats
-  app.get("/api/admin/stats", async (_req, res) => {
+  app.get("/api/admin/stats", requirePermission("dashboard.read"), async (_req, res) => {
     try {
       const emps = await storage.getAllEmployees();
       const prods = await storage.getAllProducts();
@@ -1187,8 +1880,9 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
   // Employees Admin
-  app.get("/api/admin/employees", async (_req, res) => {
+  app.get("/api/admin/employees", requirePermission("employees.read"), async (_req, res) => {
     try {
+      await releaseExpiredLocks();
       const emps = await storage.getAllEmployees();
       res.json(emps);
     } catch {
@@ -1196,7 +1890,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/admin/employees", async (req, res) => {
+  app.post("/api/admin/employees", requirePermission("employees.write"), async (req, res) => {
     try {
       const body = insertEmployeeSchema.parse(req.body);
       const email = body.email.trim().toLowerCase();
@@ -1212,7 +1906,9 @@ export async function registerRoutes(app: Express): Promise<void> {
 
       const exists = await storage.getEmployeeByEmail(email);
       if (exists) return res.status(409).json({ message: "Employee already exists (email)" });
-      const employee = await storage.createEmployee({ ...body, email });
+      const { employee: actor } = getAdminContext(res);
+      const employee = await storage.createEmployee({ ...body, email }, { actorEmployeeId: actor.id });
+      await recordAudit(req, res, { action: "employee.create", entityType: "employee", entityId: employee.id, after: employee });
       res.json(employee);
     } catch {
       res.status(400).json({ message: "Invalid employee data" });
@@ -1220,9 +1916,10 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
   // ✅ UPDATED: POST /api/admin/employees/bulk
-  app.post("/api/admin/employees/bulk", async (req, res) => {
+  app.post("/api/admin/employees/bulk", requirePermission("employees.write"), async (req, res) => {
     try {
       const rows = Array.isArray(req.body) ? req.body : [];
+      const { employee: actor } = getAdminContext(res);
       let inserted = 0;
       let skipped = 0;
 
@@ -1237,6 +1934,26 @@ export async function registerRoutes(app: Express): Promise<void> {
         return undefined;
       };
 
+      // optional column in sheet: points, the balance to set; blank leaves it alone
+      const readPoints = (v: any): number | undefined => {
+        if (v === undefined || v === null || String(v).trim() === "") return undefined;
+        const n = Number(v);
+        return Number.isFinite(n) && n >= 0 ? Math.floor(n) : undefined;
+      };
+
+      // ✅ same field-level rule as the edit form: changing a balance needs points.grant
+      if (!hasPermission(res, "points.grant")) {
+        for (const r of rows) {
+          const pts = readPoints(r?.points);
+          if (pts === undefined) continue;
+          const email = r?.email ? String(r.email).trim().toLowerCase() : "";
+          const current = email ? await storage.getEmployeeByEmail(email) : undefined;
+          if (pts !== (current?.points ?? 0)) {
+            return res.status(403).json({ message: "You do not have permission to change points" });
+          }
+        }
+      }
+
       for (const r of rows) {
         try {
           const rawEmail = r.email ? String(r.email).trim().toLowerCase() : "";
@@ -1258,15 +1975,26 @@ export async function registerRoutes(app: Express): Promise<void> {
           const bulkBuyAllowed = toBoolLoose((r as any).bulkBuyAllowed);
 
           if (exists) {
-            const pts = Number((r as any).points);
+            const pts = readPoints((r as any).points);
             const patch: any = {};
 
-            if (Number.isFinite(pts)) patch.points = pts;
             if (bulkBuyAllowed !== undefined) patch.bulkBuyAllowed = bulkBuyAllowed;
 
+            // the sheet sets the balance; the ledger records the difference
+            const pointsChanged =
+              pts !== undefined &&
+              !!(await storage.setPointsBalance(exists.id, pts, { actorEmployeeId: actor.id, note: "Bulk upload" }));
+
             // only write if something actually changed
-            if (Object.keys(patch).length) {
-              await storage.updateEmployee(exists.id, patch);
+            if (Object.keys(patch).length || pointsChanged) {
+              const updated = await storage.updateEmployee(exists.id, patch);
+              await recordAudit(req, res, {
+                action: "employee.bulk_update",
+                entityType: "employee",
+                entityId: exists.id,
+                before: exists,
+                after: updated,
+              });
             }
 
             skipped++;
@@ -1275,21 +2003,30 @@ export async function registerRoutes(app: Express): Promise<void> {
 
           const firstName = String((r as any).firstName || "").trim();
           const lastName = String((r as any).lastName || "").trim();
-          const points = Number.isFinite(Number((r as any).points)) ? Number((r as any).points) : 0;
+          const points = readPoints((r as any).points) ?? 0;
 
           if (!firstName || !lastName) {
             skipped++;
             continue;
           }
 
-          await storage.createEmployee({
-            firstName,
-            lastName,
-            email: rawEmail,
-            points,
-            // ✅ default false if not provided
-            bulkBuyAllowed: bulkBuyAllowed ?? false,
-          } as any);
+          const created = await storage.createEmployee(
+            {
+              firstName,
+              lastName,
+              email: rawEmail,
+              points,
+              // ✅ default false if not provided
+              bulkBuyAllowed: bulkBuyAllowed ?? false,
+            } as any,
+            { actorEmployeeId: actor.id, note: "Bulk upload" }
+          );
+          await recordAudit(req, res, {
+            action: "employee.bulk_create",
+            entityType: "employee",
+            entityId: created.id,
+            after: created,
+          });
 
           inserted++;
         } catch {
@@ -1304,7 +2041,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
 
-  app.put("/api/admin/employees/:id", async (req, res) => {
+  app.put("/api/admin/employees/:id", requirePermission("employees.write", "points.grant", "roles.assign"), async (req, res) => {
     try {
       const { id } = req.params;
 
@@ -1344,21 +2081,55 @@ export async function registerRoutes(app: Express): Promise<void> {
 
       // ✅ role update
       if (body.role !== undefined) {
-        const role = String(body.role || "").trim().toLowerCase();
-        const allowed = ["user", "admin", "procurement"];
-        if (!allowed.includes(role)) {
-          return res.status(400).json({ message: "Invalid role. Allowed: user, admin, procurement" });
+        const role = employeeRoleSchema.safeParse(String(body.role || "").trim().toLowerCase());
+        if (!role.success) {
+          return res.status(400).json({
+            message: `Invalid role. Allowed: ${employeeRoleSchema.options.join(", ")}`,
+          });
         }
-        updates.role = role;
+        updates.role = role.data;
       }
 
       if (Object.keys(updates).length === 0) {
         return res.status(400).json({ message: "No valid fields to update" });
       }
 
-      const updated = await storage.updateEmployee(id, updates);
+      const current = await storage.getEmployee(id);
+      if (!current) return res.status(404).json({ message: "Employee not found" });
+
+      // ✅ field-level permissions: only fields that actually change are checked
+      const FIELD_PERMISSION: Record<string, AdminPermission> = {
+        firstName: "employees.write",
+        lastName: "employees.write",
+        email: "employees.write",
+        bulkBuyAllowed: "employees.write",
+        points: "points.grant",
+        role: "roles.assign",
+      };
+      for (const [field, value] of Object.entries(updates)) {
+        if ((current as any)[field] === value) {
+          delete updates[field];
+          continue;
+        }
+        if (!hasPermission(res, FIELD_PERMISSION[field])) {
+          return res.status(403).json({ message: `You do not have permission to change ${field}` });
+        }
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return res.json(current);
+      }
+
+      const { points: targetPoints, ...fields } = updates;
+      if (targetPoints !== undefined) {
+        const { employee: actor } = getAdminContext(res);
+        await storage.setPointsBalance(current.id, targetPoints, { actorEmployeeId: actor.id, note: "Balance set by admin" });
+      }
+
+      const updated = await storage.updateEmployee(id, fields);
       if (!updated) return res.status(404).json({ message: "Employee not found" });
 
+      await recordAudit(req, res, { action: "employee.update", entityType: "employee", entityId: id, before: current, after: updated });
       res.json(updated);
     } catch (error: any) {
       console.error("Employee update error:", error);
@@ -1367,33 +2138,190 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
 
-  app.post("/api/admin/employees/:id/unlock", async (req, res) => {
+  app.post("/api/admin/employees/:id/unlock", requirePermission("employees.write"), async (req, res) => {
     try {
       const { id } = req.params;
       const emp = await storage.getEmployee(id);
       if (!emp) return res.status(404).json({ message: "Employee not found" });
-      const updated = await storage.updateEmployee(id, { loginAttempts: 0, isLocked: false });
+      const { employee: actor } = getAdminContext(res);
+      const updated = emp.isLocked
+        ? await storage.unlockEmployee(id, { reason: "Unlocked by admin", actorEmployeeId: actor.id })
+        : await storage.updateEmployee(id, { loginAttempts: 0 });
+      await recordAudit(req, res, { action: "employee.unlock", entityType: "employee", entityId: id, before: emp, after: updated });
       res.json(updated);
     } catch {
       res.status(500).json({ message: "Error unlocking employee" });
     }
   });
 
+  app.get("/api/admin/employees/:id/sessions", requirePermission("employees.read"), async (req, res) => {
+    try {
+      const list = await storage.getSessionsByEmployeeId(req.params.id);
+      res.json(list.map((s) => toDeviceView(s, getBearerToken(req))));
+    } catch {
+      res.status(500).json({ message: "Error fetching sessions" });
+    }
+  });
+
+  // e.g. offboarding: sign the employee out on every device
+  app.delete("/api/admin/employees/:id/sessions", requirePermission("employees.write"), async (req, res) => {
+    try {
+      const emp = await storage.getEmployee(req.params.id);
+      if (!emp) return res.status(404).json({ message: "Employee not found" });
+      const count = await storage.deleteSessionsByEmployeeId(emp.id);
+      await recordAudit(req, res, {
+        action: "employee.sessions_revoke",
+        entityType: "employee",
+        entityId: emp.id,
+        after: { revokedSessions: count },
+      });
+      res.json({ message: "Sessions revoked", count });
+    } catch {
+      res.status(500).json({ message: "Error revoking sessions" });
+    }
+  });
+
+  app.get("/api/admin/employees/:id/lock-events", requirePermission("employees.read"), async (req, res) => {
+    try {
+      const events = await storage.getEmployeeLockEvents(req.params.id);
+      res.json(events);
+    } catch {
+      res.status(500).json({ message: "Error fetching lock history" });
+    }
+  });
+
+  // Points ledger per employee; ledgerBalance should always equal the cached balance
+  app.get("/api/admin/employees/:id/points", requirePermission("employees.read"), async (req, res) => {
+    try {
+      const employee = await storage.getEmployee(req.params.id);
+      if (!employee) return res.status(404).json({ message: "Employee not found" });
+
+      const [transactions, ledgerBalance] = await Promise.all([
+        storage.getPointsTransactions(employee.id),
+        storage.getPointsLedgerBalance(employee.id),
+      ]);
+      res.json({ balance: employee.points ?? 0, ledgerBalance, transactions });
+    } catch {
+      res.status(500).json({ message: "Error fetching points ledger" });
+    }
+  });
+
+  // Body: { type: "grant"|"expire"|"adjust"|"transfer", amount, note?, toEmail? (transfer) }
+  // amount is positive for grant/expire/transfer; signed for adjust
+  app.post("/api/admin/employees/:id/points", requirePermission("points.grant"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { type, note } = req.body || {};
+      const amount = Math.trunc(Number(req.body?.amount));
+      const { employee: actor } = getAdminContext(res);
+
+      if (!["grant", "expire", "adjust", "transfer"].includes(type)) {
+        return res.status(400).json({ message: "Invalid type" });
+      }
+      if (!Number.isFinite(amount) || amount === 0 || (type !== "adjust" && amount < 0)) {
+        return res.status(400).json({ message: "Invalid amount" });
+      }
+
+      const employee = await storage.getEmployee(id);
+      if (!employee) return res.status(404).json({ message: "Employee not found" });
+      const cleanNote = note ? String(note).trim().slice(0, 500) || null : null;
+
+      if (type === "transfer") {
+        const toEmail = String(req.body?.toEmail || "").trim().toLowerCase();
+        const recipient = toEmail ? await storage.getEmployeeByEmail(toEmail) : undefined;
+        if (!recipient) return res.status(404).json({ message: "Recipient not found" });
+        if (recipient.id === employee.id) return res.status(400).json({ message: "Cannot transfer to the same employee" });
+
+        const result = await storage.transferPoints({
+          fromEmployeeId: employee.id,
+          toEmployeeId: recipient.id,
+          amount,
+          actorEmployeeId: actor.id,
+          note: cleanNote,
+        });
+        if (!result) return res.status(400).json({ message: "Insufficient points" });
+
+        await recordAudit(req, res, {
+          action: "points.transfer",
+          entityType: "points_transaction",
+          entityId: result.debit.id,
+          after: result.debit,
+        });
+        return res.json(result.debit);
+      }
+
+      const txn = await storage.postPointsTransaction({
+        employeeId: employee.id,
+        type,
+        amount: type === "expire" ? -amount : amount,
+        actorEmployeeId: actor.id,
+        note: cleanNote,
+      });
+      if (!txn) return res.status(400).json({ message: "Insufficient points" });
+
+      await recordAudit(req, res, {
+        action: `points.${type}`,
+        entityType: "points_transaction",
+        entityId: txn.id,
+        after: txn,
+      });
+      res.json(txn);
+    } catch (error: any) {
+      console.error("Points transaction error:", error);
+      res.status(500).json({ message: "Error posting points transaction", details: error.message });
+    }
+  });
+
+  // Audit log
+  // Query: actorEmail, entityType, entityId, action, from, to (ISO dates), limit
+  app.get("/api/admin/audit-events", requirePermission("audit.read"), async (req, res) => {
+    try {
+      const q = (key: string) => {
+        const v = req.query[key];
+        return typeof v === "string" && v.trim() ? v.trim() : undefined;
+      };
+      const date = (key: string) => {
+        const v = q(key);
+        const d = v ? new Date(v) : undefined;
+        return d && !isNaN(d.getTime()) ? d : undefined;
+      };
+
+      const limit = Math.min(Math.max(Number(q("limit")) || 500, 1), 5000);
+      const events = await storage.listAuditEvents({
+        actorEmail: q("actorEmail")?.toLowerCase(),
+        entityType: q("entityType"),
+        entityId: q("entityId"),
+        action: q("action"),
+        from: date("from"),
+        to: date("to"),
+        limit,
+      });
+      res.json(events);
+    } catch {
+      res.status(500).json({ message: "Error fetching audit log" });
+    }
+  });
+
   // Orders Admin
-  app.get("/api/admin/orders", async (_req, res) => {
+  app.get("/api/admin/orders", requirePermission("orders.read"), async (_req, res) => {
     try {
       const ords = await storage.getAllOrders();
       const categories = await storage.getAllCategories();
       const categoryMap = buildCategoryMap(categories);
+      const items = await loadOrderItems(ords, categoryMap);
+      const shipments = await storage.getShipments(ords.map((o) => o.id));
+      const invoices = await storage.listInvoices({ orderIds: ords.map((o) => o.id) });
 
       const withDetails = await Promise.all(
-        ords.map(async (o) => {
-          const product = await storage.getProduct(o.productId);
+        // the handover code stays with the employee; the desk only sees it when it is presented
+        ords.map(async ({ handoverCode, ...o }) => {
           const employee = await storage.getEmployee(o.employeeId);
 
           return {
             ...o,
-            product: product ? attachCategoriesToProduct(product, categoryMap) : null,
+            items: items.get(o.id) ?? [],
+            shipment: shipments.find((s) => s.orderId === o.id) ?? null,
+            invoices: invoiceSummaries(invoices, (i) => i.orderId === o.id),
             employee
           };
         })
@@ -1404,7 +2332,318 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/admin/products", async (req, res) => {
+  app.get("/api/admin/orders/:id/history", requirePermission("orders.read"), async (req, res) => {
+    try {
+      const history = await storage.getOrderStatusHistory([req.params.id]);
+      res.json(history);
+    } catch {
+      res.status(500).json({ message: "Error fetching order history" });
+    }
+  });
+
+  // Body: { status, note? }
+  app.put("/api/admin/orders/:id/status", requirePermission("orders.write"), async (req, res) => {
+    try {
+      const { status, note } = req.body || {};
+      if (!isOrderStatus(status)) {
+        return res.status(400).json({ message: `Invalid status. Allowed: ${ORDER_STATUSES.join(", ")}` });
+      }
+      const { employee: actor } = getAdminContext(res);
+
+      const order = await moveOrder(req, res, req.params.id, {
+        status,
+        actorEmployeeId: actor.id,
+        note: note ? String(note).trim().slice(0, 500) || null : null,
+      });
+      res.json(order);
+    } catch (error: any) {
+      if (error instanceof OrderTransitionError) return res.status(error.status).json({ message: error.message });
+      console.error("Order status error:", error);
+      res.status(500).json({ message: "Error updating order status", details: error.message });
+    }
+  });
+
+  // Body: { ids: string[], status, note? } — each order moves on its own; failures are reported, not fatal
+  app.post("/api/admin/orders/status", requirePermission("orders.write"), async (req, res) => {
+    try {
+      const { ids, status, note } = req.body || {};
+      if (!Array.isArray(ids) || ids.length === 0) return res.status(400).json({ message: "No orders selected" });
+      if (!isOrderStatus(status)) {
+        return res.status(400).json({ message: `Invalid status. Allowed: ${ORDER_STATUSES.join(", ")}` });
+      }
+      const { employee: actor } = getAdminContext(res);
+      const cleanNote = note ? String(note).trim().slice(0, 500) || null : null;
+
+      const updated: string[] = [];
+      const failed: { id: string; message: string }[] = [];
+      for (const id of Array.from(new Set(ids.map(String)))) {
+        try {
+          await moveOrder(req, res, id, { status, actorEmployeeId: actor.id, note: cleanNote });
+          updated.push(id);
+        } catch (e: any) {
+          failed.push({ id, message: e instanceof OrderTransitionError ? e.message : "Update failed" });
+        }
+      }
+
+      res.json({ updated, failed });
+    } catch (error: any) {
+      console.error("Bulk order status error:", error);
+      res.status(500).json({ message: "Error updating order status", details: error.message });
+    }
+  });
+
+  // Distribution desk. Body: { code } as typed or scanned; shows the order before it is handed over
+  app.post("/api/admin/handover/lookup", requirePermission("orders.write"), async (req, res) => {
+    try {
+      const code = normalizeHandoverCode(String(req.body?.code ?? ""));
+      if (!isHandoverCode(code)) return res.status(400).json({ message: "That is not a pickup code" });
+      const order = await storage.getOrderByHandoverCode(code);
+      if (!order) return res.status(404).json({ message: "No order matches this code" });
+      res.json(await handoverDeskView(order));
+    } catch (error: any) {
+      console.error("Handover lookup error:", error);
+      res.status(500).json({ message: "Error looking up pickup code", details: error.message });
+    }
+  });
+
+  // Body: { code }. Marks the order delivered and records who handed it over; a repeat scan gets 409
+  app.post("/api/admin/handover", requirePermission("orders.write"), async (req, res) => {
+    try {
+      const code = normalizeHandoverCode(String(req.body?.code ?? ""));
+      if (!isHandoverCode(code)) return res.status(400).json({ message: "That is not a pickup code" });
+      const { employee: actor } = getAdminContext(res);
+
+      const { before, order } = await storage.recordHandover(code, actor.id);
+      await recordAudit(req, res, { action: "order.handover", entityType: "order", entityId: order.id, before, after: order });
+      notifyOrderStatus(order);
+      res.json(await handoverDeskView(order));
+    } catch (error: any) {
+      if (error instanceof OrderTransitionError) return res.status(error.status).json({ message: error.message });
+      console.error("Handover error:", error);
+      res.status(500).json({ message: "Error recording handover", details: error.message });
+    }
+  });
+
+  // Retries the gateway refund of a cancelled order's copay share
+  app.post("/api/admin/orders/:id/refund", requirePermission("orders.write"), async (req, res) => {
+    try {
+      const before = await storage.getOrder(req.params.id);
+      if (!before) return res.status(404).json({ message: "Order not found" });
+      const c = before.metadata?.cancellation;
+      if (!c || c.copayRefundInr <= 0) return res.status(400).json({ message: "Nothing to refund for this order" });
+      if (c.refundStatus === "initiated") return res.status(409).json({ message: "Refund already initiated" });
+
+      const order = await refundCopay(before);
+      await recordAudit(req, res, { action: "order.refund", entityType: "order", entityId: order.id, before, after: order });
+      res.json(order);
+    } catch (error: any) {
+      console.error("Order refund error:", error);
+      res.status(500).json({ message: "Error refunding order", details: error.message });
+    }
+  });
+
+  // Invoices
+  app.get("/api/admin/invoices/:id/pdf", requirePermission("orders.read", "bulkbuy.read"), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) return res.status(404).json({ message: "Invoice not found" });
+      if (!hasPermission(res, invoice.orderId ? "orders.read" : "bulkbuy.read")) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      await sendInvoicePdf(res, invoice);
+    } catch (error: any) {
+      console.error("Invoice PDF error:", error);
+      res.status(500).json({ message: "Error generating invoice" });
+    }
+  });
+
+  // Issues the invoice of a copay order that doesn't have one yet (older orders, or a failed attempt at checkout)
+  app.post("/api/admin/orders/:id/invoice", requirePermission("orders.write"), async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) return res.status(404).json({ message: "Order not found" });
+      const invoice = await issueOrderInvoice(order);
+      if (!invoice) return res.status(400).json({ message: "Only copay orders are invoiced" });
+      await recordAudit(req, res, { action: "invoice.issue", entityType: "invoice", entityId: invoice.id, after: invoice });
+      res.json(invoice);
+    } catch (error: any) {
+      console.error("Order invoice error:", error);
+      res.status(500).json({ message: "Error issuing invoice", details: error.message });
+    }
+  });
+
+  // Shipments
+  app.get("/api/admin/orders/:id/shipment", requirePermission("orders.read"), async (req, res) => {
+    try {
+      const shipments = await loadShipments([req.params.id]);
+      res.json(shipments.get(req.params.id) ?? null);
+    } catch {
+      res.status(500).json({ message: "Error fetching shipment" });
+    }
+  });
+
+  // Body: { courier, awb, dispatchedAt?, expectedAt?, status?, location?, eventAt? }
+  app.put("/api/admin/orders/:id/shipment", requirePermission("orders.write"), async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) return res.status(404).json({ message: "Order not found" });
+      const { employee: actor } = getAdminContext(res);
+
+      const result = await saveShipment(req, res, order, readShipmentInput(req.body), actor.id);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof ShipmentError || error instanceof OrderTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Shipment save error:", error);
+      res.status(500).json({ message: "Error saving shipment", details: error.message });
+    }
+  });
+
+  // Body: { description, location?, occurredAt? }
+  app.post("/api/admin/orders/:id/shipment/events", requirePermission("orders.write"), async (req, res) => {
+    try {
+      const [shipment] = await storage.getShipments([req.params.id]);
+      if (!shipment) return res.status(404).json({ message: "Add the courier and AWB first" });
+
+      const description = String(req.body?.description ?? "").trim().slice(0, 200);
+      if (!description) return res.status(400).json({ message: "Description is required" });
+      const { employee: actor } = getAdminContext(res);
+
+      const event = await storage.addShipmentEvent(shipment.id, {
+        description,
+        location: String(req.body?.location ?? "").trim().slice(0, 200) || null,
+        occurredAt: parseShipmentDate(req.body?.occurredAt, "event date") ?? new Date(),
+        actorEmployeeId: actor.id,
+      });
+      if (!event) return res.status(409).json({ message: "This event is already recorded" });
+
+      await recordAudit(req, res, { action: "shipment.event", entityType: "shipment", entityId: shipment.id, after: event });
+      res.json(event);
+    } catch (error: any) {
+      if (error instanceof ShipmentError) return res.status(error.status).json({ message: error.message });
+      console.error("Shipment event error:", error);
+      res.status(500).json({ message: "Error adding tracking event", details: error.message });
+    }
+  });
+
+  /**
+   * Courier AWB import. Body: { rows: [{ orderId: "ORD-2026-001", courier, awb,
+   * dispatchedAt?, expectedAt?, status?, location?, eventAt? }] }. Each row is
+   * applied on its own; failures are reported by row number, not fatal.
+   */
+  app.post("/api/admin/shipments/import", requirePermission("orders.write"), async (req, res) => {
+    try {
+      const rows = req.body?.rows;
+      if (!Array.isArray(rows) || rows.length === 0) return res.status(400).json({ message: "No rows to import" });
+      if (rows.length > 2000) return res.status(400).json({ message: "Import at most 2000 rows at a time" });
+      const { employee: actor } = getAdminContext(res);
+
+      const summary = { created: 0, updated: 0, shipped: 0, events: 0 };
+      const failed: { row: number; orderId: string; message: string }[] = [];
+      for (let i = 0; i < rows.length; i++) {
+        const row = rows[i];
+        const orderId = String(row?.orderId ?? "").trim().toUpperCase();
+        try {
+          const order = orderId ? await storage.getOrderByOrderId(orderId) : undefined;
+          if (!order) throw new ShipmentError(orderId ? "Order not found" : "Order ID is required", 404);
+
+          const result = await saveShipment(req, res, order, readShipmentInput(row), actor.id);
+          summary[result.created ? "created" : "updated"]++;
+          if (result.shipped) summary.shipped++;
+          if (result.event) summary.events++;
+        } catch (e: any) {
+          const known = e instanceof ShipmentError || e instanceof OrderTransitionError;
+          failed.push({ row: i + 1, orderId, message: known ? e.message : "Import failed" });
+        }
+      }
+
+      res.json({ ...summary, failed });
+    } catch (error: any) {
+      console.error("Shipment import error:", error);
+      res.status(500).json({ message: "Error importing shipments", details: error.message });
+    }
+  });
+
+  // Returns & exchanges. Query: status?
+  app.get("/api/admin/returns", requirePermission("orders.read"), async (req, res) => {
+    try {
+      const status = req.query.status ? String(req.query.status) : undefined;
+      if (status && !RETURN_REQUEST_STATUSES.includes(status as ReturnRequestStatus)) {
+        return res.status(400).json({ message: `Invalid status. Allowed: ${RETURN_REQUEST_STATUSES.join(", ")}` });
+      }
+      const requests = await storage.listReturnRequests({ status: status as ReturnRequestStatus | undefined });
+
+      const orders = await storage.getOrdersByIds(Array.from(new Set(requests.map((r) => r.orderId))));
+      const items = await loadOrderItems(orders);
+      const employees = new Map<string, Employee | undefined>();
+      for (const id of Array.from(new Set(requests.map((r) => r.employeeId)))) {
+        employees.set(id, await storage.getEmployee(id));
+      }
+
+      res.json(
+        requests.map((r) => ({
+          ...r,
+          order: orders.find((o) => o.id === r.orderId) ?? null,
+          item: items.get(r.orderId)?.find((i) => i.id === r.orderItemId) ?? null,
+          employee: employees.get(r.employeeId) ?? null,
+        }))
+      );
+    } catch (error: any) {
+      console.error("Returns list error:", error);
+      res.status(500).json({ message: "Error fetching return requests" });
+    }
+  });
+
+  // Body: { decision: "approve" | "reject", note? }
+  app.put("/api/admin/returns/:id/decision", requirePermission("orders.write"), async (req, res) => {
+    try {
+      const { decision, note } = req.body || {};
+      if (decision !== "approve" && decision !== "reject") {
+        return res.status(400).json({ message: "decision must be approve or reject" });
+      }
+      const { employee: actor } = getAdminContext(res);
+      const { before, request } = await storage.decideReturnRequest(req.params.id, {
+        approve: decision === "approve",
+        actorEmployeeId: actor.id,
+        note: note ? String(note).trim().slice(0, 500) || null : null,
+      });
+      await recordAudit(req, res, {
+        action: `return_request.${decision}`,
+        entityType: "return_request",
+        entityId: request.id,
+        before,
+        after: request,
+      });
+      res.json(request);
+    } catch (error: any) {
+      if (error instanceof ReturnRequestError) return res.status(error.status).json({ message: error.message });
+      console.error("Return decision error:", error);
+      res.status(500).json({ message: "Error updating return request" });
+    }
+  });
+
+  // Body: { note? } — the returned unit arrived and goes back into stock
+  app.post("/api/admin/returns/:id/receive", requirePermission("orders.write"), async (req, res) => {
+    try {
+      const note = req.body?.note ? String(req.body.note).trim().slice(0, 500) || null : null;
+      const { before, request } = await storage.markReturnReceived(req.params.id, { note });
+      await recordAudit(req, res, {
+        action: "return_request.receive",
+        entityType: "return_request",
+        entityId: request.id,
+        before,
+        after: request,
+      });
+      res.json(request);
+    } catch (error: any) {
+      if (error instanceof ReturnRequestError) return res.status(error.status).json({ message: error.message });
+      console.error("Return receive error:", error);
+      res.status(500).json({ message: "Error updating return request" });
+    }
+  });
+
+  app.post("/api/admin/products", requirePermission("products.write"), async (req, res) => {
     try {
       const raw = { ...req.body };
 
@@ -1418,6 +2657,7 @@ export async function registerRoutes(app: Express): Promise<void> {
       const productData = insertProductSchema.parse(raw);
 
       const product = await storage.createProduct(productData);
+      await recordAudit(req, res, { action: "product.create", entityType: "product", entityId: product.id, after: product });
       res.json(product);
     } catch (error: any) {
       console.error("Create product error:", error);
@@ -1425,7 +2665,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.put("/api/admin/products/:id", async (req, res) => {
+  app.put("/api/admin/products/:id", requirePermission("products.write"), async (req, res) => {
     try {
       const updates = { ...req.body };
 
@@ -1438,12 +2678,20 @@ export async function registerRoutes(app: Express): Promise<void> {
         }
       }
 
+      if ("hsnCode" in updates) {
+        const parsed = insertProductSchema.shape.hsnCode.safeParse(updates.hsnCode || null);
+        if (!parsed.success) return res.status(400).json({ message: parsed.error.issues[0].message });
+        updates.hsnCode = parsed.data;
+      }
+
       // ✅ recommended: validate partial payload (prevents bad writes)
       // const validated = insertProductSchema.partial().parse(updates);
 
+      const before = await storage.getProduct(req.params.id);
       const product = await storage.updateProduct(req.params.id, updates);
       if (!product) return res.status(404).json({ message: "Product not found" });
 
+      await recordAudit(req, res, { action: "product.update", entityType: "product", entityId: product.id, before, after: product });
       res.json(product);
     } catch (error: any) {
       console.error("Update product error:", error);
@@ -1454,10 +2702,12 @@ export async function registerRoutes(app: Express): Promise<void> {
 
 
 
-  app.delete("/api/admin/products/:id", async (req, res) => {
+  app.delete("/api/admin/products/:id", requirePermission("products.write"), async (req, res) => {
     try {
+      const before = await storage.getProduct(req.params.id);
       const ok = await storage.deleteProduct(req.params.id);
       if (!ok) return res.status(404).json({ message: "Product not found" });
+      await recordAudit(req, res, { action: "product.delete", entityType: "product", entityId: req.params.id, before });
       res.json({ ok: true });
     } catch {
       res.status(500).json({ message: "Error deleting product" });
@@ -1474,15 +2724,250 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.put("/api/admin/branding", async (req, res) => {
+  app.put("/api/admin/branding", requirePermission("branding.write"), async (req, res) => {
     try {
+      const { gstin, gstStateCode, supportEmail, emailCc, paymentProvider: provider } = req.body || {};
+      if (provider !== undefined && !isPaymentProviderId(provider)) {
+        return res.status(400).json({ message: "Unknown payment gateway" });
+      }
+      const mockDisabled = provider === "mock" ? paymentProvider("mock").configError() : null;
+      if (mockDisabled) return res.status(400).json({ message: mockDisabled });
+      if (supportEmail && !EMAIL_PATTERN.test(String(supportEmail))) {
+        return res.status(400).json({ message: "Support email is not a valid address" });
+      }
+      if (emailCc !== undefined && (!Array.isArray(emailCc) || !emailCc.every((a) => EMAIL_PATTERN.test(String(a))))) {
+        return res.status(400).json({ message: "CC addresses must be a list of valid email addresses" });
+      }
+      if (gstin && !GSTIN_PATTERN.test(String(gstin))) {
+        return res.status(400).json({ message: "GSTIN must be 15 characters, e.g. 29ABCDE1234F1Z5" });
+      }
+      if (gstStateCode && !GST_STATES.some((s) => s.code === gstStateCode)) {
+        return res.status(400).json({ message: "Unknown GST state code" });
+      }
+
+      const before = await storage.getBranding();
       const b = await storage.updateBranding(req.body);
+      await recordAudit(req, res, { action: "branding.update", entityType: "branding", entityId: b.id, before, after: b });
       res.json(b);
     } catch {
       res.status(500).json({ message: "Error updating branding" });
     }
   });
 
+  // Email templates: the defaults merged with any saved override
+  app.get("/api/admin/email-templates", requirePermission("emails.read"), async (_req, res) => {
+    try {
+      const saved = await storage.getEmailTemplates();
+      res.json(
+        EMAIL_TEMPLATE_KEYS.map((key) => {
+          const row = saved.find((t) => t.key === key);
+          return {
+            key,
+            ...(row
+              ? { subject: row.subject, fromName: row.fromName, html: row.html, text: row.text }
+              : EMAIL_TEMPLATES[key].defaults),
+            customized: !!row,
+            updatedAt: row?.updatedAt ?? null,
+          };
+        })
+      );
+    } catch {
+      res.status(500).json({ message: "Error fetching email templates" });
+    }
+  });
+
+  // Body: { subject, fromName, html, text }
+  app.put("/api/admin/email-templates/:key", requirePermission("emails.write"), async (req, res) => {
+    try {
+      const { key } = req.params;
+      if (!isEmailTemplateKey(key)) return res.status(404).json({ message: "Unknown email template" });
+      const parsed = readTemplateContent(req.body);
+      if ("error" in parsed) return res.status(400).json({ message: parsed.error });
+
+      const { employee: actor } = getAdminContext(res);
+      const before = await storage.getEmailTemplate(key);
+      const saved = await storage.saveEmailTemplate(key, parsed.content, actor.id);
+      await recordAudit(req, res, {
+        action: "email_template.update",
+        entityType: "email_template",
+        entityId: key,
+        before: before ?? EMAIL_TEMPLATES[key].defaults,
+        after: saved,
+      });
+      res.json({ key, ...parsed.content, customized: true, updatedAt: saved.updatedAt });
+    } catch (error: any) {
+      console.error("Email template save error:", error);
+      res.status(500).json({ message: "Error saving email template" });
+    }
+  });
+
+  // Back to the built-in default
+  app.delete("/api/admin/email-templates/:key", requirePermission("emails.write"), async (req, res) => {
+    try {
+      const { key } = req.params;
+      if (!isEmailTemplateKey(key)) return res.status(404).json({ message: "Unknown email template" });
+      const before = await storage.deleteEmailTemplate(key);
+      if (before) {
+        await recordAudit(req, res, {
+          action: "email_template.reset",
+          entityType: "email_template",
+          entityId: key,
+          before,
+          after: EMAIL_TEMPLATES[key].defaults,
+        });
+      }
+      res.json({ ok: true });
+    } catch {
+      res.status(500).json({ message: "Error resetting email template" });
+    }
+  });
+
+  // Body: { subject, fromName, html, text } as being edited; sent with the sample data to the signed-in admin
+  app.post("/api/admin/email-templates/:key/test", requirePermission("emails.write"), async (req, res) => {
+    try {
+      const { key } = req.params;
+      if (!isEmailTemplateKey(key)) return res.status(404).json({ message: "Unknown email template" });
+      const parsed = readTemplateContent(req.body);
+      if ("error" in parsed) return res.status(400).json({ message: parsed.error });
+
+      const { employee: actor } = getAdminContext(res);
+      // straight to SMTP rather than the outbox, so a bad configuration shows up here
+      const rendered = await renderTemplatedEmail(key, EMAIL_TEMPLATES[key].sample, parsed.content);
+      try {
+        await emailService.deliver({ to: actor.email, ...rendered });
+      } catch (e: any) {
+        return res.status(502).json({ message: `The test email could not be sent: ${e?.message || "SMTP error"}` });
+      }
+      res.json({ ok: true, to: actor.email });
+    } catch (error: any) {
+      console.error("Email template test error:", error);
+      res.status(500).json({ message: "Error sending test email" });
+    }
+  });
+
+  // Email delivery log, newest first. Query: status, to, limit
+  app.get("/api/admin/email-outbox", requirePermission("emails.read"), async (req, res) => {
+    try {
+      const status = isEmailOutboxStatus(req.query.status) ? req.query.status : undefined;
+      const to = typeof req.query.to === "string" && req.query.to.trim() ? req.query.to.trim().toLowerCase() : undefined;
+      const limit = Math.min(Math.max(Number(req.query.limit) || 200, 1), 1000);
+      const [messages, counts] = await Promise.all([
+        storage.listEmailOutbox({ status, to, limit }),
+        storage.countEmailOutbox(),
+      ]);
+      res.json({ messages, counts });
+    } catch {
+      res.status(500).json({ message: "Error fetching email log" });
+    }
+  });
+
+  // Sent or failed message back in the queue with fresh retries
+  app.post("/api/admin/email-outbox/:id/resend", requirePermission("emails.write"), async (req, res) => {
+    try {
+      const before = await storage.getEmailOutboxMessage(req.params.id);
+      if (!before) return res.status(404).json({ message: "Email not found" });
+      if (before.templateKey === "otp") return res.status(409).json({ message: "Login codes can't be resent" });
+      const after = await storage.requeueEmail(before.id);
+      if (!after) return res.status(409).json({ message: "This email is already queued" });
+      kickEmailOutbox();
+      await recordAudit(req, res, {
+        action: "email.resend",
+        entityType: "email",
+        entityId: after.id,
+        before: { status: before.status, attempts: before.attempts, lastError: before.lastError },
+        after: { status: after.status, to: after.to, subject: after.subject },
+      });
+      res.json(after);
+    } catch {
+      res.status(500).json({ message: "Error resending email" });
+    }
+  });
+
+  // Copay reconciliation: every payment attempt, its orders, and what needs finance's attention
+  app.get("/api/admin/payments", requirePermission("payments.read"), async (req, res) => {
+    try {
+      const date = (key: string) => {
+        const v = typeof req.query[key] === "string" ? String(req.query[key]).trim() : "";
+        const d = v ? new Date(v) : undefined;
+        return d && !isNaN(d.getTime()) ? d : undefined;
+      };
+      const status = isPaymentStatus(req.query.status) ? req.query.status : undefined;
+      const limit = Math.min(Math.max(Number(req.query.limit) || 500, 1), 5000);
+      const rows = await storage.listPayments({ status, from: date("from"), to: date("to"), limit });
+
+      const employees = new Map((await storage.getAllEmployees()).map((e) => [e.id, e]));
+      const orders = new Map(
+        (await storage.getOrdersByIds(rows.flatMap((p) => p.orderIds ?? []))).map((o) => [o.id, o.orderId])
+      );
+      const payments = rows.map(({ gatewayResponse, cart, ...p }) => {
+        const employee = employees.get(p.employeeId);
+        return {
+          ...p,
+          itemCount: cart.lines.reduce((n, l) => n + l.quantity, 0),
+          employeeName: employee ? `${employee.firstName} ${employee.lastName}`.trim() : null,
+          employeeEmail: employee?.email ?? null,
+          orderNumbers: (p.orderIds ?? []).map((id) => orders.get(id) ?? id),
+        };
+      });
+
+      const sum = (list: typeof rows) => list.reduce((n, p) => n + p.amountInr, 0);
+      const summary = {
+        collectedInr: sum(rows.filter((p) => p.status === "completed")),
+        refundedInr: sum(rows.filter((p) => p.status === "refunded")),
+        pending: rows.filter((p) => p.status === "pending" || p.status === "processing").length,
+        refundFailed: rows.filter((p) => p.status === "refund_failed").length,
+      };
+      res.json({ payments, summary });
+    } catch {
+      res.status(500).json({ message: "Error fetching payments" });
+    }
+  });
+
+  // Asks the gateway again now instead of waiting for the reconciler
+  app.post("/api/admin/payments/:id/check", requirePermission("payments.write"), async (req, res) => {
+    try {
+      const before = await storage.getPayment(req.params.id);
+      if (!before) return res.status(404).json({ message: "Payment not found" });
+      if (before.status !== "pending" && before.status !== "processing") {
+        return res.status(409).json({ message: "This payment is already settled" });
+      }
+      const { payment } = await checkPayment(before);
+      await recordAudit(req, res, {
+        action: "payment.check",
+        entityType: "payment",
+        entityId: payment.id,
+        before: { status: before.status },
+        after: { status: payment.status, orderIds: payment.orderIds, error: payment.error },
+      });
+      res.json(payment);
+    } catch (error: any) {
+      if (error instanceof PaymentError) return res.status(error.status).json({ message: error.message });
+      res.status(500).json({ message: "Error checking payment", details: error.message });
+    }
+  });
+
+  app.post("/api/admin/payments/:id/refund", requirePermission("payments.write"), async (req, res) => {
+    try {
+      const before = await storage.getPayment(req.params.id);
+      if (!before) return res.status(404).json({ message: "Payment not found" });
+      if (before.status !== "refund_failed") {
+        return res.status(409).json({ message: "Only payments whose refund failed can be retried" });
+      }
+      const payment = await retryPaymentRefund(before);
+      await recordAudit(req, res, {
+        action: "payment.refund",
+        entityType: "payment",
+        entityId: payment.id,
+        before: { status: before.status, error: before.error },
+        after: { status: payment.status, refundTxnId: payment.refundTxnId, error: payment.error },
+      });
+      res.json(payment);
+    } catch (error: any) {
+      if (error instanceof PaymentError) return res.status(error.status).json({ message: error.message });
+      res.status(500).json({ message: "Error retrying refund", details: error.message });
+    }
+  });
+
   // Campaigns
   app.get("/api/campaigns", async (req, res) => {
     try {
@@ -1499,7 +2984,7 @@ export async function registerRoutes(app: Express): Promise<void> {
       if (!employee) return res.json([]);
 
       const allowedCampaigns = [];
-      const employeeOrders = await storage.getOrdersByEmployeeId(employee.id);
+      const orderedItems = await storage.getActiveOrderItems(employee.id);
       const cartItems = await storage.getCartItems(employee.id);
 
       for (const campaign of activeCampaigns) {
@@ -1510,7 +2995,7 @@ export async function registerRoutes(app: Express): Promise<void> {
         // 2. Limit Check (Orders + Cart)
         if (campaign.maxProductsPerUser !== null) {
           let usage = 0;
-          employeeOrders.forEach(o => {
+          orderedItems.forEach(o => {
             if (o.campaignId === campaign.id) usage += (o.quantity || 1);
           });
           cartItems.forEach(c => {
@@ -1565,10 +3050,11 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/admin/campaigns", async (req, res) => {
+  app.post("/api/admin/campaigns", requirePermission("campaigns.write"), async (req, res) => {
     try {
       const campaignData = insertCampaignSchema.parse(req.body);
       const campaign = await storage.createCampaign(campaignData);
+      await recordAudit(req, res, { action: "campaign.create", entityType: "campaign", entityId: campaign.id, after: campaign });
       res.json(campaign);
     } catch (error: any) {
       console.error("Campaign creation error:", error);
@@ -1576,13 +3062,15 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.put("/api/admin/campaigns/:id", async (req, res) => {
+  app.put("/api/admin/campaigns/:id", requirePermission("campaigns.write"), async (req, res) => {
     try {
       const { id } = req.params;
       const updates = insertCampaignSchema.partial().parse(req.body);
 
+      const before = await storage.getCampaign(id);
       const campaign = await storage.updateCampaign(id, updates);
       if (!campaign) return res.status(404).json({ message: "Campaign not found" });
+      await recordAudit(req, res, { action: "campaign.update", entityType: "campaign", entityId: id, before, after: campaign });
       res.json(campaign);
     } catch (error: any) {
       console.error("Campaign update error:", error);
@@ -1590,11 +3078,13 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.delete("/api/admin/campaigns/:id", async (req, res) => {
+  app.delete("/api/admin/campaigns/:id", requirePermission("campaigns.write"), async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getCampaign(id);
       const ok = await storage.deleteCampaign(id);
       if (!ok) return res.status(404).json({ message: "Campaign not found" });
+      await recordAudit(req, res, { action: "campaign.delete", entityType: "campaign", entityId: id, before });
       res.json({ ok: true });
     } catch (error: any) {
       console.error("Campaign delete error:", error);
@@ -1602,7 +3092,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/admin/campaigns/:campaignId/products", async (req, res) => {
+  app.post("/api/admin/campaigns/:campaignId/products", requirePermission("campaigns.write"), async (req, res) => {
     try {
       const { campaignId } = req.params;
       const { productId } = req.body;
@@ -1618,6 +3108,12 @@ export async function registerRoutes(app: Express): Promise<void> {
       if (!product) return res.status(404).json({ message: "Product not found" });
 
       const campaignProduct = await storage.addProductToCampaign(campaignId, productId);
+      await recordAudit(req, res, {
+        action: "campaign.product_add",
+        entityType: "campaign",
+        entityId: campaignId,
+        after: { productId, productName: product.name },
+      });
       res.json(campaignProduct);
     } catch (error: any) {
       console.error("Add product to campaign error:", error);
@@ -1625,7 +3121,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.delete("/api/admin/campaigns/:campaignId/products/:productId", async (req, res) => {
+  app.delete("/api/admin/campaigns/:campaignId/products/:productId", requirePermission("campaigns.write"), async (req, res) => {
     try {
       const { campaignId, productId } = req.params;
 
@@ -1639,6 +3135,12 @@ export async function registerRoutes(app: Express): Promise<void> {
       const ok = await storage.removeProductFromCampaign(campaignProduct.campaignProduct.id);
       if (!ok) return res.status(500).json({ message: "Error removing product from campaign" });
 
+      await recordAudit(req, res, {
+        action: "campaign.product_remove",
+        entityType: "campaign",
+        entityId: campaignId,
+        before: { productId, productName: campaignProduct.product.name },
+      });
       res.json({ ok: true });
     } catch (error: any) {
       console.error("Remove product from campaign error:", error);
@@ -1646,7 +3148,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.get("/api/admin/products/:productId/campaigns", async (req, res) => {
+  app.get("/api/admin/products/:productId/campaigns", requirePermission("products.read", "campaigns.read"), async (req, res) => {
     try {
       const { productId } = req.params;
       const campaigns = await storage.getProductCampaigns(productId);
@@ -1657,7 +3159,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.get("/api/admin/product-campaigns", async (_req, res) => {
+  app.get("/api/admin/product-campaigns", requirePermission("products.read", "campaigns.read"), async (_req, res) => {
     try {
       const allProducts = await storage.getAllProducts();
       const result: Record<string, Campaign[]> = {};
@@ -1703,7 +3205,7 @@ export async function registerRoutes(app: Express): Promise<void> {
   });
 
   // Admin Blog Routes
-  app.get("/api/admin/blogs", async (_req, res) => {
+  app.get("/api/admin/blogs", requirePermission("blogs.read"), async (_req, res) => {
     try {
       const blogs = await storage.getAllBlogs();
       res.json(blogs);
@@ -1713,7 +3215,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.get("/api/admin/blogs/:id", async (req, res) => {
+  app.get("/api/admin/blogs/:id", requirePermission("blogs.read"), async (req, res) => {
     try {
       const { id } = req.params;
       const blog = await storage.getBlog(id);
@@ -1725,7 +3227,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/admin/blogs", async (req, res) => {
+  app.post("/api/admin/blogs", requirePermission("blogs.write"), async (req, res) => {
     try {
       const blogData = insertBlogSchema.parse(req.body);
 
@@ -1735,6 +3237,7 @@ export async function registerRoutes(app: Express): Promise<void> {
       };
 
       const blog = await storage.createBlog(dataForDb);
+      await recordAudit(req, res, { action: "blog.create", entityType: "blog", entityId: blog.id, after: blog });
       res.json(blog);
     } catch (error: any) {
       console.error("Blog creation error:", error);
@@ -1742,7 +3245,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.put("/api/admin/blogs/:id", async (req, res) => {
+  app.put("/api/admin/blogs/:id", requirePermission("blogs.write"), async (req, res) => {
     try {
       const { id } = req.params;
       const updates = insertBlogSchema.partial().parse(req.body);
@@ -1752,8 +3255,10 @@ export async function registerRoutes(app: Express): Promise<void> {
         updatesForDb.publishedAt = updates.isPublished ? new Date() : null;
       }
 
+      const before = await storage.getBlog(id);
       const blog = await storage.updateBlog(id, updatesForDb);
       if (!blog) return res.status(404).json({ message: "Blog not found" });
+      await recordAudit(req, res, { action: "blog.update", entityType: "blog", entityId: id, before, after: blog });
       res.json(blog);
     } catch (error: any) {
       console.error("Blog update error:", error);
@@ -1761,11 +3266,13 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.delete("/api/admin/blogs/:id", async (req, res) => {
+  app.delete("/api/admin/blogs/:id", requirePermission("blogs.write"), async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getBlog(id);
       const ok = await storage.deleteBlog(id);
       if (!ok) return res.status(404).json({ message: "Blog not found" });
+      await recordAudit(req, res, { action: "blog.delete", entityType: "blog", entityId: id, before });
       res.json({ ok: true });
     } catch (error: any) {
       console.error("Blog delete error:", error);
@@ -1945,7 +3452,7 @@ export async function registerRoutes(app: Express): Promise<void> {
         return res.status(400).json({ message: `Product unavailable: ${p.name}` });
       }
 
-      const unitPrice = getUnitPriceForQty(p, it.quantity);
+      const unitPrice = unitPriceForQty(p, it.quantity);
       const lineTotal = Number((unitPrice * it.quantity).toFixed(2));
       total += lineTotal;
 
@@ -1973,46 +3480,7 @@ export async function registerRoutes(app: Express): Promise<void> {
 
     await storage.clearBulkBuyCart(guard.employee.id);
 
-    // Email recipients
-    const procurementEmails = await storage.getProcurementRecipients();
-    const supportEmail = "support@acegiftingsolutions.com";
-
-    const subject = `Bulk Buy Request Submitted: ${requestRec.requestId}`;
-    const table = buildItemsTableHtml(itemsSnap);
-
-    const html = `
-      <div style="font-family:Arial,sans-serif;color:#111;">
-        <h2>Bulk Buy Request Submitted</h2>
-        <p><b>Request ID:</b> ${requestRec.requestId}</p>
-        <p><b>Requester:</b> ${guard.employee.firstName} ${guard.employee.lastName} (${guard.employee.email})</p>
-        <p><b>Status:</b> ${requestRec.status}</p>
-        <p><b>Delivery:</b> ${deliveryMethod}${deliveryMethod === "delivery" && deliveryAddress ? ` - ${deliveryAddress}` : ""}</p>
-        ${requesterNote ? `<p><b>Note:</b> ${requesterNote}</p>` : ""}
-        <h3>Items</h3>
-        ${table}
-        <p style="margin-top:12px;"><b>Total:</b> ₹${Number(total).toFixed(2)}</p>
-        <p style="margin-top:16px;">Message to user: <b>Your request has been submitted to procurement team for approval..</b></p>
-      </div>
-    `;
-
-    // A) requester
-    await emailService.sendMail({
-      to: guard.employee.email,
-      subject,
-      html,
-      text: `Bulk Buy Request ${requestRec.requestId} submitted. Total ₹${Number(total).toFixed(2)}.`,
-      fromName: "Bulk Buy",
-    });
-
-    // B) procurement team + C) support
-    await emailService.sendMail({
-      to: procurementEmails.length ? procurementEmails : supportEmail,
-      cc: supportEmail,
-      subject,
-      html,
-      text: `Bulk Buy Request ${requestRec.requestId} submitted by ${guard.employee.email}.`,
-      fromName: "Bulk Buy",
-    });
+    await sendBulkBuyEmails("bulkbuy_submitted", guard.employee, requestRec);
 
     res.json({
       request: requestRec,
@@ -2030,7 +3498,8 @@ export async function registerRoutes(app: Express): Promise<void> {
     if (!guard.ok) return;
 
     const rows = await storage.getBulkBuyRequestsByEmployeeId(guard.employee.id);
-    res.json(rows);
+    const invoices = await storage.listInvoices({ bulkBuyRequestIds: rows.map((r) => r.id) });
+    res.json(rows.map((r) => ({ ...r, invoices: invoiceSummaries(invoices, (i) => i.bulkBuyRequestId === r.id) })));
   });
 
 
@@ -2087,7 +3556,7 @@ export async function registerRoutes(app: Express): Promise<void> {
         return res.status(400).json({ message: "Insufficient stock" });
       }
 
-      const unitPrice = getUnitPriceForQty(p, quantity);
+      const unitPrice = unitPriceForQty(p, quantity);
       const lineTotal = Number((unitPrice * quantity).toFixed(2));
 
       const itemsSnap = [
@@ -2112,45 +3581,7 @@ export async function registerRoutes(app: Express): Promise<void> {
         totalAmount: lineTotal,
       });
 
-      // OPTIONAL: notify via email (same as checkout)
-      const procurementEmails = await storage.getProcurementRecipients();
-      const supportEmail = "support@acegiftingsolutions.com";
-
-      const subject = `Bulk Buy Request Submitted: ${requestRec.requestId}`;
-      const table = buildItemsTableHtml(itemsSnap);
-
-      const html = `
-      <div style="font-family:Arial,sans-serif;color:#111;">
-        <h2>Bulk Buy Request Submitted</h2>
-        <p><b>Request ID:</b> ${requestRec.requestId}</p>
-        <p><b>Requester:</b> ${guard.employee.firstName} ${guard.employee.lastName} (${guard.employee.email})</p>
-        <p><b>Status:</b> ${requestRec.status}</p>
-        <p><b>Delivery:</b> ${deliveryMethod}${deliveryMethod === "delivery" && deliveryAddress ? ` - ${deliveryAddress}` : ""
-        }</p>
-        ${requesterNote ? `<p><b>Note:</b> ${requesterNote}</p>` : ""}
-        <h3>Items</h3>
-        ${table}
-        <p style="margin-top:12px;"><b>Total:</b> ₹${Number(lineTotal).toFixed(2)}</p>
-        <p style="margin-top:16px;">Message to user: <b>Your request has been submitted to procurement team for approval..</b></p>
-      </div>
-    `;
-
-      await emailService.sendMail({
-        to: guard.employee.email,
-        subject,
-        html,
-        text: `Bulk Buy Request ${requestRec.requestId} submitted. Total ₹${Number(lineTotal).toFixed(2)}.`,
-        fromName: "Bulk Buy",
-      });
-
-      await emailService.sendMail({
-        to: procurementEmails.length ? procurementEmails : supportEmail,
-        cc: supportEmail,
-        subject,
-        html,
-        text: `Bulk Buy Request ${requestRec.requestId} submitted by ${guard.employee.email}.`,
-        fromName: "Bulk Buy",
-      });
+      await sendBulkBuyEmails("bulkbuy_submitted", guard.employee, requestRec);
 
       return res.json({
         request: requestRec,
@@ -2168,7 +3599,7 @@ export async function registerRoutes(app: Express): Promise<void> {
    * Expected headers: email,isActive,department,designation,isProcurement
    * ===========================
    */
-  app.post("/api/admin/bulkbuy/access/bulk", async (req, res) => {
+  app.post("/api/admin/bulkbuy/access/bulk", requirePermission("bulkbuy.access.write"), async (req, res) => {
     try {
       const rows = Array.isArray(req.body) ? req.body : [];
       let upserted = 0;
@@ -2181,13 +3612,21 @@ export async function registerRoutes(app: Express): Promise<void> {
           continue;
         }
 
-        await storage.upsertBulkBuyAccess({
+        const before = await storage.getBulkBuyAccessByEmail(email);
+        const after = await storage.upsertBulkBuyAccess({
           email,
           isActive: r.isActive !== undefined ? !!r.isActive : true,
           department: r.department ? String(r.department) : null,
           designation: r.designation ? String(r.designation) : null,
           isProcurement: r.isProcurement !== undefined ? !!r.isProcurement : false,
         } as any);
+        await recordAudit(req, res, {
+          action: before ? "bulkbuy_access.update" : "bulkbuy_access.create",
+          entityType: "bulkbuy_access",
+          entityId: after.id,
+          before,
+          after,
+        });
 
         upserted++;
       }
@@ -2203,72 +3642,66 @@ export async function registerRoutes(app: Express): Promise<void> {
    * ADMIN: View all bulk buy requests
    * ===========================
    */
-  app.get("/api/admin/bulkbuy/requests", async (_req, res) => {
+  // Issues the invoice of an approved request that doesn't have one yet
+  app.post("/api/admin/bulkbuy/requests/:id/invoice", requirePermission("bulkbuy.approve"), async (req, res) => {
+    try {
+      const request = await storage.getBulkBuyRequest(req.params.id);
+      if (!request) return res.status(404).json({ message: "Request not found" });
+      const invoice = await issueBulkBuyInvoice(request);
+      if (!invoice) return res.status(400).json({ message: "Only approved requests are invoiced" });
+      await recordAudit(req, res, { action: "invoice.issue", entityType: "invoice", entityId: invoice.id, after: invoice });
+      res.json(invoice);
+    } catch (error: any) {
+      console.error("Bulk-buy invoice error:", error);
+      res.status(500).json({ message: "Error issuing invoice", details: error.message });
+    }
+  });
+
+  app.get("/api/admin/bulkbuy/requests", requirePermission("bulkbuy.read"), async (_req, res) => {
     const rows = await storage.getAllBulkBuyRequests();
-    res.json(rows);
+    const invoices = await storage.listInvoices({ bulkBuyRequestIds: rows.map((r) => r.id) });
+    res.json(rows.map((r) => ({ ...r, invoices: invoiceSummaries(invoices, (i) => i.bulkBuyRequestId === r.id) })));
   });
 
   /**
    * ===========================
    * ADMIN: Approve/Reject request
-   * Body: { status: "approved"|"rejected", procurementNote?: string, approvedByEmployeeId?: string }
+   * Body: { status: "approved"|"rejected", procurementNote?: string }
+   * The approver is the signed-in admin/procurement user.
    * Triggers email to requester + procurement + support
    * ===========================
    */
-  app.put("/api/admin/bulkbuy/requests/:id", async (req, res) => {
+  app.put("/api/admin/bulkbuy/requests/:id", requirePermission("bulkbuy.approve"), async (req, res) => {
     try {
       const { id } = req.params;
-      const { status, procurementNote = null, approvedByEmployeeId = null } = req.body || {};
+      const { status, procurementNote = null } = req.body || {};
+      const { employee: actor } = getAdminContext(res);
 
       if (!["approved", "rejected", "pending_approval"].includes(status)) {
         return res.status(400).json({ message: "Invalid status" });
       }
 
+      const before = await storage.getBulkBuyRequest(id);
       const updated = await storage.updateBulkBuyRequest(id, {
         status: status as any,
         procurementNote,
-        approvedByEmployeeId: approvedByEmployeeId || null,
+        approvedByEmployeeId: status === "pending_approval" ? null : actor.id,
         approvedAt: status === "approved" ? new Date() : null,
       } as any);
 
       if (!updated) return res.status(404).json({ message: "Request not found" });
-
-      const requester = await storage.getEmployee(updated.employeeId);
-      const procurementEmails = await storage.getProcurementRecipients();
-      const supportEmail = "support@acegiftingsolutions.com";
-
-      const subject = `Bulk Buy Request ${String(status).toUpperCase()}: ${updated.requestId}`;
-
-      const html = `
-        <div style="font-family:Arial,sans-serif;color:#111;">
-          <h2>Bulk Buy Request Update</h2>
-          <p><b>Request ID:</b> ${updated.requestId}</p>
-          <p><b>Status:</b> ${updated.status}</p>
-          <p><b>Total:</b> ₹${updated.totalAmount}</p>
-          ${procurementNote ? `<p><b>Procurement Note:</b> ${procurementNote}</p>` : ""}
-        </div>
-      `;
-
-      // notify requester
-      if (requester?.email) {
-        await emailService.sendMail({
-          to: requester.email,
-          subject,
-          html,
-          text: `Your Bulk Buy Request ${updated.requestId} is now ${updated.status}.`,
-          fromName: "Bulk Buy",
-        });
+      await recordAudit(req, res, {
+        action: `bulkbuy_request.${status}`,
+        entityType: "bulkbuy_request",
+        entityId: id,
+        before,
+        after: updated,
+      });
+      if (updated.status === "approved") {
+        await issueBulkBuyInvoice(updated).catch((e) => console.error(`Invoice for ${updated.requestId} failed:`, e));
       }
 
-      // notify procurement + support
-      await emailService.sendMail({
-        to: procurementEmails.length ? procurementEmails : supportEmail,
-        cc: supportEmail,
-        subject,
-        html,
-        text: `Bulk Buy Request ${updated.requestId} updated to ${updated.status}.`,
-        fromName: "Bulk Buy",
-      });
+      await sendBulkBuyEmails("bulkbuy_status", await storage.getEmployee(updated.employeeId), updated);
 
       res.json(updated);
     } catch (e: any) {
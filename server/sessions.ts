@@ -0,0 +1,83 @@
+// server/sessions.ts
+// Session lifetime: an idle timeout that slides forward with activity,
+// capped by an absolute maximum counted from login.
+import type { Request, Response, NextFunction } from "express";
+import type { Session } from "@shared/schema";
+import { storage } from "./storage";
+import { getBearerToken } from "./admin-auth";
+import { clientIp } from "./otp-throttle";
+import "dotenv/config";
+
+function envInt(name: string, fallback: number): number {
+  const n = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export const SESSION_LIMITS = {
+  idleMinutes: envInt("SESSION_IDLE_MINUTES", 30),
+  maxDays: envInt("SESSION_MAX_DAYS", 7),
+};
+
+// the client reads this to keep SessionTimer in step with sliding renewal
+export const SESSION_EXPIRES_HEADER = "X-Session-Expires-At";
+
+// last-seen is written at most this often per session
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export function nextSessionExpiry(createdAt: Date, now: Date = new Date()): Date {
+  const idle = now.getTime() + SESSION_LIMITS.idleMinutes * 60 * 1000;
+  const cap = createdAt.getTime() + SESSION_LIMITS.maxDays * 24 * 60 * 60 * 1000;
+  return new Date(Math.min(idle, cap));
+}
+
+export async function startSession(employeeId: string, req: Request): Promise<Session> {
+  storage.purgeExpiredSessions().catch((e) =>
+    console.warn("[session] purge expired failed:", (e as any)?.message || e)
+  );
+
+  const now = new Date();
+  return storage.createSession(employeeId, {
+    expiresAt: nextSessionExpiry(now, now),
+    ip: clientIp(req),
+    userAgent: req.get("user-agent")?.slice(0, 512) ?? null,
+  });
+}
+
+/**
+ * Mounted on /api. Slides the caller's session forward on activity and
+ * echoes the resulting expiry in a response header. Never rejects a request;
+ * the individual routes still decide whether a session is required.
+ */
+export async function trackSessionActivity(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (!token) return next();
+
+  try {
+    let session = await storage.getSession(token);
+    if (session) {
+      const lastSeen = session.lastSeenAt ? new Date(session.lastSeenAt).getTime() : 0;
+      if (Date.now() - lastSeen >= TOUCH_INTERVAL_MS) {
+        const createdAt = session.createdAt ? new Date(session.createdAt) : new Date();
+        session = (await storage.touchSession(session.id, nextSessionExpiry(createdAt))) ?? session;
+      }
+      res.setHeader(SESSION_EXPIRES_HEADER, new Date(session.expiresAt).toISOString());
+    }
+  } catch (e) {
+    console.warn("[session] touch failed:", (e as any)?.message || e);
+  }
+
+  next();
+}
+
+/** Shape returned by the device lists; never includes the token. */
+export function toDeviceView(session: Session, currentToken?: string | null) {
+  return {
+    id: session.id,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    lastSeenAt: session.lastSeenAt,
+    createdAt: session.createdAt,
+    expiresAt: session.expiresAt,
+    current: !!currentToken && session.token === currentToken,
+  };
+}
@@ -1,13 +1,30 @@
-import { and, desc, eq, sql as dsql, isNull } from "drizzle-orm";
+import { and, asc, desc, eq, getTableColumns, gte, inArray, lte, or, param, sql as dsql, isNull, isNotNull, type SQL } from "drizzle-orm";
 import { db } from "./db";
 import {
   employees,
   products,
   orders,
+  orderItems,
+  employeeAddresses,
+  officeLocations,
   cartItems,
   sessions,
   branding as brandingTable,
+  emailTemplates,
+  emailOutbox,
+  payments,
   otps,
+  authAttempts,
+  employeeLockEvents,
+  auditEvents,
+  pointsTransactions,
+  idCounters,
+  checkoutKeys,
+  orderStatusHistory,
+  returnRequests,
+  shipments,
+  shipmentEvents,
+  invoices,
   categories,
   campaigns,
   campaignProducts,
@@ -25,11 +42,35 @@ import {
   type InsertProduct,
   type Order,
   type InsertOrder,
+  type OrderItem,
+  type EmployeeAddress,
+  type OfficeLocation,
+  type InsertOfficeLocation,
   type CartItem,
   type InsertCartItem,
   type Session,
   type Branding,
+  type EmailTemplate,
+  type EmailOutboxMessage,
+  type Payment,
+  type InsertPayment,
+  type InsertEmailOutboxMessage,
+  type EmailOutboxEntry,
   type OTP,
+  type AuthAttempt,
+  type EmployeeLockEvent,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type PointsTransaction,
+  type PointsTransactionType,
+  type CheckoutKey,
+  type OrderStatusHistory,
+  type OrderCancellation,
+  type ReturnRequest,
+  type Shipment,
+  type ShipmentEvent,
+  type Invoice,
+  type InsertInvoice,
   type Category,
   type InsertCategory,
   type Campaign,
@@ -47,9 +88,103 @@ import {
   type CampaignWhitelist,
   type InsertCampaignWhitelist,
 } from "@shared/schema";
-import { randomUUID } from "crypto";
+import { randomInt, randomUUID } from "crypto";
+import {
+  canTransitionOrder,
+  ORDER_STATUS_LABEL,
+  SELF_CANCELLABLE_STATUSES,
+  type OrderStatus,
+} from "@shared/order-status";
+import { cancellationRestock, type ReturnRequestStatus, type ReturnRequestType } from "@shared/returns";
+import { financialYearCode } from "@shared/gst";
+import { MAX_SAVED_ADDRESSES } from "@shared/addresses";
+import type { EmailTemplateContent, EmailTemplateKey } from "@shared/email-templates";
+import type { EmailOutboxStatus } from "@shared/notifications";
+import { orderPaymentRef, paymentCheckoutKey, type LineSplit, type PaymentStatus } from "@shared/payments";
+import { HANDOVER_CODE_ALPHABET, HANDOVER_CODE_LENGTH, HANDOVER_READY_STATUSES } from "@shared/handover";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// 32^8 codes; the unique column catches the (practically impossible) repeat
+const newHandoverCode = () =>
+  Array.from({ length: HANDOVER_CODE_LENGTH }, () => HANDOVER_CODE_ALPHABET[randomInt(HANDOVER_CODE_ALPHABET.length)]).join("");
+
+// Outbox columns for the admin log: never the rendered bodies
+const { html: _html, text: _text, ...outboxEntryColumns } = getTableColumns(emailOutbox);
+
+// Orders still taking up a pickup desk slot
+const openPickupCondition = () => dsql`coalesce(${orders.status}, 'confirmed') not in ('delivered', 'cancelled', 'returned')`;
+
+export class CheckoutError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export class OrderTransitionError extends Error {
+  constructor(message: string, public status = 409) {
+    super(message);
+  }
+}
+
+export class ReturnRequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export class ShipmentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export class AddressError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export class OfficeLocationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export type AddressInput = Pick<EmployeeAddress, "label" | "line1" | "line2" | "city" | "state" | "pincode" | "phone"> & {
+  isDefault?: boolean;
+};
+
+export type OrderLine = {
+  productId: string;
+  quantity: number;
+  selectedColor: string | null;
+  selectedSize: string | null;
+  campaignId?: string | null;
+  unitPrice: number;
+  usedPoints: number;
+  split?: LineSplit; // points / copay share; see splitCheckout in shared/payments.ts
+};
+
+export type PointsEntry = {
+  employeeId: string;
+  type: PointsTransactionType;
+  amount: number; // signed
+  orderId?: string | null;
+  actorEmployeeId?: string | null;
+  counterpartyEmployeeId?: string | null;
+  note?: string | null;
+};
 
 export interface IStorage {
+  // Office locations
+  getOfficeLocations(): Promise<OfficeLocation[]>;
+  getOfficeLocation(id: string): Promise<OfficeLocation | undefined>;
+  createOfficeLocation(input: InsertOfficeLocation): Promise<OfficeLocation>;
+  updateOfficeLocation(id: string, updates: Partial<InsertOfficeLocation>): Promise<OfficeLocation | undefined>;
+  deleteOfficeLocation(id: string): Promise<boolean>;
+  getOpenPickupCounts(): Promise<Map<string, number>>;
+
   // Categories
   getCategory(id: string): Promise<Category | undefined>;
   getAllCategories(): Promise<Category[]>;
@@ -90,10 +225,29 @@ export interface IStorage {
   getEmployee(id: string): Promise<Employee | undefined>;
   getEmployeeByEmployeeId(employeeId: string): Promise<Employee | undefined>;
   getEmployeeByEmail(email: string): Promise<Employee | undefined>;
-  createEmployee(employee: InsertEmployee): Promise<Employee>;
-  updateEmployee(id: string, updates: Partial<Employee>): Promise<Employee | undefined>;
+  createEmployee(employee: InsertEmployee, opts?: { actorEmployeeId?: string | null; note?: string }): Promise<Employee>;
+  updateEmployee(id: string, updates: Partial<Omit<Employee, "points">>): Promise<Employee | undefined>;
   getAllEmployees(): Promise<Employee[]>;
 
+  // Points ledger (employees.points is the cached balance)
+  postPointsTransaction(entry: PointsEntry): Promise<PointsTransaction | undefined>;
+  // books the difference to the target balance as an "adjust" entry; undefined when there is none
+  setPointsBalance(
+    employeeId: string,
+    target: number,
+    opts: { actorEmployeeId?: string | null; note: string }
+  ): Promise<PointsTransaction | undefined>;
+  transferPoints(rec: {
+    fromEmployeeId: string;
+    toEmployeeId: string;
+    amount: number;
+    actorEmployeeId?: string | null;
+    note?: string | null;
+  }): Promise<{ debit: PointsTransaction; credit: PointsTransaction } | undefined>;
+  getPointsTransactions(employeeId: string, limit?: number): Promise<PointsTransaction[]>;
+  getPointsLedgerBalance(employeeId: string): Promise<number>;
+  backfillOpeningBalances(): Promise<number>;
+
   // Products
   getProduct(id: string): Promise<Product | undefined>;
   getAllProducts(): Promise<Product[]>;
@@ -106,7 +260,93 @@ export interface IStorage {
   getOrder(id: string): Promise<Order | undefined>;
   getOrdersByEmployeeId(employeeId: string): Promise<Order[]>;
   getAllOrders(): Promise<Order[]>;
-  createOrder(order: InsertOrder): Promise<Order>;
+  getOrderItem(id: string): Promise<OrderItem | undefined>;
+  getOrderItems(orderIds: string[]): Promise<OrderItem[]>;
+  getActiveOrderItems(employeeId: string): Promise<OrderItem[]>;
+  backfillOrderItems(): Promise<number>;
+  placeOrders(input: {
+    employeeId: string;
+    lines: OrderLine[];
+    metadata: NonNullable<InsertOrder["metadata"]>; // delivery, payment and totals for the header
+    maxSelections: number; // -1 = unlimited
+    pointsCoveredByPayment?: number; // copay: the deficit paid in cash
+    checkoutKey?: string; // a replay returns the orders first placed under this key
+    officeLocationId?: string | null; // pickup desk; checked against its capacity
+  }): Promise<{ orders: Order[]; employee: Employee; replayed: boolean }>;
+  getCheckoutKey(key: string): Promise<CheckoutKey | undefined>;
+  getOrdersByIds(ids: string[]): Promise<Order[]>;
+
+  // Copay payments (see server/copay.ts)
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  getPayment(id: string): Promise<Payment | undefined>;
+  getPaymentByRef(ref: string): Promise<Payment | undefined>;
+  updatePayment(id: string, updates: Partial<InsertPayment>): Promise<Payment | undefined>;
+  recordPaymentCheck(id: string, check: { gatewayResponse: unknown; gatewayPaymentId: string | null }): Promise<void>;
+  claimPayment(id: string, staleBefore: Date, opts?: { reopenFailed?: boolean }): Promise<Payment | undefined>;
+  getPaymentsToReconcile(opts: { createdBefore: Date; staleBefore: Date; limit: number }): Promise<Payment[]>;
+  listPayments(filter: { status?: PaymentStatus; from?: Date; to?: Date; limit?: number }): Promise<Payment[]>;
+  changeOrderStatus(
+    id: string,
+    change: { status: OrderStatus; actorEmployeeId?: string | null; note?: string | null }
+  ): Promise<{ before: Order; order: Order }>;
+  cancelOrder(
+    id: string,
+    opts: { actorEmployeeId?: string | null; note?: string | null; byEmployee?: boolean }
+  ): Promise<{ before: Order; order: Order; pointsRefunded: number; copayRefundInr: number }>;
+  getOrderByHandoverCode(code: string): Promise<Order | undefined>;
+  recordHandover(code: string, actorEmployeeId: string): Promise<{ before: Order; order: Order }>;
+  backfillHandoverCodes(): Promise<number>;
+  recordOrderRefund(id: string, refund: Partial<OrderCancellation>): Promise<Order | undefined>;
+  getOrderStatusHistory(orderIds: string[]): Promise<OrderStatusHistory[]>;
+
+  // Returns & exchanges
+  createReturnRequest(input: {
+    employeeId: string;
+    orderItemId: string;
+    type: ReturnRequestType;
+    quantity: number;
+    reason: string;
+    details?: string | null;
+    photos: string[];
+    exchangeColor?: string | null;
+    exchangeSize?: string | null;
+  }): Promise<ReturnRequest>;
+  getReturnRequest(id: string): Promise<ReturnRequest | undefined>;
+  listReturnRequests(filter?: {
+    employeeId?: string;
+    orderIds?: string[];
+    status?: ReturnRequestStatus;
+  }): Promise<ReturnRequest[]>;
+  decideReturnRequest(
+    id: string,
+    decision: { approve: boolean; actorEmployeeId: string; note?: string | null }
+  ): Promise<{ before: ReturnRequest; request: ReturnRequest }>;
+  markReturnReceived(id: string, opts: { note?: string | null }): Promise<{ before: ReturnRequest; request: ReturnRequest }>;
+
+  // Shipments
+  getOrderByOrderId(orderId: string): Promise<Order | undefined>;
+  getShipments(orderIds: string[]): Promise<Shipment[]>;
+  getShipmentEvents(shipmentIds: string[]): Promise<ShipmentEvent[]>;
+  upsertShipment(
+    orderId: string,
+    input: { courier: string; awb: string; dispatchedAt?: Date | null; expectedAt?: Date | null }
+  ): Promise<{ before: Shipment | undefined; shipment: Shipment }>;
+  addShipmentEvent(
+    shipmentId: string,
+    event: { description: string; location?: string | null; occurredAt: Date; actorEmployeeId?: string | null }
+  ): Promise<ShipmentEvent | undefined>;
+
+  // Invoices
+  issueInvoice(input: Omit<InsertInvoice, "id" | "number" | "issuedAt">): Promise<{ invoice: Invoice; created: boolean }>;
+  getInvoice(id: string): Promise<Invoice | undefined>;
+  listInvoices(filter: { orderIds?: string[]; bulkBuyRequestIds?: string[] }): Promise<Invoice[]>;
+
+  // Address book
+  getAddresses(employeeId: string): Promise<EmployeeAddress[]>;
+  getAddress(employeeId: string, id: string): Promise<EmployeeAddress | undefined>;
+  createAddress(employeeId: string, input: AddressInput): Promise<EmployeeAddress>;
+  updateAddress(employeeId: string, id: string, input: AddressInput): Promise<{ before: EmployeeAddress; address: EmployeeAddress }>;
+  deleteAddress(employeeId: string, id: string): Promise<EmployeeAddress | undefined>;
 
   // Cart
   getCartItem(id: string): Promise<CartItem | undefined>;
@@ -118,17 +358,75 @@ export interface IStorage {
 
   // Sessions
   getSession(token: string): Promise<Session | undefined>;
-  createSession(employeeId: string): Promise<Session>;
+  createSession(employeeId: string, opts: { expiresAt: Date; ip?: string | null; userAgent?: string | null }): Promise<Session>;
+  touchSession(id: string, expiresAt: Date): Promise<Session | undefined>;
   deleteSession(token: string): Promise<boolean>;
+  getSessionsByEmployeeId(employeeId: string): Promise<Session[]>;
+  deleteSessionById(employeeId: string, id: string): Promise<boolean>;
+  deleteSessionsByEmployeeId(employeeId: string): Promise<number>;
+  purgeExpiredSessions(now?: Date): Promise<number>;
+
+  // Audit log
+  createAuditEvent(rec: InsertAuditEvent): Promise<AuditEvent>;
+  listAuditEvents(filter: {
+    actorEmployeeId?: string;
+    actorEmail?: string;
+    entityType?: string;
+    entityId?: string;
+    action?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+  }): Promise<AuditEvent[]>;
 
   // Branding
   getBranding(): Promise<Branding | undefined>;
   updateBranding(updates: Partial<Branding>): Promise<Branding>;
 
+  // Email templates (admin overrides; the defaults live in shared/email-templates.ts)
+  getEmailTemplates(): Promise<EmailTemplate[]>;
+  getEmailTemplate(key: EmailTemplateKey): Promise<EmailTemplate | undefined>;
+  saveEmailTemplate(key: EmailTemplateKey, content: EmailTemplateContent, actorEmployeeId: string): Promise<EmailTemplate>;
+  deleteEmailTemplate(key: EmailTemplateKey): Promise<EmailTemplate | undefined>;
+
+  // Email outbox (see server/email-outbox.ts)
+  enqueueEmail(message: InsertEmailOutboxMessage): Promise<EmailOutboxMessage>;
+  claimDueEmails(limit: number, leaseMs: number): Promise<EmailOutboxMessage[]>;
+  markEmailSent(id: string, messageId: string | null): Promise<void>;
+  markEmailFailed(id: string, error: string, retryAt: Date | null): Promise<void>;
+  listEmailOutbox(filter: { status?: EmailOutboxStatus; to?: string; limit?: number }): Promise<EmailOutboxEntry[]>;
+  countEmailOutbox(): Promise<Record<EmailOutboxStatus, number>>;
+  getEmailOutboxMessage(id: string): Promise<EmailOutboxMessage | undefined>;
+  requeueEmail(id: string): Promise<EmailOutboxEntry | undefined>;
+  purgeOutboxEmails(templateKey: EmailTemplateKey): Promise<number>;
+
   // OTP
-  createOTP(rec: { email: string; code: string; expiresAt: Date; metadata?: any }): Promise<OTP>;
+  replaceOTP(rec: { email: string; codeHash: string; expiresAt: Date }): Promise<OTP>;
   getLastOTPForEmail(email: string): Promise<OTP | undefined>;
-  markOTPAsUsed(id: string): Promise<void>;
+  // marks the code used unless it already is; false when another request got there first
+  redeemOTP(id: string): Promise<boolean>;
+  purgeExpiredOTPs(now?: Date): Promise<number>;
+
+  // Auth throttling & account locks
+  recordAuthAttempt(rec: { email: string; ip: string | null; kind: AuthAttempt["kind"]; success: boolean }): Promise<AuthAttempt>;
+  markAuthAttemptSucceeded(id: string): Promise<void>;
+  countAuthAttempts(filter: {
+    kind: AuthAttempt["kind"];
+    since: Date;
+    email?: string;
+    ip?: string;
+    success?: boolean;
+  }): Promise<number>;
+  getLastAuthAttempt(email: string, kind: AuthAttempt["kind"]): Promise<AuthAttempt | undefined>;
+  lockEmployee(id: string, opts: { reason: string; until: Date | null; ip?: string | null }): Promise<Employee | undefined>;
+  // counts a failed login and locks in the same update once it reaches `lockAfter`
+  recordLoginFailure(
+    id: string,
+    opts: { lockAfter: number; reason: string; until: Date | null; ip?: string | null }
+  ): Promise<{ employee: Employee; locked: boolean } | undefined>;
+  unlockEmployee(id: string, opts: { reason: string; actorEmployeeId?: string | null }): Promise<Employee | undefined>;
+  releaseExpiredLocks(now?: Date): Promise<Employee[]>;
+  getEmployeeLockEvents(employeeId: string): Promise<EmployeeLockEvent[]>;
 
   // Blogs
   getBlog(id: string): Promise<Blog | undefined>;
@@ -176,10 +474,53 @@ export interface IStorage {
 
   getBulkBuyRequestsByEmployeeId(employeeId: string): Promise<BulkBuyRequest[]>;
   getAllBulkBuyRequests(): Promise<BulkBuyRequest[]>;
+  getBulkBuyRequest(id: string): Promise<BulkBuyRequest | undefined>;
   updateBulkBuyRequest(id: string, updates: Partial<BulkBuyRequest>): Promise<BulkBuyRequest | undefined>;
 }
 
 class DrizzleStorage implements IStorage {
+  // Office locations
+  async getOfficeLocations() {
+    return db.select().from(officeLocations).orderBy(asc(officeLocations.name));
+  }
+
+  async getOfficeLocation(id: string) {
+    const rows = await db.select().from(officeLocations).where(eq(officeLocations.id, id)).limit(1);
+    return rows[0];
+  }
+
+  async createOfficeLocation(input: InsertOfficeLocation) {
+    const rows = await db.insert(officeLocations).values(input).returning();
+    return rows[0];
+  }
+
+  async updateOfficeLocation(id: string, updates: Partial<InsertOfficeLocation>) {
+    const rows = await db
+      .update(officeLocations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(officeLocations.id, id))
+      .returning();
+    return rows[0];
+  }
+
+  // Locations that orders were picked up from stay for the record; deactivate those instead
+  async deleteOfficeLocation(id: string) {
+    const [used] = await db.select({ id: orders.id }).from(orders).where(eq(orders.officeLocationId, id)).limit(1);
+    if (used) throw new OfficeLocationError("This location has orders; deactivate it instead", 409);
+    const res = await db.delete(officeLocations).where(eq(officeLocations.id, id));
+    return (res.rowCount ?? 0) > 0;
+  }
+
+  // Orders waiting at each pickup desk, keyed by location id
+  async getOpenPickupCounts() {
+    const rows = await db
+      .select({ officeLocationId: orders.officeLocationId, c: dsql<number>`count(*)::int` })
+      .from(orders)
+      .where(and(isNotNull(orders.officeLocationId), openPickupCondition()))
+      .groupBy(orders.officeLocationId);
+    return new Map(rows.map((r) => [r.officeLocationId as string, r.c]));
+  }
+
   // Categories
   async getCategory(id: string) {
     const rows = await db.select().from(categories).where(eq(categories.id, id)).limit(1);
@@ -508,14 +849,157 @@ class DrizzleStorage implements IStorage {
     return rows[0];
   }
 
-  async createEmployee(employeeData: InsertEmployee) {
-    const rows = await db.insert(employees).values(employeeData).returning();
+  // Starting points are booked as a grant so the ledger explains the balance from day one.
+  async createEmployee(employeeData: InsertEmployee, opts: { actorEmployeeId?: string | null; note?: string } = {}) {
+    return db.transaction(async (tx) => {
+      const { points = 0, ...rest } = employeeData;
+      const rows = await tx.insert(employees).values({ ...rest, points: 0 }).returning();
+      if (!points) return rows[0];
+
+      const applied = await this.applyPoints(tx, {
+        employeeId: rows[0].id,
+        type: "grant",
+        amount: points,
+        actorEmployeeId: opts.actorEmployeeId,
+        note: opts.note ?? "Opening balance",
+      });
+      return applied?.employee ?? rows[0];
+    });
+  }
+
+  async updateEmployee(id: string, updates: Partial<Omit<Employee, "points">>) {
+    // points only move through the ledger
+    const { points: _points, ...rest } = updates as Partial<Employee>;
+    if (Object.keys(rest).length === 0) return this.getEmployee(id);
+    const rows = await db.update(employees).set(rest).where(eq(employees.id, id)).returning();
     return rows[0];
   }
 
-  async updateEmployee(id: string, updates: Partial<Employee>) {
-    const rows = await db.update(employees).set(updates).where(eq(employees.id, id)).returning();
-    return rows[0];
+  // Points ledger
+  // Moves the cached balance and writes the ledger row in the caller's transaction.
+  // Returns undefined when the employee is missing or the balance would go negative.
+  private async applyPoints(tx: Tx, entry: PointsEntry) {
+    const rows = await tx
+      .update(employees)
+      .set({ points: dsql`${employees.points} + ${entry.amount}` })
+      .where(and(eq(employees.id, entry.employeeId), dsql`${employees.points} + ${entry.amount} >= 0`))
+      .returning();
+    const employee = rows[0];
+    if (!employee) return undefined;
+
+    const txns = await tx
+      .insert(pointsTransactions)
+      .values({
+        employeeId: entry.employeeId,
+        type: entry.type,
+        amount: entry.amount,
+        balanceAfter: employee.points,
+        orderId: entry.orderId ?? null,
+        actorEmployeeId: entry.actorEmployeeId ?? null,
+        counterpartyEmployeeId: entry.counterpartyEmployeeId ?? null,
+        note: entry.note ?? null,
+      })
+      .returning();
+    return { employee, txn: txns[0] };
+  }
+
+  async postPointsTransaction(entry: PointsEntry) {
+    return db.transaction(async (tx) => (await this.applyPoints(tx, entry))?.txn);
+  }
+
+  // Used where admins set a balance outright (edit form, bulk upload). The row lock keeps a
+  // concurrent checkout or transfer from moving the balance between reading it and the adjust.
+  async setPointsBalance(employeeId: string, target: number, opts: { actorEmployeeId?: string | null; note: string }) {
+    return db.transaction(async (tx) => {
+      const [employee] = await tx
+        .select({ points: employees.points })
+        .from(employees)
+        .where(eq(employees.id, employeeId))
+        .for("update");
+      if (!employee) return undefined;
+
+      const delta = Math.floor(target) - (employee.points ?? 0);
+      if (delta === 0) return undefined;
+      const applied = await this.applyPoints(tx, {
+        employeeId,
+        type: "adjust",
+        amount: delta,
+        actorEmployeeId: opts.actorEmployeeId,
+        note: opts.note,
+      });
+      return applied?.txn;
+    });
+  }
+
+  async transferPoints(rec: {
+    fromEmployeeId: string;
+    toEmployeeId: string;
+    amount: number;
+    actorEmployeeId?: string | null;
+    note?: string | null;
+  }) {
+    return db.transaction(async (tx) => {
+      const common = { type: "transfer" as const, actorEmployeeId: rec.actorEmployeeId, note: rec.note };
+      const debit = await this.applyPoints(tx, {
+        ...common,
+        employeeId: rec.fromEmployeeId,
+        amount: -rec.amount,
+        counterpartyEmployeeId: rec.toEmployeeId,
+      });
+      if (!debit) return undefined;
+
+      const credit = await this.applyPoints(tx, {
+        ...common,
+        employeeId: rec.toEmployeeId,
+        amount: rec.amount,
+        counterpartyEmployeeId: rec.fromEmployeeId,
+      });
+      if (!credit) throw new Error("Transfer recipient not found");
+
+      return { debit: debit.txn, credit: credit.txn };
+    });
+  }
+
+  async getPointsTransactions(employeeId: string, limit = 500) {
+    return db
+      .select()
+      .from(pointsTransactions)
+      .where(eq(pointsTransactions.employeeId, employeeId))
+      .orderBy(desc(pointsTransactions.createdAt))
+      .limit(limit);
+  }
+
+  async getPointsLedgerBalance(employeeId: string) {
+    const rows = await db
+      .select({ total: dsql<number>`coalesce(sum(${pointsTransactions.amount}), 0)::int` })
+      .from(pointsTransactions)
+      .where(eq(pointsTransactions.employeeId, employeeId));
+    return rows[0]?.total ?? 0;
+  }
+
+  // Balances that predate the ledger get a single opening entry.
+  async backfillOpeningBalances() {
+    const missing = await db
+      .select({ id: employees.id, points: employees.points })
+      .from(employees)
+      .where(
+        and(
+          dsql`${employees.points} <> 0`,
+          dsql`not exists (select 1 from ${pointsTransactions} where ${pointsTransactions.employeeId} = ${employees.id})`
+        )
+      );
+    if (missing.length === 0) return 0;
+
+    await db.insert(pointsTransactions).values(
+      missing.map((e) => ({
+        employeeId: e.id,
+        type: "adjust" as const,
+        amount: e.points,
+        balanceAfter: e.points,
+        note: "Opening balance",
+      }))
+    );
+    return missing.length;
   }
 
   async getAllEmployees() {
@@ -536,28 +1020,984 @@ class DrizzleStorage implements IStorage {
     return db.select().from(orders).orderBy(desc(orders.orderDate));
   }
 
-  async createOrder(orderData: InsertOrder) {
-    const year = new Date().getFullYear();
-    const [{ c }] = await db
-      .select({ c: dsql<number>`count(*)` })
+  // Next value of a per-prefix counter; the upsert row-locks the counter so concurrent callers never share a number.
+  // `seed` supplies the highest number already issued the first time a prefix is seen.
+  private async nextSequence(q: Tx | typeof db, name: string, seed: SQL) {
+    const rows = await q
+      .insert(idCounters)
+      .values({ name, value: dsql`(${seed}) + 1` })
+      .onConflictDoUpdate({ target: idCounters.name, set: { value: dsql`${idCounters.value} + 1` } })
+      .returning({ value: idCounters.value });
+    return rows[0].value;
+  }
+
+  private async nextOrderId(q: Tx | typeof db) {
+    const prefix = `ORD-${new Date().getFullYear()}`;
+    const next = await this.nextSequence(
+      q,
+      prefix,
+      dsql`select coalesce(max(substring(${orders.orderId} from ${`^${prefix}-([0-9]+)$`}::text)::int), 0) from ${orders}`
+    );
+    return `${prefix}-${String(next).padStart(3, "0")}`;
+  }
+
+  async getOrderItem(id: string) {
+    const rows = await db.select().from(orderItems).where(eq(orderItems.id, id)).limit(1);
+    return rows[0];
+  }
+
+  async getOrderItems(orderIds: string[]) {
+    if (orderIds.length === 0) return [];
+    return db.select().from(orderItems).where(inArray(orderItems.orderId, orderIds));
+  }
+
+  // Items of the employee's orders that still count toward selection and campaign limits
+  async getActiveOrderItems(employeeId: string) {
+    const rows = await db
+      .select({ item: orderItems })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(and(eq(orders.employeeId, employeeId), dsql`coalesce(${orders.status}, '') <> 'cancelled'`));
+    return rows.map((r) => r.item);
+  }
+
+  /**
+   * Orders placed before order_items carried their single product on the
+   * order row. Gives each of those an item; safe to run on every start.
+   */
+  async backfillOrderItems() {
+    const result = await db.execute(dsql`
+      insert into ${orderItems} (order_id, product_id, selected_color, selected_size, quantity, unit_price, used_points, campaign_id)
+      select o.id, o.product_id, o.selected_color, o.selected_size, coalesce(o.quantity, 1),
+             nullif(o.metadata->>'unitPrice', '')::numeric, coalesce((o.metadata->>'usedPoints')::int, 0), o.campaign_id
+      from ${orders} o
+      where o.product_id is not null
+        and not exists (select 1 from ${orderItems} i where i.order_id = o.id)
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Checkout in one transaction: locks the employee and the products, re-checks
+   * the selection limit, stock and balance, then writes the order and its items,
+   * stock, the points ledger and clears the cart. Throws CheckoutError; nothing is kept on failure.
+   */
+  async placeOrders(input: {
+    employeeId: string;
+    lines: OrderLine[];
+    metadata: NonNullable<InsertOrder["metadata"]>;
+    maxSelections: number;
+    pointsCoveredByPayment?: number;
+    checkoutKey?: string;
+    officeLocationId?: string | null;
+  }) {
+    return db.transaction(async (tx) => {
+      // the employee row lock serialises checkouts per employee
+      const [employee] = await tx.select().from(employees).where(eq(employees.id, input.employeeId)).for("update");
+      if (!employee) throw new CheckoutError("Employee not found", 404);
+
+      // a concurrent duplicate waited on the lock above; hand it the first request's orders
+      if (input.checkoutKey) {
+        const [seen] = await tx.select().from(checkoutKeys).where(eq(checkoutKeys.key, input.checkoutKey));
+        if (seen) {
+          if (seen.employeeId !== employee.id) throw new CheckoutError("This checkout has already been used", 409);
+          const previous = seen.orderIds.length
+            ? await tx.select().from(orders).where(inArray(orders.id, seen.orderIds)).orderBy(asc(orders.orderId))
+            : [];
+          return { orders: previous, employee, replayed: true };
+        }
+      }
+
+      if (input.maxSelections !== -1) {
+        const [{ c }] = await tx
+          .select({ c: dsql<number>`count(*)::int` })
+          .from(orderItems)
+          .innerJoin(orders, eq(orderItems.orderId, orders.id))
+          .where(and(eq(orders.employeeId, employee.id), dsql`coalesce(${orders.status}, '') <> 'cancelled'`));
+        if (c + input.lines.length > input.maxSelections) throw new CheckoutError("Selection limit reached");
+      }
+
+      // products are locked in id order so two checkouts can't deadlock each other
+      const productIds = Array.from(new Set(input.lines.map((l) => l.productId)));
+      const locked = productIds.length
+        ? await tx.select().from(products).where(inArray(products.id, productIds)).orderBy(asc(products.id)).for("update")
+        : [];
+      const byId = new Map(locked.map((p) => [p.id, p]));
+      const stockLeft = new Map(locked.map((p) => [p.id, p.stock ?? 0]));
+
+      for (const line of input.lines) {
+        const left = stockLeft.get(line.productId);
+        if (left === undefined || left < line.quantity) {
+          throw new CheckoutError(`Product ${byId.get(line.productId)?.name || line.productId} unavailable`);
+        }
+        stockLeft.set(line.productId, left - line.quantity);
+      }
+
+      if (input.officeLocationId) {
+        // the location row lock serialises checkouts competing for the last desk slots
+        const [office] = await tx
+          .select()
+          .from(officeLocations)
+          .where(eq(officeLocations.id, input.officeLocationId))
+          .for("update");
+        if (!office || !office.isActive) throw new CheckoutError("This pickup location is not available");
+        if (office.capacity != null) {
+          const [{ c }] = await tx
+            .select({ c: dsql<number>`count(*)::int` })
+            .from(orders)
+            .where(and(eq(orders.officeLocationId, office.id), openPickupCondition()));
+          if (c >= office.capacity) {
+            throw new CheckoutError(`${office.name} has no pickup slots left; choose another location`, 409);
+          }
+        }
+      }
+
+      const totalPoints = input.lines.reduce((sum, l) => sum + l.usedPoints, 0);
+      const fromBalance = Math.max(0, totalPoints - (input.pointsCoveredByPayment ?? 0));
+      if (fromBalance > employee.points) throw new CheckoutError("Insufficient points");
+
+      for (const [productId, stock] of Array.from(stockLeft)) {
+        await tx.update(products).set({ stock }).where(eq(products.id, productId));
+      }
+
+      const [inserted] = await tx
+        .insert(orders)
+        .values({
+          orderId: await this.nextOrderId(tx),
+          employeeId: employee.id,
+          campaignId: input.lines.find((l) => l.campaignId)?.campaignId || undefined,
+          status: "confirmed",
+          orderDate: new Date(),
+          metadata: input.metadata,
+          officeLocationId: input.officeLocationId ?? null,
+          handoverCode: input.metadata.deliveryMethod === "office" ? newHandoverCode() : null,
+        })
+        .returning();
+      const items = await tx
+        .insert(orderItems)
+        .values(
+          input.lines.map((line) => ({
+            orderId: inserted.id,
+            productId: line.productId,
+            selectedColor: line.selectedColor,
+            selectedSize: line.selectedSize,
+            quantity: line.quantity,
+            unitPrice: String(line.unitPrice),
+            usedPoints: line.usedPoints,
+            campaignId: line.campaignId || undefined,
+          }))
+        )
+        .returning();
+
+      // the split is keyed by order item, which only has an id now
+      let order = inserted;
+      if (input.lines.every((l) => l.split)) {
+        const pointsSplit = input.lines.map((line, i) => ({
+          orderItemId: items[i].id,
+          usedPoints: line.usedPoints,
+          ...line.split!,
+        }));
+        [order] = await tx
+          .update(orders)
+          .set({ metadata: { ...input.metadata, pointsSplit } })
+          .where(eq(orders.id, inserted.id))
+          .returning();
+      }
+      await tx.insert(orderStatusHistory).values({
+        orderId: order.id,
+        fromStatus: null,
+        toStatus: "confirmed",
+        actorEmployeeId: employee.id,
+        note: "Order placed",
+      });
+
+      if (fromBalance > 0) {
+        const applied = await this.applyPoints(tx, {
+          employeeId: employee.id,
+          type: "redeem",
+          amount: -fromBalance,
+          orderId: order.id,
+          note: `Order ${order.orderId}`,
+        });
+        if (!applied) throw new CheckoutError("Insufficient points");
+      }
+      const created = [order];
+
+      await tx.delete(cartItems).where(eq(cartItems.employeeId, employee.id));
+
+      if (input.checkoutKey) {
+        await tx.insert(checkoutKeys).values({
+          key: input.checkoutKey,
+          employeeId: employee.id,
+          orderIds: created.map((o) => o.id),
+        });
+      }
+
+      const [updated] = await tx.select().from(employees).where(eq(employees.id, employee.id));
+      return { orders: created, employee: updated, replayed: false };
+    });
+  }
+
+  // Moves an order along the lifecycle in shared/order-status.ts and records the step.
+  async changeOrderStatus(
+    id: string,
+    change: { status: OrderStatus; actorEmployeeId?: string | null; note?: string | null }
+  ) {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!before) throw new OrderTransitionError("Order not found", 404);
+      // cancelling has stock and points side effects; it goes through cancelOrder
+      if (change.status === "cancelled") throw new OrderTransitionError("Use cancelOrder to cancel an order", 400);
+      if (!canTransitionOrder(before.status, change.status)) {
+        const from = before.status ? ORDER_STATUS_LABEL[before.status] ?? before.status : "Confirmed";
+        throw new OrderTransitionError(`Cannot move ${before.orderId} from ${from} to ${ORDER_STATUS_LABEL[change.status]}`);
+      }
+
+      const rows = await tx.update(orders).set({ status: change.status }).where(eq(orders.id, id)).returning();
+      await tx.insert(orderStatusHistory).values({
+        orderId: id,
+        fromStatus: before.status ?? "confirmed",
+        toStatus: change.status,
+        actorEmployeeId: change.actorEmployeeId ?? null,
+        note: change.note ?? null,
+      });
+      return { before, order: rows[0] };
+    });
+  }
+
+  /**
+   * Cancels an order in one transaction: puts the items' stock back (less units a
+   * received return already restocked), closes return requests still awaiting a
+   * decision, refunds the points the order actually redeemed and works out its
+   * share of any copay. Approved returns or exchanges must be received first.
+   * The gateway refund itself happens afterwards (see server/order-cancellation.ts).
+   */
+  async cancelOrder(id: string, opts: { actorEmployeeId?: string | null; note?: string | null; byEmployee?: boolean }) {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!before) throw new OrderTransitionError("Order not found", 404);
+      const allowed = opts.byEmployee
+        ? SELF_CANCELLABLE_STATUSES.includes(before.status ?? "confirmed")
+        : canTransitionOrder(before.status, "cancelled");
+      if (!allowed) {
+        const from = ORDER_STATUS_LABEL[before.status ?? "confirmed"] ?? before.status;
+        throw new OrderTransitionError(`${before.orderId} can no longer be cancelled (${from})`);
+      }
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, id));
+      const requests = await tx.select().from(returnRequests).where(eq(returnRequests.orderId, id)).for("update");
+      const { blocking, restock } = cancellationRestock(items, requests);
+      if (blocking.length) {
+        const rmas = blocking.map((r) => r.rmaNumber).join(", ");
+        throw new OrderTransitionError(`${before.orderId} has approved returns or exchanges (${rmas}); receive them before cancelling`);
+      }
+      for (const item of items) {
+        const quantity = restock.get(item.id) ?? 0;
+        if (!quantity) continue;
+        await tx
+          .update(products)
+          .set({ stock: dsql`coalesce(${products.stock}, 0) + ${quantity}` })
+          .where(eq(products.id, item.productId));
+      }
+      await tx
+        .update(returnRequests)
+        .set({
+          status: "rejected",
+          adminNote: "Order cancelled",
+          decidedByEmployeeId: opts.actorEmployeeId ?? null,
+          decidedAt: new Date(),
+        })
+        .where(and(eq(returnRequests.orderId, id), eq(returnRequests.status, "requested")));
+
+      // the ledger, not metadata.usedPoints, says what came out of the balance;
+      // orders placed before the ledger existed have no redeem rows to go by
+      const entry = (await this.redeemedPointsByOrder(tx, [id])).get(id);
+      const pointsRefunded = entry
+        ? entry.outstanding
+        : before.metadata?.copayInr
+          ? 0
+          : before.metadata?.usedPoints ?? 0;
+      if (pointsRefunded > 0) {
+        await this.applyPoints(tx, {
+          employeeId: before.employeeId,
+          type: "refund",
+          amount: pointsRefunded,
+          orderId: id,
+          actorEmployeeId: opts.actorEmployeeId,
+          note: `Cancelled ${before.orderId}`,
+        });
+      }
+
+      const copayRefundInr = await this.copayShare(tx, before);
+      const metadata = {
+        ...(before.metadata ?? {}),
+        cancellation: {
+          cancelledAt: new Date().toISOString(),
+          byEmployee: !!opts.byEmployee,
+          pointsRefunded,
+          copayRefundInr,
+          refundStatus: copayRefundInr > 0 ? ("pending" as const) : ("none" as const),
+        },
+      };
+
+      const rows = await tx.update(orders).set({ status: "cancelled", metadata }).where(eq(orders.id, id)).returning();
+      await tx.insert(orderStatusHistory).values({
+        orderId: id,
+        fromStatus: before.status ?? "confirmed",
+        toStatus: "cancelled",
+        actorEmployeeId: opts.actorEmployeeId ?? null,
+        note: opts.note ?? null,
+      });
+      return { before, order: rows[0], pointsRefunded, copayRefundInr };
+    });
+  }
+
+  // redeemed = points taken at checkout; outstanding = what has not been refunded yet
+  private async redeemedPointsByOrder(q: Tx, orderIds: string[]) {
+    const rows = await q
+      .select({
+        orderId: pointsTransactions.orderId,
+        redeemed: dsql<number>`coalesce(-sum(${pointsTransactions.amount}) filter (where ${pointsTransactions.type} = 'redeem'), 0)::int`,
+        outstanding: dsql<number>`coalesce(-sum(${pointsTransactions.amount}), 0)::int`,
+      })
+      .from(pointsTransactions)
+      .where(
+        and(inArray(pointsTransactions.orderId, orderIds), inArray(pointsTransactions.type, ["redeem", "refund"]))
+      )
+      .groupBy(pointsTransactions.orderId);
+    return new Map(rows.map((r) => [r.orderId!, { redeemed: r.redeemed, outstanding: Math.max(0, r.outstanding) }]));
+  }
+
+  /**
+   * metadata.copayInr is the payment for the whole checkout. That is the whole
+   * order now, but older checkouts were split into one order per product, each
+   * stamped with the full amount; those get a share proportional to the points
+   * the payment covered for them.
+   */
+  private async copayShare(q: Tx, order: Order) {
+    const copayInr = order.metadata?.copayInr ?? 0;
+    const payment = orderPaymentRef(order.metadata);
+    if (copayInr <= 0 || !payment) return 0;
+
+    const [key] = await q.select().from(checkoutKeys).where(eq(checkoutKeys.key, paymentCheckoutKey(payment)));
+    const siblingIds = key?.orderIds.length ? key.orderIds : [order.id];
+    const siblings = await q.select().from(orders).where(inArray(orders.id, siblingIds));
+    const redeemed = await this.redeemedPointsByOrder(q, siblingIds);
+
+    const covered = (o: Order) => Math.max(0, (o.metadata?.usedPoints ?? 0) - (redeemed.get(o.id)?.redeemed ?? 0));
+    const total = siblings.reduce((sum, o) => sum + covered(o), 0);
+    if (total <= 0) return 0;
+    return Math.round((copayInr * covered(order)) / total);
+  }
+
+  async getOrderByHandoverCode(code: string) {
+    const rows = await db.select().from(orders).where(eq(orders.handoverCode, code)).limit(1);
+    return rows[0];
+  }
+
+  /**
+   * Distribution desk handover: marks the office pickup delivered and records who
+   * handed it over. The row lock makes a second scan of the same code fail.
+   */
+  async recordHandover(code: string, actorEmployeeId: string) {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(orders).where(eq(orders.handoverCode, code)).for("update");
+      if (!before) throw new OrderTransitionError("No order matches this code", 404);
+
+      if (before.handedOverAt) {
+        const [by] = before.handedOverByEmployeeId
+          ? await tx.select().from(employees).where(eq(employees.id, before.handedOverByEmployeeId))
+          : [];
+        const when = before.handedOverAt.toLocaleString("en-IN", { timeZone: "Asia/Kolkata" });
+        const who = by ? ` by ${by.firstName} ${by.lastName}` : "";
+        throw new OrderTransitionError(`${before.orderId} was already handed over on ${when}${who}`);
+      }
+      const status = before.status ?? "confirmed";
+      if (!HANDOVER_READY_STATUSES.includes(status)) {
+        const open = canTransitionOrder(status, "cancelled");
+        throw new OrderTransitionError(
+          open
+            ? `${before.orderId} is still ${ORDER_STATUS_LABEL[status]}; it isn't ready for pickup yet`
+            : `${before.orderId} is ${ORDER_STATUS_LABEL[status]} and can't be handed over`
+        );
+      }
+
+      const handedOverAt = new Date();
+      const rows = await tx
+        .update(orders)
+        .set({ status: "delivered", handedOverAt, handedOverByEmployeeId: actorEmployeeId })
+        .where(eq(orders.id, before.id))
+        .returning();
+      await tx.insert(orderStatusHistory).values({
+        orderId: before.id,
+        fromStatus: status,
+        toStatus: "delivered",
+        actorEmployeeId,
+        note: "Handed over at the distribution desk",
+      });
+      return { before, order: rows[0] };
+    });
+  }
+
+  // Office pickups placed before handover codes existed get one while they are still open
+  async backfillHandoverCodes() {
+    const pending = await db
+      .select({ id: orders.id })
       .from(orders)
-      .where(dsql`extract(year from ${orders.orderDate}) = ${year}`);
-    const next = Number(c) + 1;
-    const orderId = `ORD-${year}-${String(next).padStart(3, "0")}`;
+      .where(
+        and(
+          isNull(orders.handoverCode),
+          dsql`${orders.metadata}->>'deliveryMethod' = 'office'`,
+          openPickupCondition()
+        )
+      );
+    for (const { id } of pending) {
+      await db.update(orders).set({ handoverCode: newHandoverCode() }).where(and(eq(orders.id, id), isNull(orders.handoverCode)));
+    }
+    return pending.length;
+  }
+
+  async recordOrderRefund(id: string, refund: Partial<OrderCancellation>) {
+    return db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!order?.metadata?.cancellation) return undefined;
+      const metadata = { ...order.metadata, cancellation: { ...order.metadata.cancellation, ...refund } };
+      const rows = await tx.update(orders).set({ metadata }).where(eq(orders.id, id)).returning();
+      return rows[0];
+    });
+  }
+
+  async getOrderStatusHistory(orderIds: string[]) {
+    if (orderIds.length === 0) return [];
+    return db
+      .select()
+      .from(orderStatusHistory)
+      .where(inArray(orderStatusHistory.orderId, orderIds))
+      .orderBy(asc(orderStatusHistory.createdAt));
+  }
+
+  async getCheckoutKey(key: string) {
+    const rows = await db.select().from(checkoutKeys).where(eq(checkoutKeys.key, key)).limit(1);
+    return rows[0];
+  }
+
+  async getOrdersByIds(ids: string[]) {
+    if (ids.length === 0) return [];
+    return db.select().from(orders).where(inArray(orders.id, ids)).orderBy(asc(orders.orderId));
+  }
+
+  // Copay payments
+  async createPayment(payment: InsertPayment) {
+    const rows = await db.insert(payments).values(payment).returning();
+    return rows[0];
+  }
+
+  async getPayment(id: string) {
+    const rows = await db.select().from(payments).where(eq(payments.id, id)).limit(1);
+    return rows[0];
+  }
+
+  async getPaymentByRef(ref: string) {
+    const rows = await db.select().from(payments).where(eq(payments.ref, ref)).limit(1);
+    return rows[0];
+  }
+
+  async updatePayment(id: string, updates: Partial<InsertPayment>) {
+    const rows = await db
+      .update(payments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(payments.id, id))
+      .returning();
+    return rows[0];
+  }
+
+  async recordPaymentCheck(id: string, check: { gatewayResponse: unknown; gatewayPaymentId: string | null }) {
+    const now = new Date();
+    await db
+      .update(payments)
+      .set({
+        gatewayResponse: check.gatewayResponse,
+        ...(check.gatewayPaymentId ? { gatewayPaymentId: check.gatewayPaymentId } : {}),
+        checks: dsql`${payments.checks} + 1`,
+        lastCheckedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(payments.id, id));
+  }
+
+  // pending → processing for exactly one caller (browser, webhook or reconciler).
+  // A processing row untouched since staleBefore was left by a crashed run and is taken over;
+  // reopenFailed also takes a failed one (money arrived after the attempt expired).
+  async claimPayment(id: string, staleBefore: Date, opts: { reopenFailed?: boolean } = {}) {
+    const rows = await db
+      .update(payments)
+      .set({ status: "processing", updatedAt: new Date() })
+      .where(
+        and(
+          eq(payments.id, id),
+          or(
+            eq(payments.status, "pending"),
+            and(eq(payments.status, "processing"), lte(payments.updatedAt, staleBefore)),
+            opts.reopenFailed ? eq(payments.status, "failed") : undefined
+          )
+        )
+      )
+      .returning();
+    return rows[0];
+  }
+
+  async getPaymentsToReconcile(opts: { createdBefore: Date; staleBefore: Date; limit: number }) {
+    return db
+      .select()
+      .from(payments)
+      .where(
+        or(
+          and(eq(payments.status, "pending"), lte(payments.createdAt, opts.createdBefore)),
+          and(eq(payments.status, "processing"), lte(payments.updatedAt, opts.staleBefore))
+        )
+      )
+      .orderBy(dsql`${payments.lastCheckedAt} asc nulls first`)
+      .limit(opts.limit);
+  }
+
+  async listPayments(filter: { status?: PaymentStatus; from?: Date; to?: Date; limit?: number }) {
+    const conds = [];
+    if (filter.status) conds.push(eq(payments.status, filter.status));
+    if (filter.from) conds.push(gte(payments.createdAt, filter.from));
+    if (filter.to) conds.push(lte(payments.createdAt, filter.to));
+    return db
+      .select()
+      .from(payments)
+      .where(conds.length ? and(...conds) : undefined)
+      .orderBy(desc(payments.createdAt))
+      .limit(filter.limit ?? 500);
+  }
+
+  // Returns & exchanges
+  private async nextRmaNumber(q: Tx) {
+    const prefix = `RMA-${new Date().getFullYear()}`;
+    const next = await this.nextSequence(
+      q,
+      prefix,
+      dsql`select coalesce(max(substring(${returnRequests.rmaNumber} from ${`^${prefix}-([0-9]+)$`}::text)::int), 0) from ${returnRequests}`
+    );
+    return `${prefix}-${String(next).padStart(4, "0")}`;
+  }
+
+  /**
+   * Opens an RMA for part or all of a delivered item. Requests that were not
+   * rejected count against the item's quantity, so the same unit can't be
+   * returned twice.
+   */
+  async createReturnRequest(input: {
+    employeeId: string;
+    orderItemId: string;
+    type: ReturnRequestType;
+    quantity: number;
+    reason: string;
+    details?: string | null;
+    photos: string[];
+    exchangeColor?: string | null;
+    exchangeSize?: string | null;
+  }) {
+    return db.transaction(async (tx) => {
+      const [item] = await tx.select().from(orderItems).where(eq(orderItems.id, input.orderItemId));
+      if (!item) throw new ReturnRequestError("Order item not found", 404);
+      // the order lock serialises concurrent requests for its items
+      const [order] = await tx.select().from(orders).where(eq(orders.id, item.orderId)).for("update");
+      if (!order || order.employeeId !== input.employeeId) throw new ReturnRequestError("Order item not found", 404);
+      if (order.status !== "delivered") {
+        throw new ReturnRequestError("Returns and exchanges can be requested once the order is delivered", 409);
+      }
+
+      const [{ used }] = await tx
+        .select({ used: dsql<number>`coalesce(sum(${returnRequests.quantity}), 0)::int` })
+        .from(returnRequests)
+        .where(and(eq(returnRequests.orderItemId, item.id), dsql`${returnRequests.status} <> 'rejected'`));
+      if (input.quantity < 1 || used + input.quantity > item.quantity) {
+        const left = Math.max(0, item.quantity - used);
+        throw new ReturnRequestError(
+          left ? `Only ${left} unit(s) of this item can still be returned` : "This item already has a return request",
+          409
+        );
+      }
+
+      const rows = await tx
+        .insert(returnRequests)
+        .values({
+          rmaNumber: await this.nextRmaNumber(tx),
+          orderId: order.id,
+          orderItemId: item.id,
+          employeeId: input.employeeId,
+          type: input.type,
+          quantity: input.quantity,
+          reason: input.reason,
+          details: input.details ?? null,
+          photos: input.photos,
+          exchangeColor: input.type === "exchange" ? input.exchangeColor ?? null : null,
+          exchangeSize: input.type === "exchange" ? input.exchangeSize ?? null : null,
+        })
+        .returning();
+      return rows[0];
+    });
+  }
+
+  async getReturnRequest(id: string) {
+    const rows = await db.select().from(returnRequests).where(eq(returnRequests.id, id)).limit(1);
+    return rows[0];
+  }
+
+  async listReturnRequests(filter: { employeeId?: string; orderIds?: string[]; status?: ReturnRequestStatus } = {}) {
+    const conds: SQL[] = [];
+    if (filter.employeeId) conds.push(eq(returnRequests.employeeId, filter.employeeId));
+    if (filter.orderIds) {
+      if (filter.orderIds.length === 0) return [];
+      conds.push(inArray(returnRequests.orderId, filter.orderIds));
+    }
+    if (filter.status) conds.push(eq(returnRequests.status, filter.status));
+    return db
+      .select()
+      .from(returnRequests)
+      .where(conds.length ? and(...conds) : undefined)
+      .orderBy(desc(returnRequests.createdAt));
+  }
+
+  /**
+   * Approve or reject a requested RMA. Approving an exchange takes the
+   * replacement out of stock; approving a return refunds the points paid
+   * for the item pro rata to the ledger.
+   */
+  async decideReturnRequest(id: string, decision: { approve: boolean; actorEmployeeId: string; note?: string | null }) {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(returnRequests).where(eq(returnRequests.id, id)).for("update");
+      if (!before) throw new ReturnRequestError("Return request not found", 404);
+      if (before.status !== "requested") {
+        throw new ReturnRequestError(`${before.rmaNumber} has already been ${before.status}`, 409);
+      }
+
+      let refundPoints: number | null = null;
+      if (decision.approve) {
+        const [item] = await tx.select().from(orderItems).where(eq(orderItems.id, before.orderItemId));
+        if (!item) throw new ReturnRequestError("Order item not found", 404);
+
+        if (before.type === "exchange") {
+          const [product] = await tx.select().from(products).where(eq(products.id, item.productId)).for("update");
+          if (!product || (product.stock ?? 0) < before.quantity) {
+            throw new ReturnRequestError(`Not enough stock of ${product?.name ?? "this product"} for the exchange`, 409);
+          }
+          await tx
+            .update(products)
+            .set({ stock: (product.stock ?? 0) - before.quantity })
+            .where(eq(products.id, product.id));
+        } else {
+          // only the points part comes back; a line partly paid online has fewer than usedPoints
+          const [order] = await tx.select().from(orders).where(eq(orders.id, before.orderId));
+          const split = order?.metadata?.pointsSplit?.find((s) => s.orderItemId === item.id);
+          const paidPoints = split ? split.points : item.usedPoints;
+          refundPoints = Math.floor((paidPoints * before.quantity) / Math.max(1, item.quantity));
+          if (refundPoints > 0) {
+            await this.applyPoints(tx, {
+              employeeId: before.employeeId,
+              type: "refund",
+              amount: refundPoints,
+              orderId: before.orderId,
+              actorEmployeeId: decision.actorEmployeeId,
+              note: `Return ${before.rmaNumber}`,
+            });
+          }
+        }
+      }
+
+      const rows = await tx
+        .update(returnRequests)
+        .set({
+          status: decision.approve ? "approved" : "rejected",
+          refundPoints,
+          adminNote: decision.note ?? null,
+          decidedByEmployeeId: decision.actorEmployeeId,
+          decidedAt: new Date(),
+        })
+        .where(eq(returnRequests.id, id))
+        .returning();
+      return { before, request: rows[0] };
+    });
+  }
+
+  // The returned unit is back in the warehouse; it goes back into stock
+  async markReturnReceived(id: string, opts: { note?: string | null }) {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(returnRequests).where(eq(returnRequests.id, id)).for("update");
+      if (!before) throw new ReturnRequestError("Return request not found", 404);
+      if (before.status !== "approved") {
+        throw new ReturnRequestError(`Only approved requests can be received (${before.rmaNumber} is ${before.status})`, 409);
+      }
+      const [order] = await tx.select({ status: orders.status }).from(orders).where(eq(orders.id, before.orderId));
+      if (order?.status === "cancelled") {
+        throw new ReturnRequestError(`${before.rmaNumber} belongs to a cancelled order`, 409);
+      }
+
+      const [item] = await tx.select().from(orderItems).where(eq(orderItems.id, before.orderItemId));
+      if (item) {
+        await tx
+          .update(products)
+          .set({ stock: dsql`coalesce(${products.stock}, 0) + ${before.quantity}` })
+          .where(eq(products.id, item.productId));
+      }
+
+      const rows = await tx
+        .update(returnRequests)
+        .set({
+          status: "received",
+          receivedAt: new Date(),
+          adminNote: opts.note ?? before.adminNote,
+        })
+        .where(eq(returnRequests.id, id))
+        .returning();
+      return { before, request: rows[0] };
+    });
+  }
+
+  // Shipments
+  async getOrderByOrderId(orderId: string) {
+    const rows = await db.select().from(orders).where(eq(orders.orderId, orderId)).limit(1);
+    return rows[0];
+  }
+
+  async getShipments(orderIds: string[]) {
+    if (orderIds.length === 0) return [];
+    return db.select().from(shipments).where(inArray(shipments.orderId, orderIds));
+  }
+
+  async getShipmentEvents(shipmentIds: string[]) {
+    if (shipmentIds.length === 0) return [];
+    return db
+      .select()
+      .from(shipmentEvents)
+      .where(inArray(shipmentEvents.shipmentId, shipmentIds))
+      .orderBy(asc(shipmentEvents.occurredAt));
+  }
+
+  // Creates or updates the order's shipment. Dates left undefined keep their current value.
+  async upsertShipment(
+    orderId: string,
+    input: { courier: string; awb: string; dispatchedAt?: Date | null; expectedAt?: Date | null }
+  ) {
+    return db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order) throw new ShipmentError("Order not found", 404);
+      if (order.status === "cancelled" || order.status === "returned") {
+        throw new ShipmentError(`${order.orderId} is ${order.status}; it cannot be shipped`, 409);
+      }
+
+      // the same waybill on two orders is almost always a mis-keyed import row
+      const [clash] = await tx
+        .select({ orderId: orders.orderId })
+        .from(shipments)
+        .innerJoin(orders, eq(orders.id, shipments.orderId))
+        .where(and(dsql`lower(${shipments.awb}) = lower(${input.awb})`, dsql`${shipments.orderId} <> ${orderId}`))
+        .limit(1);
+      if (clash) throw new ShipmentError(`AWB ${input.awb} is already used by ${clash.orderId}`, 409);
+
+      const [before] = await tx.select().from(shipments).where(eq(shipments.orderId, orderId)).for("update");
+      const values = {
+        courier: input.courier,
+        awb: input.awb,
+        ...(input.dispatchedAt !== undefined ? { dispatchedAt: input.dispatchedAt } : {}),
+        ...(input.expectedAt !== undefined ? { expectedAt: input.expectedAt } : {}),
+      };
+      const rows = before
+        ? await tx
+            .update(shipments)
+            .set({ ...values, updatedAt: new Date() })
+            .where(eq(shipments.id, before.id))
+            .returning()
+        : await tx.insert(shipments).values({ orderId, ...values }).returning();
+      return { before, shipment: rows[0] };
+    });
+  }
+
+  // Returns undefined when the same event is already recorded, so courier reports can be re-imported.
+  async addShipmentEvent(
+    shipmentId: string,
+    event: { description: string; location?: string | null; occurredAt: Date; actorEmployeeId?: string | null }
+  ) {
+    const [existing] = await db
+      .select({ id: shipmentEvents.id })
+      .from(shipmentEvents)
+      .where(
+        and(
+          eq(shipmentEvents.shipmentId, shipmentId),
+          eq(shipmentEvents.description, event.description),
+          eq(shipmentEvents.occurredAt, event.occurredAt)
+        )
+      )
+      .limit(1);
+    if (existing) return undefined;
 
     const rows = await db
-      .insert(orders)
+      .insert(shipmentEvents)
       .values({
-        ...orderData,
-        orderId,
-        status: "confirmed",
-        orderDate: new Date(),
-        metadata: orderData.metadata ?? null,
+        shipmentId,
+        description: event.description,
+        location: event.location ?? null,
+        occurredAt: event.occurredAt,
+        actorEmployeeId: event.actorEmployeeId ?? null,
       })
       .returning();
     return rows[0];
   }
 
+  // Address book
+  async getAddresses(employeeId: string) {
+    return db
+      .select()
+      .from(employeeAddresses)
+      .where(eq(employeeAddresses.employeeId, employeeId))
+      .orderBy(desc(employeeAddresses.isDefault), asc(employeeAddresses.createdAt));
+  }
+
+  async getAddress(employeeId: string, id: string) {
+    const rows = await db
+      .select()
+      .from(employeeAddresses)
+      .where(and(eq(employeeAddresses.id, id), eq(employeeAddresses.employeeId, employeeId)))
+      .limit(1);
+    return rows[0];
+  }
+
+  // Locks the employee so concurrent edits can't leave two defaults (or none)
+  private async lockAddressBook(tx: Tx, employeeId: string) {
+    await tx.select({ id: employees.id }).from(employees).where(eq(employees.id, employeeId)).for("update");
+    return tx.select().from(employeeAddresses).where(eq(employeeAddresses.employeeId, employeeId));
+  }
+
+  private async clearDefaultAddress(tx: Tx, employeeId: string) {
+    await tx
+      .update(employeeAddresses)
+      .set({ isDefault: false })
+      .where(and(eq(employeeAddresses.employeeId, employeeId), eq(employeeAddresses.isDefault, true)));
+  }
+
+  // The first address saved becomes the default
+  async createAddress(employeeId: string, input: AddressInput) {
+    return db.transaction(async (tx) => {
+      const existing = await this.lockAddressBook(tx, employeeId);
+      if (existing.length >= MAX_SAVED_ADDRESSES) {
+        throw new AddressError(`You can save up to ${MAX_SAVED_ADDRESSES} addresses`);
+      }
+      const isDefault = existing.length === 0 || !!input.isDefault;
+      if (isDefault) await this.clearDefaultAddress(tx, employeeId);
+
+      const rows = await tx
+        .insert(employeeAddresses)
+        .values({ ...input, employeeId, isDefault })
+        .returning();
+      return rows[0];
+    });
+  }
+
+  // An address can be made the default here, but not un-made; pick another default instead
+  async updateAddress(employeeId: string, id: string, input: AddressInput) {
+    return db.transaction(async (tx) => {
+      const existing = await this.lockAddressBook(tx, employeeId);
+      const before = existing.find((a) => a.id === id);
+      if (!before) throw new AddressError("Address not found", 404);
+
+      const isDefault = before.isDefault || !!input.isDefault;
+      if (isDefault && !before.isDefault) await this.clearDefaultAddress(tx, employeeId);
+
+      const rows = await tx
+        .update(employeeAddresses)
+        .set({ ...input, isDefault, updatedAt: new Date() })
+        .where(eq(employeeAddresses.id, id))
+        .returning();
+      return { before, address: rows[0] };
+    });
+  }
+
+  // Deleting the default promotes the oldest remaining address
+  async deleteAddress(employeeId: string, id: string) {
+    return db.transaction(async (tx) => {
+      const existing = await this.lockAddressBook(tx, employeeId);
+      const target = existing.find((a) => a.id === id);
+      if (!target) return undefined;
+
+      await tx.delete(employeeAddresses).where(eq(employeeAddresses.id, id));
+      const next = existing
+        .filter((a) => a.id !== id)
+        .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0))[0];
+      if (target.isDefault && next) {
+        await tx.update(employeeAddresses).set({ isDefault: true }).where(eq(employeeAddresses.id, next.id));
+      }
+      return target;
+    });
+  }
+
+  // Invoices
+  private async nextInvoiceNumber(q: Tx, kind: Invoice["kind"]) {
+    const prefix = `${kind === "credit_note" ? "CN" : "INV"}-${financialYearCode()}`;
+    const next = await this.nextSequence(
+      q,
+      prefix,
+      dsql`select coalesce(max(substring(${invoices.number} from ${`^${prefix}-([0-9]+)$`}::text)::int), 0) from ${invoices}`
+    );
+    return `${prefix}-${String(next).padStart(5, "0")}`;
+  }
+
+  /**
+   * Issues the invoice or credit note for an order / bulk-buy request, once.
+   * The source row is locked so two callers can't both number one; a second
+   * call returns the document already issued.
+   */
+  async issueInvoice(input: Omit<InsertInvoice, "id" | "number" | "issuedAt">) {
+    return db.transaction(async (tx) => {
+      let source: SQL | undefined;
+      if (input.orderId) {
+        await tx.select({ id: orders.id }).from(orders).where(eq(orders.id, input.orderId)).for("update");
+        source = eq(invoices.orderId, input.orderId);
+      } else if (input.bulkBuyRequestId) {
+        await tx
+          .select({ id: bulkBuyRequests.id })
+          .from(bulkBuyRequests)
+          .where(eq(bulkBuyRequests.id, input.bulkBuyRequestId))
+          .for("update");
+        source = eq(invoices.bulkBuyRequestId, input.bulkBuyRequestId);
+      } else {
+        throw new Error("An invoice needs an order or a bulk-buy request");
+      }
+
+      const [existing] = await tx
+        .select()
+        .from(invoices)
+        .where(and(eq(invoices.kind, input.kind), source))
+        .limit(1);
+      if (existing) return { invoice: existing, created: false };
+
+      const rows = await tx
+        .insert(invoices)
+        .values({ ...input, number: await this.nextInvoiceNumber(tx, input.kind) })
+        .returning();
+      return { invoice: rows[0], created: true };
+    });
+  }
+
+  async getInvoice(id: string) {
+    const rows = await db.select().from(invoices).where(eq(invoices.id, id)).limit(1);
+    return rows[0];
+  }
+
+  async listInvoices(filter: { orderIds?: string[]; bulkBuyRequestIds?: string[] }) {
+    const conds: SQL[] = [];
+    if (filter.orderIds?.length) conds.push(inArray(invoices.orderId, filter.orderIds));
+    if (filter.bulkBuyRequestIds?.length) conds.push(inArray(invoices.bulkBuyRequestId, filter.bulkBuyRequestIds));
+    if (conds.length === 0) return [];
+    return db
+      .select()
+      .from(invoices)
+      .where(or(...conds))
+      .orderBy(asc(invoices.issuedAt));
+  }
+
   // Cart
   async getCartItem(id: string) {
     const rows = await db.select().from(cartItems).where(eq(cartItems.id, id)).limit(1);
@@ -588,29 +2028,105 @@ class DrizzleStorage implements IStorage {
   }
 
   // Sessions
+  // Expired sessions are treated as missing
   async getSession(token: string) {
-    const rows = await db.select().from(sessions).where(eq(sessions.token, token)).limit(1);
+    const rows = await db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.token, token), gte(sessions.expiresAt, new Date())))
+      .limit(1);
     return rows[0];
   }
 
-  async createSession(employeeId: string) {
+  async createSession(employeeId: string, opts: { expiresAt: Date; ip?: string | null; userAgent?: string | null }) {
+    const now = new Date();
     const rows = await db
       .insert(sessions)
       .values({
         employeeId,
         token: randomUUID(),
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-        createdAt: new Date(),
+        expiresAt: opts.expiresAt,
+        userAgent: opts.userAgent ?? null,
+        ip: opts.ip ?? null,
+        lastSeenAt: now,
+        createdAt: now,
       })
       .returning();
     return rows[0];
   }
 
+  async touchSession(id: string, expiresAt: Date) {
+    const rows = await db
+      .update(sessions)
+      .set({ lastSeenAt: new Date(), expiresAt })
+      .where(eq(sessions.id, id))
+      .returning();
+    return rows[0];
+  }
+
   async deleteSession(token: string) {
     const res = await db.delete(sessions).where(eq(sessions.token, token));
     return res.rowCount ? res.rowCount > 0 : true;
   }
 
+  async getSessionsByEmployeeId(employeeId: string) {
+    return db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.employeeId, employeeId), gte(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.lastSeenAt));
+  }
+
+  async deleteSessionById(employeeId: string, id: string) {
+    const res = await db
+      .delete(sessions)
+      .where(and(eq(sessions.id, id), eq(sessions.employeeId, employeeId)));
+    return (res.rowCount ?? 0) > 0;
+  }
+
+  async deleteSessionsByEmployeeId(employeeId: string) {
+    const res = await db.delete(sessions).where(eq(sessions.employeeId, employeeId));
+    return res.rowCount ?? 0;
+  }
+
+  async purgeExpiredSessions(now: Date = new Date()) {
+    const res = await db.delete(sessions).where(lte(sessions.expiresAt, now));
+    return res.rowCount ?? 0;
+  }
+
+  // Audit log
+  async createAuditEvent(rec: InsertAuditEvent) {
+    const rows = await db.insert(auditEvents).values(rec).returning();
+    return rows[0];
+  }
+
+  async listAuditEvents(filter: {
+    actorEmployeeId?: string;
+    actorEmail?: string;
+    entityType?: string;
+    entityId?: string;
+    action?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+  }) {
+    const conds = [];
+    if (filter.actorEmployeeId) conds.push(eq(auditEvents.actorEmployeeId, filter.actorEmployeeId));
+    if (filter.actorEmail) conds.push(eq(auditEvents.actorEmail, filter.actorEmail));
+    if (filter.entityType) conds.push(eq(auditEvents.entityType, filter.entityType));
+    if (filter.entityId) conds.push(eq(auditEvents.entityId, filter.entityId));
+    if (filter.action) conds.push(eq(auditEvents.action, filter.action));
+    if (filter.from) conds.push(gte(auditEvents.createdAt, filter.from));
+    if (filter.to) conds.push(lte(auditEvents.createdAt, filter.to));
+
+    return db
+      .select()
+      .from(auditEvents)
+      .where(conds.length ? and(...conds) : undefined)
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(filter.limit ?? 500);
+  }
+
   // Branding
   async getBranding() {
     const rows = await db.select().from(brandingTable).limit(1);
@@ -631,15 +2147,144 @@ class DrizzleStorage implements IStorage {
     return rows[0];
   }
 
-  // OTP
-  async createOTP(rec: { email: string; code: string; expiresAt: Date; metadata?: any }) {
+  async getEmailTemplates() {
+    return db.select().from(emailTemplates);
+  }
+
+  async getEmailTemplate(key: EmailTemplateKey) {
+    const rows = await db.select().from(emailTemplates).where(eq(emailTemplates.key, key)).limit(1);
+    return rows[0];
+  }
+
+  async saveEmailTemplate(key: EmailTemplateKey, content: EmailTemplateContent, actorEmployeeId: string) {
+    const values = { ...content, updatedByEmployeeId: actorEmployeeId, updatedAt: new Date() };
     const rows = await db
-      .insert(otps)
-      .values({ email: rec.email, code: rec.code, expiresAt: rec.expiresAt, metadata: rec.metadata ?? null })
+      .insert(emailTemplates)
+      .values({ key, ...values })
+      .onConflictDoUpdate({ target: emailTemplates.key, set: values })
       .returning();
     return rows[0];
   }
 
+  async deleteEmailTemplate(key: EmailTemplateKey) {
+    const rows = await db.delete(emailTemplates).where(eq(emailTemplates.key, key)).returning();
+    return rows[0];
+  }
+
+  // Email outbox
+  async enqueueEmail(message: InsertEmailOutboxMessage) {
+    const rows = await db.insert(emailOutbox).values(message).returning();
+    return rows[0];
+  }
+
+  // Due rows move to "sending" with a lease: a worker that dies mid-send leaves
+  // them to be picked up again once nextAttemptAt passes. Skip-locked so two
+  // instances never claim the same message.
+  async claimDueEmails(limit: number, leaseMs: number) {
+    return db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: emailOutbox.id })
+        .from(emailOutbox)
+        .where(and(inArray(emailOutbox.status, ["pending", "sending"]), lte(emailOutbox.nextAttemptAt, new Date())))
+        .orderBy(asc(emailOutbox.nextAttemptAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (!due.length) return [];
+
+      const now = new Date();
+      return tx
+        .update(emailOutbox)
+        .set({
+          status: "sending",
+          attempts: dsql`${emailOutbox.attempts} + 1`,
+          nextAttemptAt: new Date(now.getTime() + leaseMs),
+          updatedAt: now,
+        })
+        .where(inArray(emailOutbox.id, due.map((r) => r.id)))
+        .returning();
+    });
+  }
+
+  async markEmailSent(id: string, messageId: string | null) {
+    const now = new Date();
+    await db
+      .update(emailOutbox)
+      .set({ status: "sent", messageId, sentAt: now, lastError: null, updatedAt: now })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // retryAt null = out of retries
+  async markEmailFailed(id: string, error: string, retryAt: Date | null) {
+    await db
+      .update(emailOutbox)
+      .set({
+        status: retryAt ? "pending" : "dead",
+        lastError: error,
+        nextAttemptAt: retryAt ?? new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  async listEmailOutbox(filter: { status?: EmailOutboxStatus; to?: string; limit?: number }) {
+    const conds = [];
+    if (filter.status) conds.push(eq(emailOutbox.status, filter.status));
+    if (filter.to) conds.push(dsql`${filter.to} = ANY(${emailOutbox.to})`);
+    return db
+      .select(outboxEntryColumns)
+      .from(emailOutbox)
+      .where(conds.length ? and(...conds) : undefined)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(filter.limit ?? 200);
+  }
+
+  async countEmailOutbox() {
+    const rows = await db
+      .select({ status: emailOutbox.status, count: dsql<number>`count(*)::int` })
+      .from(emailOutbox)
+      .groupBy(emailOutbox.status);
+    const counts: Record<EmailOutboxStatus, number> = { pending: 0, sending: 0, sent: 0, dead: 0 };
+    for (const r of rows) counts[r.status] = r.count;
+    return counts;
+  }
+
+  async getEmailOutboxMessage(id: string) {
+    const rows = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id)).limit(1);
+    return rows[0];
+  }
+
+  // Back in the queue with a fresh set of retries; only sent or dead messages
+  async requeueEmail(id: string) {
+    const rows = await db
+      .update(emailOutbox)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), lastError: null, updatedAt: new Date() })
+      .where(and(eq(emailOutbox.id, id), inArray(emailOutbox.status, ["sent", "dead"])))
+      .returning(outboxEntryColumns);
+    return rows[0];
+  }
+
+  // Drops queued copies of a template that must not be kept (login codes from before they bypassed the outbox)
+  async purgeOutboxEmails(templateKey: EmailTemplateKey) {
+    const rows = await db
+      .delete(emailOutbox)
+      .where(eq(emailOutbox.templateKey, templateKey))
+      .returning({ id: emailOutbox.id });
+    return rows.length;
+  }
+
+  // OTP
+  // Only one code per email is live: unused older codes are dropped with the insert.
+  async replaceOTP(rec: { email: string; codeHash: string; expiresAt: Date }) {
+    return db.transaction(async (tx) => {
+      await tx.delete(otps).where(and(eq(otps.email, rec.email), isNull(otps.usedAt)));
+      const rows = await tx
+        .insert(otps)
+        .values({ email: rec.email, code: rec.codeHash, expiresAt: rec.expiresAt })
+        .returning();
+      return rows[0];
+    });
+  }
+
   async getLastOTPForEmail(email: string) {
     const rows = await db
       .select()
@@ -650,8 +2295,157 @@ class DrizzleStorage implements IStorage {
     return rows[0];
   }
 
-  async markOTPAsUsed(id: string) {
-    await db.update(otps).set({ usedAt: new Date() }).where(eq(otps.id, id));
+  async redeemOTP(id: string) {
+    const rows = await db
+      .update(otps)
+      .set({ usedAt: new Date() })
+      .where(and(eq(otps.id, id), isNull(otps.usedAt)))
+      .returning({ id: otps.id });
+    return rows.length > 0;
+  }
+
+  async purgeExpiredOTPs(now: Date = new Date()) {
+    const res = await db.delete(otps).where(lte(otps.expiresAt, now));
+    return res.rowCount ?? 0;
+  }
+
+  // Auth throttling & account locks
+  async recordAuthAttempt(rec: { email: string; ip: string | null; kind: AuthAttempt["kind"]; success: boolean }) {
+    const [row] = await db.insert(authAttempts).values(rec).returning();
+    return row;
+  }
+
+  async markAuthAttemptSucceeded(id: string) {
+    await db.update(authAttempts).set({ success: true }).where(eq(authAttempts.id, id));
+  }
+
+  async countAuthAttempts(filter: {
+    kind: AuthAttempt["kind"];
+    since: Date;
+    email?: string;
+    ip?: string;
+    success?: boolean;
+  }) {
+    const conds = [eq(authAttempts.kind, filter.kind), gte(authAttempts.createdAt, filter.since)];
+    if (filter.email !== undefined) conds.push(eq(authAttempts.email, filter.email));
+    if (filter.ip !== undefined) conds.push(eq(authAttempts.ip, filter.ip));
+    if (filter.success !== undefined) conds.push(eq(authAttempts.success, filter.success));
+
+    const rows = await db
+      .select({ count: dsql<number>`count(*)::int` })
+      .from(authAttempts)
+      .where(and(...conds));
+    return rows[0]?.count ?? 0;
+  }
+
+  async getLastAuthAttempt(email: string, kind: AuthAttempt["kind"]) {
+    const rows = await db
+      .select()
+      .from(authAttempts)
+      .where(and(eq(authAttempts.email, email), eq(authAttempts.kind, kind)))
+      .orderBy(desc(authAttempts.createdAt))
+      .limit(1);
+    return rows[0];
+  }
+
+  async lockEmployee(id: string, opts: { reason: string; until: Date | null; ip?: string | null }) {
+    return db.transaction(async (tx) => {
+      const rows = await tx
+        .update(employees)
+        .set({ isLocked: true, lockReason: opts.reason, lockedAt: new Date(), lockedUntil: opts.until })
+        .where(eq(employees.id, id))
+        .returning();
+      if (rows[0]) {
+        // a lock signs the employee out everywhere
+        await tx.delete(sessions).where(eq(sessions.employeeId, id));
+        await tx.insert(employeeLockEvents).values({
+          employeeId: id,
+          action: "locked",
+          reason: opts.reason,
+          ip: opts.ip ?? null,
+        });
+      }
+      return rows[0];
+    });
+  }
+
+  async recordLoginFailure(
+    id: string,
+    opts: { lockAfter: number; reason: string; until: Date | null; ip?: string | null }
+  ) {
+    const now = new Date();
+    // the increment and the lock read the row's own values, so concurrent failures can't
+    // lose a count or slip past the limit; lockedAt tells us this update was the one that locked
+    const locks = dsql`(coalesce(${employees.isLocked}, false) = false and coalesce(${employees.loginAttempts}, 0) + 1 >= ${opts.lockAfter})`;
+    return db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(employees)
+        .set({
+          loginAttempts: dsql`coalesce(${employees.loginAttempts}, 0) + 1`,
+          isLocked: dsql`case when ${locks} then true else ${employees.isLocked} end`,
+          lockReason: dsql`case when ${locks} then ${opts.reason} else ${employees.lockReason} end`,
+          lockedAt: dsql`case when ${locks} then ${param(now, employees.lockedAt)} else ${employees.lockedAt} end`,
+          lockedUntil: dsql`case when ${locks} then ${param(opts.until, employees.lockedUntil)} else ${employees.lockedUntil} end`,
+        })
+        .where(eq(employees.id, id))
+        .returning();
+      if (!row) return undefined;
+
+      const locked = !!row.isLocked && row.lockedAt?.getTime() === now.getTime();
+      if (locked) {
+        await tx.delete(sessions).where(eq(sessions.employeeId, id));
+        await tx.insert(employeeLockEvents).values({
+          employeeId: id,
+          action: "locked",
+          reason: opts.reason,
+          ip: opts.ip ?? null,
+        });
+      }
+      return { employee: row, locked };
+    });
+  }
+
+  async unlockEmployee(id: string, opts: { reason: string; actorEmployeeId?: string | null }) {
+    return db.transaction(async (tx) => {
+      const rows = await tx
+        .update(employees)
+        .set({ isLocked: false, loginAttempts: 0, lockReason: null, lockedAt: null, lockedUntil: null })
+        .where(eq(employees.id, id))
+        .returning();
+      if (rows[0]) {
+        await tx.insert(employeeLockEvents).values({
+          employeeId: id,
+          action: "unlocked",
+          reason: opts.reason,
+          actorEmployeeId: opts.actorEmployeeId ?? null,
+        });
+      }
+      return rows[0];
+    });
+  }
+
+  async releaseExpiredLocks(now: Date = new Date()) {
+    return db.transaction(async (tx) => {
+      const rows = await tx
+        .update(employees)
+        .set({ isLocked: false, loginAttempts: 0, lockReason: null, lockedAt: null, lockedUntil: null })
+        .where(and(eq(employees.isLocked, true), lte(employees.lockedUntil, now)))
+        .returning();
+      if (rows.length) {
+        await tx.insert(employeeLockEvents).values(
+          rows.map((e) => ({ employeeId: e.id, action: "unlocked" as const, reason: "Lock period expired" }))
+        );
+      }
+      return rows;
+    });
+  }
+
+  async getEmployeeLockEvents(employeeId: string) {
+    return db
+      .select()
+      .from(employeeLockEvents)
+      .where(eq(employeeLockEvents.employeeId, employeeId))
+      .orderBy(desc(employeeLockEvents.createdAt));
   }
 
   /* =========================================================
@@ -764,10 +2558,13 @@ class DrizzleStorage implements IStorage {
     }>;
     totalAmount: number;
   }) {
-    const year = new Date().getFullYear();
-    const [{ c }] = await db.select({ c: dsql<number>`count(*)` }).from(bulkBuyRequests);
-    const next = Number(c) + 1;
-    const requestId = `BBR-${year}-${String(next).padStart(4, "0")}`;
+    const prefix = `BBR-${new Date().getFullYear()}`;
+    const next = await this.nextSequence(
+      db,
+      prefix,
+      dsql`select coalesce(max(substring(${bulkBuyRequests.requestId} from ${`^${prefix}-([0-9]+)$`}::text)::int), 0) from ${bulkBuyRequests}`
+    );
+    const requestId = `${prefix}-${String(next).padStart(4, "0")}`;
 
     const rows = await db
       .insert(bulkBuyRequests)
@@ -800,6 +2597,11 @@ class DrizzleStorage implements IStorage {
     return db.select().from(bulkBuyRequests).orderBy(desc(bulkBuyRequests.createdAt));
   }
 
+  async getBulkBuyRequest(id: string) {
+    const rows = await db.select().from(bulkBuyRequests).where(eq(bulkBuyRequests.id, id)).limit(1);
+    return rows[0];
+  }
+
   async updateBulkBuyRequest(id: string, updates: Partial<BulkBuyRequest>) {
     const rows = await db
       .update(bulkBuyRequests)
@@ -0,0 +1,28 @@
+/* =========================================================
+   DELIVERY ADDRESSES
+   Shared by the API (order snapshots) and the UI (address book, cart).
+   Kept free of drizzle/zod imports so the client can load it.
+   =======================================================*/
+
+export const ADDRESS_PHONE_PATTERN = /^[6-9][0-9]{9}$/;
+
+export const MAX_SAVED_ADDRESSES = 10;
+
+/** Copy of a saved address taken at checkout; later edits to the address book don't touch it. */
+export type AddressSnapshot = {
+  addressId: string | null;
+  label: string;
+  line1: string;
+  line2: string | null;
+  city: string;
+  state: string;
+  pincode: string;
+  phone: string;
+};
+
+type AddressFields = Pick<AddressSnapshot, "line1" | "line2" | "city" | "state" | "pincode" | "phone">;
+
+/** One-line form used on order lists, emails and invoices. */
+export function formatAddress(a: AddressFields): string {
+  return [a.line1, a.line2, `${a.city}, ${a.state} - ${a.pincode}`, `Phone: ${a.phone}`].filter(Boolean).join(", ");
+}
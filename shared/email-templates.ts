@@ -0,0 +1,467 @@
+/* =========================================================
+   EMAIL TEMPLATES
+   Built-in defaults, the variables each template is given and the
+   {{variable}} renderer. Shared so the admin editor previews exactly
+   what the server sends. Kept free of drizzle/zod imports so the
+   client can load it.
+   =======================================================*/
+
+export const EMAIL_TEMPLATE_KEYS = [
+  "otp",
+  "order_confirmation",
+  "order_dispatch",
+  "order_delivery",
+  "order_cancellation",
+  "bulkbuy_submitted",
+  "bulkbuy_status",
+] as const;
+
+export type EmailTemplateKey = (typeof EMAIL_TEMPLATE_KEYS)[number];
+
+/** What an admin edits. `html` is the message body; the branded header and footer wrap it. */
+export type EmailTemplateContent = {
+  subject: string;
+  fromName: string;
+  html: string;
+  text: string;
+};
+
+export type EmailTemplateDefinition = {
+  name: string;
+  description: string;
+  variables: string[]; // on top of COMMON_EMAIL_VARIABLES
+  sample: Record<string, unknown>; // for previews and test sends
+  defaults: EmailTemplateContent;
+};
+
+/** Every template also gets these (see server/email-templates.ts). */
+export const COMMON_EMAIL_VARIABLES = [
+  "company.name",
+  "company.logoUrl",
+  "company.primaryColor",
+  "company.accentColor",
+  "company.supportEmail",
+  "appUrl",
+  "year",
+];
+
+export function isEmailTemplateKey(value: unknown): value is EmailTemplateKey {
+  return EMAIL_TEMPLATE_KEYS.includes(value as EmailTemplateKey);
+}
+
+/* ---------------------------------------------------------
+   Renderer: a small mustache subset.
+   {{path}} escaped, {{{path}}} raw, {{#path}}…{{/path}} shown when
+   truthy (repeated for lists), {{^path}}…{{/path}} when falsy/empty.
+   ---------------------------------------------------------*/
+
+type TemplateNode =
+  | string
+  | { kind: "var"; path: string; raw: boolean }
+  | { kind: "section"; path: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*([#^/]?)\s*([\w.]+)\s*\}\}/g;
+
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const open: { path: string; children: TemplateNode[] }[] = [];
+  let current = root;
+  let last = 0;
+  TAG.lastIndex = 0;
+
+  for (let m = TAG.exec(source); m; m = TAG.exec(source)) {
+    if (m.index > last) current.push(source.slice(last, m.index));
+    last = TAG.lastIndex;
+
+    if (m[1]) {
+      current.push({ kind: "var", path: m[1], raw: true });
+    } else if (m[2] === "#" || m[2] === "^") {
+      const node = { kind: "section" as const, path: m[3], inverted: m[2] === "^", children: [] as TemplateNode[] };
+      current.push(node);
+      open.push({ path: m[3], children: current });
+      current = node.children;
+    } else if (m[2] === "/") {
+      const top = open.pop();
+      if (!top || top.path !== m[3]) throw new Error(`{{/${m[3]}}} has no matching {{#${m[3]}}}`);
+      current = top.children;
+    } else {
+      current.push({ kind: "var", path: m[3], raw: false });
+    }
+  }
+  if (open.length) throw new Error(`{{#${open[open.length - 1].path}}} is never closed`);
+  if (last < source.length) current.push(source.slice(last));
+  return root;
+}
+
+function lookup(path: string, stack: unknown[]): unknown {
+  if (path === ".") return stack[stack.length - 1];
+  const [head, ...rest] = path.split(".");
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const ctx = stack[i];
+    if (ctx && typeof ctx === "object" && head in (ctx as object)) {
+      return rest.reduce<unknown>(
+        (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+        (ctx as Record<string, unknown>)[head]
+      );
+    }
+  }
+  return undefined;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined || value === false) return "";
+  if (Array.isArray(value)) return value.map(stringify).join(", ");
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], stack: unknown[], html: boolean): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === "string") return node;
+      const value = lookup(node.path, stack);
+      if (node.kind === "var") return html && !node.raw ? escapeHtml(stringify(value)) : stringify(value);
+
+      const empty = !value || (Array.isArray(value) && value.length === 0);
+      if (node.inverted) return empty ? renderNodes(node.children, stack, html) : "";
+      if (empty) return "";
+      if (Array.isArray(value)) return value.map((item) => renderNodes(node.children, [...stack, item], html)).join("");
+      return renderNodes(node.children, [...stack, value], html);
+    })
+    .join("");
+}
+
+/** Fills in a template. `html` escapes {{values}}; subjects and plain text don't. Throws on a syntax error. */
+export function renderTemplate(source: string, context: Record<string, unknown>, opts: { html: boolean }): string {
+  return renderNodes(parseTemplate(source), [context], opts.html);
+}
+
+/** The first syntax problem in a template, or null. */
+export function templateSyntaxError(source: string): string | null {
+  try {
+    parseTemplate(source);
+    return null;
+  } catch (e: any) {
+    return e.message;
+  }
+}
+
+const LAYOUT = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="margin:0;font-family:Arial,sans-serif;line-height:1.5;color:#111827;">
+  <div style="max-width:600px;margin:0 auto;padding:20px;">
+    <div style="background:{{company.primaryColor}};background:linear-gradient(135deg, {{company.primaryColor}} 0%, {{company.accentColor}} 100%);color:#fff;padding:24px;border-radius:10px 10px 0 0;text-align:center;">
+      {{#company.logoUrl}}<img src="{{company.logoUrl}}" alt="{{company.name}}" style="max-height:48px;"><br>{{/company.logoUrl}}
+      <b style="font-size:20px;">{{company.name}}</b>
+    </div>
+    <div style="background:#f9fafb;padding:24px;border-radius:0 0 10px 10px;">{{{body}}}</div>
+    <p style="text-align:center;margin-top:16px;font-size:12px;color:#6b7280;">
+      {{#company.supportEmail}}Questions? Write to <a href="mailto:{{company.supportEmail}}">{{company.supportEmail}}</a><br>{{/company.supportEmail}}
+      &copy; {{year}} {{company.name}}
+    </p>
+  </div>
+</body>
+</html>`;
+
+/** Subject, sender name, full HTML (body inside the branded layout) and plain text. */
+export function renderEmail(content: EmailTemplateContent, context: Record<string, unknown>): EmailTemplateContent {
+  const body = renderTemplate(content.html, context, { html: true });
+  return {
+    subject: renderTemplate(content.subject, context, { html: false }).trim(),
+    fromName: renderTemplate(content.fromName, context, { html: false }).trim(),
+    html: renderTemplate(LAYOUT, { ...context, body }, { html: true }),
+    text: renderTemplate(content.text, context, { html: false }),
+  };
+}
+
+/* ---------------------------------------------------------
+   Defaults
+   ---------------------------------------------------------*/
+
+const fact = (label: string, value: string) =>
+  `<tr><td style="padding:4px 12px 4px 0;color:#6b7280;">${label}</td><td style="padding:4px 0;"><b>${value}</b></td></tr>`;
+
+const ORDER_ITEMS = `<table style="width:100%;border-collapse:collapse;margin-top:12px;">
+  <tr style="background:#f3f4f6;"><th style="padding:8px;text-align:left;">Item</th><th style="padding:8px;">Qty</th><th style="padding:8px;text-align:right;">Points</th></tr>
+  {{#items}}<tr>
+    <td style="padding:8px;border-bottom:1px solid #e5e7eb;">{{name}}{{#variant}}<br><span style="color:#6b7280;font-size:12px;">{{variant}}</span>{{/variant}}</td>
+    <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:center;">{{quantity}}</td>
+    <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:right;">{{points}}</td>
+  </tr>{{/items}}
+</table>`;
+
+const ORDER_ITEMS_TEXT = `{{#items}}- {{name}}{{#variant}} ({{variant}}){{/variant}} x{{quantity}} · {{points}} points
+{{/items}}`;
+
+const ORDER_FOOTER = `<p style="margin-top:20px;"><a href="{{appUrl}}/my-orders" style="color:{{company.primaryColor}};">View your orders</a></p>
+<p style="font-size:12px;color:#6b7280;">You can turn these emails off on the My Orders page.</p>`;
+
+const ORDER_FOOTER_TEXT = `Track your orders: {{appUrl}}/my-orders
+You can turn these emails off on the My Orders page.`;
+
+const ORDER_VARIABLES = [
+  "employee.firstName",
+  "employee.lastName",
+  "employee.email",
+  "order.orderId",
+  "order.status",
+  "order.usedPoints",
+  "order.copayInr",
+  "order.deliveryLabel",
+  "order.deliveryAddress",
+  "items (name, variant, quantity, points)",
+];
+
+const SAMPLE_EMPLOYEE = { firstName: "Asha", lastName: "Rao", email: "asha.rao@example.com" };
+
+const SAMPLE_ORDER = {
+  orderId: "ORD-2026-042",
+  status: "Confirmed",
+  usedPoints: 1200,
+  copayInr: 350,
+  deliveryLabel: "Pickup",
+  deliveryAddress: "Bengaluru — Whitefield",
+  pickupCode: "K7M3-Q9XP",
+};
+
+const SAMPLE_ITEMS = [
+  { name: "Insulated Bottle", variant: "Navy", quantity: 1, points: 700 },
+  { name: "Hoodie", variant: "Size M, Grey", quantity: 1, points: 850 },
+];
+
+const BULKBUY_ITEMS = `<table cellspacing="0" cellpadding="0" style="border-collapse:collapse;width:100%;">
+  <tr>
+    <th style="padding:8px;border:1px solid #eee;text-align:left;">Product</th>
+    <th style="padding:8px;border:1px solid #eee;text-align:left;">SKU</th>
+    <th style="padding:8px;border:1px solid #eee;text-align:left;">Color</th>
+    <th style="padding:8px;border:1px solid #eee;text-align:right;">Qty</th>
+    <th style="padding:8px;border:1px solid #eee;text-align:right;">Unit</th>
+    <th style="padding:8px;border:1px solid #eee;text-align:right;">Total</th>
+  </tr>
+  {{#request.items}}<tr>
+    <td style="padding:8px;border:1px solid #eee;">{{name}}</td>
+    <td style="padding:8px;border:1px solid #eee;">{{sku}}</td>
+    <td style="padding:8px;border:1px solid #eee;">{{selectedColor}}{{^selectedColor}}-{{/selectedColor}}</td>
+    <td style="padding:8px;border:1px solid #eee;text-align:right;">{{quantity}}</td>
+    <td style="padding:8px;border:1px solid #eee;text-align:right;">₹{{unitPrice}}</td>
+    <td style="padding:8px;border:1px solid #eee;text-align:right;">₹{{lineTotal}}</td>
+  </tr>{{/request.items}}
+</table>`;
+
+const SAMPLE_BULKBUY_REQUEST = {
+  requestId: "BBR-2026-007",
+  status: "pending_approval",
+  statusLabel: "Pending approval",
+  deliveryMethod: "delivery",
+  deliveryAddress: "12 MG Road, Bengaluru 560001",
+  requesterNote: "Needed for the offsite on the 20th",
+  procurementNote: "Approved against the Q3 events budget",
+  total: "45000.00",
+  items: [{ name: "Branded Notebook", sku: "NB-01", selectedColor: "Black", quantity: 100, unitPrice: "450.00", lineTotal: "45000.00" }],
+};
+
+export const EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+  otp: {
+    name: "Sign-in code",
+    description: "The one-time code for employee and admin sign-in.",
+    variables: ["code", "expiresInMinutes"],
+    sample: { code: "482913", expiresInMinutes: 10 },
+    defaults: {
+      subject: "Your {{company.name}} Portal Verification Code",
+      fromName: "{{company.name}} Portal",
+      html: `<h2 style="margin-top:0;">Your Verification Code</h2>
+<p>Hello,</p>
+<p>Use the following code to verify your identity and access the {{company.name}} Employee Portal:</p>
+<p style="font-size:32px;font-weight:bold;color:{{company.primaryColor}};text-align:center;letter-spacing:5px;margin:20px 0;">{{code}}</p>
+<p>This code will expire in {{expiresInMinutes}} minutes.</p>
+<p>If you didn't request this code, please ignore this email.</p>`,
+      text: `{{company.name}} Portal - Verification Code
+
+Your OTP code is: {{code}}
+
+This code will expire in {{expiresInMinutes}} minutes.
+
+If you didn't request this code, please ignore this email.`,
+    },
+  },
+
+  order_confirmation: {
+    name: "Order confirmation",
+    description: "Sent when an employee places a points or co-pay order.",
+    variables: [...ORDER_VARIABLES, "order.pickupCode"],
+    sample: { employee: SAMPLE_EMPLOYEE, order: SAMPLE_ORDER, items: SAMPLE_ITEMS },
+    defaults: {
+      subject: "Thanks for your order — {{order.orderId}}",
+      fromName: "{{company.name}}",
+      html: `<h2 style="margin-top:0;">Thanks for your order</h2>
+<p>Hi {{employee.firstName}}, we've received your order and will let you know when it moves.</p>
+<table style="border-collapse:collapse;margin:12px 0;">
+  ${fact("Order", "{{order.orderId}}")}
+  ${fact("Points used", "{{order.usedPoints}}")}
+  {{#order.copayInr}}${fact("Co-pay", "₹{{order.copayInr}}")}{{/order.copayInr}}
+  ${fact("{{order.deliveryLabel}}", "{{order.deliveryAddress}}")}
+  {{#order.pickupCode}}${fact("Pickup code", "{{order.pickupCode}}")}{{/order.pickupCode}}
+</table>
+${ORDER_ITEMS}
+${ORDER_FOOTER}`,
+      text: `Thanks for your order
+
+Hi {{employee.firstName}}, we've received your order {{order.orderId}}.
+Points used: {{order.usedPoints}}
+{{#order.copayInr}}Co-pay: ₹{{order.copayInr}}
+{{/order.copayInr}}{{order.deliveryLabel}}: {{order.deliveryAddress}}
+{{#order.pickupCode}}Pickup code: {{order.pickupCode}}
+{{/order.pickupCode}}
+${ORDER_ITEMS_TEXT}
+${ORDER_FOOTER_TEXT}`,
+    },
+  },
+
+  order_dispatch: {
+    name: "Order dispatched",
+    description: "Sent when an order is shipped.",
+    variables: [...ORDER_VARIABLES, "shipment.courier", "shipment.awb", "shipment.expectedAt"],
+    sample: {
+      employee: SAMPLE_EMPLOYEE,
+      order: { ...SAMPLE_ORDER, status: "Shipped", deliveryLabel: "Deliver to", deliveryAddress: "12 MG Road, Bengaluru" },
+      shipment: { courier: "Blue Dart", awb: "81234567890", expectedAt: "24/10/2026" },
+      items: SAMPLE_ITEMS,
+    },
+    defaults: {
+      subject: "Your order is on its way — {{order.orderId}}",
+      fromName: "{{company.name}}",
+      html: `<h2 style="margin-top:0;">Your order is on its way</h2>
+<p>Hi {{employee.firstName}}, your order has been handed to the courier.</p>
+<table style="border-collapse:collapse;margin:12px 0;">
+  ${fact("Order", "{{order.orderId}}")}
+  {{#shipment}}${fact("Courier", "{{courier}}")}
+  ${fact("AWB", "{{awb}}")}
+  {{#expectedAt}}${fact("Expected by", "{{expectedAt}}")}{{/expectedAt}}{{/shipment}}
+  ${fact("{{order.deliveryLabel}}", "{{order.deliveryAddress}}")}
+</table>
+${ORDER_ITEMS}
+${ORDER_FOOTER}`,
+      text: `Your order {{order.orderId}} is on its way.
+{{#shipment}}Courier: {{courier}}, AWB {{awb}}
+{{#expectedAt}}Expected by {{expectedAt}}
+{{/expectedAt}}{{/shipment}}
+${ORDER_ITEMS_TEXT}
+${ORDER_FOOTER_TEXT}`,
+    },
+  },
+
+  order_delivery: {
+    name: "Order delivered",
+    description: "Sent when an order is delivered or collected at the distribution desk.",
+    variables: [...ORDER_VARIABLES, "order.collectedAtDesk"],
+    sample: {
+      employee: SAMPLE_EMPLOYEE,
+      order: { ...SAMPLE_ORDER, status: "Delivered", collectedAtDesk: true },
+      items: SAMPLE_ITEMS,
+    },
+    defaults: {
+      subject: "{{#order.collectedAtDesk}}Collected at the office{{/order.collectedAtDesk}}{{^order.collectedAtDesk}}Your order has been delivered{{/order.collectedAtDesk}} — {{order.orderId}}",
+      fromName: "{{company.name}}",
+      html: `<h2 style="margin-top:0;">{{#order.collectedAtDesk}}Collected at the office{{/order.collectedAtDesk}}{{^order.collectedAtDesk}}Your order has been delivered{{/order.collectedAtDesk}}</h2>
+<p>Hi {{employee.firstName}}, {{#order.collectedAtDesk}}you collected order {{order.orderId}} at the distribution desk.{{/order.collectedAtDesk}}{{^order.collectedAtDesk}}order {{order.orderId}} has been delivered. Enjoy!{{/order.collectedAtDesk}}</p>
+${ORDER_ITEMS}
+<p>Something not right? You can raise a return or exchange from My Orders.</p>
+${ORDER_FOOTER}`,
+      text: `Hi {{employee.firstName}}, order {{order.orderId}} has been {{#order.collectedAtDesk}}collected at the distribution desk{{/order.collectedAtDesk}}{{^order.collectedAtDesk}}delivered{{/order.collectedAtDesk}}.
+
+${ORDER_ITEMS_TEXT}
+${ORDER_FOOTER_TEXT}`,
+    },
+  },
+
+  order_cancellation: {
+    name: "Order cancelled",
+    description: "Sent when an order is cancelled by the employee or an admin.",
+    variables: [...ORDER_VARIABLES, "order.byEmployee", "order.pointsRefunded", "order.copayRefundInr"],
+    sample: {
+      employee: SAMPLE_EMPLOYEE,
+      order: { ...SAMPLE_ORDER, status: "Cancelled", byEmployee: true, pointsRefunded: 850, copayRefundInr: 350 },
+      items: SAMPLE_ITEMS,
+    },
+    defaults: {
+      subject: "Your order was cancelled — {{order.orderId}}",
+      fromName: "{{company.name}}",
+      html: `<h2 style="margin-top:0;">Your order was cancelled</h2>
+<p>Hi {{employee.firstName}}, order {{order.orderId}} has been cancelled{{#order.byEmployee}} as you asked{{/order.byEmployee}}.{{^order.byEmployee}} Please contact support if this is unexpected.{{/order.byEmployee}}</p>
+<table style="border-collapse:collapse;margin:12px 0;">
+  {{#order.pointsRefunded}}${fact("Points returned", "{{order.pointsRefunded}}")}{{/order.pointsRefunded}}
+  {{#order.copayRefundInr}}${fact("Co-pay refund", "₹{{order.copayRefundInr}} to your original payment method")}{{/order.copayRefundInr}}
+</table>
+${ORDER_ITEMS}
+${ORDER_FOOTER}`,
+      text: `Order {{order.orderId}} has been cancelled.
+{{#order.pointsRefunded}}Points returned: {{order.pointsRefunded}}
+{{/order.pointsRefunded}}{{#order.copayRefundInr}}Co-pay refund: ₹{{order.copayRefundInr}} to your original payment method
+{{/order.copayRefundInr}}
+${ORDER_ITEMS_TEXT}
+${ORDER_FOOTER_TEXT}`,
+    },
+  },
+
+  bulkbuy_submitted: {
+    name: "Bulk buy request submitted",
+    description: "Sent to the requester and to procurement (support and the CC list copied) when a request is raised.",
+    variables: [
+      "employee.firstName",
+      "employee.lastName",
+      "employee.email",
+      "request.requestId",
+      "request.status",
+      "request.deliveryMethod",
+      "request.deliveryAddress",
+      "request.requesterNote",
+      "request.total",
+      "request.items (name, sku, selectedColor, quantity, unitPrice, lineTotal)",
+    ],
+    sample: { employee: SAMPLE_EMPLOYEE, request: SAMPLE_BULKBUY_REQUEST },
+    defaults: {
+      subject: "Bulk Buy Request Submitted: {{request.requestId}}",
+      fromName: "Bulk Buy",
+      html: `<h2 style="margin-top:0;">Bulk Buy Request Submitted</h2>
+<p><b>Request ID:</b> {{request.requestId}}</p>
+<p><b>Requester:</b> {{employee.firstName}} {{employee.lastName}} ({{employee.email}})</p>
+<p><b>Status:</b> {{request.status}}</p>
+<p><b>Delivery:</b> {{request.deliveryMethod}}{{#request.deliveryAddress}} - {{request.deliveryAddress}}{{/request.deliveryAddress}}</p>
+{{#request.requesterNote}}<p><b>Note:</b> {{request.requesterNote}}</p>{{/request.requesterNote}}
+<h3>Items</h3>
+${BULKBUY_ITEMS}
+<p style="margin-top:12px;"><b>Total:</b> ₹{{request.total}}</p>
+<p style="margin-top:16px;">Message to user: <b>Your request has been submitted to procurement team for approval.</b></p>`,
+      text: `Bulk Buy Request {{request.requestId}} submitted by {{employee.email}}. Total ₹{{request.total}}.`,
+    },
+  },
+
+  bulkbuy_status: {
+    name: "Bulk buy request update",
+    description: "Sent to the requester and to procurement when a request is approved, rejected or reopened.",
+    variables: [
+      "employee.firstName",
+      "employee.lastName",
+      "employee.email",
+      "request.requestId",
+      "request.status",
+      "request.statusLabel",
+      "request.total",
+      "request.procurementNote",
+    ],
+    sample: { employee: SAMPLE_EMPLOYEE, request: { ...SAMPLE_BULKBUY_REQUEST, status: "approved", statusLabel: "Approved" } },
+    defaults: {
+      subject: "Bulk Buy Request {{request.statusLabel}}: {{request.requestId}}",
+      fromName: "Bulk Buy",
+      html: `<h2 style="margin-top:0;">Bulk Buy Request Update</h2>
+<p><b>Request ID:</b> {{request.requestId}}</p>
+<p><b>Status:</b> {{request.statusLabel}}</p>
+<p><b>Total:</b> ₹{{request.total}}</p>
+{{#request.procurementNote}}<p><b>Procurement Note:</b> {{request.procurementNote}}</p>{{/request.procurementNote}}`,
+      text: `Bulk Buy Request {{request.requestId}} is now {{request.statusLabel}}.`,
+    },
+  },
+};
@@ -0,0 +1,162 @@
+/* =========================================================
+   GST (tax invoices & credit notes)
+   Shared by the API (invoice maths) and the UI (state pickers).
+   Kept free of drizzle/zod imports so the client can load it.
+   =======================================================*/
+
+export const INVOICE_KINDS = ["invoice", "credit_note"] as const;
+export type InvoiceKind = (typeof INVOICE_KINDS)[number];
+
+export const INVOICE_KIND_LABEL: Record<InvoiceKind, string> = {
+  invoice: "Tax invoice",
+  credit_note: "Credit note",
+};
+
+// GST state codes as printed on GSTINs (the first two digits)
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+];
+
+// Older spellings still common in typed addresses
+const STATE_ALIASES: Record<string, string> = {
+  orissa: "21",
+  pondicherry: "34",
+  "new delhi": "07",
+  "jammu & kashmir": "01",
+  "andaman & nicobar": "35",
+};
+
+export function gstStateName(code: string | null | undefined): string {
+  return GST_STATES.find((s) => s.code === code)?.name ?? code ?? "";
+}
+
+/**
+ * Best guess of the state in a free-text address: the match closest to the
+ * end wins, since the state follows the street and city.
+ */
+export function gstStateFromAddress(address: string | null | undefined): string | null {
+  const text = (address ?? "").toLowerCase();
+  if (!text) return null;
+
+  let best: { code: string; at: number } | null = null;
+  const candidates = [
+    ...GST_STATES.map((s) => ({ code: s.code, name: s.name.toLowerCase() })),
+    ...Object.entries(STATE_ALIASES).map(([name, code]) => ({ code, name })),
+  ];
+  for (const { code, name } of candidates) {
+    const re = new RegExp(`\\b${name}\\b`, "g");
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text))) {
+      if (!best || m.index > best.at) best = { code, at: m.index };
+    }
+  }
+  return best?.code ?? null;
+}
+
+/** Indian financial year (April–March) as four digits: 2026-27 -> "2627". */
+export function financialYearCode(date: Date = new Date()): string {
+  const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${String(start % 100).padStart(2, "0")}${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+export type InvoiceParty = {
+  name: string;
+  gstin?: string | null;
+  email?: string | null;
+  address?: string | null;
+  stateCode?: string | null;
+};
+
+export type InvoiceLineInput = {
+  description: string;
+  hsnCode: string | null;
+  quantity: number;
+  unitPrice: number; // INR as charged
+  gstRate: number; // percent
+};
+
+export type InvoiceLine = InvoiceLineInput & {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+};
+
+export type InvoiceTotals = {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Splits each line into taxable value and GST. Within the supplier's state the
+ * tax is CGST + SGST in halves; across states it is all IGST. With
+ * pricesIncludeTax the unit price already contains the GST and is backed out.
+ */
+export function computeInvoiceLines(
+  inputs: InvoiceLineInput[],
+  opts: { pricesIncludeTax: boolean; intraState: boolean }
+): { lines: InvoiceLine[]; totals: InvoiceTotals } {
+  const lines = inputs.map((l) => {
+    const rate = Number.isFinite(l.gstRate) && l.gstRate > 0 ? l.gstRate : 0;
+    const gross = l.unitPrice * l.quantity;
+    const taxableValue = round2(opts.pricesIncludeTax ? gross / (1 + rate / 100) : gross);
+    const tax = round2(opts.pricesIncludeTax ? gross - taxableValue : (taxableValue * rate) / 100);
+    const cgst = opts.intraState ? round2(tax / 2) : 0;
+    const sgst = opts.intraState ? round2(tax - cgst) : 0;
+    const igst = opts.intraState ? 0 : tax;
+    return { ...l, gstRate: rate, taxableValue, cgst, sgst, igst, total: round2(taxableValue + tax) };
+  });
+
+  const sum = (key: keyof InvoiceTotals) => round2(lines.reduce((s, l) => s + l[key], 0));
+  return {
+    lines,
+    totals: {
+      taxableValue: sum("taxableValue"),
+      cgst: sum("cgst"),
+      sgst: sum("sgst"),
+      igst: sum("igst"),
+      total: sum("total"),
+    },
+  };
+}
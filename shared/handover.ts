@@ -0,0 +1,32 @@
+/* =========================================================
+   OFFICE PICKUP HANDOVER
+   Each office pickup carries a code the employee shows at the
+   distribution desk (as text and as a QR). Kept free of drizzle/zod
+   imports so the client can load it.
+   =======================================================*/
+
+import type { OrderStatus } from "./order-status";
+
+// no 0/O or 1/I, so a code read aloud or typed from a phone screen survives
+export const HANDOVER_CODE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+export const HANDOVER_CODE_LENGTH = 8;
+
+/** The desk hands an order over once it has been packed (or sent on to the office). */
+export const HANDOVER_READY_STATUSES: OrderStatus[] = ["packed", "shipped"];
+
+/** Upper-cases and drops spaces, dashes and anything else a scanner or a person adds. */
+export function normalizeHandoverCode(raw: string): string {
+  return raw.toUpperCase().replace(/[^0-9A-Z]/g, "");
+}
+
+/** "ABCD2345" -> "ABCD-2345", the way the code is printed and encoded in the QR. */
+export function formatHandoverCode(code: string): string {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)}-${code.slice(half)}`;
+}
+
+export function isHandoverCode(value: string): boolean {
+  return (
+    value.length === HANDOVER_CODE_LENGTH && Array.from(value).every((c) => HANDOVER_CODE_ALPHABET.includes(c))
+  );
+}
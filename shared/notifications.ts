@@ -0,0 +1,44 @@
+/* =========================================================
+   ORDER EMAILS
+   What an employee can be emailed about a points/copay order;
+   each category can be switched off on its own. Kept free of
+   drizzle/zod imports so the client can load it.
+   =======================================================*/
+
+export const ORDER_EMAIL_CATEGORIES = ["confirmation", "dispatch", "delivery", "cancellation"] as const;
+
+export type OrderEmailCategory = (typeof ORDER_EMAIL_CATEGORIES)[number];
+
+export const ORDER_EMAIL_CATEGORY_INFO: Record<OrderEmailCategory, { label: string; description: string }> = {
+  confirmation: { label: "Order confirmation", description: "When an order is placed" },
+  dispatch: { label: "Dispatch", description: "When an order is shipped, with the courier and AWB" },
+  delivery: { label: "Delivery", description: "When an order is delivered or collected at the office" },
+  cancellation: { label: "Cancellation", description: "When an order is cancelled, with the refund" },
+};
+
+export function isOrderEmailCategory(value: unknown): value is OrderEmailCategory {
+  return ORDER_EMAIL_CATEGORIES.includes(value as OrderEmailCategory);
+}
+
+/* ---------------------------------------------------------
+   Outbox: every email is queued first and sent by the
+   background worker (server/email-outbox.ts).
+   pending → sending → sent, or back to pending with a later
+   nextAttemptAt after a failure, and dead once the retries
+   run out.
+   ---------------------------------------------------------*/
+
+export const EMAIL_OUTBOX_STATUSES = ["pending", "sending", "sent", "dead"] as const;
+
+export type EmailOutboxStatus = (typeof EMAIL_OUTBOX_STATUSES)[number];
+
+export const EMAIL_OUTBOX_STATUS_LABEL: Record<EmailOutboxStatus, string> = {
+  pending: "Queued",
+  sending: "Sending",
+  sent: "Sent",
+  dead: "Failed",
+};
+
+export function isEmailOutboxStatus(value: unknown): value is EmailOutboxStatus {
+  return EMAIL_OUTBOX_STATUSES.includes(value as EmailOutboxStatus);
+}
@@ -0,0 +1,68 @@
+/* =========================================================
+   ORDER LIFECYCLE
+   Shared by the API (transition checks) and the UI (badges, menus).
+   Kept free of drizzle/zod imports so the client can load it.
+   =======================================================*/
+
+export const ORDER_STATUSES = [
+  "confirmed",
+  "processing",
+  "packed",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "returned",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+/**
+ * Allowed next states. Admins may cancel at any open stage; employees only
+ * before packing (SELF_CANCELLABLE_STATUSES).
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  confirmed: ["processing", "cancelled"],
+  processing: ["packed", "cancelled"],
+  packed: ["shipped", "cancelled"],
+  shipped: ["delivered", "returned", "cancelled"],
+  delivered: ["returned", "cancelled"],
+  cancelled: [],
+  returned: [],
+};
+
+export const SELF_CANCELLABLE_STATUSES: OrderStatus[] = ["confirmed", "processing"];
+
+export const ORDER_STATUS_LABEL: Record<OrderStatus, string> = {
+  confirmed: "Confirmed",
+  processing: "Processing",
+  packed: "Packed",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  returned: "Returned",
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return ORDER_STATUSES.includes(value as OrderStatus);
+}
+
+/** Whether the employee may still cancel an order themselves. windowHours 0 = never. */
+export function canSelfCancelOrder(
+  order: { status: string | null; orderDate: Date | string | null },
+  windowHours: number,
+  now: Date = new Date()
+): boolean {
+  const status = isOrderStatus(order.status) ? order.status : "confirmed";
+  if (!SELF_CANCELLABLE_STATUSES.includes(status) || windowHours <= 0 || !order.orderDate) return false;
+  return now.getTime() - new Date(order.orderDate).getTime() <= windowHours * 60 * 60 * 1000;
+}
+
+/** Cancelled orders give back their selection and campaign quota. */
+export function countsTowardLimits(status: string | null | undefined): boolean {
+  return status !== "cancelled";
+}
+
+export function canTransitionOrder(from: string | null | undefined, to: OrderStatus): boolean {
+  const current = isOrderStatus(from) ? from : "confirmed";
+  return ORDER_STATUS_TRANSITIONS[current].includes(to);
+}
@@ -0,0 +1,164 @@
+/* =========================================================
+   PAYMENT GATEWAYS
+   Which gateway takes copay payments (chosen in branding) and what
+   the browser needs to send the employee there. The gateways
+   themselves live in server/payments.ts. Kept free of drizzle/zod
+   imports so the client can load it.
+   =======================================================*/
+
+export const PAYMENT_PROVIDERS = ["phonepe", "razorpay", "mock"] as const;
+
+export type PaymentProviderId = (typeof PAYMENT_PROVIDERS)[number];
+
+export const PAYMENT_PROVIDER_LABEL: Record<PaymentProviderId, string> = {
+  phonepe: "PhonePe",
+  razorpay: "Razorpay",
+  mock: "Mock (local testing only)",
+};
+
+export function isPaymentProviderId(value: unknown): value is PaymentProviderId {
+  return PAYMENT_PROVIDERS.includes(value as PaymentProviderId);
+}
+
+/**
+ * How the cart hands the employee to the gateway: a full-page redirect
+ * (PhonePe, mock) or Razorpay's checkout.js modal on the cart page.
+ */
+export type PaymentCheckout =
+  | { kind: "redirect"; url: string }
+  | {
+      kind: "razorpay";
+      keyId: string;
+      orderId: string;
+      amountPaise: number;
+      currency: "INR";
+      name: string;
+      prefill: { name: string; email: string; contact?: string };
+    };
+
+/** Our reference for a copay payment, and the gateway it went through. */
+export type OrderPaymentRef = { provider: PaymentProviderId; ref: string };
+
+/**
+ * The payment behind a copay order. Orders from before the gateway layer only
+ * carry phonepeOrderId.
+ */
+export function orderPaymentRef(
+  metadata: { paymentProvider?: PaymentProviderId | null; paymentRef?: string | null; phonepeOrderId?: string | null } | null | undefined
+): OrderPaymentRef | null {
+  if (metadata?.paymentRef) return { provider: metadata.paymentProvider ?? "phonepe", ref: metadata.paymentRef };
+  if (metadata?.phonepeOrderId) return { provider: "phonepe", ref: metadata.phonepeOrderId };
+  return null;
+}
+
+/** checkout_keys entry of a paid checkout: one payment places one set of orders. */
+export const paymentCheckoutKey = (p: OrderPaymentRef) => `${p.provider}:${p.ref}`;
+
+/* ---------------------------------------------------------
+   Copay payment records (the payments table).
+   pending → processing → completed when the orders are placed;
+   failed when the gateway says so or the attempt expires;
+   refunded / refund_failed when the money came in but the
+   orders could not be placed (stock, points, limits).
+   ---------------------------------------------------------*/
+
+export const PAYMENT_STATUSES = ["pending", "processing", "completed", "failed", "refunded", "refund_failed"] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+export const PAYMENT_STATUS_LABEL: Record<PaymentStatus, string> = {
+  pending: "Awaiting payment",
+  processing: "Placing orders",
+  completed: "Completed",
+  failed: "Not paid",
+  refunded: "Refunded",
+  refund_failed: "Refund failed",
+};
+
+export function isPaymentStatus(value: unknown): value is PaymentStatus {
+  return PAYMENT_STATUSES.includes(value as PaymentStatus);
+}
+
+/* ---------------------------------------------------------
+   Points / cash split. The employee picks how many points to
+   spend; the rest of the cart is paid online at
+   branding.inrPerPoint, rounded up to the rupee. The cart's
+   preview and the server run the same calculation.
+   ---------------------------------------------------------*/
+
+type PricedProduct = { price?: string | number | null; priceSlabs?: unknown };
+
+/** INR per unit at this quantity: the price slab the quantity falls in, else the product price. */
+export function unitPriceForQty(product: PricedProduct, qty: number): number {
+  const base = Number(product?.price ?? 0);
+  const slabs: any[] = Array.isArray(product?.priceSlabs) ? product.priceSlabs : [];
+
+  const match = slabs.find((s) => {
+    const min = Number(s?.minQty);
+    const max = s?.maxQty === null || s?.maxQty === undefined ? Number.POSITIVE_INFINITY : Number(s?.maxQty);
+    return Number.isFinite(min) && qty >= min && qty <= max;
+  });
+  if (!match) return base;
+
+  const slabPrice = Number(match.price);
+  return Number.isFinite(slabPrice) && slabPrice >= 0 ? slabPrice : base;
+}
+
+/** A cart line's price in points as checkout charges it: each unit rounded up, GST included. */
+export function cartLinePoints(product: PricedProduct, qty: number, inrPerPoint: number): number {
+  return Math.ceil(unitPriceForQty(product, qty) / inrPerPoint) * qty;
+}
+
+/** One cart line's share of the checkout. */
+export type LineSplit = { points: number; copayInr: number };
+
+export type CheckoutSplit = {
+  totalPoints: number;
+  points: number; // taken from the balance
+  pointsCovered: number; // bought with the copay
+  copayInr: number;
+  lines: LineSplit[]; // in the order of the lines passed in
+};
+
+// Shares a whole amount out in proportion to weights; leftover units go to the largest remainders
+function apportion(amount: number, weights: number[]) {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return weights.map(() => 0);
+  const exact = weights.map((w) => (amount * w) / total);
+  const shares = exact.map(Math.floor);
+  let left = amount - shares.reduce((sum, s) => sum + s, 0);
+  const byRemainder = exact.map((v, i) => ({ i, r: v - shares[i] })).sort((a, b) => b.r - a.r);
+  for (const { i } of byRemainder) {
+    if (left <= 0) break;
+    shares[i]++;
+    left--;
+  }
+  return shares;
+}
+
+/**
+ * Splits a cart (each line's price in points) into points spent and copay.
+ * pointsWanted is capped at the cart total; the caller checks it against the balance.
+ */
+export function splitCheckout(linePoints: number[], pointsWanted: number, inrPerPoint: number): CheckoutSplit {
+  const totalPoints = linePoints.reduce((sum, p) => sum + p, 0);
+  const points = Math.min(totalPoints, Math.max(0, Math.floor(pointsWanted) || 0));
+  const pointsCovered = totalPoints - points;
+  const copayInr = pointsCovered > 0 ? Math.ceil(pointsCovered * inrPerPoint) : 0;
+
+  const pointsByLine = apportion(points, linePoints);
+  const copayByLine = apportion(copayInr, linePoints.map((p, i) => p - pointsByLine[i]));
+  return {
+    totalPoints,
+    points,
+    pointsCovered,
+    copayInr,
+    lines: pointsByLine.map((p, i) => ({ points: p, copayInr: copayByLine[i] })),
+  };
+}
+
+/** Points an order took from the balance; orders from before the split only know their total. */
+export function orderPointsSpent(metadata: { usedPoints?: number; pointsSplit?: LineSplit[] } | null | undefined) {
+  if (metadata?.pointsSplit) return metadata.pointsSplit.reduce((sum, s) => sum + s.points, 0);
+  return metadata?.usedPoints ?? 0;
+}
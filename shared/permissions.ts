@@ -0,0 +1,105 @@
+/* =========================================================
+   ADMIN ROLES & PERMISSIONS
+   Shared by the API guards and the admin panel UI.
+   Kept free of drizzle/zod imports so the client can load it.
+   =======================================================*/
+
+export const EMPLOYEE_ROLES = [
+  "user",
+  "admin",
+  "procurement",
+  "catalog_manager",
+  "campaign_manager",
+  "finance",
+  "fulfilment",
+  "auditor",
+] as const;
+
+export type EmployeeRole = (typeof EMPLOYEE_ROLES)[number];
+
+export const ADMIN_PERMISSIONS = [
+  "dashboard.read",
+  "employees.read",
+  "employees.write",
+  "points.grant",
+  "roles.assign",
+  "domains.read",
+  "domains.write",
+  "products.read",
+  "products.write",
+  "campaigns.read",
+  "campaigns.write",
+  "orders.read",
+  "orders.export",
+  "orders.write",
+  "offices.read",
+  "offices.write",
+  "payments.read",
+  "payments.write",
+  "bulkbuy.read",
+  "bulkbuy.approve",
+  "bulkbuy.access.write",
+  "blogs.read",
+  "blogs.write",
+  "emails.read",
+  "emails.write",
+  "branding.write",
+  "audit.read",
+] as const;
+
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number];
+
+const READ_ONLY: AdminPermission[] = ADMIN_PERMISSIONS.filter(
+  (p) => p.endsWith(".read") || p === "orders.export"
+);
+
+/**
+ * Role → capability table. A role with no permissions cannot open the admin panel.
+ */
+export const ROLE_PERMISSIONS: Record<EmployeeRole, AdminPermission[]> = {
+  user: [],
+  admin: [...ADMIN_PERMISSIONS],
+  procurement: ["bulkbuy.read", "bulkbuy.approve"],
+  catalog_manager: ["dashboard.read", "products.read", "products.write", "campaigns.read"],
+  campaign_manager: ["dashboard.read", "products.read", "campaigns.read", "campaigns.write"],
+  finance: [
+    "dashboard.read",
+    "employees.read",
+    "points.grant",
+    "orders.read",
+    "orders.export",
+    "payments.read",
+    "payments.write",
+    "bulkbuy.read",
+    "audit.read",
+  ],
+  fulfilment: ["dashboard.read", "orders.read", "orders.export", "orders.write", "offices.read", "offices.write"],
+  auditor: READ_ONLY,
+};
+
+export const ROLE_LABEL: Record<EmployeeRole, string> = {
+  user: "User",
+  admin: "Admin",
+  procurement: "Procurement",
+  catalog_manager: "Catalog Manager",
+  campaign_manager: "Campaign Manager",
+  finance: "Finance",
+  fulfilment: "Fulfilment",
+  auditor: "Auditor (read-only)",
+};
+
+export function isEmployeeRole(value: unknown): value is EmployeeRole {
+  return EMPLOYEE_ROLES.includes(value as EmployeeRole);
+}
+
+export function permissionsForRole(role?: string | null): AdminPermission[] {
+  return isEmployeeRole(role) ? ROLE_PERMISSIONS[role] : [];
+}
+
+export function roleHasPermission(role: string | null | undefined, permission: AdminPermission): boolean {
+  return permissionsForRole(role).includes(permission);
+}
+
+export function canOpenAdminPanel(role?: string | null): boolean {
+  return permissionsForRole(role).length > 0;
+}
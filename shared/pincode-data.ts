@@ -0,0 +1,811 @@
+/* =========================================================
+   INDIA PINCODE DIRECTORY (generated — do not edit)
+   Built by build-pincode-data.ts from the India Post "All India Pincode
+   Directory" (data.gov.in): 19486 pincodes in 745 districts.
+   =======================================================*/
+
+// [GST state code, district, pincodes]; pincodes are base 36, the first in
+// full and each later one as the gap from the previous, "." separated
+export const PINCODE_DISTRICTS: [string, string, string][] = [
+  ["01", "Anantnag", "4485.n.1.1.3.20.1.8.1.1.9.50"],
+  ["01", "Bandipora", "45b1.1.1.1.1"],
+  ["01", "Baramulla", "44zx.2.5.1.c.1.1.26.2s.2.2r.1.1"],
+  ["01", "Budgam", "42lz.7.4.1.2.ua.1.1.j.1r1.a"],
+  ["01", "Doda", "3wj5.2.c.4.1i.1.1.4.e.1"],
+  ["01", "Ganderbal", "43h7.1y.1"],
+  ["01", "Jammu", "3uw1.1.1.1.1.1.1.2.1.1.1.1.2.1.1.1.1.1.rg.2l.1.9.a.1.1.1.7.1.2.i.1d.1.1.1.1.1.1.1.d.3.316"],
+  ["01", "Kathua", "3y1x.1.2.11.1.1.1.1.3.3.1.1d.1.1.1.2.4"],
+  ["01", "Kishtwar", "3wj8.1.1.1.1.1.1.1.1.1s.1.1"],
+  ["01", "Kulgam", "44br.1.1"],
+  ["01", "Kupwara", "4539.1.1.1.1.25"],
+  ["01", "Poonch", "3ytp.1.j.2i"],
+  ["01", "Pulwama", "43ge.1.sa.1.1.4y.1.2.ru"],
+  ["01", "Rajouri", "3yuj.1.1.2.g.1.1.2.1.19.1.a.l.1"],
+  ["01", "Ramban", "3wjk.1.1.2"],
+  ["01", "Reasi", "3wnx.a.1.1.2.5.283"],
+  ["01", "Samba", "3vrh.8.2.2.2an.1"],
+  ["01", "Shopian", "44dr.2"],
+  ["01", "Srinagar", "42lt.1.1.1.1.1.2.1.1.1.1.3.2.3.3.1.1.22.ru.k"],
+  ["01", "Udhampur", "3wid.3.h.1.2.1.1.1.1.2.b.1.j.1ks"],
+  ["02", "Bilaspur", "3q9d.1.1.1.1.6.1.1.2.2.4.2.1.2.1.1.1.1.1.1.1.1.1.1.4l.31"],
+  ["02", "Chamba", "3ryn.2m.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.4"],
+  ["02", "Hamirpur", "3qhs.1.4.2.1.2l.2s.16m.1.1.1.1.1.1.3.1.1n.1.1.1.oq.4.1.1.d.1.1.1.1.1.1.1.1.1.4.5.2.1.1.2.1.3.1y.1.52.2s.2s.2s"],
+  ["02", "Kangra", "3r1h.rg.1.j.1.1.2.1.1.1.1.1.1.1.1.3.1.1.9.4.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.4.2.2.1.1.4.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.3.1.1.4.8.a.3.20.1.1.1.1.1.1.2.1.1.1.3.1.1.1.1.7.4w.1.1.2q.1.es.9.1m.2.1.1.1.1.1.3.1.1.1.3"],
+  ["02", "Kinnaur", "3osn.1.1.1.1.1.1.1.1.1.3.1.2"],
+  ["02", "Kullu", "3opu.l.2.1.6.1.2d8.1.1.1.1.i.2.1.2.1.1.1.3.2.2.3.2"],
+  ["02", "Lahul and Spiti", "3osx.1.3.2br.1.6.1.2"],
+  ["02", "Mandi", "3r15.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.3.1.1.1.1.1.1.1.n.v.f.3.qu"],
+  ["02", "Shimla", "3ny1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.3.1.2c.2q.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.23.jg.k.1.2.3.1.1.1.1.3.1v.1.2r"],
+  ["02", "Sirmaur", "3phl.k.1.1.1.1.1.1.2.1.1.1.1.1w.3.3b"],
+  ["02", "Solan", "3o0u.1mb.1.2.1.1.1.1.1.1.1.1.1.1.1.2.1.2.1.1.3.4.1.3.1.1.1.1.o0.1.1"],
+  ["02", "Una", "3qhp.1.1.3.1.1.6.1.1.1.2.1.1.52.4.1m6.by.8.1y.1.2j.1.1.1.1.1.1.1.1.1.1.1.1.6.1"],
+  ["03", "Amritsar", "32c9.1.2.1.1.2.1.d.27.1.1.2.2.1.1.2.1.1.1.1.1.3.u.1g.1.1.1.1.5s.2g.1.2.2p.2.3"],
+  ["03", "Barnala", "369w.1.1.1.1.1.2.1.1"],
+  ["03", "Bathinda", "38ih.1.1.1.1.1.1.2m.1.1.1.1.1.2.3.2i.5.2n.1.2r.30.2"],
+  ["03", "Faridkot", "38o2.1.1.1.2.2.3.1.1"],
+  ["03", "Fatehgarh Sahib", "30c5.1.1.1.4.au.gx.au.462.2q"],
+  ["03", "Fazilka", "39as.4.9.2b.1.1.3.1.1.1.4.4"],
+  ["03", "Firozepur", "31lo.3.3.2.8.7o5.1.1.1.1.g.1.1.5"],
+  ["03", "Gurdaspur", "32q9.1.1.4.1.1.1.1.1.1.1.1.1.1.4.1.1.1.1.1.1.1.1.1x.2.1.12t"],
+  ["03", "Hoshiarpur", "336x.2p.2.1.1.1.1.1.1.1.1.1.1.2.5.1.1.1.29.1.2q.2.35.1.3.4.1.1.1.1.1.14t.k.1.1.1.25.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1"],
+  ["03", "Jalandhar", "3341.1.1.2.1.1.1.1.1.a.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1l.1.1.1.2.2n.2s.1.1.8.2q.1.6.2.1.2b.3d.6.1.3.1w.1.1.2q.2.2.1"],
+  ["03", "Kapurthala", "33f5.1.1.2.2.1.3.5a.1.1.3.e.1.1.2.1.1.2.3.4r.2.f"],
+  ["03", "Ludhiana", "30sp.1.1.1.2.1.1.2.1.1.1.1.1.1.2d.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.2.1.1.22.1.1.1.1.1.5f.b.1.1.1.1.1.1.1.2.1.gn.1.1.1.1.1.1.2.1.1.1.1.1.1.1"],
+  ["03", "Malerkotla", "367m.1.1.1.1.1"],
+  ["03", "Mansa", "38wd.1.1.1.1.1.1.1.2"],
+  ["03", "Moga", "31kh.1.1.8.q.1.1.1.1.1.1.2.1.2.1.4.1.1.1.1.1.726"],
+  ["03", "Pathankot", "32r2.14r.l.1.1.1.1.1.2.20"],
+  ["03", "Patiala", "30c1.1.f.54.1.2r.1.4uz.1.1.1.1.1.1.1.d.28.1.1.1.1.6.2i.1"],
+  ["03", "Rupnagar", "300x.2s.1.6.3.1.1.1.1.1.1.1.1.4.1.1.1.1.1.5"],
+  ["03", "S.A.S Nagar", "303r.6.1.2j.2s.5.1.1.2x.2g.5.1.2o.1.89.es2.4.3.9.w.1"],
+  ["03", "Sangrur", "3675.1.f.7.1.1.1.1.1.1.1.2.1.1.1z"],
+  ["03", "Shahid Bhagat Singh Nagar", "33fj.2.4.1.27.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.3.1.2.1.1.7.2r"],
+  ["03", "Sri Muktsar Sahib", "38oa.1.mm.1.5.1.1x.6.5.1.1.1"],
+  ["03", "Tarn Taran", "32fh.1.53.1.1.1.1.2o.1.4.1.1.1.1.1.1.2.1.1.3.3"],
+  ["04", "Chandigarh", "3fgh.1.1.1.2.3.2.1.2.1.2.1.1.1.2.1.2.5.6.7.4.1i.1"],
+  ["05", "Almora", "5ne9.k.1.1.1.1.1.3.7.1.1.5.2.1.5.1.1.2.1.2.1.1.1.2.1.1.2.9.2.2"],
+  ["05", "Bageshwar", "5ner.1.8.2.1.1.1.1.1.4.1.1.1.11"],
+  ["05", "Chamoli", "5a4h.l.2.2.1.1.1.2.4.5.1.2.1.2.3.4.2.h.1.1.7.1.1.3.1.1"],
+  ["05", "Champawat", "5med.1.5x.1.1.2.1.x.j"],
+  ["05", "Dehradun", "5bcx.1.1.2.1.1.1.1.2.1.1.1.1.1.2.1.2u.1.1.1.1.f.2.1.2.1.c.1.6.6.8.g.1.1.1.1.ru.1.1.1.1.1"],
+  ["05", "Haridwar", "5b3c.2.3.2.1.1.1.1.1.2.1.1c2.1.1.1.1.2.1.2.1.1"],
+  ["05", "Nainital", "58tn.1.dna.gn.3h.1.1.4.2.1.1.1.1.1.1.1.1.e.1.1.1"],
+  ["05", "Pauri Garhwal", "59td.34.8.2.1.1.2.1.1.1.1.b.2.2.1.1.1.1.5.4.2.1.1.1.1.1.1.2.3.1.1.1.1.1.1.1.e.1.29.1.1.1.1.6.2bs.1.2.2"],
+  ["05", "Pithoragarh", "5mjp.1.i.1.1.4.3.1.1.1.1.1.6.1.1.1.1.1.1.1.3.1.1.1.1.1.h.4"],
+  ["05", "Rudra Prayag", "59x9.u.6w.2.4.e.3.3.3.l.2.4.k"],
+  ["05", "Tehri Garhwal", "5c4p.3c.1.1.1.1.1.1.3.1.1.5.8.1.9.6.4.a.5.1.5.6.7"],
+  ["05", "Udam Singh Nagar", "58tk.1.4.3.dkk.3.2i.4.kk.3.1.1.1.1.1.7"],
+  ["05", "Uttar Kashi", "5c88.7.1.5.a.1.j.e.8.1.2"],
+  ["06", "Ambala", "2umh.3.1.1.2.2.2j.1.2.2p.1.1.2.1.1.m4.2.2.1.5d.1.1"],
+  ["06", "Bhiwani", "2q0d.6.1.1.1.1.1.3.5.1.2.2.1.1t.3.2f.30.2"],
+  ["06", "Charki Dadri", "2q0e.3.1.g.7c.1.1.2.2"],
+  ["06", "Faridabad", "2ld5.1.1.1.1.1.1.1.1.1.2.1.1.1.2e"],
+  ["06", "Fatehabad", "2ohk.2.1.2.1h.5.9.d"],
+  ["06", "Gurugram", "2m4x.1.1.1.1.1.1.1.1.1.1.1.3.1.1.1.x.1.1a.3.1.1.8m.1.2h.1.1.1"],
+  ["06", "Hisar", "2og9.3.1.1.1.4.m.4.1.1.3.2.3.2.3.9.1f.1.8"],
+  ["06", "Jhajjar", "2nra.1.1.1.1.1.1.1.w.1.4.1j.1.8e.1.1.1.1"],
+  ["06", "Jind", "2pat.1.8.1.1.1.1.1.1.9.r"],
+  ["06", "Kaithal", "2wyc.1.5.1.6.1.1.7.1.1.21"],
+  ["06", "Karnal", "2tup.l.1.1.c.1.2.1.1.5.8.1o.2.1.14"],
+  ["06", "Kurukshetra", "2wym.8.28.1.9.1.1.1.1.2.1.1.k"],
+  ["06", "Mahendragarh", "2mwp.k.2.1.3.1.1.2.3"],
+  ["06", "Nuh", "2m7s.1.2.1.b4"],
+  ["06", "Palwal", "2lfy.1.2.1.1"],
+  ["06", "Panchkula", "2uut.1.m7.1.1.1.1.2.1.1.3.1.1.2.1.1.2e.1"],
+  ["06", "Panipat", "2txh.1.1.1.1.1.1.1.5.2.7.i.5"],
+  ["06", "Rewari", "2miu.et.1u.1.1.3.4.5b.1.1.1.2p.a.1.2h"],
+  ["06", "Rohtak", "2noh.9.b.1.2h.1.1.5a.2q.3.2.5.1.2h.c.1.1"],
+  ["06", "Sirsa", "2ohq.1.1.2.2.f.1.1.1.n.1.1.1.6.2j"],
+  ["06", "Sonipat", "2t2x.k.1.1.1.3.1.1.1.9.1q.1.1.5i.1.2.1.1.2o.1.5.1"],
+  ["06", "Yamunanagar", "2upb.2t.1dx.1.1.1.h.28.1.1.3.r"],
+  ["07", "Central", "2cvm.3.1d.1.5.o"],
+  ["07", "East", "2cwz.14.1.4"],
+  ["07", "New Delhi", "2cvl.3.6.1.a.1.1.5.9.1.8.b.9.1.2.1.w"],
+  ["07", "North", "2cvq.1.2.o.3.3.1.2.a.u.6.i"],
+  ["07", "North East", "2cx1.11.3.1"],
+  ["07", "North West", "2cwi.1.l.p.2.2.1.3.a.b"],
+  ["07", "Shahdara", "2cwf.1.1r.1k.18"],
+  ["07", "South", "2cw0.1.c.1.e.3.f.6.6.2.4.18"],
+  ["07", "South East", "2cvn.a.1.5.1.4.1.n.1.g.1i"],
+  ["07", "South West", "2cwt.g.a.1.1.2.2.1.j"],
+  ["07", "West", "2cvs.4.3.3.8.1.e.2.f.1.4.1.n"],
+  ["08", "Ajmer", "6jc9.1.1.1.1.1.1.2.3.9.1.1.1.1.4w.1.1.1.1.1.1.5e.1.1.1.1.1.1.1.4.3.56.k.1.1.1.1.2.1.1.1.1.4q.1.9.1.1.1.1.1.1.2.2a.l.1.1.1.1.1"],
+  ["08", "Alwar", "6g95.h.1.1.1.1.1.1.1.1.1.1.2.5.a6.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.b.4x.2p.1.1.1.1.1.1.1.1.4.1.fcj.1.1.q"],
+  ["08", "Banswara", "70bd.k.1.1.1.1.1.1.4.1.2.fr.1.1.1.1.1.5f"],
+  ["08", "Baran", "6yxe.3.1.3.6.1.1.1.1.1.1.1.1.1"],
+  ["08", "Barmer", "7dfl.a.1.9.1.2.1.1.1.4.1.1.1.1.2.6.1.cp.1.5j.1.1.1.1.1.2.2l.1"],
+  ["08", "Bharatpur", "6vop.k.1.1.1.1.1.2.4t.1.1.1.1.1.2n.1.1.2q.1.1.1.1.1.1.1.1.1.1.5a.1.c.1.r"],
+  ["08", "Bhilwara", "6nyx.a.a.1.1.1.1.1.4.4r.1.1.1.2p.1.2r.1.1.1.3.1.5d.1.1.1.1.1.5f.1.1.1.1.1"],
+  ["08", "Bikaner", "740p.2.8.1ou.2.1.2.f.1.1.1.1.4w.1.2s.1.2.2o.1.1.5i.1.1.1.5h.1.1.1.4"],
+  ["08", "Bundi", "6x89.k.1.1.1.1.1.7n.8c.1.1.a.1.1.1.55.1.1"],
+  ["08", "Chittorgarh", "6oqp.k.1.1.1.1.2.4u.1.1.1.1.1.1.5e.1.1.1.5h.1.1.3.6.1.1.3.3.2.5.2.7k.80y.1.1.2"],
+  ["08", "Churu", "73eh.k.1.1.6.2.7i.1.1.1.1.2p.1.8.2i.1.1.1.1.1.1.a.1.53.2t"],
+  ["08", "Dausa", "6hss.8a.1.1.9.2.8.2.1.1.4u.1.1.1.1.1.1.1.1.1.1.dyp.1.3.1.hf"],
+  ["08", "Dholpur", "7135.k.1.1.1.1.1.1.1.1.1.1.a"],
+  ["08", "Dungarpur", "6qa9.a.a.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.a3.1.1.1.2.az.3"],
+  ["08", "Ganganagar", "76hl.1.j.1.2.1.2.a.1.1.1.1.1.9.a.1.b.hg.1.1.1.3.1.3.2l.1.2o"],
+  ["08", "Hanumangarh", "76jb.1.1.c4.1.1.1.7.1.1.8.1.1.1.1.1.7n.1.1"],
+  ["08", "Jaipur", "6h0x.1.1.1.1.1.6.1.2.1.1.1.1.1.1.1.4.1.1.1.2.2.1.3.1.1.2.1.2.2.1.1.1.qg.1.1.2.1.1.1.1.3.2i.1.1.1.1.1.1.1.1.9.1.1.1.1.1.4x.4.n.1.9.a.71.1.1.1.2p.1.2.2.6.2h.2.1.1.1.1.2m.2.1.1.3"],
+  ["08", "Jaisalmer", "7c4m.22r.k.1.1.1.1.1.1.1.3.2.1"],
+  ["08", "Jalore", "6kwl.1.dh.80.r5q.1.j.1.1.1.1.2.1.1.1.2.7.1.1.1.6.1"],
+  ["08", "Jhalawar", "6zjl.k.1.1.a.1.1.1.1.1.1.cu.1.a.1.1.1.1"],
+  ["08", "Jhunjhunu", "73f5.1.1.1.1aw.u.73.9.1.1.8.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.5.1.b.2.6v.1.1.1.2.1.5d.1.1.1.a.1.1.1.54.1.2.1.2.2m"],
+  ["08", "Jodhpur", "7bw1.1.1.2.1.1.1.3.1.1.1.1.1.1.4.1.1.1.1.1.1.1.1.1.2.5.7c.1.1.1.1.1.1.1.1.2.1.2.7z.1.1.1.1.1.5f.1.2r"],
+  ["08", "Karauli", "6w5m.1.gg.1.9.2.1.2.2.a.4.2.2.3.1.1.6.2.1.2.1"],
+  ["08", "Kota", "6y01.1.1.1.1.1.1.1.1.1.rj.2.1.5.5c.2.1.3.1.6.ar.1.pf.1.1.1.9.1"],
+  ["08", "Nagaur", "6jcy.rrb.1.1.h.1.1.1.1.1.1.1.1.1.1.1.7i.1.1.1.1.1.1.2.7.1.1.1.52.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.c.i.11j.vye"],
+  ["08", "Pali", "6k41.k.1.1.26.1.1.1.1.9.1.1.3.7.4v.1.1.1.1.1.1.1.2l.k.1.27.1.1.1.2p.1.1.1.2p.1.1.1.1.1.1.1.1.5c.1.a"],
+  ["08", "Pratapgarh", "6p7g.1.a.1.3.4.1.1.1.2"],
+  ["08", "Rajsamand", "6k1t.5m9.5.4.2i.k.1.1.1.1.2.1.1.1.1.1.1.1.7.1"],
+  ["08", "Sawai Madhopur", "6wgh.k.2.1.1.1.1.1.1.1.3.1.4n.1.3.6.1.2.5.de.1.1.1"],
+  ["08", "Sikar", "73f4.r5.1.1.i.2.1.1.1.1.1.1.1.1.a.1.77.1.1.1.1.2.4.1.3.1.1.1.2b.1.1.1.1.1.5.5a.1.1.2q.1.1.2.1.1.1.1.1.1.1.1.1.1.3.1.2.1.k"],
+  ["08", "Sirohi", "6kvt.i.3.1.1.2.1.1.3.1.b.cq.9.1.1.1.1.7z.1"],
+  ["08", "Tonk", "6ikh.k.1.1.1.1.1.d7.1.1.1.1.2.86.1.1.1"],
+  ["08", "Udaipur", "6kwh.4m0.1.1.1.7.b.2.2.1.4.7.4j.2.1.1.1.az.1.1.1.2p.1.1.1.1.1.2.2l.1.1.1.1.1.2n.1.1.1.1.1"],
+  ["09", "Agra", "61ld.1.1.1.1.1.1.1.1.1.ub.1.2.1.5.1.1.1.1.1.4.2.1.1.1.1.1.23.1"],
+  ["09", "Aligarh", "4bv5.1.3b.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.2.1.4.5.a.5.32.1.1.1hr.wts"],
+  ["09", "Ambedkar Nagar", "4sxm.3.4.3.5.2.4.2.1.1.2.2.1.3.2.2.9.8.5.2.3.4.k.h.3.1.1.3.3.1"],
+  ["09", "Amethi", "4vgt.1.1.1.1.2.1.1.as.6.2.2.2.3.1.10d.9.4n.2.5.do.1"],
+  ["09", "Amroha", "58fx.1.1.2.6.4.1.5.1.3.6.4"],
+  ["09", "Auraiya", "4f1l.1.7.34.2.1.2.1.1.1.1.1.1.3"],
+  ["09", "Ayodhya", "4su9.37.1.1.1.1.1.2.3.1.6.2.6.c.5.3.3.7.b.6.1.6.6.1.1.1.1.1.1.1.1.g.3.1.5.1e"],
+  ["09", "Azamgarh", "4s8l.1.1.1.1.1.1.14py.3c.1.1.1.1.1.1.1.3.4.1.1.1.1.1.1.1.1.1m.1.1.1.1.1.1.1.28.d.1.1.1.1.2r.2"],
+  ["09", "Baghpat", "5cz9.6s.74.5.3.2.4.4.1.1.1.1.2"],
+  ["09", "Bahraich", "5tq1.1.4.f.3.1.5.b.a.4.a.5.1.1.3.6.1.j.1.1.1"],
+  ["09", "Ballia", "4r2d.8.2.1.1.2.1.1.1.16nn.3c.2.1.25.1.1.1.1.2.1.1.1.1.2.1.2.3.2a.1.1.1.2p.1.1.2q.1.1.1.2"],
+  ["09", "Balrampur", "5t9d.2.2.1.1.1.2.5.2j.1.89.3.2.70"],
+  ["09", "Banda", "4i1d.3b.1.1.1.2.1.2.1.20.1.1"],
+  ["09", "Barabanki", "4tm1.2.38.1.1.1.1.1.1.1.23.1.1.1.1.1.1.1.2l.1.1.1.1.1.2n.2.1.1.4.3.1.1.1.1"],
+  ["09", "Bareilly", "57i1.1.1.1.1.1.38.1.3.23.1.1.2q.1.1.2q.1.1.4.2m.1.1.1.1.1.el0"],
+  ["09", "Basti", "5tvl.1.3d.1.3.1.1.1.1.h.2.1.4.6.2.8.6.1.3.1.8.4.2z.1"],
+  ["09", "Bhadohi", "4qr9.2.1.2.2.1.1.4.2f.1.2.2.3"],
+  ["09", "Bijnor", "5act.k.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.8.1.1.2.d.1.1"],
+  ["09", "Budaun", "57yp.t.1.1.1.1.1.1.1.2.2.27.3.1.1.1"],
+  ["09", "Bulandshahr", "4cmx.1.3j.2.1.i.1j.1.53.1.1.1.1.1.1.1.1.1.1.2.1.1.2.2.1.1.2.1.1"],
+  ["09", "Chandauli", "4qj5.2t.5.8h6.1.1.1.1.1.1.1.1.1.1.4.3.2"],
+  ["09", "Chitrakoot", "4i70.1.1.1.1.1"],
+  ["09", "Deoria", "5vf5.51.j.1.2.1.1.2.5g.1.3.2l.1.3.1.2.1.2k.1.1.1.2p.1.1.1.1.2t.1.1"],
+  ["09", "Etah", "4fq1.1.1.39.1.1.3.3b.3.1.1.1.1f.1.2r"],
+  ["09", "Etawah", "4ey9.1.1.39.3.1.1.1.1.1.2.1.33.3.8"],
+  ["09", "Farrukhabad", "4hnh.1.1.1.1.2o.1.j.1.3.q.1.20.f.4.2.4"],
+  ["09", "Fatehpur", "4k1l.j.1.1.9.4.6.4.5.1.1.1.1.1.1.1.1.1.2.2.1.1"],
+  ["09", "Firozabad", "4sz0.19gz.r.5.1.5.1.3.6.1.1f.1.1.1.1"],
+  ["09", "Gautam Buddha Nagar", "4b3k.85.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1eh.6.e.1a.1.1.4.2"],
+  ["09", "Ghaziabad", "4b3d.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.29.1.2q.3.2"],
+  ["09", "Ghazipur", "4z9h.1.1.1.1.1.1.1.1.3.3.1.1.ic.1.63.1.1.1.1.1.1.1.1.1.1.1.1.1.1u.1.1.1.1.1.1.1.3.1.wbm.1.1.1.1"],
+  ["09", "Gonda", "5t3t.1.1.3b.1.1.1.1.3.21.2.5.2k.1.1.1.1.3.1.1.1.1.1.6.2a.1.1.2r.1.1.2p.1.1"],
+  ["09", "Gorakhpur", "5und.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.3r.6.7.10.1.1.6.2.1.1.2l.2n.1.1.1.1.1.1.1.1.2.1.1"],
+  ["09", "Hamirpur", "4i9p.14.29.6.2.1.1.1x.1.3.1.1"],
+  ["09", "Hapur", "4b3y.y0f.2s.4.2.1.2l.3"],
+  ["09", "Hardoi", "55yh.3c.1.1.1.1.1.1.22.1.1.1.2p.1.1.1.1.2o.1.1.1.1.1.1"],
+  ["09", "Hathras", "4byz.1ii.1.31.1.1.1.1.1.1nbs.5i.4.1"],
+  ["09", "Jalaun", "63wp.3c.1.1.1.1.1.1.1.1.1.1z.1.1.1.1.1.h"],
+  ["09", "Jaunpur", "4rap.1.1.1.2t.4.g.1.1.1.1.2.1.1.2.1.1.1.1.2.1.1.1.1.1.2.1.c.1.3.5.5.5.1.k.1.1.1.1.ow.1.1.1.1"],
+  ["09", "Jhansi", "634x.1.1.39.1.6.1.7.1u.1.1.1.1.1.2n.1.1.1.1.1.2n.i"],
+  ["09", "Kannauj", "4htk.1.1.1.2.1.1.1.1.2.1.1.1.1.1.2.9"],
+  ["09", "Kanpur Dehat", "4hcd.a.1.3.6.4.27.4.2l.1.1.3.1.3.1.1"],
+  ["09", "Kanpur Nagar", "4ght.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.wm.1.2.1.3.1.4.3.2f.1.3.2l.1"],
+  ["09", "Kasganj", "4ftf.1.39.1.1.2.1.4c.1"],
+  ["09", "Kaushambi", "4jqh.1.1.1.1.1.1.6.1.2.1.1"],
+  ["09", "Kheri", "5lrx.1.3.1.x7.1.j.1.1.1.1.1.1.1.21.1.1.1.1.2o.1.1.2.1.1.1"],
+  ["09", "Kushi Nagar", "5vj9.1i.4.2m.1.1.1.1.1.1.1.1.2k.1.1.3.1.2.aw.1.deg6"],
+  ["09", "Lalitpur", "638a.1.1.1.1.a.7e.1.1.1.1.2n"],
+  ["09", "Lucknow", "4udt.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1y.1.1.1.2p.1.1.2q.1.1.2q.2s"],
+  ["09", "Maharajganj", "5urj.4.2.4.1.1.1.17.2m.1.1.1.1.3.1.1.1.1"],
+  ["09", "Mahoba", "4id1.2.1.1.1.1.2.4.1z"],
+  ["09", "Mainpuri", "4e6h.3a.2.3i.e.1.1.1.1.2.1.x.2.1"],
+  ["09", "Mathura", "60tl.2.1.1.1.37.1.1.26.1.1.1.1.1.2n.2.2.3.2l.2.1.1.1.2n.1.2"],
+  ["09", "Mau", "4qzl.1.1.2u.1.1577.1.1.2.5g.1.1.1.1.1.1.mu.4x.2o.1.2"],
+  ["09", "Meerut", "597a.3p7.1.1.1.1.2q.1.2.4.2n.g.1.1.3a.1.2.1l.1.2.2.2n.1.37.9"],
+  ["09", "Mirzapur", "4y8p.5t.1.2i.1.1.1.1.1.1.2.2.1.1.1.57"],
+  ["09", "Moradabad", "589t.2u.1.1.88.1.9.2.2.2e.3.2p.1"],
+  ["09", "Muzaffarnagar", "5b6k.2hp.1.1.5i.1.1.2q.5.1.1.1.1.1.3.1.1.2.1.1.7"],
+  ["09", "Pilibhit", "5m5t.3c.1.1.1.25.1.1.2r.3.gn"],
+  ["09", "Pratapgarh", "4x0g.2.gf.1.3b.3.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1l.1.2.2p.1.2.2.2n.1.1.1.1.2o.1.1"],
+  ["09", "Prayagraj", "4it5.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.u1.1.1.1.1.1.1.1.2p.4.2h.1.1.2.1.1.1.2l.1.2.1.2p.1.4.6xv.1.2.2.1.63j.1.1"],
+  ["09", "Rae Bareli", "4wp5.9.2l.h.1.1.1.1.1.2.1.1.1.1z.1.1.1.1.1.1.1.1.1.1.1.3.1.2d.2.2.1.1.1.2.1.5.2d.1.2.1.1"],
+  ["09", "Rampur", "58t9.5k.k.1.1.1.1.1.1.1"],
+  ["09", "Saharanpur", "5al5.1.3a.1.1.7.2u.1.30.1.1.1.30.1.1.2q.1.2.30.7"],
+  ["09", "Sambhal", "56qt.18x.2c.5.o.9r.5j.1.1.1.2y.2.2"],
+  ["09", "Sant Kabeer Nagar", "5tz1.1.s.8.2.1.7.1.2.1.n.1z.1"],
+  ["09", "Shahjahanpur", "56q9.15.2d.2l.1.2.3.23.2.2.1.1.2m.4.1.1"],
+  ["09", "Shamli", "5b6j.2.1.1.1.1.1.2pz"],
+  ["09", "Shravasti", "5tq3.1.1.q.4.5.5"],
+  ["09", "Siddharth Nagar", "5tzs.1.10.2.1.1.2.6.1.1.1.1.1.1.1"],
+  ["09", "Sitapur", "5le1.3c.4.6.4.1.5.4.6.1e.1.1.1.1.1.1.1.2l.1.1.1.2p.1.1.1.1"],
+  ["09", "Sonbhadra", "4yed.1.1.1.1.3.1.2.1.1.1.1.1.1.1.1.1.1.1"],
+  ["09", "Sultanpur", "4rj1.1.1.3ux.dx.1.2.4.2.1.56.39.1.1.1.4.6.1.1.8.1.3.6.4.4.2.a.1"],
+  ["09", "Unnao", "4hvt.k.4.2.4.a.i.1.1.1.1.1.1.1.1.1.1.1.1.a"],
+  ["09", "Varanasi", "4qix.1.1.1.1.1.1.1.2.1.1.2h.2.1.1.1.1.1.1.2.1.4.2d.1.2.2.1.1.2m.3.2.4.2.2i.2.2.89f"],
+  ["10", "Araria", "ib6v.1.4.2.a.1.2.1.1.1.1.1"],
+  ["10", "Arwal", "h8oh.1.h.1.1.2.3.2.1.f76"],
+  ["10", "Aurangabad", "h8op.f70.1.1.8.1.1.1.1.5.1.1.1.1.1.1.3.e.1n.1.5.2l.1.1.1"],
+  ["10", "Banka", "hfe5.1.1.1.1.1.1.2.1.2k.5.4.1.pj"],
+  ["10", "Begusarai", "i6h5.1.2.28h.9.1.1.1.1.1.1.1.1.2.1.5.1.1.1.1.1.1.1.1.1.23.1.6.1"],
+  ["10", "Bhagalpur", "hejl.1.1.1.1.1.1.ul.2n.1.1.1.3.1.3.1.8.uuj.1.1.1.1"],
+  ["10", "Bhojpur", "h6y0.2.1.1.1.1.1.1.1.1.1.1.1.1.h.i.1.1.1.1.1.1.1.1.1.c.1.1.25.1.9.1.1.1.2.z.1"],
+  ["10", "Buxar", "h6wl.1.1.8.1.1.1.1.1.1.1.1.1.2.1.2.1.1.1.1.1.1.2.1.1.1"],
+  ["10", "Darbhanga", "i4s1.1.1.1.1.1.1.1.1.1.ub.2.1.1.1.1.8.6.2.26.1.1.1.t.1w.1.1.1.2.1.u.1w.2.f.1.4.1.1.ls"],
+  ["10", "Gaya", "h8oj.1.v.j9.3.dse.1.1.1.1.8i.md.2.2b.4.1.1.2.1.1.6.2.1.1.a.1.1.1.1.1.1"],
+  ["10", "Gopalganj", "i18d.2.2.b.3.2.1.1.1.8.1.1.2.1.6.1i.2.2.3"],
+  ["10", "Jamui", "he05.2.2.2.1.4.1.1.1.1.1"],
+  ["10", "Jehanabad", "h8ol.1.1.1.9.1.4.2.1.2.5"],
+  ["10", "Kaimur (Bhabua)", "h6xg.emx.1.1.2.1.2.1.1"],
+  ["10", "Katihar", "ib11.2.1.1.1.1.1.1.1.2.1.1.1.1.1.5k.lt.3.8.1"],
+  ["10", "Khagaria", "i6h7.2ba.1.1.1.1.1.6.1.1.1.1.q9"],
+  ["10", "Kishanganj", "ibst.5.1.1.7.1.1"],
+  ["10", "Lakhisarai", "hduq.6.5a.4.3.1.1"],
+  ["10", "Madhepura", "i9hh.b.1.1.1.1.5.1.6.4.29.6.1"],
+  ["10", "Madhubani", "i5mm.6.1.d.2h.1.1.1.1.7.1.1.1.1.1.1.1.1.1.1.2.1.1.2.1.1.1t.3.2l.1.1.1.4.1.1.1.1.9.3"],
+  ["10", "Munger", "hdxd.1.9.1.1.1.1j7.k"],
+  ["10", "Muzaffarpur", "i1ox.1.1.1.1.1.uf.1.1.2.1.1.1.1.2.1.1.2.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.50.9.13.l4.7"],
+  ["10", "Nalanda", "h6ad.2.3.1.1.1dt.6.1.1.2.2.1.1.1.1.1.1.1.1.2n.1gh.4mn"],
+  ["10", "Nawada", "h6ae.2xj.1.1.1.2.1.1.1.1.1.1.1.1.7.1.1.1.1.1.1.2.1.2.9"],
+  ["10", "Pashchim Champaran", "i431.2.1.1.1.1.5j.1.2p.y.1.a.1.1.1.1.1.1.4"],
+  ["10", "Patna", "h5a9.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.2.1.1.2.1.tn.1.1.1.1.1.1.1.1.1.1.1.5b.1.5i.2.1.1.18j.2j.1.1.8.1.1.1.1.6.28.1.1.3.1.vs.1.1"],
+  ["10", "Purbi Champaran", "i48l.1.1.1.1.a.2e.1.3.1.5.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.3.1.f.1.1"],
+  ["10", "Purnia", "ib12.2r.1.1.1.1.2o.1.1.1.1.1.9.a.1.1.3.7"],
+  ["10", "Rohtas", "h6zn.1.1.1.1.1.1.1.1.1.1.5.ehx.2h.3.4.1.1.1.1.56.1.1.1.1.1.1.1.1.1.1.1"],
+  ["10", "Saharsa", "i9hm.1.g.1.2.1.2.20.1.a.4.1.4"],
+  ["10", "Samastipur", "i6ed.1.1.1.9.1.1.2.4.1.3.2.2.1.1.1.1.1.q.19.1.1.1.1.1.1.5.k.1t.1.5j.1.1.1.1.1"],
+  ["10", "Saran", "i0zx.2s.1.2.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.24.1.3.6.1.1.3.2d.1.1.7.1.1.2.1.2.1.1.2.1.2.i.1.h"],
+  ["10", "Sheikhpura", "hdul.1.1.2.2.5h"],
+  ["10", "Sheohar", "i2pt.5.1"],
+  ["10", "Sitamarhi", "i2jx.54.1.9.2.1.1.1.1.1.1.1.2.1.1.1.1.1.1.2.1.1.1"],
+  ["10", "Siwan", "i12r.7.g.1.1.3.1.1.1.1.1.1.1.1.1.1.1.1.1.1.15.1.39.2.2.5.3.i.1.4.7.1k.2.2.1.2"],
+  ["10", "Supaul", "i5wb.1.3l9.3.1.1.1.e.5.1.2.1.3.1.1.23.1.3.1mw.1.1"],
+  ["10", "Vaishali", "i2jk.6.4.rf.1.1.8.1.1.1.1.1.1.1.1.2.1.1.1.1.1.2.ad.1.1.1.1.1.1.1.1"],
+  ["11", "East District", "fsr1.1.1.4.r.1.1"],
+  ["11", "North District", "fsrg.4"],
+  ["11", "Pakyong", "fsr6.p.2"],
+  ["11", "South District", "fsrq.2.4.7"],
+  ["11", "West District", "fsrb.2.8"],
+  ["12", "Anjaw", "gz6w"],
+  ["12", "Changlang", "gz5j.1.1s.1.1.1"],
+  ["12", "Dibang Valley", "gz6t.9"],
+  ["12", "East Kameng", "gxna"],
+  ["12", "East Siang", "gycc.2q.1.1"],
+  ["12", "Kurung Kumey", "gyfi"],
+  ["12", "Lohit", "gz41.32"],
+  ["12", "Longding", "gz7n"],
+  ["12", "Lower Siang", "gyfp"],
+  ["12", "Lower Subansiri", "gyfj.1"],
+  ["12", "Namsai", "gz6u.1.2"],
+  ["12", "Pakke Kessang", "gxnb"],
+  ["12", "Papum Pare", "gyf9.1.1.1.1.1.7.2.rt"],
+  ["12", "Shi Yomi", "gycb"],
+  ["12", "Tawang", "gxnc.1.1"],
+  ["12", "Tirap", "gz7l.1"],
+  ["12", "Upper Siang", "gyca.2v"],
+  ["12", "Upper Subansiri", "gyfm"],
+  ["12", "West Kameng", "gxkh.1.1.2q.d.2"],
+  ["12", "West Siang", "gyc9.2s"],
+  ["13", "Dimapur", "h31r.3.6.1.2.1.1.1"],
+  ["13", "Kiphire", "h47n"],
+  ["13", "Kohima", "h2yx.1.1.1.2.2r.4.b.1.15k.9"],
+  ["13", "Longleng", "h481"],
+  ["13", "Mokokchung", "h47d.3.3.6.1.1.3.5"],
+  ["13", "Mon", "h47e.1.i.1"],
+  ["13", "Peren", "h31p.9"],
+  ["13", "Phek", "h31s.3.1.6"],
+  ["13", "Tuensang", "h47o.4.c"],
+  ["13", "Wokha", "h31n.c"],
+  ["13", "Zunheboto", "h47w.7"],
+  ["14", "Bishnupur", "h1fn.3e.1"],
+  ["14", "Chandel", "h1i5.1.p.8"],
+  ["14", "Churachandpur", "h1il.7.4.b"],
+  ["14", "Imphal East", "h1fh.3.2.2w.v"],
+  ["14", "Imphal West", "h1fd.1.1.1.5.2w.8.f.4.6"],
+  ["14", "Jiribam", "h1ij.1"],
+  ["14", "Kakching", "h1i7.t"],
+  ["14", "Kangpokpi", "h1ib.5.6.4.4.3.k"],
+  ["14", "Noney", "h1jf.c"],
+  ["14", "Pherzawl", "h1fi.3t"],
+  ["14", "Senapati", "h1fj.8.2h.1.1.18"],
+  ["14", "Tamenglong", "h1it.g"],
+  ["14", "Tengnoupal", "h1iz"],
+  ["14", "Thoubal", "h1iy.8.a"],
+  ["14", "Ukhrul", "h1ja.2"],
+  ["15", "Aizawl", "gyvp.3bg.3.1.1.1.1.1.3.2.1.2.2m.27.1k.5f.t.6f.1x"],
+  ["15", "Champhai", "h2g0.1"],
+  ["15", "Hnahthial", "h2mz"],
+  ["15", "Khawzawl", "h2fq"],
+  ["15", "Kolasib", "h292.b.a.a"],
+  ["15", "Lawngtlai", "h2vv"],
+  ["15", "Lunglei", "h2qb.j.15"],
+  ["15", "Mamit", "h2ii.b.a.1y"],
+  ["15", "Saiha", "h2w5"],
+  ["15", "Saitual", "h2ed.t.1"],
+  ["15", "Serchhip", "h2bl.k.3.2.54"],
+  ["16", "Dhalai", "h4o4.1q.7.2.3.6.1.1.1.2"],
+  ["16", "Gomati", "h4it.2g.3.1.8.1.6.5"],
+  ["16", "Khowai", "h4o1.1.1.2.2"],
+  ["16", "North Tripura", "h4pe.1.2.1.2.4.1.1.7.1.1"],
+  ["16", "Sepahijala", "h4ir.2j.1.c.g.1"],
+  ["16", "South Tripura", "h4md.1.1.1.1.5.3.2.1.1"],
+  ["16", "Unakoti", "h4pr.1.d.2.1.1.1.6.2"],
+  ["16", "West Tripura", "h4ii.1.1.1.1.1.1.1.1.2.2.1.7.d.a.1.2c.28.1.1"],
+  ["17", "East Garo Hills", "h0qm.1.2"],
+  ["17", "East Jaintia Hills", "h008.14.a"],
+  ["17", "East Khasi Hills", "gzvt.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.2.1.2c.1.1.2.1.1.1.2.6"],
+  ["17", "North Garo Hills", "h0qk"],
+  ["17", "Ri Bhoi", "gqn9.2u.98i.1.1.1.1.b.6.1"],
+  ["17", "South Garo Hills", "h0qe.5.7"],
+  ["17", "South West Garo Hills", "h0qi.9"],
+  ["17", "South West Khasi Hills", "gzyy"],
+  ["17", "West Garo Hills", "h0nl.1.1.1.1.2o.2.1.1.4.3"],
+  ["17", "West Jaintia Hills", "gzyt.a.v.1.a"],
+  ["17", "West Khasi Hills", "gzz4.6"],
+  ["18", "Bajali", "gqvh.1.2.1b"],
+  ["18", "Baksa", "gqvj.3.3.a.1.2.e.4.2.1.1.4.1.3.1"],
+  ["18", "Barpeta", "gqut.1.3.2.1.1.2.2.1.1.1.1.1.1.1.1.8.n"],
+  ["18", "Biswanath", "gt2e.1.1.1.1.1.1.1.1.1.1.1.1.1.5.5"],
+  ["18", "Bongaigaon", "gsgk.1.1.1.1.4.1.3"],
+  ["18", "Cachar", "gw0x.1.1.1.1.1.1.2.1.1.2.1.1.a.1.4.1.1v.1.2.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.3.1.ir.2.1.a.1.1"],
+  ["18", "Charaideo", "gu86.3.f.1.1.1.1.1.5"],
+  ["18", "Chirang", "gsgc.1.2.a.1.4.1.2.1"],
+  ["18", "Darrang", "gt0z.1.9.j.1.1.1.1.a6.f"],
+  ["18", "Dhemaji", "gv9u.8.1.m.1.1.1.1.1d"],
+  ["18", "Dhubri", "gsed.m.1.1.5.1.3.1.2.2.9.1.m"],
+  ["18", "Dibrugarh", "gu8b.1.91.1.1.1.2.1.1.2.2.2h.1.1.29.7.bf.8.1.1.1.1.7.1.1.1x"],
+  ["18", "Dima Hasao", "gwnm.1.1.a.1.1.2r"],
+  ["18", "Goalpara", "gs8t.j.2.1.1.1.1.3.1.2.1.1"],
+  ["18", "Golaghat", "gu69.1.1.6.1.1.1.1.1.1.3.1.2.1.3.1.21.3.1.2"],
+  ["18", "Hailakandi", "gw52.1.1.3.5.1.1.1.1.1.3.hl"],
+  ["18", "Hojai", "grq4.1.6.4.1.2.3.1.1"],
+  ["18", "Jorhat", "gtpl.3.2.1.1.1.1.3.1.1.2e.6.1.3.1.e0.e.1.1.1.1.1.1.1a.1.h.4"],
+  ["18", "Kamrup", "gqna.1.8.1q.1.1.1.g.1.1.1.1.1.2.2.3.1.1.1.1.1.4.5x.b.f.1.1"],
+  ["18", "Kamrup Metro", "gqmh.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.4.1.1.1.1.1.1.2.2g.m.l.y6.1.1"],
+  ["18", "Karbi Anglong", "grqc.5.j.1.1.8.a.1.1.8"],
+  ["18", "Karimganj", "gw58.a.ev.8.1.1.1.1.6.1.2.1.1.1.1.1.1.5.1.1.1.1.1.17.m.3"],
+  ["18", "Kokrajhar", "gsf8.1.3.9.1.1.3.4.6.1.8.1.6"],
+  ["18", "Lakhimpur", "gt28.1.2.1.1.26s.m.8.1.1.i.1.1.1.1.1"],
+  ["18", "Majuli", "gtse.2.1.1.4"],
+  ["18", "Marigaon", "grh4.1.1.f.5.1.7v.1.1.1"],
+  ["18", "Nagaon", "gre9.1.1.2q.1.1.h.2.1.1.1.3.7.1.1.1.1.1.1.1.1.1.7t.1.1"],
+  ["18", "Nalbari", "gqpy.c.4l.1.2.4.2.m.1.2.1.1.1.1.6.1.1.1.1.2.2.e.1.1.3.4"],
+  ["18", "Sivasagar", "gu7c.l.1.1.1.1.1.1.2.2.1.2.6.1.3.1.1.1.9.1.4"],
+  ["18", "Sonitpur", "gsxt.9.f.1.1.1.21.1.1.1.1.5.1.1.5.w.1.3.1.q.2.8v.1.2.1.1"],
+  ["18", "South Salmara Mancachar", "gs9j.1.3.4.1"],
+  ["18", "Tinsukia", "gukt.1.j.1.1.1.2.1.1.1.1.1.1.1.1.1.1.a.1.2.1.5.2.1.1.4.1.1.1.2.bd"],
+  ["18", "Udalguri", "gt0x.1.24.8t.1.1.1.3.8.1.1.1.1.1.1.1"],
+  ["18", "West Karbi Anglong", "grqo.2.z.1"],
+  ["19", "24 Paraganas North", "f058.2.5.1.c.1.2.1.3.1.1.1.1.5.1.9.2.1.2.1.1.2.6.1.1.6.4.1.4.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.j.1.1.1.1.1.1.1.1.x5b.1.1.1.1.1.1.1.1.3.1.1.1.8.1.k.1.r.1.r.1.1.9.1.1.1.a.2.1.1.2.1.a.1.5.2.1.1.1.d.1.2.1.1.1.1.1.3.2w.4.6.1.a.1.1.1.1.1.1.1.6.2.1.1.3.3.1.a.6t.1.2.6.1"],
+  ["19", "24 Paraganas South", "f06e.e.9.3.7.1.x.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.xau.6.b.1.1.1.4.1.1.7.2.1.1.2.3.1.1.1.6.5.2.1.1.1.1.1.1.1.1.5.4.8.4.2v.1.1.9.2o.1.1.2"],
+  ["19", "Alipurduar", "frac.4.3.2.1.1.1.1.3.6.1.1.ot.1.1.1n.j.1.1.1.1.1.1.1"],
+  ["19", "Bankura", "fh6d.1.j.1.a.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.2.9.3.7.i.1.1.1.1.1.1.1"],
+  ["19", "Birbhum", "fo4d.1.1.1.h.2.1.1.1.1.2.1.2.1.1w.1.2.a.1.1.2.1.1.1.1.1.1.9.1.1.1.1.1.2.1.1.1.1.1.1k.1.1.1"],
+  ["19", "Coochbehar", "fr82.4z.2.1.m5.u.2.1.1.a.1.a.1.1.1.1.5.2.1.1.1.1.1.4.3"],
+  ["19", "Darjeeling", "fqcx.1.1.2.3.1.1.1.1.1.1.2f.1.1.1.1.2o.2.1.5.4.1.1.1.1.1.2.1.1.1.1.2.2e.1.30.2.1.1.1.1.2.5"],
+  ["19", "Dinajpur Dakshin", "fpnx.1.1.i.3.1.1.1.5.1.7.1.1.3.d"],
+  ["19", "Dinajpur Uttar", "fpoj.5.1.1.4.9.d.19.1.5.1.1.1.5"],
+  ["19", "Hooghly", "f9gl.1.1.1.1.g.1.1.1.1.9.1.1.1.1.1.8.1.1.3.1d.1.1.1.h.1.1.9.1.1.1.a.1.2.1.1.8.17.1.1.1.1.1.2.2.1.2i.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.2c.1.1.1.8.1.1.1.2e.1.9.1.1.1.1.1.1.2c.1.4"],
+  ["19", "Howrah", "f8ot.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2e.1.1.1.1.1.j.1.1.22.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.5.9.1y.2.1.1.3.1.1.1.1.1.1"],
+  ["19", "Jalpaiguri", "fqd0.2.1.8.di.go.1.j.b.1.1.1.1v.1.2.1.1.2.1.2.6.1.2.1.2.1.4.1.2.1.1.1w.3"],
+  ["19", "Jhargram", "fgf9.a.8.g.9i.2.1.1.1.1.6.1.1.1.1"],
+  ["19", "Kalimpong", "fql9.a.3.1.1.57.k0.8"],
+  ["19", "Kolkata", "f04h.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.2.1.1.1.3.1.1.1.1.1.1.1.1.1.1.3.3.1.6.1.1.1.3.1.1.1.2.1.1.2.3.4.3.1.1.1.4.2.1.4.1.5.2.4abc"],
+  ["19", "Maldah", "fow5.1.1.i.1.1.1.1.1.1.1.a.1.1.1.1.2.1l.1.1.1.1.1.1.1.1.1.5.1"],
+  ["19", "Medinipur East", "fgfe.4.3.2.c.1.2.4.d.1.6d.1.1.1.1.1.e.2.1.2.2.1.1.1.1.1.1.1.4.1.1.1.1.2.2.1.1.1.1.2.1.1.1.1.2.5.3u.1.1.1.2.1.h.1.1.1.1.1.2.1.1.1.1.1.1.1.4.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1"],
+  ["19", "Medinipur West", "fgel.1.j.1.2.2.1.1.1.2.1.1.3.4.4.1.1.1.1.1.1.3.2.1.1.3.1.5.z.a.1.a.a.a.b.7.15.1.1.1.1.1.3a.2.9.1.1.6.2.6.6.a.4u"],
+  ["19", "Murshidabad", "fwlx.1.1.1.9.8.1.1.9.1.1.1.1.1.1.2.7.1.1.2.8.1.1.2.1.1.1.2.6.1.9.3.2.c.1.a.1.a.1.1.1.1.8.1.1.1.1r.1.1.1.1.1.2.2l.1.2.1.1.1.1.1.1"],
+  ["19", "Nadia", "fvu5.1.1.i.1.1.1.1.1.1.a.1.1.1.a.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.e.k.1.j.1.1.9.2.1.3.7.1.1.1.1.1.1.1.1.1.1.1.1.18.1.b.2.1.1.2c.1.2.2p.1.1.1.1.1.1.1.1"],
+  ["19", "Paschim Bardhaman", "fab5.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2c.1.1.1.1.a.6.1.1.1.1.1.4.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.a.1.1.1.1.1.1.2.4.1.1.1.1.3.2.3.3.1.1"],
+  ["19", "Purba Bardhaman", "f9hu.qj.1.1.1.h.1.1.1.1.1.1.1.1.1.1.1.8.1.1.1.1.1.1.1.1.1.1.1.1.1.1.c.6j.2.1.1.1.1.1.1.b.1.1.1.1.2.1.1.22.a.1.1.1.4.1.lg7"],
+  ["19", "Purulia", "fhy5.1.1.1.h.5.1.1.1.1.1.1.1.1.8.1.2.1.1.1.1.2.1.1.1.1.1.19.1.a.1.2"],
+  ["20", "Bokaro", "honi.5x.1au.2.1.2.3.1.2.1.1.1.1.7y.n4.4p.2s.1.jg.3.4.1.1.1.1.1.1.4.2.4.1.1.3.c.5.48"],
+  ["20", "Chatra", "honj.62.28.2.1.4.6.1.2x6"],
+  ["20", "Deoghar", "hg68.1.1.1.1.q.1.3.3.1.2.5.x8.4"],
+  ["20", "Dhanbad", "hja6.62b.2.1.1.1.1.1.1.1.1.1.1.1m0.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.7.1n.1.1.1.1.1.1.2m.1.2.1.1.1.2.2k.1"],
+  ["20", "Dumka", "hg5x.1.1.7.8.1.1.l.3.1.3.3.7.8.1.1.2.1i4"],
+  ["20", "East Singhbum", "ht7d.1.1.1.1.1.1.2.2.1.3.1.1.2.1.1.u0.1.1.1.1.1.1.4.1.1.58.1.1.1"],
+  ["20", "Garhwa", "hmcg.2.6.1.4.3.1.4.1"],
+  ["20", "Giridih", "hh39.1.9.1.1.1.1.1.1.1.7jw.2.1n.49.2.2.5.2b"],
+  ["20", "Godda", "hfh4.pp.e.6.1.1.1.4.5.1ht"],
+  ["20", "Gumla", "hwg3.3.1.1.a.2.4.5.1.1.1.1"],
+  ["20", "Hazaribagh", "hot1.1.1.8.1.1.4.2.4.d.1u.3.1.5"],
+  ["20", "Jamtara", "hh4n.1.2.1.4"],
+  ["20", "Khunti", "hwg9.1.h"],
+  ["20", "Koderma", "honp.n.56.2h.2.1.3.5.3"],
+  ["20", "Latehar", "hmcf.8.7.5gk.1.1.2.1"],
+  ["20", "Lohardaga", "hwgd.2h.n"],
+  ["20", "Pakur", "hg67.ry.re.1.2.1.a"],
+  ["20", "Palamu", "hmc5.1.8.3.2.1.1.1.4.1.1.7.1"],
+  ["20", "Ramgarh", "honh.5x.2.9.1.4.2wr.1.1.2.1.2.1.1.8.1.3.3.1.4.1.2.1.1.8.7"],
+  ["20", "Ranchi", "hrth.3.1.1.3p3.1.1.1.1.1.1.1.1.1.1.1.1.1.u7.1.1.2r.2.1.9.1.2.2.2.1.3.9.1v.2"],
+  ["20", "Sahebganj", "hhph.4.3.1.1.5.1.4.9"],
+  ["20", "Saraikela Kharsawan", "ht7p.1.ue.1.84.1.1.1.jd.37.3.1"],
+  ["20", "Simdega", "hwg1.a.1.b.3.2.7"],
+  ["20", "West Singhbhum", "hutq.1.1.1.1.2n.1.1.1.8.1.1.1.2.1.3.1.1.1jd"],
+  ["21", "Anugul", "g9od.3.1o.1.1.1.2.1.1.4.5.1.1.1.4.1.1.1.1.1.1.1.2.9.2.2.2.1.1"],
+  ["21", "Balangir", "gftl.1.i.1.1.2.1.1.1.1.1.1.2.1.2.2.1.1.1.1.1.4.2.c.1.4.1.1.3.1"],
+  ["21", "Baleshwar", "g7c1.1.1.g.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.4.1.2.1.1.j.1.1.2.1.1.1.1.1.1.11.8.w.g"],
+  ["21", "Bargarh", "ggm3.1.1.1.1.1.1.1.1.1.1.1.1.1.2.3.3.1.1.2.1.1d.1.1.7.4"],
+  ["21", "Bhadrak", "g7es.1.a.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.2.2.1.1.5.i.1.1.1.2.1.3.a"],
+  ["21", "Boudh", "gbz1.1.1.1.1.1.2.3.1.2.4"],
+  ["21", "Cuttack", "g50p.1.1.1.2.1.1.1.1.1.1.1.1.1.1.rd.1.1.1.1.1.1.1.1.1.1.2.5.3.1.3.1.1.1.1.1.1.1.2.1.2.y.t.5.7.i.1.1x.1.1.1.1.2.1.2.c.1x.3.2.2.1.1"],
+  ["21", "Deogarh", "ggoc.1.1.9.2"],
+  ["21", "Dhenkanal", "g9nd.c.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.a.29.1.1.o.4.1"],
+  ["21", "Gajapati", "gb7b.1.1.53.1.5.1.1.2.1.1.1.1.1.2"],
+  ["21", "Ganjam", "gaf5.1.1.1.1.1.1.1.1.1.1.ri.1.1.1.1.1.1.1.1.1.1.1.1.1.4.1.1.5.1.1.1.1.1.1.1.3.2.4.1.1.2.7.2.1.19.1.1.1.1.1.1.1.1.1.1.1.3.1.1.1.1.1.1.1.1.1.1.1.1.5.1.1.7.1.2.1.2.5.1m"],
+  ["21", "Jagatsinghapur", "g5va.1.1.2.1.1.1.1.1.2.1.5.1.c.1.2.1.1.1.1.1.1.1.3.f.2.3o"],
+  ["21", "Jajapur", "g5t3.1.1m.3f.2f.4.jl.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.8.7.1.5.1.1.b.1"],
+  ["21", "Jharsuguda", "ggqx.1.1.1.7.2.2.1.1.1.1.1.5.1.7.1"],
+  ["21", "Kalahandi", "gf1t.1.1.8.1.1.1.1.1.1.1.1.1.3.3.1.1.1.2.1.4.1.1r.1.1.1.7"],
+  ["21", "Kandhamal", "gbyp.1.8.1.1.7.2.1.5.1.1.1z.1.1.1.1.1.1.1.2.1.2"],
+  ["21", "Kendrapara", "g5w6.j.1j.2.1.1.1.1.1.1.1.1.1.1.2.1.1.1.2.1.3.8.1.4.1.1.2.2.3.10.lg"],
+  ["21", "Kendujhar", "g8vl.1.b.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.2.1.1.1.1.2.1.2.1.1.1.1.t.2.1.1.1.1.1.1.1.1.1"],
+  ["21", "Khordha", "g3h5.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.rb.2.1.1.1.4.3.1.3.1.2.1.c.4.1.1.1.3.1.1.2.2.y.1.1.1.c.1gp"],
+  ["21", "Koraput", "gcqh.1.1.1.4.rl.1.1.1.1.1.5.3.6.1.6.1.8.1.1.1.1.1.1.1.c.1.1.1.n.pw"],
+  ["21", "Malkangiri", "gdjg.1.1.1.1.3.1.y.1"],
+  ["21", "Mayurbhanj", "g83t.1.1.b.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.h.1.1.2.2.2.1.1.1.1.1.1.4.1.1.7.1.1.1.1.1.1.1"],
+  ["21", "Nabarangpur", "gdjl.a.2.2.7.1.1.1.1.1.1.1.1.7.3"],
+  ["21", "Nayagarh", "g49k.1.1.11.2.3.1.1.7.1.1.1.1.1.1.1.1.4.1.1.1.1.1"],
+  ["21", "Nuapada", "gf4o.1.1.1.1.3.7"],
+  ["21", "Puri", "g48x.1.1.1.6.1.1.1.1.1.1.1.2.d.d.1.1m.1.1.1.1.1.1.1.2.1.2.2.1.1.1"],
+  ["21", "Rayagada", "gdjy.q3.1.8.1.4.1.1.1.1.1.1.1.1.1.1.1.3.4.1"],
+  ["21", "Sambalpur", "ggld.1.1.1.1.1.1.9.1.1.1.1.4.1.28.1.1.5.1.5.2a.a.2.2.7.1.2.3.1"],
+  ["21", "Sonepur", "gfu0.1.1.1.4.m.h.6"],
+  ["21", "Sundargarh", "ghd5.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.p.1.qm.1.9.1.1.1.1.1.1.1.1.1.1.1.1.1.1.6.1.1.1.1.1.1.1.1.1.1.1.1.1.2.2.3.1.i.2.1.1.1.1"],
+  ["22", "Balod", "aj12.1.2.1.1.1.2.f1"],
+  ["22", "Baloda Bazar", "ajps.rh.c.5.25.1.q.6.1.2u.1.3.3.6.52.x"],
+  ["22", "Balrampur", "anku.1.2t.4.1"],
+  ["22", "Bastar", "alii"],
+  ["22", "Bemetara", "aj44.3.2.1.2.i5"],
+  ["22", "Bijapur", "aliq"],
+  ["22", "Bilaspur", "aly1.2.1.2.3.2v.1.3.2w.2.2.62.30.1.4"],
+  ["22", "Dantewada", "alih.8.2v.1.3"],
+  ["22", "Dhamtari", "akwu.1.2z.3.3.2"],
+  ["22", "Durg", "ai35.5.3.2.9.1.1.1.1.1.1.a.6.qn.1.2x.4.32.32.fh"],
+  ["22", "Gariyaband", "ajpp.1dc.2.1.1.1.1.2t.4"],
+  ["22", "Gaurella Pendra Marwahi", "am19.1.1"],
+  ["22", "Janjgir-Champa", "amdc.1.1.2.1.2.2t.1.2.5.1.2.f.1.1.1.1.1.1.3"],
+  ["22", "Jashpur", "amt2.2u.3.1.1.2.f.3.2d.1.3.2.2"],
+  ["22", "Kabirdham", "aj48.67.c4.1"],
+  ["22", "Kanker", "alnv.u.4.2u.5.1"],
+  ["22", "Kondagaon", "alcc.4.2.2.1.1.7"],
+  ["22", "Korba", "amac.1.1.1.1.1.1.2.2.1.63.3.5.1.1"],
+  ["22", "Korea", "anqr.4.4.2v.4.1.1.1.1.1.2u.2.2.2.5y.5"],
+  ["22", "Mahasamund", "akqt.3.1.2u.3.1.3"],
+  ["22", "Mungeli", "am17.5z.4.1"],
+  ["22", "Narayanpur", "alol.1"],
+  ["22", "Raigarh", "ampt.4.2n.7.1.1.2.2.2.1.90.5.5.2t.3.2z.4"],
+  ["22", "Raipur", "75pu.3dwv.1.1.1.1.3.1.1.2.1.1.1.1.1.1.29.2.s2.3.2.2x.4.60.64.64.3c.9.2t.3.1.2y.1.1.30.1.1.1.1.1.1.a.2p.2.1.1.66"],
+  ["22", "Rajnandgaon", "aj19.5w.2.1.1.34.1.2v.4.1.2.5x.4"],
+  ["22", "Sukma", "al9m"],
+  ["22", "Surajpur", "annr.3.3.2.4.2q"],
+  ["22", "Surguja", "anhl.2s.a.3.2.1"],
+  ["23", "Agar Malwa", "9yz2.5v.4.2.2.2t"],
+  ["23", "Alirajpur", "9tay.3.2.1.2u"],
+  ["23", "Anuppur", "adjl.3.4.2s.4.2y.4.2.2w.4.2.1.c2.5.1"],
+  ["23", "Ashoknagar", "a582.1.1.3.2x.3.1.1.1.1.c6"],
+  ["23", "Balaghat", "ab55.1e.1f.3.6.4.1.1.2x.2.2.2x.1.3.2.2w.4.4.2u.5"],
+  ["23", "Barwani", "9oc7.2.2u.5.2w.6.2w.33"],
+  ["23", "Betul", "9uxt.3.2y.32.5.2x.32.3.4.2.2u.2.1.3.2w.2.2.1.2"],
+  ["23", "Bhind", "a821.2w.6.5.1.2x.5.2w.1.1.2.2y.4.1.1.2.1.2x.2.9.2m"],
+  ["23", "Bhopal", "9whd.1.1.1.4.2.1.5.4.2.1.1.2.1.1.2.1.2.3.1.1.1.1.1.1.1.1.1.2.j.y.1.j.re.5"],
+  ["23", "Burhanpur", "9ne5.32.1.35"],
+  ["23", "Chhatarpur", "a3fd.2s.4.6.2i.2s.a.2.2.3.2f.3.3.2i.9.5.1.9.29.j"],
+  ["23", "Chhindwara", "aadd.2.2u.1.1.1.1.1.1.1.3.2y.2.1.2z.3.3.1.2v.1.5.2.2u.4.2.2"],
+  ["23", "Damoh", "a35x.2.1.2.6.1.2.2o.1.3.1.2w.1"],
+  ["23", "Datia", "a6rr.1.91.a.2.2.7.3.1"],
+  ["23", "Dewas", "9r2x.32.4.1.2.2v.2.4.2x.4.3.2t.j"],
+  ["23", "Dhar", "9qb5.9.2t.5.2x.32.4.2y.5.3.2v.30.5.30.1.1"],
+  ["23", "Dindori", "abqq.2t.1.2.1.1.1.2x"],
+  ["23", "East Nimar", "9n81.1e.1n.2.2.2.1.2.62.5y.3.2z.32.32.32"],
+  ["23", "Guna", "a4yx.2s.4.5.1.1.1.2.3.2w.4.n.12"],
+  ["23", "Gwalior", "a5qp.1.1.1.1.1.1.1.1.1.1.1.3.5.r9.1.3.2x.5.2x.32.1"],
+  ["23", "Harda", "9vvw.2v.4.2y"],
+  ["23", "Hoshangabad", "9vpl.4.2x.1.3.1.1.6.2r.2.67.2x.32.7.2v.4.2y.31"],
+  ["23", "Indore", "9orl.1.1.2.1.1.2.1.1.1.1.1.1.1.2.2.r9.32.1.3.2x.33.32.5.2x.1.3.1.2x.32"],
+  ["23", "Jabalpur", "abwx.1.1.1.1.3.1.1.1.9.1.u.5.q9.1g.1g.5.3.6.2t.2.3.31.2"],
+  ["23", "Jhabua", "9t4t.31.2.1.2.2.2.5y"],
+  ["23", "Katni", "acxu.1.1.30.2.1n.3.7e.3.2.2x.32"],
+  ["23", "Khargone", "9nzt.32.2.1.1.2x.1.3.1.3.2v.1.3.2x.1.1"],
+  ["23", "Mandla", "abnh.1.1.1.1.1.2.4.2o.3.5.63.1.2"],
+  ["23", "Mandsaur", "9te9.1.9d.1e.4k.3.2.2y.3.2.2u.4.3.2u.3.5.7.2n"],
+  ["23", "Morena", "a7a9.32.4.j.2d.2.3.4.1.5z.32"],
+  ["23", "Narsinghpur", "afrt.31.4.4.2v.4.2x.4.3.2w.32.4.2y.31.33"],
+  ["23", "Neemuch", "9tha.3.3.2.2u.6.2.2u.6.2x.r.2"],
+  ["23", "Niwari", "a4dy.2i.1.2x.3.2"],
+  ["23", "Panna", "agjl.1d.9.4h.2.33.30.1.1.3.2"],
+  ["23", "Raisen", "9wim.1xl.j.3.26.a.4.3.3.1.2q.4.2z.3.2.2s.4.3"],
+  ["23", "Rajgarh", "9zb1.6.2.5.3.2.1.3.2.2.2.2.2.4"],
+  ["23", "Ratlam", "9smh.35.4.1.2v.4.2x.2.3.3.1.2t.31.5"],
+  ["23", "Rewa", "af01.1.1.2.1.2x.3.1.2.6.2p.3.3.2x.2.2.3.2.1.2r.1.4.1.1.1.2.2s.3.3"],
+  ["23", "Sagar", "a2nl.1.1.1.h.u.1q.2.2.1.1.1.4.1.2o.2.3.1.1.1.3.3.2s.2.2.1.2t.1.6b"],
+  ["23", "Satna", "ae89.4.2y.1.1.1.1.2y.5.1.2w.3.2z.5.1.2w.32.5.2x.1.1.1.1.3.2v"],
+  ["23", "Sehore", "9w1x.3ik.32.2.1.1.1.2.2.5.2o.32.36.1.2.2y.2p.a.4"],
+  ["23", "Seoni", "aavp.6.2w.31.1.1.2.2.1.1.2u.1.3.2.1.2"],
+  ["23", "Shahdol", "adgh.31.4.3.fc.2t.1.3.2"],
+  ["23", "Shajapur", "9ysp.2x.4.3.3.2.2u.3.3.1.2y.2.2.2"],
+  ["23", "Sheopur", "a7jg.3.2.2.g"],
+  ["23", "Shivpuri", "a5e7.y.1h.m.2.3.5.2s.3.1.1.6.c.20.f.32.5"],
+  ["23", "Sidhi", "afid.5.3.1.5.2o.4.1.2z"],
+  ["23", "Singrauli", "afoh.1.2.1.1.1.2.1.2"],
+  ["23", "Tikamgarh", "a475.4.5.2j.a.4.3.2v.32.8"],
+  ["23", "Ujjain", "9rup.2.3.4.5v.1.2.2h.i.4.2.2v.1.2.2z.33.3.1.3.2u.1.5.6l5"],
+  ["23", "Umaria", "advr.4.2x.1.3.1"],
+  ["23", "Vidisha", "9y0x.32.2.1.2y.1.3.2.2.c.i.21.3.3"],
+  ["24", "Ahmadabad", "857l.1.1.1.1.1.1.1.1.4.1.1.1.2.1.2.1.1.1.2.1.1.l.1.1.1.2.1.2.1.1.1.1.2.1kv.5.5.a.a.5.5.k.14.3.7.5.5.a.a.a.5.1t.a.5.5.1j.a.3.6.1.2.1.2.3.2.8.2.4.1.5.5.3.2.5.5.5.1"],
+  ["24", "Amreli", "7t9f.6.1.3.5.j6.5a.b.9.5.5.a.5.1.4.k.1j.5.1.9.5.5.15.9.a.a.5.5.5.5.28"],
+  ["24", "Anand", "8aru.a.k.1y.1t.5.h9.31.a.a.a.a.a.a.a.p.5.a.2d.1.1.3.5.5.5.5.5.5.5.5.5.5.5.5.14.b.9.a.a.a.5.5.a.u.a.a.a.3.2.5.a.a.a.a.k.a.5.5.a"],
+  ["24", "Arvalli", "87pp.1.4.1.9.1b.3.5.1.1.3.5.5.5.5.5.5.5.2n"],
+  ["24", "Banas Kantha", "892h.9.2s.a.a.5.23.2s.a.a.28.b.2c.1.4.5.5.a.5.5.5.5.5.5.5.1.4.5.6"],
+  ["24", "Bharuch", "8ebm.5b.a.1.3.5.5.5.5.5.1y.k.5.5.a.5.5.5.5.a.u.5.5.a.a.l5.1.8.7.3.a.28.5.5.5.5.5.r8.5.j6"],
+  ["24", "Bhavnagar", "7sv5.1.1.1.1.1.18.a.a.b.t.a.a.5.5.5.5.1o.k.a.a.a.5.5.5.5.a.5.f.3.7.a.4v.5"],
+  ["24", "Botad", "7teu.a.a.a.a.a.5.dhk.a"],
+  ["24", "Chhotaudepur", "8dsl.5.5.5.5.5.2.4.4.5.3.2"],
+  ["24", "Dang", "8gk6.5.1.4.a"],
+  ["24", "Devbhumi Dwarka", "7q66.5.dr.87.1.4.5.5.5.5.5.a.2.3"],
+  ["24", "Dohad", "8c96.5.5.6.5.1.2.1.5.a.2.3.5.a.5a.2"],
+  ["24", "Gandhinagar", "86ra.1.3.6.5.7.2.b.1.3.5.5.1v.53.3.7.5.1.y.1s.2.1.1.3.23.31.a.a.a.a.1z.1.3.4.6.5.1y.p.a.a"],
+  ["24", "Gir Somnath", "7rfg.a.37.3.1.6.6j.k.k.a.5.41.5.5"],
+  ["24", "Jamnagar", "7q5c.14.a.1.9.ct.1.1.1.1.1.1.1.1.2.1.1.2p.a.a.a.2.8.a.2.8.14.a.a.a.a.u"],
+  ["24", "Junagadh", "7rbl.1.9.4.5.a.7.21.a.a.5.1y.a.5.2.3.1.1.d.5.5.5.5.3.1b.5.87.a.5.5.a"],
+  ["24", "Kachchh", "7xht.e.5.a.a.1t.5.5.f.5.5.5.5.5.5.5.10.2.2.5.k.4v.5.5.6.4.2.3.5.a.5.5.5.5.a.a.5.k.2j.4.5.5.5.5.2.3.b.4.5.5.5.5.5.5"],
+  ["24", "Kheda", "8am1.1.1.2u.5.5.5.a.2s.23.a.5.5.5.5.5.5.5.5.5.5.5.15.j.28.a.a.a.a.a.a.14.a.a.5.5.a.1o.e1.a.5.5.4.6.5"],
+  ["24", "Mahesana", "88ap.1.1.2.7.30.a.5.5.k.a.2i.19.5.5.5.5.5.5.5.5.a.5.1e.2.3.6.9.5.5.1.4.5.5.5.5.5.19.5.a.a.a.a.5.5"],
+  ["24", "Mahisagar", "8bkv.5.5.5.nc.32.a.2.3.f.a.5"],
+  ["24", "Morbi", "7sci.l.7i.2.7.b.1.1.7.5.5.a"],
+  ["24", "Narmada", "8dsg.1gx.f.1.9.2i.5.5.1"],
+  ["24", "Navsari", "8hl4.k.1e.5k.b.4.p.a.a.a.n.3.3.3.3.3.3.6.3.3.3.3.6.5.a.3.3.3.3.3.1a.9.a.k.a.a.a"],
+  ["24", "Panch Mahals", "8bxi.3.80.1.35.5.2i.2s.a.a.a.1.9.a.5.5.k"],
+  ["24", "Patan", "88dq.15.1x.1.4.4.1.a.1.4.1.9.a.1.6.3.a.5.t6.a.a"],
+  ["24", "Porbandar", "7q75.5.k.5.1.1.1.1.b.19k.bo"],
+  ["24", "Rajkot", "7ps1.1.1.1.1.1.1.d.1.1.1.1.1.1.2.2.5.5.5.5.5.5.a.14.5l.9.5.5.u.a.5.5.p.5.b.9.a.a.2.8.5.5.f.5"],
+  ["24", "Sabar Kantha", "87ix.1.4.4.k.28.a.2d.5.5.5.5.5.5.5.f.f.5.1.t.2x.b.1.8.4.6.k.2"],
+  ["24", "Surat", "8g39.4.2.3.2.d.5.a.a.5.5.3.7.a.5.5.k.b.9.5.5.5.1.2.2.k.z.5.5.2.3.5.1.1.3.5.5.5.5.2.3.1e.5.b.9.a.5.1t.5.1.1.1.2.a.a.a.1f.j.al.1.1.1.1.1.1.1.1.1.1.1.1.4.6.15b"],
+  ["24", "Surendranagar", "7s3d.j.a.a.1y.5.5f.a.2i.b.2.4.3.5.5.1y.a.a.5z.5.5.5.5.a.5"],
+  ["24", "Tapi", "8gal.5.5.5.6y.3.2.5.1.9.1.1.3.5.a.a.a"],
+  ["24", "Vadodara", "8cxd.1.1.1.2.1.2.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.tw.4.2.3.5.2n.a.k.3.1.6.1o.a.a.a.5.5.1o.b.9.a.5.5.1o.a.a.5u.5.5.a.1.9.4.1.1.4.eq.m3"],
+  ["24", "Valsad", "8hk1.1.5.d.a.5.a.5.1.4.a.2.12.a.5.5.1.4.5.5.5.5.5.a.5.1.9.5.6.2.2.14.3w.a"],
+  ["26", "Dadra and Nagar Haveli", "8hqe.a"],
+  ["26", "Daman", "8hpu.5.5"],
+  ["26", "Diu", "7rq0.k.u"],
+  ["27", "Ahmednagar", "8utt.3.1.ds.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.2.8.1.1.1.7a.1.1.2.1.2n.1.1.2.1.4.1.2.2g.2s.1.1.1.1.1.2n.1.1.2q.1.1.1.1.2o.1.1.1.1.1.1.2.2k.63g.1.1.1.1.3.2.1.9.2.dh.2.do.1.1.1.1.2"],
+  ["27", "Akola", "9ild.1.1.1.1.1.1.2m.1.1.1.2.1.1.1.2.6.9.4w.9.2i.4.2.2m.1.9"],
+  ["27", "Amravati", "9j21.1.1.1.1.1.1.2m.1.2.1.1.1.1.1.1.1.6.2.1.3.26.1.1.1.1.1.1.1.1.1.3.2g.1.1.1.1.1.1.1.7"],
+  ["27", "Aurangabad", "92xh.1.1.5mq.1.1.1.1.1.1.1.1.1.1.2i.1.1.1.1.2.2.1.1.1.1.2.1.1.1.2.1.c.1.1.1.1.a.1.2.1.1.2"],
+  ["27", "Beed", "8utz.m.k.qh.1.1.1.3.d1u.1.1.1.1.1.1.1.1.1.b.1.1.9.a2.2.1.1.1.3.7"],
+  ["27", "Bhandara", "9gwa.1.1.1.4.2m.1.1.1.1.1.1.1.2.1.1.1.9"],
+  ["27", "Buldhana", "9htl.1.2r.1.1.1.2.6.2h.1.1.1.2.2n.1.1.1.4.2l.1.1.1.m5.1.1.1.2p.2.1.2.6"],
+  ["27", "Chandrapur", "9gfp.1.6.3.6.1.1.1.1.1.wn.1.1.1.2.2n.1.1.2.2.5e.1.5j.1.1.1.1.1.1.1.6.2.1.3"],
+  ["27", "Dhule", "935t.1.2.1.1.87.1.1.1.1.1.1.1.1.1.1.7.u5.1.1.1.1.1.d.6.1"],
+  ["27", "Gadchiroli", "9gfr.1.1.8.zr.2r.1.1.1.2p.1.1.2.2.1.5s.1"],
+  ["27", "Gondia", "9gqp.d.2f.1.2r.5.1.2m.1.9.5"],
+  ["27", "Hingoli", "98yg.1.t.1.4e.1.1.2"],
+  ["27", "Jalgaon", "938l.1.1.1.1.1.1.1.b.2a.1.1.1.1.1.1.1.m1.1.1.1.2p.1.1.1.1.2.1.1.1.1.1.1.1.1.1.2d.2.2q.1.1.1.1.1.1.1.1.1.1.3.d.22.1.i.29.1.1.1.1.1.1.1.g"],
+  ["27", "Jalna", "98ne.i.1y.1.1.1.1.1.1.1.2.1.1.1.1.7y.1.2.3"],
+  ["27", "Kolhapur", "8wal.p0.1.1.1.1.1.1.1.2.1.1.1.2g.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.g.5.1.2.1j.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.2.6.1.1.1.2.1.1.7d.1.1.1.1.1.1.1.1.h.1.o.1"],
+  ["27", "Latur", "8v2f.1.1.1.1.1.1.1.1.1.1.1.1.1.3.2.1.1.1.c.11.q.dtn"],
+  ["27", "Mumbai", "8kn5.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.3.1.1.1.2.1.1.1.1.1.2"],
+  ["27", "Mumbai Suburban", "8kns.5.d.1.6.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.2.1.1.1"],
+  ["27", "Nagpur", "9fi9.1.1.2.1.1.1.2.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.2.1.1.1.1.1.qs.2s.1.1.1.1.1.1.1.1.1.1.1.1.9.1.26.1.1.1.6.4.2f.1.1.1.1.1.2n.3.2p.1"],
+  ["27", "Nanded", "990x.1.1.1.1.1.2q.3.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.7.5.5.1.1.2.1.4.1f.1.1.1.1.1.1.1.1.1.1"],
+  ["27", "Nandurbar", "948x.1.1.1.1.1.1.1.1.1.1.3.1.1.2.6.a.2.8"],
+  ["27", "Nashik", "91m9.1.1.1.1.1.1.1.1.1.1.1.1.2g.1.1.1.1.7.1.2g.1.1.1.1.1.1.1.1.1.1.1.1.1.1.6.1.27.1.1.1.1.1.2.2l.1.1.2q.1.2w.dr.1.2.1.1.2.2.1.6.2c.1.1.1.1.1.2.4.1.2g.1.1.2q.1.1.2q.1.gv"],
+  ["27", "Osmanabad", "8uzh.2o.1.1.1.1.1.1.1.1.1.f.1.2.6.1c.j.1.1.1.1.1.2.f.1.1.1"],
+  ["27", "Palghar", "8lhq.1.2.2o.1.1.1.1.2.1.1.2k.1.1.1.1.2o.1.1.1.1.2o.1.1.1.2.2n.1.1.1.1.1.1.1.2l.1.1.f4g.9"],
+  ["27", "Parbhani", "98vd.1.2t.2.1.2.1.1.1.3.2.5.f.1.3.1.4z"],
+  ["27", "Pune", "8sl9.1.2r.1.1.2.1.2n.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.dg.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.3.1.5.1.2.1.1.5.1.1.1.1.2.8.sc.1.1.1.1.1.1.1.1.1.2.3.2e.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.29.2.1.1.1.1.1.3.1.2h.1.1.1.1.1.2.1.1.1.1.j6.1.1.1.1.4.4.1.1.4.a.2.1.ik.1"],
+  ["27", "Raigad", "8l6m.2.3.12q.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.3.2.3.1.23.1.1.1.3.1.1.2k.1.1.1.1.1.1.1.1.2k.1.1.1.5xt.1.2r.1.1.1.1.1.1.1.1.1.6.2.2.1.1.3un"],
+  ["27", "Ratnagiri", "8wde.1.5.6.ar.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.5.2.1.5.3.2.1.1.2.1m.1.1.2.1.2.1.1.1.1.1.1.1.1.1.1.1.1.2.2.2.1.1.1.1.1z.1.1.1.1.1.1.ou.1.2.1.2.2.3.1"],
+  ["27", "Sangli", "8wg5.1.1.1.1.1.1.1.1.1.1.2.2.2e.1.1.1.1.1.1.1.1.1.1.1.1.1.1.3.oj.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2c.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.9.7.1"],
+  ["27", "Satara", "8uip.1.1.1.1.1.1oz.1.1.1.6.1.1.1.1.1.4.1.1.1.1.27.1.1.1.1.1.1.1.1.1.1.2.1.1.6.2.29.1.1.2.2.1.2s.59.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.6.1.1.1.1"],
+  ["27", "Sindhudurg", "8xdq.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.3.1.2.3.f.1.1f.1.1.1.1.1.2.1.1.1.1.1.1.1.1.4.3.3.2.2.2.1z.2q.2.1.1.1.1.3.1.1.1"],
+  ["27", "Solapur", "8uo9.1.1.1.1.1.1.1.2l.6.1.1.2.1.1.5.2c.1.3.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.k.2.1.1.1.2.1a.1.1.1.1.1.1.1.1.1.4.1.2.2.3.2.25.1.1.1.2.3.1.1.1"],
+  ["27", "Thane", "8l3t.1.1.1.1.1.1.1.2.2.2.1.2e.2.2.1.2.1.1.av.5.1.fcn.2.1.2o.1.1.2q.1.1.1.2p.1.3.1.2.3.2i.1.1.2q.1.1.2.1.2n.1.1.2"],
+  ["27", "Wardha", "9h1t.2.2q.1.2.1.1.1.4.2i.1.1.2q.1.1.1.1.1.1"],
+  ["27", "Washim", "9io9.5.84.1.1.5.2m.1.1.1.1.3"],
+  ["27", "Yavatmal", "9jd5.1.2r.1.1.2.1.3.1.2j.1.1.1.1.1.1.2.1.1.4.1.e.1z.1.1.1.1.1.1.1.f.1.25.1"],
+  ["29", "Bagalkot", "cl0d.1.1.1.7.1.1.1.1.1.1.1.1.1.1.1.2.1.t.1.1.1.18.1.1.1.1.1.1.2m.a.1.1.1.1.1.e.1"],
+  ["29", "Ballari", "chx9.1.1.1.1.6.1.1.1.1.1.1.1.1.1.1.1.1.1.4.1.3.k.1.1.1.1a.22"],
+  ["29", "Belagavi", "cn8x.2.2.1.2.1.1.1.3.1.1.1.1.1.1.u1.1.1.1.2.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.5.7.4.6.3.h.s.a.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.6.9.2.m.e.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.n.4.1.1"],
+  ["29", "Bengaluru Rural", "c04x.i.1e.u6.1.1.p5.1.3.8.1.6.3.3.s.1.1"],
+  ["29", "Bengaluru Urban", "c03l.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.2.1.1.1.1.1.1.1.2.1.2.1.1.1.1.1.1.2.1.1.1.2.2.1.2.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.2.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.2.1.1.1.1.1.1.1.1.1.3.51.5k.18m.1.i.5.j.8.5"],
+  ["29", "Bidar", "cjka.1.2r.1.1.1.1.1.m.1c.1.1.1.7.1.1.1.2.1.1.1.2.f.1.6.1.1.1.1.1"],
+  ["29", "Chamarajanagara", "c8o5.2.4.2.6.3.1.1.55.3.4.m.2p.1.1.1.1.1.d.x"],
+  ["29", "Chikkaballapura", "c112.1.1.1.1.1.1.1.f.o9.1.1.1.1.sa.1.1.3.i.d"],
+  ["29", "Chikkamagaluru", "cdal.1.9.1.1.1.2.1.3.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.4.1.1.e.8.7.4.1.1.1.1a.8v.1.1.1"],
+  ["29", "Chitradurga", "cdlp.1.9.4.2.1.1.1.2.1.1.2.1.2.2.1.1.2.1.1.1.1.1.1.1.1.2.1.8.1.2.1.12.1.1.1"],
+  ["29", "Dakshina Kannada", "cazh.w.1.1.1.1.1.2.2.1.2.1.8.z.1.1.2.1.1.7.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.5.5.6.1.5.2.7.5.6.s.1.9.1.1.1.1.1.51.do.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.2.1.2.3.1.1"],
+  ["29", "Davangere", "cd7t.1.1.1.1.1.1.1.1.5o.2.2.1.1.2.2.1.1.5.1.7t.1.1.2.5.4.3.2.4.a.7.1.1.3.a.n.c"],
+  ["29", "Dharwad", "cfj5.1.1.1.1.1.1.1.1.2.9.1.2.1.1.1.1.1.1.1.1.1.28.2.4.rd.2.2.6.4.26.1.5.3.2.1.2.rk.7"],
+  ["29", "Gadag", "ch5h.1.1.8.1.1.1.1.1.1.1.1.1.2a.1.1.1.1.1.2.1.1"],
+  ["29", "Hassan", "ca7h.1.1.8.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.4.1.2.i.2.1.10.1.8.1.1.1.1.1.1.1.1.1.1.5.1"],
+  ["29", "Haveri", "cgdp.1.2.2.2.1.1.1.1.3.1.2.1.1.3.3.2.h.3.19.5.1.3.1.2.3.2.1.1.1.o"],
+  ["29", "Kalaburagi", "cjgt.1.1.1.1.1.1.2v.1.1.1.4.1.4.3.3.1.7.t.r.9.1.1.2.1.1.1.2.1.1.1.1.2.1.1.2.2.2.1.16"],
+  ["29", "Kodagu", "c8qp.1.9.1.1.1.1.1.1.1.1.c.1.2.1.1.1.a.1.1.1.1.1.1.1.2as"],
+  ["29", "Kolar", "c2hp.2.a.1.1.1.1.1.1.1.1.1.4.1.2.1.1.1.1.1.1.1.1.1.1.8.a.3.1.1.1"],
+  ["29", "Koppal", "ci0q.1.1.1.1.1.1.1.1.1.1.1.1.u.9.1.1.1.1.1.1.1.1.1.1.1"],
+  ["29", "Mandya", "c8w9.1.1.1.1.a.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.7.1.2.2.5.8.c.1.1.1.3j.1.1.5f.5.4.1"],
+  ["29", "Mysuru", "c7td.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.2.1.2.1.1.1.1.1.1.1.1.1.tn.1.1.1.1.1.1.1.2.4.2.2.1.1.1.1.2.1.4.1.4.1h.2.1.33.1.9.1.2.1.7y.1.1.1.6.7"],
+  ["29", "Raichur", "cip1.1.1.1.7.2.2.1.2.2.2.1.1.1.1.1.1.1.3.1.1.1.1.2.1.1.3.o.3.w.1"],
+  ["29", "Ramanagara", "c0y5.2s.p7.1.3.5.2.1.1.5.1.1.3.7.l.1.1.5"],
+  ["29", "Shivamogga", "cdaz.2e.1.1.1.1.6.3.2.4.2.4.1.2.3.1.a.2.1k.1.2r.a.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.f.1.1"],
+  ["29", "Tumakuru", "c10y.8er.1.1.1.1.1.1.4.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.q.7.q.a.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1"],
+  ["29", "Udupi", "caz9.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.3.7.37.1fl.1.1.1.1.1.1.1.3.1.1.1.1.2.3.1.1.2.25.9.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.c.a.p.1"],
+  ["29", "Uttara Kannada", "cge9.8.1l.1.36.1.1.1.2.1.1.6.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.j.c.4.1.1.1.8.1.9.2.h.a.3"],
+  ["29", "Vijayapura", "ck8l.2.1.4.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.w.8.v.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1"],
+  ["29", "Vijaynagar", "chxx.1.1.3.1.3.1.1.1.1u.8.1.1.1.1.1.1.1.1.1.1.1.1.1.1.e.11"],
+  ["29", "Yadgir", "cjjl.1.c.1.1.3.1.1.2.1.d.1e.3.1.d.5.6.4.2.2.w"],
+  ["30", "North Goa", "8myh.1.2.1.1.2n.1.2.1.1.2.1.1.4.2f.1.1.1.2.5g.1.2q.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.4.2.1.1.1.1.2.1"],
+  ["30", "South Goa", "8n1b.4.8.7y.3.2.3.1.5b.1.2r.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.2.1y.1.1.1.2"],
+  ["31", "Lakshadweep District", "emnr.1.1.1.1.1.1.1.1"],
+  ["32", "Alappuzha", "epqe.14r.1.1.1.1.1.1.1.1.2.2.1.dj.1.1.1.1.1.f.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.e.6.1.1.7.c.en.c.1.1.1.2.ai.1.1.2.1.1.1.1.8.1.1e.1.1.1.g.5.r.1.1.3.d6.1.1.1.1.1.1.1.2.2.at.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.a.2.1.1.1.1.1.1.2.b.a.1.c.1"],
+  ["32", "Ernakulam", "em8h.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.8.1.1.6x.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.54.1.1.1.1.1.1.1.1.2.ge.1.2.1.1.2.2.1.1.at.1.1.8.1.1.1.1.1.1.1.1.1.1.1.j.1.1.1.1.1.1.1.1.1.6.5.1.1.2.6.1.1.1.1.1.1.1.1.1.1.4.2.2.5.2d7.1.1.1.1.1.1.1.1.1.1.1.1.8.a.1.1"],
+  ["32", "Idukki", "eoxp.2.2.2.1.1.2.1.2.1.g.1.1.2.g.1.1.1.7.1.1.2.1.5.a.1.1.1.1.1.1.1.1.1.1.4.6.1.1.1.1.1.1.1.1.3.1.1.1.1.2.1.1"],
+  ["32", "Kannur", "ecz5.1.1.1.1.1.1.1.1.1.1.1.1.1.3.1.x.1e.1.1.1.1.1.1.y.1.1.4e.1.1.1.1.1.1.1.1.1.f.2.4.3.j.5.3z.1.1.1.7.a.14.1.1.4.4.a.1.9.1.1.1.1.6.1.2.7.1.1.8.1.9.1.1.8.1.1.6.1.1.a.1.1.8.1.1.1.1.1.f.1.1.1.7.1.1.1.1.1.2.x.1ze.1.1.3"],
+  ["32", "Kasaragod", "edu9.1.1.1.56.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.m.3.50.1.1.1.7.1.1.8.1"],
+  ["32", "Kollam", "es67.1.mu.1.1.1.1.1.1.1.1.2.8.2.1.1.2.2.2.1.e.c.1.bv.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.3.1.1.7s.1.1.1.1.1.1.1.1.1.1.1.7.3.9.1.1.1.4m.1.1.1.1.1.1.1.1.1.1.1.1.3.1.4.1.1.5.4.1.1.1.1.1.1.1.2.1.2.a.4.2.1.6.5.1.1.1.2.1.1.1.2.1.1.1.1.4.1.b.1"],
+  ["32", "Kottayam", "epbl.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.j.1o.1.1.1.1.1.f.1.1.i.2.1.2.9v.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.9.1.1.2.1.1.1.1.1.1.1.1.1.1.1.2.7.5.1.1.1.1.7.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.e.1.1.1.1.1.1.1.1.1.1.1.1.3.e.1.1.1.1.1.1.1.e.1.1"],
+  ["32", "Kozhikode", "d4x6.1adb.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.6.1.1.3.j.1e.1.1.1.1.1.5f.1.1.1.1.1.1.1.1.6.2.6.5.4t.1.1.1.1.1.1.1.1.4.4.4.1.1.1.1.1.1.1.1.c.1.s.1.1.1.1.6.2.3.1.f.1.1.1.7.1.1.1.2.4.b.2.m.6"],
+  ["32", "Malappuram", "efj6.8u.2.1.1.1.1.1.1.1.1.3.2.1w6.1.1.1.1.1.1.1.1.c.1.1.4y.1.1.1.1.1.1.2.2.1.5.2.1.51.1.1.1.1.1.1.1.1.1.7.2.2.1.1.2.3.d.1.9.1.1.8.1.24n.1.1.1.1.1.1.1.1.1.1.1.1.1.4.1.1.1.g.5y.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.4"],
+  ["32", "Palakkad", "ej5d.1.1.1.1.1.1.1.1.1.1.1.1.1.11.1e.1.1.1.b1.1.1.1.1.1.1.1.2.2.j.1.1.1.7.1.1.1.1.1.5.1.1.1.1.1.1.e.1.1.1.7.1.1.8.1.1.1.1.1.1.1.3.a.1.1.8.1.1.1.7.1.1.8.1.9.a.a.a.1.1.1.1.1.1.1.d.1.1.1.1.1.f.1.9.1.u.9f.1.1.1.h.1.1.4y.1.1.1.1.1.1.1.1.4.m.1.1.4k.1.1.1.1.1.5.1.1.1.1.1.5.1.1.a.1.1.1.f.1.1.1"],
+  ["32", "Pathanamthitta", "eppr.10.1yy.1.1.1.1.1.1.1.2.1.1.1.2.aq.1.1.4.6.1.1.g.1.1.8.1.1.1.1.1.1.1.1.1.1.u.1.1.1.1.1.1.1.1.2.1.2.3.5.9.1.1.1.1.6.4.1.f.1.1.1.1.1.1.1.1.1.2.1.1.2.5.1.1.1.2.1.1.3.1.1.1.1.1.1.1.d.1.1.1.4.1.c.1ec.1.1.1.4.l.1.2.1.1"],
+  ["32", "Thiruvananthapuram", "ew9l.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.2.2.2.1.8.1c.2.1.1.1.h.1.1.1.1.1.6.1.1.7.1.1.1.1.1.4b.1.1.1.1.1.1.1.1.1.1.1.1.3.1.1.53.1.1.1.1.1.1.1.4.1.8.1.1.1.1.1.1.1.d.1.1.4.4.a.1.1.1.4.2.1.1.1.1.1.6.1.1.1.1.1.1.1.1.c.1.1.1.1.1.1.1.1.1.1.1.2.1"],
+  ["32", "Thrissur", "ek01.1.bt.1.t.1.1.1.c5.1.1.1.1.1.1.1.1.1.1.1.1.1.6.1.1.4.1.1.n.1e.1.1.1.h.1.1.2.4w.1.1.1.1.1.1.1.1.1.1.1.5.54.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.h.1.1.1.1.1.5.1.1.2.6.1.1.1.1.1.1.1.1.1.1.a.1.1.1.1.1.1.1.1.1.1.3.2.5.1.2.7.1.1.1.1.1.1.1.1.1.3.8.a.1.9.1.1.1.1.1.5.1.1.1.1.1.1.1.1.1.1.a.1.1.1.1.1.1.1.1.2.6.2.2.1.1.8.1.9.1.2.7.1.1.1.7.a"],
+  ["32", "Wayanad", "edh0.1.1.23.a.1ue.1.1.1.cj.1.1.2.2.a.1.1.2.1"],
+  ["33", "Ariyalur", "d1tx.334.1.1.1.1.6r0.1c.3.1.2.2.1.4.1.3.1.a.1.1.1y.1.1.1.1.1.19"],
+  ["33", "Chengalpattu", "cuzv.1.1.1.1.1.b.4.1.6.3.1.1.p.h.9.1.2.1.1.27q.1.1.1.2p.1.1.1.1.3.1.1.1.1.f.22.1.1.1.5.1.1.2i.1.1.1.1.1.1.1.1.1.1.1.1.1.5.2a.4"],
+  ["33", "Chennai", "cuyp.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.2.2.1.1.1.1.1.1.1.1.1.1.1.1.7.1.1.7.2.1.5.2.8.2.3.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.2.2.1.2.2.1.6.2.1.2.1.6"],
+  ["33", "Coimbatore", "dqll.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.b.1.12.2.1.1.2.1.1.1.1.1.1.1.2f.1.2r.1.3.2o.1.5.6u.6.9.1.2.q.8g.1.1.1.1.1.1.2m.2.1.1.1.1.1.1.1.4.3.3.3.2.2.2.1.3.1.1w"],
+  ["33", "Cuddalore", "czld.2.2s.1.1.1.2.1.1.1.5b.1.1.jd.1.1.1.1.1.2n.1.1.1.1.1.2.1.3.2l.2o.1.1.5.2l.b4.1.1.1.1.2.5e.1.2s.2r.2s.1.1.1.1.1.2n.2s.1.2r.1.2r.1.1.1.2p"],
+  ["33", "Dharmapuri", "dm1u.5.2j.3.2o.1.1.2.t3.9p.3.1.2q.1.1.1.1.1.1.1.1.2.2h.1.1.1.1.1"],
+  ["33", "Dindigul", "ddhd.1.1.1.1.2o.2.2q.1.2.2.2.2.1.1.3.1.3.1.29.1.1.1.2.1.1.2l.1.1.5i.9.2.1.1.1.1.1.1.1.1.1.1.27.1.1.1.1.1.1.1.1.1.1.1.2h.1"],
+  ["33", "Erode", "doa9.1.1.1.1.4.2.1.13.1.1.1.1.1.1.3.15.1.2.3.2.1.2.3.1.z.1.1.1.43.a.1.1.1.1.1.2d.1.1d.1.1.1.1.1.1.1.1.2.1.e.p.1.1.1.1.1.6t"],
+  ["33", "Kallakurichi", "czd2.1d.3.3.2.7.z.1.8c.5.8.2e.1.1.1.1.1.1.1.1.4.2g.4.2o.1.m7.1.2"],
+  ["33", "Kanchipuram", "cv0l.1h.6.4.wh.mc.1.b.1.rg.1.87.1.3.lof.1.1d.1.1.8.14.2.1.1.1"],
+  ["33", "Kanniyakumari", "dhc9.1.1.1.2p.1.1d.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.d.8.1.1.1.1b.1.1d.1.2r.1.1.2q.1.2r.1.2r.1.1.1.2p.1.1.1.5.1.15.1.1d"],
+  ["33", "Karur", "dbed.a.2.dnc.1.1.1.1.1.1.1.2m.2.1.2.1.1.1.1.2.1.2.1.1.1.1.g.1t.1.1.2.1.1"],
+  ["33", "Krishnagiri", "dlyx.1.2r.1.1.1.1.2.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.2.4.1z.2.1.2.1.2p.2.1.15t"],
+  ["33", "Madurai", "de95.1.1.1.1.1.1.1.1.2.1.2.1.1.1.1.1.1.1.1.1.26.1.1.1.1.1.1.1.1.1.c.27.4.2.7.4.3.d.1v.2t.2r.2.b.d.2.3.3.2.4k.1.1.1.1.1.1.1"],
+  ["33", "Mayiladuthurai", "d1wp.2.2q.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2b.1.1.1.1.2o.1.1.1.1.1.1.1.1.1.1.1.1.1.2f.1.2.b1.2.2.1.2.2.1.1ue.2"],
+  ["33", "Nagapattinam", "d2g5.1.1.1.b1.2v.3.m2.1.1.2r.1.1.1.1.2.1.1.1.1.2rv.4.1.2.2k.1.1.1.1"],
+  ["33", "Namakkal", "dmty.o.1o.2r.jg.1.1.a.1.1.2.1.1.1.1.50.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2e.2.2p.1.1.1.1.1.1.1.1.1.1.1.3.2g.2.dx.1.1.2.4r.1.1"],
+  ["33", "Perambalur", "db8t.1.1.1.2.1.1.1.1.3.1.1.1.1.1.1.e.27.7.1.dk.5.3.1"],
+  ["33", "Pudukkottai", "d585.10j.1.1.1.1.1.1.2.5.1.4r.4.50v.j1.1.1.1.1.2o.1.1.1.2p.1.1.1.5.2k.1.1.1.2p.1.1.1.3.2.2.1.a.27.1.1.1.1.1.1.8"],
+  ["33", "Ramanathapuram", "dcsr.5.f.4t.7.2e.1.1.1.2.1.2.2k.1.1.1.8.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.s.z.2.1.1.3.2l.2.1.1.1.1.1.3.1.2m"],
+  ["33", "Ranipet", "divt.1.1.1.1.1.19.1.1d.1.1d.1.we.2b.2.1.1.1.2n.1.1.1.1.1.1.1.1.1.2.1.4.1.3.a"],
+  ["33", "Salem", "dmqp.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.d.1z.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.2.1.g.1.1.1.1o.2.1.2q.1.1.1.1.1.1.1.16.3.1b.1.1.1.2.19.1.1.1.1.1.1.1.17.1.1.2q.1.dv.1.1.1.1.2.5e.2.5i.1.2"],
+  ["33", "Sivaganga", "di41.1.1.2.2o.1.1.1.1.1.1.1.2l.1.1.1.1.1.1.1.2.1.1.2h.1.1.2.1.1.2.2.1.1.1.7.2c.3.2.1.2i.1.1d.1.1.1.1.1.1.1.1.2.1.4.10.4.3.1.1.1.2i.7.1.3"],
+  ["33", "Tenkasi", "dg44.3.3.5.1.81.6.w.2.1.1.1.1.1.1.1.1.3.12.1.1.1.1.1.1.1.2.1.1.1.4.x.1.1.1.1.1.1.1.1.1.1.1.2j"],
+  ["33", "Thanjavur", "d2iy.2.3.1oy.1.2r.1.1.1.1.1.2o.2.2p.1.1.2q.1.2r.1.1.1.2q.3.2p.1.8a.1.1.1.1.1.1.1.1.1.2j.1.1.1.1.2o.1.1.1.1.2q.2q.1.1.2q.1.1.1.2p.1.gn.1.1.1.1.1.1.3.1.2i.1.1.2q.1.5j.1.a.1.1.1.8.2.1.2.21.m.27.1.1.2p.1.1.1.1.1"],
+  ["33", "The Nilgiris", "ds55.1.1.1.1.1.1.2m.1.1.2.2o.1.1.1.1.1.1.2.2.1.1.1.1.1.1.1.1.1.1.2.1.1.1.5.2.3.1.1.1.1.1.1.1.a.h"],
+  ["33", "Theni", "deer.8l.1.2.1.1.1.2.1.1.1.1.1.1.2.2.1.2.1.2.4.c.4.6.h.3.j.1.1.1.1"],
+  ["33", "Thiruvallur", "cuz7.x.1.1.1.1.1.5.5.4.1.5.i.8.7.a.3.1.9.qw.1.1.2q.1.1.1.1.1.m3.1.1.i.2.1.1.1.2a.mg5.1.1.1.1.1.1.1.1.1.1.1.1.2g.1.1.1.2q"],
+  ["33", "Thiruvarur", "d27v.2.2o.1.1.1.2w.ax.2.1.1.2p.1.1.1.1.1.2.2k.1.1.2.1.ov.15o.2.1.6.2j.2s.1.1.1.ox.1.1.1.1.88.c.1.1.1.1.1.1.1.29.1.1.2x.5f.1.8a.1.1.1.1.2.2.3.2.1.1.l"],
+  ["33", "Tiruchirappalli", "dae9.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.22.1.oz.1.1.1.1.1.1.1.1.1.1.1.2.2j.6.1.2i.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.2c.3.1.1.1.2.2.2.1.7y.1e.1.1e.1.3.5.1.a.der.2.9.3"],
+  ["33", "Tirunelveli", "dfsp.1.1.1.1.1.1.1.1.1.1.1.2h.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.7.6.i.1.1d.1.45.2.1.1.1.1.1.1.16.c.1.2.1.3.1.1.3.1.1.1.n.1.1.1c.1.2r.1.1.1.1b.1.2.3.86"],
+  ["33", "Tirupathur", "dmfl.1.1d.1.1.1.1.1a.1.8.15.1.2.1b.1.5.1.3.1.2.1.10.1.1.1.1b"],
+  ["33", "Tiruppur", "dod3.2.1.2.3.9p.5g.1.3.1.b.1.s.1.1.3.1a.1o.25h.1.1.1.1.1.1.19.2.1.3.4.1.1.1.1.1.3.h.bj.9.1.1.9.4.2.4.m.1b.2.1.1.1.1"],
+  ["33", "Tiruvannamalai", "cycx.1.1.1.1.1.1.1.1.1.1.2i.1.1.1.1.2o.1jk.2.1.7.2i.1.1.1.1.1.1.1.1.1.15.1.1.1.1.1a.1.1.1.1.1.1.1.3.2i.1.1.1.1.1.1.1.j4p.1.b4.5j.a.2.1.1.1.1.9.55.2go"],
+  ["33", "Tuticorin", "dg2g.i1.1.1.1.1.1.1.1.2l.1.1.1.1.1a.1.3.1a.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.a.m.1.1d.1.1.1.2p.1.2r.1.1.1d.1d.b.1.1.1.1.1.1.1.1.1.1.1.u.3.19.1.1.1.8.2.2.2.2.1.1.t.1.1.1c.1.7.16.1e.1.1.1.1.1.1.1.18"],
+  ["33", "Vellore", "djnl.1.2.2.1.1.1.1.1.1.1.1.15.2.1.1.16.2.1.1.1.1.6.1.1.2e.1.1.1.5.2v.7.5f.1.1.3.1.29.1.1.1.2gv.1.1.1.3.1.3"],
+  ["33", "Villupuram", "cy1t.2s.1.1d.1.1.1.1b.1.1.1.1.1.1.1.2.2j.1.1.1.1.1.1.jn.2f.1.1.1.1.1.2.1.2.2i.1.1.2q.1.2r.1.1.2q.2s.1.1d.1.1d.1f.3.1.2.19.108.2o.6"],
+  ["33", "Virudhunagar", "df0x.1.1.1.1.2o.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.7.c.r.1.c.1.1.1.1.b6.5"],
+  ["34", "Karaikal", "d2dd.1.1.1.1.1.1.2"],
+  ["34", "Mahe", "efj2"],
+  ["34", "Pondicherry", "cytl.1.1.1.1.1.1.1.1.1.1.2.2m.3.aw.1gs.1"],
+  ["35", "Nicobars", "fyb1.1.1.1"],
+  ["35", "North and Middle Andaman", "fy89.1.1.1.1.4.1"],
+  ["35", "South Andamans", "fy5h.1.1.1.1.1.1.5.2m.1.4"],
+  ["36", "Adilabad", "asw1.1.8e.3.1.1.2.1.b"],
+  ["36", "Bhadradri Kothagudem", "ava5.2.8.1.2.1.1.1.1.1.1.3.1.1.1.1.1.9.3.e.c.5.3m.5.9.1"],
+  ["36", "Hanumakonda", "atql.1.a9.5.l.e0.1.1.1.1.1.1.1.1.2.2.2.3j.9.c.3.40.3.h.14.1"],
+  ["36", "Hyderabad", "apsx.1.1.1.2.1.1.1.2.1.2.1.1.1.3.2.1.1.2.1.1.1.2.1.1.1.2.2.2.1.3.1.8.3.1.1.1.2.3.1.1.7.7.1.1.2.a.2.a.3.1.2.5.1"],
+  ["36", "Jagitial", "atwa.j.1.1.3.1.2d.9.p.2.1.1.1.5.2.13.p.3.3"],
+  ["36", "Jangoan", "aujj.1.1.1.l.8.q.k.1.2.k.8.1d.1.1.d"],
+  ["36", "Jayashankar Bhupalapally", "au1r.1.ig.1.1.45.q.3.8.a"],
+  ["36", "Jogulamba Gadwal", "awud.1.1.1.1.3.1.2.h.1"],
+  ["36", "Kamareddy", "as71.1.6.2.1.1.2.6.2.1.1.1.j.1.16.36.1.3.1.3.1.b"],
+  ["36", "Karimnagar", "atnt.1.3c.7.1l.6d.u.6.h.1.1.2.2.1.5.1.9.8.4.3.m.3.1"],
+  ["36", "Khammam", "av7d.1.1.3b.z.1.1.1.1.2.1.1.2.1.1.1.c.1.i.1.1.1.4.1.2l.1.1.1.d"],
+  ["36", "Kumuram Bheem Asifabad", "at3l.j.1.1.1.1.1.2.e"],
+  ["36", "Mahabubabad", "auid.1.1.1.1.t.1.50.2.1.6.1.7.10.d.n1.1"],
+  ["36", "Mahabubnagar", "awqx.1.5k.2.f.2a.1.w.3.3.h.e.b.r"],
+  ["36", "Mancherial", "at1l.3.1.1.1.1.1.5.1.1.2.1.1.b.k.l.t.1.1"],
+  ["36", "Medak", "arf9.1.7.1.3.2.2.8.5.3a.7.e.2.j.c.1.a.1.2.f.3.1.1.19"],
+  ["36", "Medchal Malkajgiri", "apt6.3.5.j.2.3.1.4.2.2.3.1.7.5.1.4.4.2.5.2.2.1.2.2.6.2.1.2.b.wz.1.1.2q"],
+  ["36", "Mulugu", "auk5.7.4r.1.3.2.3.lp.3"],
+  ["36", "Nagarkurnool", "awtq.3.2o.2.6.6.k.2d.4.2.n.b.f.1.9.g.5.6"],
+  ["36", "Nalgonda", "avz5.1.2.32.2g.3.2.1.2.1.6.q.1.1.2.1.2.4.1.1.1.1.8.c.25.i.1.3"],
+  ["36", "Narayanpet", "awwl.3.2.2t.s.c.1.1.1i.4"],
+  ["36", "Nirmal", "asyt.1.1.1.1.1.1.2.1.2k.1.2v.4.6bdv"],
+  ["36", "Nizamabad", "as49.1.1.4h.1.9.1.5.5.1.2.d.1.4.1.5.1.4.1.1.4.1.1.5.5.a.1.1p.1.3.b"],
+  ["36", "Peddapalli", "ats0.1.9.a.2.a.1.2.1.k.1.1.1.1.2.1.83.8.b"],
+  ["36", "Rajanna Sircilla", "atw5.1.1.1.1.2.2m.1.1.1.1.3b"],
+  ["36", "Ranga Reddy", "apt1.e.b.5.b.2.2.2.8.9.1.4.1.2.2.7.3.2.6.5.2.4.3.2.ua.f.3x.40.1.1.1.2.1.1.2.1.5xq.9.1.b.2l.4.2.1.u.1e.2"],
+  ["36", "Sangareddy", "arch.v.1.1.4r.5.a.1.7.i.3.2.5.1.d.3.b.1.1.1.4.2.1.1.1.4.5.1.1.b.1.2.3.1.4.g.q"],
+  ["36", "Siddipet", "arfb.3.1.1.6.3p.k.9.1.1.1.1.1.k.9.1.1.1o.3.2dv.1.6.1j.jb.3o.c"],
+  ["36", "Suryapet", "aw4p.3.2.6.1.1.4.3.2.1.9.1.4.8.x.1.2o"],
+  ["36", "Vikarabad", "aqnh.1.4.5.a.k.1.1.1.e.18.8b.1.61l.1.2.c"],
+  ["36", "Wanaparthy", "awtr.1.2.4.a.a.1.23.4u.1"],
+  ["36", "Warangal", "auio.a.a.w.46.f.2.2.9.8.f.4.m"],
+  ["36", "Yadadri Bhuvanagiri", "aw1x.4.6.1.1.2.1.1.9.3i.1.o.7.1.1"],
+  ["37", "Alluri Sitharama Raju", "bdqo.5.1c.s.6.m.1nr.1.3.7.1h.1.1.1.3.22.8.1b"],
+  ["37", "Anakapalli", "bdq1.a.8.2.1.1.2.1.1.1.2.2.1.1.2.j.5.1.e.8.u.1.2.a"],
+  ["37", "Anantapur", "b1dl.1.1.1.1.1.5f.2u.2q.1.3.3.3.2.1.1.a.a.a.a.a.2o.1e.1o.u.a.a.1.9.a.a.a.2.2.1.1.7.1.c.e.2.9.a.a.a.l.2.2.3.1.1"],
+  ["37", "Annamayya", "b289.ut.l.1.15.3.b.6.2.6.e.6.1.o.1.1.i.k.1.q.1"],
+  ["37", "Bapatla", "b6ut.1.9.2.2q.19.1.1.1.2.1.2.1.3.15.1.1.1.1.1.3.1.6.1.4.c.m2.k.2.8.1.1.1.1.1.1.a.3.1.1.1.3.b.b.1.1.1a.1.14.1.1"],
+  ["37", "Chittoor", "b2x5.1.2.30.1.a.1.1.1.1.1.1.1.1.1.z.5.k.l.l.3.a.a.40.2.5.6.1.1.3.2.1.1.1.1.1.3.3.1x.8.w.s.d.4.4.1.1.7.17.2"],
+  ["37", "East Godavari", "bf9l.2.4.2m.1.1.1.1.1.1.1.g.1.1.2v.o.b.m.1.2.1.1.1.1.1.2.17.3.1.2.2.5.1.2.2d"],
+  ["37", "Eluru", "b63b.2i.1.5.4.1.1.1.1a.q.p.1.d.1.3.4.7.3.1.1.9rk.1.1.1.1.1.1.1.57.2.1.35.1.2h.o.1.1.5.3.2.5.2.3.1.1.1.1.1.3.1.4.1.1.5.8"],
+  ["37", "Guntur", "b6s1.1.1.1.1.1.1.1.1.6.2.1.1.f.26.c.25.1.a.1.m.1.1.1.1.1.1.1o.1.1.1.1.1.1.1.7.1.e.1z.11.1r.1.1.5.1.1.j"],
+  ["37", "Kakinada", "bf9m.2.1.1.a.6s.11.1b.1l.5.1.1.l.1.1.1.1.1.1.2.7.1.1.1.1.1.1.1.9.1.1.1.1.4"],
+  ["37", "Konaseema", "bff5.9.1.1.1.1.1.1.1.1.1.1.1.1.1.5.4.1.1.1.1.1.1.1.1.1.1.2.3.1.1.1.1.1.2.1.1.5.1.1.b.v.1.1.1.1.v.1.5.6f"],
+  ["37", "Krishna", "b609.1.1.1.2p.1.3.1.1.2.1.a.1.1.3.1.4.1.1.1.1.1.1.1.1.1.9.1.1.1.2.3.1.1.4.1.1.1.1n.b.6.4.1.1.3.6.5.2.12.j.1.1.1.1.3.1.2.1.1.o.a.3.l"],
+  ["37", "Kurnool", "b3ox.1.1.1.1.1.1.3.5q.1.1.7.24.1.6.5.a.a.a.1.1.1.1.1.1.1.a.k.5.5.5.1.1k.a.1.1.1.1.1.1"],
+  ["37", "Nandyal", "b3rp.1.a.a.1.1.a.1.a.a.a.1.a.a.a.a.e.1.1.4z.4.6.1.a.a.a.1n.1.6.2.1.1.1.a.a.a.a.a.a.a.a.1.4.1.23"],
+  ["37", "Ntr", "b58h.1.1.1.3.1.2.1.1.1.2.u9.4.1q.5.3.2.1.1.1.1.1.5.p.a.1.1.1.1.1.1.4q.1.1.1h.1"],
+  ["37", "Palnadu", "b6sg.4.5x.1.4o.1.5.1.1.1.1.1.1.1.6.5.9.1.1.2.32.1g.2.8.1.1.1.1.1.1.2.7.k.1.2.8.1.1.1.1.2"],
+  ["37", "Parvathipuram Manyam", "beu0.3.c.1.4.2.2bd.12.1.j.1.2.1.1.1.7.c.1.a.y.1.1.1"],
+  ["37", "Prakasam", "at5m.ee7.1.1.2q.3.1.3.1.1.1.1.1.1.1.1.1.1r.2.1.s.c.1.1.1.1.1.2.a.1.4.1.1.5.1.1.8.1.1.1.5.1.1.1.1.5.1.1.5.5.1.c.1.a.1.4.6.1.1.1.1.1.1.1.1.1.1.a.a.1.a.1.1.1.1.1.1"],
+  ["37", "Spsr Nellore", "b8bl.1.1.1.1.2o.p.5.6.5.a.1d.2.i.1.1.1.1.1.1.1.2.4.2.3.1.1o.2.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.1.h.1.1.1.1.1.1.j.10.3.2.1.1.5"],
+  ["37", "Sri Sathya Sai", "b1gd.9.c.1.1.9.1.a.a.5.5.12.9.1.j.a.a.a.a.a.5.5.a.4.6.a.a.a.4g.a.a.a.a.a.5.f.a.a.a.k.a.a.a.a.b"],
+  ["37", "Srikakulam", "beht.4.39.1.4.l.j.1.h.1.1.3.5.6.2.1.3.4.1.1.1.1.1.2.1.1.1.1.k.1.k.1.k.6.1.1.k.a.27.1.1.1.1.1.1.1.1.1.b.4.1.1.1.1.1.2.d.c.1.1.2.d.a"],
+  ["37", "Tirupati", "b2zx.1.1e.15.1.8k.1.1.1.1.1.1.c.6.a.f.a.a.a.2.1.3.1.1.u.1.k.1.2.2.1.4zv.2.1.3.2.3.2.7f.2.1.2.4.1.1.1.2.6"],
+  ["37", "Visakhapatanam", "bcy9.1.1.1.1.2.1.1.2.1.1.1.1.1.1.1.2.2.2.2.1.1.1.2.1.8.1.2.1.1.1.1.1.1.2.1.1.2.1.1.1.1.q7.i.b.4.5.15.1.2.1.2.s.2.1.9.m.2.b.1.a.1a.312.2x"],
+  ["37", "Vizianagaram", "bgt5.1.1.1.1.1.2n.1.m.1.1.2.k.c.1.m.l.9.1.1.1.1.1.2.1.j.k.a.3.7.1.6q.z.1.9.1.4.5.1.1.1.1"],
+  ["37", "West Godavari", "bg45.1.9.1.a.1.1.2.8.b.1.a.9.1.a.a.a.3.2.1.2.2.1.1.1.1.1.4.1.1.1.4.3.2.3.5.1.1.1.1.1.3.1.1.2.3.a.5.1.1.1.1.6.5.1.k.1.3.8.2.1.2.2.4.2.1.1.1.1.1.7.2.1.1.8.1k.5.5"],
+  ["37", "Y.S.R.", "b25d.1.1.1.1.2o.3.3.1.2.5.b.1.1.1.1.k.1.1.a.1.9.1.2.i.a.a.1.1.1.1.1.9.1.5.4.a.a.2.8.1.1.1.j.4.g.1.1.1.9.8.1.9.a.1.5.1.3.1.1.1.i.a.1.5.5.a.a.a.1.1.1.5.5.a.a.a.a.h.1.1.1.1"],
+  ["38", "Kargil", "45rq.1.2.4.5c.1.1"],
+  ["38", "Leh Ladakh", "45rp.3.2.1.2m.1.5j"],
+];
+
+// Pincodes whose post offices sit in more than one state, main state first
+export const MULTI_STATE_PINCODES: Record<string, string[]> = {
+  "110025": ["07","09"],
+  "244923": ["09","05"],
+  "244924": ["09","05"],
+  "247662": ["09","05"],
+  "305402": ["08","36"],
+  "311601": ["08","36"],
+  "332028": ["08","36"],
+  "333022": ["08","36"],
+  "335513": ["08","36"],
+  "335526": ["08","36"],
+  "343027": ["08","36"],
+  "396193": ["24","26"],
+  "396215": ["26","24"],
+  "396230": ["26","24"],
+  "396235": ["24","26"],
+  "396240": ["26","24"],
+  "503145": ["36","37"],
+  "503188": ["36","37"],
+  "503225": ["36","37"],
+  "503230": ["36","37"],
+  "503235": ["36","37"],
+  "503321": ["36","37"],
+  "504214": ["36","37"],
+  "504215": ["36","37"],
+  "505187": ["36","37"],
+  "505325": ["36","37"],
+  "505525": ["36","37"],
+  "506003": ["36","37"],
+  "509132": ["36","37"],
+  "509324": ["36","37"],
+  "531149": ["37","36"],
+  "533464": ["37","34"],
+  "605007": ["34","33"],
+  "605014": ["33","34"],
+  "605102": ["33","34"],
+  "605105": ["33","34"],
+  "605106": ["33","34"],
+  "605107": ["34","33"],
+  "605110": ["34","33"],
+  "605111": ["33","34"],
+  "605501": ["33","34"],
+  "605502": ["34","33"],
+  "607402": ["34","33"],
+  "607403": ["34","33"],
+  "609603": ["34","33"],
+  "609604": ["34","33"],
+  "756048": ["21","36"],
+  "781029": ["17","18"],
+  "781131": ["17","18"],
+  "782410": ["18","17"],
+  "802131": ["10","09"],
+  "813206": ["10","20"],
+};
@@ -0,0 +1,54 @@
+/* =========================================================
+   INDIA PINCODES (offline)
+   Bundled so the address form can fill in the district and state as the
+   pincode is typed and the API can validate it without calling out. The
+   table in pincode-data.ts is generated from the India Post directory; a
+   pincode that isn't in it is rejected.
+   Kept free of drizzle/zod imports so the client can load it.
+   =======================================================*/
+import { gstStateName } from "./gst";
+import { MULTI_STATE_PINCODES, PINCODE_DISTRICTS } from "./pincode-data";
+
+export const PINCODE_PATTERN = /^[1-8][0-9]{5}$/;
+
+export type PincodeInfo = {
+  pincode: string;
+  district: string;
+  state: string;
+  stateCode: string; // GST state code of the state most of its post offices are in
+  stateCodes: string[]; // every state it serves, main one first; more than one near a few borders
+};
+
+// pincode -> row of PINCODE_DISTRICTS, decoded on first lookup
+let index: Map<string, number> | null = null;
+
+function pincodeIndex() {
+  if (index) return index;
+  index = new Map();
+  PINCODE_DISTRICTS.forEach(([, , encoded], row) => {
+    let pin = 0;
+    for (const step of encoded.split(".")) {
+      pin += parseInt(step, 36);
+      index!.set(String(pin), row);
+    }
+  });
+  return index;
+}
+
+/** District and state for a pincode, or null when India Post doesn't list it. */
+export function lookupPincode(pincode: string | null | undefined): PincodeInfo | null {
+  const pin = String(pincode ?? "").trim();
+  if (!PINCODE_PATTERN.test(pin)) return null;
+
+  const row = pincodeIndex().get(pin);
+  if (row === undefined) return null;
+
+  const [stateCode, district] = PINCODE_DISTRICTS[row];
+  return {
+    pincode: pin,
+    district,
+    state: gstStateName(stateCode),
+    stateCode,
+    stateCodes: MULTI_STATE_PINCODES[pin] ?? [stateCode],
+  };
+}
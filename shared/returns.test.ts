@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { cancellationRestock } from "./returns";
+
+test("cancelling waits for an approved exchange, then restocks what was not returned", () => {
+  const items = [
+    { id: "tee", quantity: 3 },
+    { id: "mug", quantity: 2 },
+  ];
+  const received = { orderItemId: "tee", type: "return" as const, status: "received" as const, quantity: 1 };
+  const exchange = { orderItemId: "mug", type: "exchange" as const, status: "approved" as const, quantity: 1 };
+
+  const pending = cancellationRestock(items, [received, exchange]);
+  assert.deepEqual(pending.blocking, [exchange]);
+
+  const { blocking, restock } = cancellationRestock(items, [received, { ...exchange, status: "received" as const }]);
+  assert.deepEqual(blocking, []);
+  // the returned tee is in stock already; the mug replacement comes back in place of the original
+  assert.equal(restock.get("tee"), 2);
+  assert.equal(restock.get("mug"), 2);
+});
+
+test("rejected and pending requests don't change the restock", () => {
+  const { blocking, restock } = cancellationRestock(
+    [{ id: "tee", quantity: 2 }],
+    [
+      { orderItemId: "tee", type: "return", status: "rejected", quantity: 1 },
+      { orderItemId: "tee", type: "return", status: "requested", quantity: 1 },
+    ]
+  );
+  assert.deepEqual(blocking, []);
+  assert.equal(restock.get("tee"), 2);
+});
@@ -0,0 +1,66 @@
+/* =========================================================
+   RETURNS & EXCHANGES (RMA)
+   Shared by the API and the UI. Kept free of drizzle/zod imports
+   so the client can load it.
+   =======================================================*/
+
+export const RETURN_REQUEST_TYPES = ["return", "exchange"] as const;
+export type ReturnRequestType = (typeof RETURN_REQUEST_TYPES)[number];
+
+/**
+ * requested -> approved -> received, or requested -> rejected.
+ * Approving an exchange reserves the replacement's stock; approving a return
+ * refunds the item's points. Receiving puts the returned unit back in stock.
+ */
+export const RETURN_REQUEST_STATUSES = ["requested", "approved", "rejected", "received"] as const;
+export type ReturnRequestStatus = (typeof RETURN_REQUEST_STATUSES)[number];
+
+export const RETURN_TYPE_LABEL: Record<ReturnRequestType, string> = {
+  return: "Return",
+  exchange: "Exchange",
+};
+
+export const RETURN_STATUS_LABEL: Record<ReturnRequestStatus, string> = {
+  requested: "Requested",
+  approved: "Approved",
+  rejected: "Rejected",
+  received: "Received",
+};
+
+export const RETURN_REASONS = [
+  "Wrong size",
+  "Wrong colour",
+  "Damaged or defective",
+  "Not as described",
+  "Other",
+] as const;
+
+export const MAX_RETURN_PHOTOS = 5;
+
+export function isReturnRequestType(value: unknown): value is ReturnRequestType {
+  return RETURN_REQUEST_TYPES.includes(value as ReturnRequestType);
+}
+
+type ReturnLine = { orderItemId: string; type: ReturnRequestType; status: ReturnRequestStatus; quantity: number };
+
+/**
+ * What cancelling an order puts back in stock, per order item. A received
+ * return is back already; a received exchange swapped the original for a
+ * replacement, which comes back with the cancellation instead. Approved
+ * requests not yet received block the cancellation: their units, and an
+ * exchange's reserved replacement, are still in transit.
+ */
+export function cancellationRestock<R extends ReturnLine>(
+  items: { id: string; quantity: number }[],
+  requests: R[]
+): { blocking: R[]; restock: Map<string, number> } {
+  const blocking = requests.filter((r) => r.status === "approved");
+  const restock = new Map<string, number>();
+  for (const item of items) {
+    const returned = requests
+      .filter((r) => r.orderItemId === item.id && r.type === "return" && r.status === "received")
+      .reduce((sum, r) => sum + r.quantity, 0);
+    restock.set(item.id, Math.max(0, item.quantity - returned));
+  }
+  return { blocking, restock };
+}
@@ -11,6 +11,14 @@ import {
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { EMPLOYEE_ROLES } from "./permissions";
+import type { OrderStatus } from "./order-status";
+import type { ReturnRequestStatus, ReturnRequestType } from "./returns";
+import type { InvoiceKind, InvoiceLine, InvoiceParty, InvoiceTotals } from "./gst";
+import type { AddressSnapshot } from "./addresses";
+import type { EmailOutboxStatus, OrderEmailCategory } from "./notifications";
+import type { EmailTemplateKey } from "./email-templates";
+import { PAYMENT_PROVIDERS, type LineSplit, type PaymentProviderId, type PaymentStatus } from "./payments";
 
 /* =========================================================
    CATEGORIES
@@ -25,6 +33,21 @@ export const categories = pgTable("categories", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+/* =========================================================
+   OFFICE LOCATIONS (pickup points for office delivery)
+   =======================================================*/
+export const officeLocations = pgTable("office_locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  address: text("address").notNull(),
+  pickupHours: text("pickup_hours"), // shown to employees, e.g. "Mon-Fri 10:00-18:00, desk B2"
+  // orders waiting at the desk at once (not yet delivered, cancelled or returned); null = no limit
+  capacity: integer("capacity"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 /* =========================================================
    DOMAIN WHITELIST
    =======================================================*/
@@ -47,20 +70,28 @@ export const employees = pgTable("employees", {
   lastName: text("last_name").notNull(),
   email: text("email").notNull().unique(),
   phoneNumber: text("phone_number"),
+  // cached balance; only ever moved through points_transactions (see storage.postPointsTransaction)
   points: integer("points").notNull().default(0),
   loginAttempts: integer("login_attempts").default(0),
   isLocked: boolean("is_locked").default(false),
+  lockReason: text("lock_reason"),
+  lockedAt: timestamp("locked_at"),
+  // null while locked = stays locked until an admin unlocks
+  lockedUntil: timestamp("locked_until"),
 
   bulkBuyAllowed: boolean("bulk_buy_allowed").default(false),
 
-  // ✅ NEW: role
-  role: text("role").notNull().default("user"), // user | admin | procurement
+  // ✅ NEW: role (see shared/permissions.ts for what each role may do)
+  role: text("role").notNull().default("user"),
+
+  // order email categories the employee switched off (shared/notifications.ts)
+  emailOptOuts: text("email_opt_outs").array().$type<OrderEmailCategory[]>().notNull().default(sql`ARRAY[]::text[]`),
 
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 
-export const employeeRoleSchema = z.enum(["user", "admin", "procurement"]);
+export const employeeRoleSchema = z.enum(EMPLOYEE_ROLES);
 export type EmployeeRole = z.infer<typeof employeeRoleSchema>;
 
 
@@ -93,6 +124,7 @@ export const products = pgTable("products", {
 
   // ✅ NEW: Extra fields
   gst: text("gst").default("0"),
+  hsnCode: text("hsn_code"), // printed on tax invoices
   stockStatus: text("stock_status").default("non_committed"), // committed | non_committed
   brandStore: boolean("brand_store").default(false),
   brand: text("brand").default(""),
@@ -104,26 +136,221 @@ export const products = pgTable("products", {
 /* =========================================================
    ORDERS
    =======================================================*/
+export type OrderCancellation = {
+  cancelledAt: string;
+  byEmployee: boolean; // self-service vs admin
+  pointsRefunded: number;
+  copayRefundInr: number;
+  refundStatus: "none" | "pending" | "initiated" | "failed";
+  refundTxnId?: string | null;
+  refundError?: string | null;
+};
+
+// How one order item was paid for: points from the balance and its share of the copay
+export type OrderItemSplit = LineSplit & { orderItemId: string; usedPoints: number };
+
+// One row per checkout; the products are in order_items.
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: text("order_id").notNull().unique(),
   employeeId: varchar("employee_id").references(() => employees.id).notNull(),
-  productId: varchar("product_id").references(() => products.id).notNull(),
+  // legacy single-product columns, kept for rows placed before order_items;
+  // backfillOrderItems() copies them into an item, new orders leave them null
+  productId: varchar("product_id").references(() => products.id),
   selectedColor: text("selected_color"),
   selectedSize: text("selected_size"),
-  quantity: integer("quantity").notNull().default(1),
-  status: text("status").default("confirmed"),
+  quantity: integer("quantity"),
+  status: text("status").$type<OrderStatus>().default("confirmed"),
   orderDate: timestamp("order_date").defaultNow(),
   metadata: json("metadata").$type<{
-    usedPoints?: number;
-    unitPrice?: number;
+    usedPoints?: number; // order total in points
+    totalInr?: number;
+    unitPrice?: number; // legacy rows only
     copayInr?: number | null;
-    paymentId?: string | null;
-    phonepeOrderId?: string | null;
+    paymentId?: string | null; // the gateway's transaction id
+    paymentProvider?: PaymentProviderId | null;
+    paymentRef?: string | null; // our merchant transaction id
+    phonepeOrderId?: string | null; // paymentRef of orders placed before the gateway layer
     deliveryMethod?: "office" | "delivery" | null;
-    deliveryAddress?: string | null;
+    deliveryAddress?: string | null; // formatted; deliveryAddressSnapshot has the fields
+    deliveryAddressSnapshot?: AddressSnapshot | null;
+    cancellation?: OrderCancellation;
+    pointsSplit?: OrderItemSplit[]; // missing on orders placed before the points slider
   } | null>().default(null),
   campaignId: varchar("campaign_id").references(() => campaigns.id),
+  officeLocationId: varchar("office_location_id").references(() => officeLocations.id), // office pickups only
+  // office pickups: the code shown at the distribution desk, and who handed the order over
+  handoverCode: text("handover_code").unique(),
+  handedOverAt: timestamp("handed_over_at"),
+  handedOverByEmployeeId: varchar("handed_over_by_employee_id").references(() => employees.id),
+});
+
+/* =========================================================
+   EMPLOYEE ADDRESSES (delivery address book)
+   =======================================================*/
+// Orders copy the address at checkout (metadata.deliveryAddressSnapshot), so rows can be edited or deleted freely.
+export const employeeAddresses = pgTable("employee_addresses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").references(() => employees.id).notNull(),
+  label: text("label").notNull().default("Home"),
+  line1: text("line1").notNull(),
+  line2: text("line2"),
+  city: text("city").notNull(),
+  state: text("state").notNull(),
+  pincode: text("pincode").notNull(),
+  phone: text("phone").notNull(),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+/* =========================================================
+   ORDER ITEMS
+   =======================================================*/
+export const orderItems = pgTable("order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  selectedColor: text("selected_color"),
+  selectedSize: text("selected_size"),
+  quantity: integer("quantity").notNull().default(1),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }), // INR at the slab price paid
+  usedPoints: integer("used_points").notNull().default(0), // line total in points
+  campaignId: varchar("campaign_id").references(() => campaigns.id),
+});
+
+/* =========================================================
+   ORDER STATUS HISTORY
+   =======================================================*/
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id).notNull(),
+  fromStatus: text("from_status").$type<OrderStatus>(), // null for the placement entry
+  toStatus: text("to_status").$type<OrderStatus>().notNull(),
+  actorEmployeeId: varchar("actor_employee_id"), // admin who changed it; the employee on placement
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/* =========================================================
+   RETURN / EXCHANGE REQUESTS (RMA)
+   =======================================================*/
+export const returnRequests = pgTable("return_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rmaNumber: text("rma_number").notNull().unique(), // RMA-2026-0001
+  orderId: varchar("order_id").references(() => orders.id).notNull(),
+  orderItemId: varchar("order_item_id").references(() => orderItems.id).notNull(),
+  employeeId: varchar("employee_id").references(() => employees.id).notNull(),
+  type: text("type").$type<ReturnRequestType>().notNull(),
+  quantity: integer("quantity").notNull().default(1),
+  reason: text("reason").notNull(),
+  details: text("details"),
+  photos: json("photos").$type<string[]>().notNull().default([]),
+  // exchange only: the variant the employee wants instead
+  exchangeColor: text("exchange_color"),
+  exchangeSize: text("exchange_size"),
+  status: text("status").$type<ReturnRequestStatus>().notNull().default("requested"),
+  refundPoints: integer("refund_points"), // set when a return is approved
+  adminNote: text("admin_note"),
+  decidedByEmployeeId: varchar("decided_by_employee_id"),
+  decidedAt: timestamp("decided_at"),
+  receivedAt: timestamp("received_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/* =========================================================
+   SHIPMENTS (courier AWB + tracking events)
+   =======================================================*/
+// At most one shipment per order; re-importing an AWB updates it in place.
+export const shipments = pgTable("shipments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id).notNull().unique(),
+  courier: text("courier").notNull(),
+  awb: text("awb").notNull(),
+  dispatchedAt: timestamp("dispatched_at"),
+  expectedAt: timestamp("expected_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const shipmentEvents = pgTable("shipment_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shipmentId: varchar("shipment_id").references(() => shipments.id).notNull(),
+  description: text("description").notNull(), // courier's wording, e.g. "In transit"
+  location: text("location"),
+  occurredAt: timestamp("occurred_at").notNull(),
+  actorEmployeeId: varchar("actor_employee_id"), // admin who added or imported it
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/* =========================================================
+   ID COUNTERS (ORD-2026-001, BBR-2026-0001, ...)
+   =======================================================*/
+export const idCounters = pgTable("id_counters", {
+  name: text("name").primaryKey(), // prefix incl. year, e.g. "ORD-2026"
+  value: integer("value").notNull().default(0),
+});
+
+/* =========================================================
+   PAYMENTS (copay attempts)
+   One row per gateway attempt, written before the employee is sent
+   to pay. The cart is frozen here so the orders can be placed (or
+   the money refunded) without the browser coming back.
+   =======================================================*/
+export type PaymentCartLine = {
+  productId: string;
+  quantity: number;
+  selectedColor: string | null;
+  selectedSize: string | null;
+  campaignId?: string | null;
+  unitPrice: number;
+  usedPoints: number;
+  split?: LineSplit;
+};
+
+export type PaymentCartSnapshot = {
+  lines: PaymentCartLine[];
+  totalPoints: number;
+  pointsCovered: number; // what the payment buys; the rest comes from the balance
+  totalInr: number;
+  delivery: {
+    deliveryMethod: "office" | "delivery";
+    deliveryAddress: string | null;
+    deliveryAddressSnapshot: AddressSnapshot | null;
+    officeLocationId: string | null;
+  };
+};
+
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ref: text("ref").notNull().unique(), // our merchant transaction id
+  provider: text("provider").$type<PaymentProviderId>().notNull(),
+  employeeId: varchar("employee_id").references(() => employees.id).notNull(),
+  amountInr: integer("amount_inr").notNull(),
+  cart: json("cart").$type<PaymentCartSnapshot>().notNull(),
+  status: text("status").$type<PaymentStatus>().notNull().default("pending"),
+  gatewayRef: text("gateway_ref"), // e.g. the Razorpay order id
+  gatewayPaymentId: text("gateway_payment_id"),
+  gatewayResponse: json("gateway_response").$type<unknown>(), // last status check or webhook
+  orderIds: json("order_ids").$type<string[]>(),
+  checks: integer("checks").notNull().default(0),
+  lastCheckedAt: timestamp("last_checked_at"),
+  error: text("error"), // why no orders were placed, and any refund error
+  refundTxnId: text("refund_txn_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+/* =========================================================
+   CHECKOUT KEYS (idempotent checkout / consumed payments)
+   =======================================================*/
+export const checkoutKeys = pgTable("checkout_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // "order:<Idempotency-Key>" or "<provider>:<merchantTransactionId>" (paymentCheckoutKey)
+  key: text("key").notNull().unique(),
+  employeeId: varchar("employee_id").references(() => employees.id).notNull(),
+  orderIds: json("order_ids").$type<string[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 /* =========================================================
@@ -147,7 +374,11 @@ export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   employeeId: varchar("employee_id").references(() => employees.id).notNull(),
   token: text("token").notNull().unique(),
+  // slides forward with activity (idle timeout), capped by the absolute lifetime
   expiresAt: timestamp("expires_at").notNull(),
+  userAgent: text("user_agent"),
+  ip: text("ip"),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -165,6 +396,58 @@ export const branding = pgTable("branding", {
   updatedAt: timestamp("updated_at").defaultNow(),
   inrPerPoint: decimal("inr_per_point", { precision: 10, scale: 2 }).default("1.00"),
   maxSelectionsPerUser: integer("max_selections_per_user").default(1),
+  // hours after placing an order during which the employee may cancel it; 0 turns self-cancel off
+  selfCancelWindowHours: integer("self_cancel_window_hours").default(24),
+  // seller details printed on tax invoices
+  gstin: text("gstin"),
+  invoiceAddress: text("invoice_address"),
+  gstStateCode: text("gst_state_code"), // "29" = Karnataka; decides CGST+SGST vs IGST
+  // shown in email footers and copied on bulk-buy emails, with the extra CC list
+  supportEmail: text("support_email"),
+  emailCc: text("email_cc").array().notNull().default(sql`ARRAY[]::text[]`),
+  // gateway for copay payments (shared/payments.ts)
+  paymentProvider: text("payment_provider").$type<PaymentProviderId>().notNull().default("phonepe"),
+});
+
+/* =========================================================
+   EMAIL TEMPLATES
+   Admin overrides of the defaults in shared/email-templates.ts;
+   a template without a row sends its default.
+   =======================================================*/
+export const emailTemplates = pgTable("email_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").$type<EmailTemplateKey>().notNull().unique(),
+  subject: text("subject").notNull(),
+  fromName: text("from_name").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  updatedByEmployeeId: varchar("updated_by_employee_id").references(() => employees.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+/* =========================================================
+   EMAIL OUTBOX
+   Rendered messages waiting for, or done with, the SMTP worker.
+   Sent and failed rows are kept as the delivery log.
+   =======================================================*/
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateKey: text("template_key").$type<EmailTemplateKey>(), // null for ad-hoc messages
+  to: text("to").array().notNull(),
+  cc: text("cc").array().notNull().default(sql`ARRAY[]::text[]`),
+  bcc: text("bcc").array().notNull().default(sql`ARRAY[]::text[]`),
+  fromName: text("from_name").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  status: text("status").$type<EmailOutboxStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  messageId: text("message_id"), // from the SMTP server once sent
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 /* =========================================================
@@ -173,10 +456,75 @@ export const branding = pgTable("branding", {
 export const otps = pgTable("otps", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull(),
+  // salted scrypt hash of the code, never the code itself
   code: text("code").notNull(),
   expiresAt: timestamp("expires_at").notNull(),
   usedAt: timestamp("used_at"),
-  metadata: json("metadata").$type<{ localCode?: string | null } | null>().default(null),
+  metadata: json("metadata").$type<Record<string, unknown> | null>().default(null),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/* =========================================================
+   AUTH ATTEMPTS (OTP send / verify throttling)
+   =======================================================*/
+export const authAttempts = pgTable("auth_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull(),
+  ip: text("ip"),
+  kind: text("kind").$type<"otp_send" | "otp_verify">().notNull(),
+  success: boolean("success").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/* =========================================================
+   EMPLOYEE LOCK HISTORY
+   =======================================================*/
+export const employeeLockEvents = pgTable("employee_lock_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").references(() => employees.id).notNull(),
+  action: text("action").$type<"locked" | "unlocked">().notNull(),
+  reason: text("reason"),
+  ip: text("ip"),
+  // admin who unlocked; null for automatic locks/unlocks
+  actorEmployeeId: varchar("actor_employee_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/* =========================================================
+   POINTS LEDGER
+   =======================================================*/
+export const POINTS_TRANSACTION_TYPES = ["grant", "redeem", "refund", "expire", "adjust", "transfer"] as const;
+export type PointsTransactionType = (typeof POINTS_TRANSACTION_TYPES)[number];
+
+export const pointsTransactions = pgTable("points_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").references(() => employees.id).notNull(),
+  type: text("type").$type<PointsTransactionType>().notNull(),
+  // signed: credits are positive, debits negative
+  amount: integer("amount").notNull(),
+  balanceAfter: integer("balance_after").notNull(),
+  orderId: varchar("order_id"), // redeem / refund
+  actorEmployeeId: varchar("actor_employee_id"), // admin who granted / adjusted
+  counterpartyEmployeeId: varchar("counterparty_employee_id"), // other side of a transfer
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/* =========================================================
+   AUDIT EVENTS (admin mutations)
+   =======================================================*/
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorEmployeeId: varchar("actor_employee_id"),
+  actorEmail: text("actor_email"),
+  action: text("action").notNull(), // e.g. "employee.update"
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id"),
+  // only the fields that changed; full row on create/delete
+  changes: json("changes")
+    .$type<{ before: Record<string, unknown> | null; after: Record<string, unknown> | null }>()
+    .notNull(),
+  ip: text("ip"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -310,6 +658,28 @@ export const bulkBuyRequests = pgTable("bulk_buy_requests", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+/* =========================================================
+   TAX INVOICES & CREDIT NOTES
+   =======================================================*/
+// Immutable snapshot of what was billed; the PDF is rendered from this row.
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  number: text("number").notNull().unique(), // INV-2627-00001 / CN-2627-00001, per financial year
+  kind: text("kind").$type<InvoiceKind>().notNull(),
+  // exactly one source: a copay order or an approved bulk-buy request
+  orderId: varchar("order_id").references(() => orders.id),
+  bulkBuyRequestId: varchar("bulk_buy_request_id").references(() => bulkBuyRequests.id),
+  originalInvoiceId: varchar("original_invoice_id"), // credit notes: the invoice they reverse
+  employeeId: varchar("employee_id").references(() => employees.id).notNull(),
+  supplier: json("supplier").$type<InvoiceParty>().notNull(),
+  billTo: json("bill_to").$type<InvoiceParty>().notNull(),
+  placeOfSupply: text("place_of_supply").notNull(), // GST state code
+  pricesIncludeTax: boolean("prices_include_tax").notNull().default(true),
+  lines: json("lines").$type<InvoiceLine[]>().notNull(),
+  totals: json("totals").$type<InvoiceTotals>().notNull(),
+  issuedAt: timestamp("issued_at").defaultNow(),
+});
+
 /* =========================================================
    ZOD INSERT SCHEMAS
    =======================================================*/
@@ -321,6 +691,14 @@ export const insertCategorySchema = createInsertSchema(categories).pick({
   sortOrder: true,
 });
 
+export const insertOfficeLocationSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  address: z.string().trim().min(1, "Address is required").max(500),
+  pickupHours: z.string().trim().max(200).nullable().default(null),
+  capacity: z.number().int().positive("Capacity must be at least 1").nullable().default(null),
+  isActive: z.boolean().default(true),
+});
+
 export const insertDomainWhitelistSchema = z.object({
   domain: z.string().min(1, "Domain is required").refine(
     (val) => val.includes(".") && !val.includes("@"),
@@ -379,6 +757,7 @@ export const insertProductSchema = z.object({
 
   // ✅ NEW: Extra fields
   gst: z.string().default("0"),
+  hsnCode: z.string().regex(/^(\d{4}|\d{6}|\d{8})$/, "HSN code must be 4, 6 or 8 digits").nullable().default(null),
   stockStatus: z.enum(["committed", "non_committed"]).default("non_committed"),
   brandStore: z.boolean().default(false),
   brand: z.string().default(""),
@@ -391,22 +770,33 @@ export const insertProductSchema = z.object({
 export const insertOrderSchema = createInsertSchema(orders)
   .pick({
     employeeId: true,
-    productId: true,
-    selectedColor: true,
-    selectedSize: true,
-    quantity: true,
     metadata: true,
   })
   .extend({
     metadata: z
       .object({
         usedPoints: z.number().optional(),
-        unitPrice: z.number().optional(),
+        totalInr: z.number().optional(),
         copayInr: z.number().optional().nullable(),
         paymentId: z.string().optional().nullable(),
+        paymentProvider: z.enum(PAYMENT_PROVIDERS).optional().nullable(),
+        paymentRef: z.string().optional().nullable(),
         phonepeOrderId: z.string().optional().nullable(),
         deliveryMethod: z.enum(["office", "delivery"]).optional().default("office"),
         deliveryAddress: z.string().optional().nullable(),
+        deliveryAddressSnapshot: z
+          .object({
+            addressId: z.string().nullable(),
+            label: z.string(),
+            line1: z.string(),
+            line2: z.string().nullable(),
+            city: z.string(),
+            state: z.string(),
+            pincode: z.string(),
+            phone: z.string(),
+          })
+          .optional()
+          .nullable(),
       })
       .optional()
       .nullable(),
@@ -518,13 +908,36 @@ export type Product = typeof products.$inferSelect;
 
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
+export type OrderItem = typeof orderItems.$inferSelect;
+export type EmployeeAddress = typeof employeeAddresses.$inferSelect;
+export type InsertOfficeLocation = z.infer<typeof insertOfficeLocationSchema>;
+export type OfficeLocation = typeof officeLocations.$inferSelect;
 
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 export type CartItem = typeof cartItems.$inferSelect;
 
 export type Session = typeof sessions.$inferSelect;
 export type Branding = typeof branding.$inferSelect;
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxMessage = typeof emailOutbox.$inferInsert;
+// what the admin delivery log shows; bodies stay in the database
+export type EmailOutboxEntry = Omit<EmailOutboxMessage, "html" | "text">;
 export type OTP = typeof otps.$inferSelect;
+export type AuthAttempt = typeof authAttempts.$inferSelect;
+export type EmployeeLockEvent = typeof employeeLockEvents.$inferSelect;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type PointsTransaction = typeof pointsTransactions.$inferSelect;
+export type CheckoutKey = typeof checkoutKeys.$inferSelect;
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = typeof payments.$inferInsert;
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+export type ReturnRequest = typeof returnRequests.$inferSelect;
+export type Shipment = typeof shipments.$inferSelect;
+export type ShipmentEvent = typeof shipmentEvents.$inferSelect;
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = typeof invoices.$inferInsert;
 
 export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
 export type Campaign = typeof campaigns.$inferSelect;